@@ -110,7 +110,7 @@ describe('ccpet uncovered functions', () => {
       }));
 
       // Should not throw when creating status line (AnimationCounter should handle the error)
-      expect(() => new ClaudeCodeStatusLine(false)).not.toThrow();
+      expect(() => new ClaudeCodeStatusLine()).not.toThrow();
     });
 
     it('should handle file system errors in saveCounter gracefully', async () => {
@@ -128,7 +128,7 @@ describe('ccpet uncovered functions', () => {
         })
       }));
 
-      const statusLine = new ClaudeCodeStatusLine(false);
+      const statusLine = new ClaudeCodeStatusLine();
       
       // Should not throw when getting status (which calls saveCounter internally)
       expect(() => statusLine.getStatusDisplay()).not.toThrow();
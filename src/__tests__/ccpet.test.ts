@@ -56,6 +56,11 @@ vi.mock('../utils/colors', () => ({
 }));
 
 import { ClaudeCodeStatusLine } from '../ccpet';
+import { FixedClock } from '../core/Clock';
+import { CURRENT_SCHEMA_VERSION } from '../services/stateMigrations';
+import { InMemoryPetRepository } from '../services/InMemoryPetRepository';
+import { SeededRandom } from '../core/Random';
+import { AnimalType, PET_CONFIG } from '../core/config';
 import * as fs from 'fs';
 import * as os from 'os';
 import * as path from 'path';
@@ -66,7 +71,8 @@ vi.mock('os');
 vi.mock('path');
 
 // Mock JSONL processing utility
-vi.mock('../utils/jsonl', () => ({
+vi.mock('../utils/jsonl', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/jsonl')>()),
   getTokenMetrics: vi.fn(() => Promise.resolve({
     inputTokens: 100,
     outputTokens: 50,
@@ -133,8 +139,15 @@ describe('ClaudeCodeStatusLine', () => {
   });
 
   // Helper function to create ClaudeCodeStatusLine with mocked dependencies
+  // 状态文件先写入临时文件，再 rename 到目标路径
+  const expectAtomicWrite = (filePath: string, content: unknown) => {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    expect(fs.writeFileSync).toHaveBeenCalledWith(tempPath, content, 'utf8');
+    expect(fs.renameSync).toHaveBeenCalledWith(tempPath, filePath);
+  };
+
   const createStatusLine = (testMode: boolean = true) => {
-    return new ClaudeCodeStatusLine(testMode, mockConfigService);
+    return new ClaudeCodeStatusLine({ testMode, configService: mockConfigService });
   };
 
   describe('constructor', () => {
@@ -172,6 +185,43 @@ describe('ClaudeCodeStatusLine', () => {
       
       expect(() => createStatusLine()).not.toThrow();
     });
+
+    it('should apply the decay policy selected in the user config', () => {
+      const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString();
+      const savedState = {
+        energy: 50,
+        expression: '(o_o)',
+        lastFeedTime: twoHoursAgo,
+        totalTokensConsumed: 10,
+        accumulatedTokens: 0
+      };
+      const baseConfig = mockConfigService.getConfig();
+      const steppedConfigService = {
+        ...mockConfigService,
+        getConfig: vi.fn(() => ({
+          ...baseConfig,
+          pet: { ...baseConfig.pet, decayPolicy: 'stepped', decayOptions: { stepMinutes: 60, stepAmount: 10 } }
+        }))
+      };
+      
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(savedState));
+      
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: steppedConfigService as any });
+      
+      expect(statusLine.getStatusDisplay()).toMatch(/^\(u_u\) ●●●○○○○○○○ 30\.00/);
+    });
+
+    it('should use the injected clock and random source for a new pet', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+      const clock = new FixedClock(new Date('2025-08-21T12:00:00Z'));
+      
+      const first = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock, random: new SeededRandom('repro') });
+      const second = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock, random: new SeededRandom('repro') });
+      
+      expect(second.getPetState()).toEqual(first.getPetState());
+      expect(first.getPetState().birthTime).toEqual(new Date('2025-08-21T12:00:00Z'));
+    });
   });
 
   describe('getStatusDisplay', () => {
@@ -203,6 +253,32 @@ describe('ClaudeCodeStatusLine', () => {
       
       expect(display).toBe('(o_o) ●●●●●○○○○○ 50.00 (0) 💖10');
     });
+
+    it('should draw the pet sprite when display.sprites is enabled', () => {
+      vi.mocked(fs.existsSync).mockImplementation((filePath) => filePath !== '/mock/home/.claude-pet/species');
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({
+        energy: 50,
+        expression: '(o_o)',
+        animalType: 'cat',
+        lastFeedTime: new Date(Date.now() + 60000).toISOString(),
+        totalTokensConsumed: 10,
+        accumulatedTokens: 0
+      }));
+      const baseConfig = mockConfigService.getConfig();
+      const spriteConfigService = {
+        ...mockConfigService,
+        getConfig: vi.fn(() => ({
+          ...baseConfig,
+          display: { ...baseConfig.display, sprites: true, line1: { enabled: true, items: ['expression', 'energy-value'] } }
+        }))
+      };
+      
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: spriteConfigService });
+      const display = statusLine.getStatusDisplay();
+      
+      expect(display.split('\n')[0]).toBe(' /\\_/\\  50.00');
+      expect(display.split('\n')[1]).toBe('( o.o )');
+    });
   });
 
   describe('processTokensAndGetStatusDisplay', () => {
@@ -228,6 +304,146 @@ describe('ClaudeCodeStatusLine', () => {
       expect(display).toBe('(u_u) ●●●○○○○○○○ 30.00 (150) 💖150\nInput: 100 Output: 50 Cached: 0 Total: 150\nCtx: 4.1K Ctx: 2.0% Ctx(u): 2.6% Cost: $0.01'); // 30% energy
     });
 
+    it('should feed on top of tokens saved by another session in the meantime', async () => {
+      const initialState = {
+        energy: 30,
+        expression: '(o_o)',
+        lastFeedTime: new Date().toISOString(),
+        totalTokensConsumed: 0,
+        accumulatedTokens: 0
+      };
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(initialState));
+      
+      const statusLine = createStatusLine();
+      // 另一个会话在本次渲染前保存了自己的喂食
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ ...initialState, totalTokensConsumed: 500, accumulatedTokens: 500 }));
+      await statusLine.processTokensAndGetStatusDisplay(mockClaudeCodeInput);
+      
+      expect(statusLine.getPetState().accumulatedTokens).toBe(650);
+      expect(fs.openSync).toHaveBeenCalledWith(`${mockStateFile}.lock`, 'wx');
+      expectAtomicWrite(mockStateFile, expect.stringContaining('"accumulatedTokens": 650'));
+    });
+
+    it('should raise happiness from output tokens and lines added', async () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({
+        energy: 90,
+        happiness: 50,
+        health: 100,
+        expression: '(^_^)',
+        lastFeedTime: new Date().toISOString(),
+        totalTokensConsumed: 0,
+        accumulatedTokens: 0
+      }));
+      
+      const statusLine = createStatusLine();
+      await statusLine.processTokensAndGetStatusDisplay(mockClaudeCodeInput);
+      
+      // 50 output tokens / 10000 + 10 lines / 20
+      expect(statusLine.getPetState().happiness).toBeCloseTo(50 + 0.005 + 0.5, 5);
+      expect(statusLine.getPetState().linesAdded).toEqual({ sessionId: 'test-session', lines: 10 });
+    });
+
+    it('should tire the pet out after a long session', async () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({
+        energy: 90,
+        expression: '(^_^)',
+        lastFeedTime: new Date().toISOString(),
+        totalTokensConsumed: 0,
+        accumulatedTokens: 0
+      }));
+      const conditionsConfigService = {
+        ...mockConfigService,
+        getConfig: vi.fn(() => ({
+          ...mockConfigService.getConfig(),
+          pet: { ...mockConfigService.getConfig().pet, conditions: { exhaustedSessionMinutes: 60 } }
+        }))
+      };
+      
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: conditionsConfigService });
+      await statusLine.processTokensAndGetStatusDisplay({
+        ...mockClaudeCodeInput,
+        cost: { ...mockClaudeCodeInput.cost, total_duration_ms: 90 * 60 * 1000 }
+      });
+      
+      expect(statusLine.getPetState().conditions?.exhausted).toBeInstanceOf(Date);
+      expect(statusLine.getPetState().expression).toBe(PET_CONFIG.CONDITIONS.EXPRESSIONS.exhausted[0]);
+    });
+
+    it('should announce a newly unlocked achievement for one render', async () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({
+        energy: 90,
+        expression: '(^_^)',
+        lastFeedTime: new Date().toISOString(),
+        totalTokensConsumed: 0,
+        accumulatedTokens: 0,
+        totalLifetimeTokens: 999900
+      }));
+      
+      const statusLine = createStatusLine();
+      const display = await statusLine.processTokensAndGetStatusDisplay(mockClaudeCodeInput);
+      
+      expect(display.split('\n').pop()).toBe('🏆 Achievement unlocked: 💎 Millionaire');
+      expect(statusLine.getPetState().achievements?.['first-million']).toBeInstanceOf(Date);
+      expect(statusLine.getStatusDisplay()).not.toContain('Achievement unlocked');
+    });
+
+    it('should unlock accessories and show the equipped one', async () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      // 渲染时会在锁内重新读取状态文件，这里让读取返回最近一次写入的内容
+      let savedState = JSON.stringify({
+        energy: 90,
+        expression: '(^_^)',
+        birthTime: new Date().toISOString(),
+        lastFeedTime: new Date().toISOString(),
+        totalTokensConsumed: 0,
+        accumulatedTokens: 0,
+        totalLifetimeTokens: 200000
+      });
+      vi.mocked(fs.readFileSync).mockImplementation(() => savedState);
+      vi.mocked(fs.writeFileSync).mockImplementation((_filePath, data) => {
+        savedState = data as string;
+      });
+      
+      const statusLine = createStatusLine();
+      statusLine.equipAccessory('bow');
+      const display = await statusLine.processTokensAndGetStatusDisplay(mockClaudeCodeInput);
+      
+      expect(statusLine.getPetState().inventory).toContain('bow');
+      expect(display.startsWith('🎀(^_^)')).toBe(true);
+      expect(() => statusLine.equipAccessory('crown')).toThrow('Crown is still locked.');
+    });
+
+    it('should record the feed with its token breakdown in the pet journal', async () => {
+      const initialState = {
+        uuid: 'journal-pet',
+        energy: 30,
+        expression: '(o_o)',
+        lastFeedTime: new Date().toISOString(),
+        totalTokensConsumed: 0,
+        accumulatedTokens: 0
+      };
+      
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(initialState));
+      vi.mocked(fs.statSync).mockReturnValue({ size: 0 } as any);
+      
+      const statusLine = createStatusLine();
+      await statusLine.processTokensAndGetStatusDisplay(mockClaudeCodeInput);
+      
+      const journalLines = vi.mocked(fs.appendFileSync).mock.calls
+        .filter(call => call[0] === '/mock/home/.claude-pet/journal/journal-pet.ndjson')
+        .map(call => JSON.parse(call[1] as string));
+      expect(journalLines).toContainEqual(expect.objectContaining({
+        type: 'fed',
+        tokens: 150,
+        details: { sessionId: 'test-session', inputTokens: 100, outputTokens: 50, cachedTokens: 0 }
+      }));
+    });
+
     it('should handle token processing errors gracefully', async () => {
       const { getTokenMetrics } = await import('../utils/jsonl');
       vi.mocked(getTokenMetrics).mockRejectedValueOnce(new Error('JSONL processing error'));
@@ -315,7 +531,7 @@ describe('ClaudeCodeStatusLine', () => {
       const display = await statusLine.processTokensAndGetStatusDisplay(mockClaudeCodeInput);
       
       // Assert - Energy should increase to 97 (95 + 2 from 2M tokens), accumulated tokens should be 0
-      expect(display).toBe('(^_^) ●●●●●●●●●● 97.00 (0) 💖2.00M\nInput: 1.00M Output: 1.00M Cached: 0 Total: 2.00M\nCtx: 8.2K Ctx: 4.1% Ctx(u): 5.1% Cost: $0.01'); // 97% energy
+      expect(display).toBe('(^_^) ●●●●●●●●●● 97.00 (0) 💖2.00M\nInput: 1.00M Output: 1.00M Cached: 0 Total: 2.00M\n🏆 Achievement unlocked: 💎 Millionaire'); // 97% energy, first 1M lifetime tokens; the toast takes the last of maxLines 3
     });
   });
 
@@ -326,11 +542,7 @@ describe('ClaudeCodeStatusLine', () => {
       const statusLine = createStatusLine();
       statusLine.saveState();
       
-      expect(fs.writeFileSync).toHaveBeenCalledWith(
-        mockStateFile,
-        expect.stringContaining('"energy": 100'),
-        'utf8'
-      );
+      expectAtomicWrite(mockStateFile, expect.stringContaining('"energy": 100'));
     });
 
     it('should handle save errors gracefully', () => {
@@ -367,11 +579,7 @@ describe('ClaudeCodeStatusLine', () => {
         
         expect(statusLine.isPetDead()).toBe(false);
         // Verify state was saved after reset
-        expect(fs.writeFileSync).toHaveBeenCalledWith(
-          mockStateFile,
-          expect.stringContaining('"energy": 100'),
-          'utf8'
-        );
+        expectAtomicWrite(mockStateFile, expect.stringContaining('"energy": 100'));
       });
 
       it('should not reset pet when pet is alive', () => {
@@ -395,7 +603,7 @@ describe('ClaudeCodeStatusLine', () => {
         expect(statusLine.isPetDead()).toBe(false);
         // State should remain unchanged
         const display = statusLine.getStatusDisplay();
-        expect(display).toBe('(o_o) ●●●●●○○○○○ 50.00 (500.0K) 💖1.00M'); // Still at 50% energy
+        expect(display).toBe('(o_o) ●●●●●○○○○○ 50.00 (500.0K) 💖1.00M\n🏆 Achievement unlocked: 💎 Millionaire'); // Still at 50% energy
       });
 
       it('should save state after successful adoption', () => {
@@ -418,21 +626,9 @@ describe('ClaudeCodeStatusLine', () => {
         statusLine.adoptNewPet();
         
         // Should call saveState after reset
-        expect(fs.writeFileSync).toHaveBeenCalledWith(
-          mockStateFile,
-          expect.stringContaining('"energy": 100'),
-          'utf8'
-        );
-        expect(fs.writeFileSync).toHaveBeenCalledWith(
-          mockStateFile,
-          expect.stringContaining('"totalTokensConsumed": 0'),
-          'utf8'
-        );
-        expect(fs.writeFileSync).toHaveBeenCalledWith(
-          mockStateFile,
-          expect.stringContaining('"accumulatedTokens": 0'),
-          'utf8'
-        );
+        expectAtomicWrite(mockStateFile, expect.stringContaining('"energy": 100'));
+        expectAtomicWrite(mockStateFile, expect.stringContaining('"totalTokensConsumed": 0'));
+        expectAtomicWrite(mockStateFile, expect.stringContaining('"accumulatedTokens": 0'));
       });
 
       it('should handle VSCode notification if available', () => {
@@ -472,6 +668,187 @@ describe('ClaudeCodeStatusLine', () => {
       });
     });
 
+    describe('revival window', () => {
+      const now = new Date('2025-08-21T12:00:00Z');
+      const deadState = (hoursSinceDeath: number) => ({
+        uuid: 'dead-uuid',
+        petName: 'Rex',
+        energy: 0,
+        expression: '(x_x)',
+        lastFeedTime: now.toISOString(),
+        lastDecayTime: now.toISOString(),
+        totalTokensConsumed: 0,
+        accumulatedTokens: 0,
+        totalLifetimeTokens: 0,
+        critical: { since: new Date(now.getTime() - hoursSinceDeath * 60 * 60 * 1000).toISOString(), tokens: 0 }
+      });
+
+      it('should keep a dead pet during its revival window', () => {
+        vi.mocked(fs.existsSync).mockReturnValue(true);
+        vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(deadState(2)));
+
+        const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now) });
+        statusLine.getStatusDisplay();
+
+        expect(statusLine.isPetDead()).toBe(true);
+        expect(statusLine.getRevivalStatus()).toMatchObject({ tokens: 0, quotaTokens: PET_CONFIG.REVIVAL.QUOTA_TOKENS });
+        expect(fs.renameSync).not.toHaveBeenCalledWith(expect.anything(), '/mock/home/.claude-pet/graveyard/Rex/pet-state.json');
+      });
+
+      it('should move the pet to the graveyard once the window expires', () => {
+        vi.mocked(fs.existsSync).mockImplementation((filePath) => filePath !== '/mock/home/.claude-pet/graveyard/Rex');
+        vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(deadState(25)));
+
+        const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now) });
+        statusLine.getStatusDisplay();
+
+        expectAtomicWrite('/mock/home/.claude-pet/graveyard/Rex/pet-state.json', expect.stringContaining('"petName": "Rex"'));
+        expect(statusLine.isPetDead()).toBe(false);
+        expect(statusLine.getPetState().uuid).not.toBe('dead-uuid');
+      });
+    });
+
+    describe('hardcore difficulty', () => {
+      const hardcoreConfigService = {
+        ...mockConfigService,
+        getConfig: vi.fn(() => ({
+          ...mockConfigService.getConfig(),
+          pet: { ...mockConfigService.getConfig().pet, difficulty: 'hardcore' }
+        }))
+      };
+      const aliveState = {
+        uuid: 'alive-uuid',
+        petName: 'Luna',
+        energy: 50,
+        expression: '(o_o)',
+        lastFeedTime: new Date().toISOString(),
+        totalTokensConsumed: 0,
+        accumulatedTokens: 0
+      };
+
+      it('should refuse to send a living hardcore pet to the graveyard', () => {
+        vi.mocked(fs.existsSync).mockReturnValue(true);
+        vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(aliveState));
+
+        const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: hardcoreConfigService as any });
+
+        expect(statusLine.getDifficulty().level).toBe('hardcore');
+        expect(() => statusLine.adoptPet({ petName: 'Mochi' }, true)).toThrow('Hardcore pets cannot be sent to the graveyard early');
+        expect(statusLine.getPetState().petName).toBe('Luna');
+      });
+
+      it('should bury a dead hardcore pet immediately with a hardcore mark', () => {
+        vi.mocked(fs.existsSync).mockImplementation((filePath) => filePath !== '/mock/home/.claude-pet/graveyard/Luna');
+        vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ ...aliveState, energy: 0, expression: '(x_x)' }));
+
+        const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: hardcoreConfigService as any });
+        statusLine.getStatusDisplay();
+
+        expectAtomicWrite('/mock/home/.claude-pet/graveyard/Luna/pet-state.json', expect.stringContaining('"hardcore": true'));
+        expect(statusLine.isPetDead()).toBe(false);
+      });
+    });
+
+    describe('adoptPet', () => {
+      const aliveState = {
+        uuid: 'alive-uuid',
+        petName: 'Luna',
+        energy: 50,
+        expression: '(o_o)',
+        lastFeedTime: new Date().toISOString(),
+        totalTokensConsumed: 0,
+        accumulatedTokens: 0
+      };
+
+      it('should refuse to replace a living pet without force', () => {
+        vi.mocked(fs.existsSync).mockReturnValue(true);
+        vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(aliveState));
+        
+        const statusLine = createStatusLine();
+        
+        expect(() => statusLine.adoptPet({ petName: 'Mochi' })).toThrow('Luna is still alive. Use --force');
+        expect(statusLine.getPetState().petName).toBe('Luna');
+      });
+
+      it('should send a living pet to the graveyard when forced', () => {
+        vi.mocked(fs.existsSync).mockImplementation((filePath) => filePath !== '/mock/home/.claude-pet/graveyard/Luna');
+        vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(aliveState));
+        
+        const statusLine = createStatusLine();
+        const adopted = statusLine.adoptPet({ animalType: AnimalType.FOX, petName: 'Mochi' }, true);
+        
+        expect(adopted).toMatchObject({ petName: 'Mochi', animalType: AnimalType.FOX, energy: 100 });
+        expectAtomicWrite('/mock/home/.claude-pet/graveyard/Luna/pet-state.json', expect.stringContaining('"petName": "Luna"'));
+        expectAtomicWrite(mockStateFile, expect.stringContaining('"petName": "Mochi"'));
+      });
+
+      it('should resolve the animal type without regard to case', () => {
+        vi.mocked(fs.existsSync).mockImplementation((filePath) => filePath !== '/mock/home/.claude-pet/graveyard/Luna');
+        vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(aliveState));
+
+        const statusLine = createStatusLine();
+
+        expect(statusLine.adoptPet({ animalType: 'Fox' }, true).animalType).toBe(AnimalType.FOX);
+      });
+
+      it.each([
+        [{ petName: '   ' }, 'Pet name cannot be empty'],
+        [{ petName: 'x'.repeat(31) }, 'Pet name is too long'],
+        [{ animalType: 'unicorn' }, 'Unknown animal type: unicorn']
+      ])('should keep the living pet when a forced adoption is invalid (%o)', (options, message) => {
+        vi.mocked(fs.existsSync).mockReturnValue(true);
+        vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(aliveState));
+        
+        const statusLine = createStatusLine();
+        
+        expect(() => statusLine.adoptPet(options, true)).toThrow(message);
+        expect(statusLine.getPetState().petName).toBe('Luna');
+        expect(fs.writeFileSync).not.toHaveBeenCalledWith(expect.stringContaining('graveyard'), expect.anything(), 'utf8');
+        expect(fs.unlinkSync).not.toHaveBeenCalled();
+        expect(fs.renameSync).not.toHaveBeenCalled();
+      });
+
+      it('should replace the unsaved first pet without force', () => {
+        vi.mocked(fs.existsSync).mockImplementation((filePath) => filePath !== mockStateFile);
+        
+        const statusLine = createStatusLine();
+        const adopted = statusLine.adoptPet({ petName: 'Mochi' });
+        
+        expect(adopted.petName).toBe('Mochi');
+        expect(fs.copyFileSync).not.toHaveBeenCalled();
+      });
+
+      it('should adopt a custom species defined in config.json', () => {
+        vi.mocked(fs.existsSync).mockImplementation((filePath) => filePath !== mockStateFile && filePath !== '/mock/home/.claude-pet/species');
+        const speciesConfigService = {
+          ...mockConfigService,
+          getConfig: vi.fn(() => ({
+            ...mockConfigService.getConfig(),
+            species: { dragon: { name: 'Dragon', emoji: '🐉', expressions: { HAPPY: ['(^w^)'] } } }
+          }))
+        };
+        
+        const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: speciesConfigService });
+        const adopted = statusLine.adoptPet({ animalType: 'dragon' });
+        
+        expect(statusLine.getSpecies().getIds()).toContain('dragon');
+        expect(adopted.animalType).toBe('dragon');
+        expect(adopted.expression).toBe('(^w^)');
+      });
+
+      it('should rename the pet and save the old name', () => {
+        vi.mocked(fs.existsSync).mockReturnValue(true);
+        vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify(aliveState));
+        
+        const statusLine = createStatusLine();
+        const renamed = statusLine.renamePet('Mochi');
+        
+        expect(renamed.petName).toBe('Mochi');
+        expect(renamed.nameHistory).toEqual([expect.objectContaining({ name: 'Luna' })]);
+        expectAtomicWrite(mockStateFile, expect.stringContaining('"nameHistory"'));
+      });
+    });
+
     describe('isPetDead', () => {
       it('should return true when pet energy is 0', () => {
         const deadState = {
@@ -517,6 +894,268 @@ describe('ClaudeCodeStatusLine', () => {
     });
   });
 
+  describe('pet roster', () => {
+    const mockRosterFile = '/mock/home/.claude-pet/roster/roster-uuid.json';
+    const now = new Date('2025-08-21T12:00:00Z');
+    const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+    const activeState = {
+      uuid: 'active-uuid',
+      petName: 'Luna',
+      animalType: 'cat',
+      energy: 80,
+      expression: '(^_^)',
+      birthTime: hoursAgo(48),
+      lastFeedTime: hoursAgo(0),
+      totalTokensConsumed: 0,
+      accumulatedTokens: 0,
+      totalLifetimeTokens: 0
+    };
+    const rosterState = {
+      ...activeState,
+      uuid: 'roster-uuid',
+      petName: 'Biscuit',
+      energy: 50,
+      lastFeedTime: hoursAgo(10),
+      lastDecayTime: hoursAgo(10)
+    };
+
+    const mockRoster = (roster: any) => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readdirSync).mockReturnValue(['roster-uuid.json'] as any);
+      vi.mocked(fs.readFileSync).mockImplementation((filePath) =>
+        JSON.stringify(filePath === mockRosterFile ? roster : activeState)
+      );
+    };
+
+    it('should decay inactive pets at the reduced roster rate', () => {
+      mockRoster(rosterState);
+
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now) });
+      const pets = statusLine.listPets();
+
+      expect(pets.map(pet => [pet.state.petName, pet.active])).toEqual([['Luna', true], ['Biscuit', false]]);
+      expect(pets[1].state.energy).toBeCloseTo(50 - 600 * 0.0231 * 0.25, 5);
+      expectAtomicWrite(mockRosterFile, expect.any(String));
+    });
+
+    it('should keep inactive pets that starved in the roster during their revival window', () => {
+      mockRoster({ ...rosterState, energy: 1 });
+
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now) });
+      const pets = statusLine.listPets();
+
+      expect(pets).toHaveLength(2);
+      // 窗口从推算的饿死时刻开始：1点能量按四分之一衰减速率耗尽所需的时间
+      const diedAt = now.getTime() - 10 * 60 * 60 * 1000 + (1 / (0.0231 * 0.25)) * 60 * 1000;
+      expect(pets[1].state).toMatchObject({ energy: 0, critical: { tokens: 0 } });
+      expect(Math.abs(pets[1].state.critical!.since.getTime() - diedAt)).toBeLessThan(2000);
+      expect(fs.unlinkSync).not.toHaveBeenCalledWith(mockRosterFile);
+    });
+
+    it('should move inactive pets to the graveyard once their revival window expires', () => {
+      mockRoster({ ...rosterState, energy: 0, critical: { since: hoursAgo(25), tokens: 0 } });
+      vi.mocked(fs.existsSync).mockImplementation((filePath) => filePath !== '/mock/home/.claude-pet/graveyard/Biscuit');
+
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now) });
+      const pets = statusLine.listPets();
+
+      expect(pets).toHaveLength(1);
+      expectAtomicWrite('/mock/home/.claude-pet/graveyard/Biscuit/pet-state.json', expect.stringContaining('"energy": 0'));
+      expect(fs.unlinkSync).toHaveBeenCalledWith(mockRosterFile);
+    });
+
+    it('should switch the active pet by name', () => {
+      mockRoster(rosterState);
+
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now) });
+      const active = statusLine.usePet('biscuit');
+
+      expect(active.petName).toBe('Biscuit');
+      expect(statusLine.getPetState().uuid).toBe('roster-uuid');
+      expect(fs.renameSync).toHaveBeenCalledWith(mockRosterFile, mockStateFile);
+      expectAtomicWrite('/mock/home/.claude-pet/roster/active-uuid.json', expect.stringContaining('"petName": "Luna"'));
+    });
+
+    it('should fail to switch to a pet that is not in the roster', () => {
+      mockRoster(rosterState);
+
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now) });
+
+      expect(() => statusLine.usePet('Rex')).toThrow('No pet named "Rex" in your roster.');
+      expect(statusLine.getPetState().petName).toBe('Luna');
+    });
+
+    it('should add adopted pets to the roster without changing the active pet', () => {
+      mockRoster(rosterState);
+
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now), random: new SeededRandom('roster') });
+      const adopted = statusLine.adoptExtraPet();
+
+      expect(statusLine.getPetState().petName).toBe('Luna');
+      expectAtomicWrite(`/mock/home/.claude-pet/roster/${adopted.uuid}.json`, JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, ...adopted }, null, 2));
+    });
+  });
+
+  describe('injected repository', () => {
+    const now = new Date('2025-08-21T12:00:00Z');
+    const savedState = {
+      uuid: 'memory-uuid',
+      petName: 'Luna',
+      animalType: AnimalType.CAT,
+      energy: 80,
+      expression: '(^_^)',
+      birthTime: new Date('2025-08-20T12:00:00Z'),
+      lastFeedTime: now,
+      lastDecayTime: now,
+      totalTokensConsumed: 0,
+      accumulatedTokens: 0,
+      totalLifetimeTokens: 0
+    };
+
+    it('should load, save and journal through the repository without touching the disk', () => {
+      const repository = new InMemoryPetRepository(savedState);
+
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now), repository });
+      statusLine.renamePet('Mochi');
+
+      expect(statusLine.getPetState().uuid).toBe('memory-uuid');
+      expect(repository.loadState()?.petName).toBe('Mochi');
+      expect(repository.readJournal('memory-uuid')).toEqual([
+        expect.objectContaining({ type: 'renamed', timestamp: now.toISOString() })
+      ]);
+      expect(fs.readFileSync).not.toHaveBeenCalledWith(expect.stringContaining('pet-state.json'), 'utf8');
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should feed from the repository tracker without reading config, species or the animation counter from disk', async () => {
+      const { getTokenMetrics } = await import('../utils/jsonl');
+      const repository = new InMemoryPetRepository(savedState);
+
+      const statusLine = new ClaudeCodeStatusLine({ clock: new FixedClock(now), repository });
+      await statusLine.processTokensAndGetStatusDisplay(mockClaudeCodeInput);
+
+      expect(getTokenMetrics).toHaveBeenCalledWith('/mock/transcript.jsonl', false, expect.objectContaining({ load: expect.any(Function) }));
+      expect(repository.loadState()?.totalLifetimeTokens).toBe(150);
+      expect(fs.readFileSync).not.toHaveBeenCalled();
+      expect(fs.readdirSync).not.toHaveBeenCalled();
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('should build command changes on tokens another session saved in the meantime', () => {
+      const repository = new InMemoryPetRepository(savedState);
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now), repository });
+      // 命令运行期间，另一个会话的状态栏喂食并保存了宠物
+      repository.saveState({ ...savedState, energy: 95, totalLifetimeTokens: 5000 });
+
+      statusLine.renamePet('Mochi');
+      statusLine.putPetToSleep();
+
+      expect(repository.loadState()).toMatchObject({ petName: 'Mochi', energy: 95, totalLifetimeTokens: 5000, sleep: { since: now } });
+    });
+
+    it('should not replace a pet another session saved after the command started without force', () => {
+      const repository = new InMemoryPetRepository();
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now), repository });
+      repository.saveState(savedState);
+
+      expect(() => statusLine.adoptPet({ petName: 'Mochi' })).toThrow();
+      expect(repository.loadState()?.uuid).toBe('memory-uuid');
+    });
+
+    it('should save the replacement pet together with the burial', () => {
+      const deadAt = new Date(now.getTime() - (PET_CONFIG.REVIVAL.WINDOW_HOURS + 1) * 60 * 60 * 1000);
+      const repository = new InMemoryPetRepository({ ...savedState, energy: 0, critical: { since: deadAt, tokens: 0 } });
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now), repository });
+
+      statusLine.getStatusDisplay();
+
+      expect(repository.listGraveyardPets()).toEqual([expect.objectContaining({ uuid: 'memory-uuid' })]);
+      expect(repository.loadState()?.uuid).toBe(statusLine.getPetState().uuid);
+      expect(repository.loadState()?.uuid).not.toBe('memory-uuid');
+    });
+
+    it('should only run storage-backed achievement rules on renders where the pet changed', async () => {
+      const repository = new InMemoryPetRepository({ ...savedState, energy: 60 });
+      const countRaisedPets = vi.spyOn(repository, 'countRaisedPets');
+      const readJournal = vi.spyOn(repository, 'readJournal');
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now), repository });
+
+      statusLine.getStatusDisplay();
+      expect(countRaisedPets).not.toHaveBeenCalled();
+      expect(readJournal).not.toHaveBeenCalled();
+
+      await statusLine.processTokensAndGetStatusDisplay(mockClaudeCodeInput);
+      expect(countRaisedPets).toHaveBeenCalledTimes(1);
+      expect(readJournal).not.toHaveBeenCalled();
+    });
+
+    it('should warn about a species missing from the registry and keep it on the pet', () => {
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const repository = new InMemoryPetRepository({ ...savedState, animalType: 'dragonn' });
+
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now), repository });
+      statusLine.getStatusDisplay();
+
+      expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Unknown animal type "dragonn" for pet "Luna"'));
+      expect(repository.loadState()?.animalType).toBe('dragonn');
+
+      warnSpy.mockClear();
+      new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now), repository: new InMemoryPetRepository(savedState) });
+      expect(warnSpy).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+
+    it('should journal the reborn event for the pet that was replaced', () => {
+      const repository = new InMemoryPetRepository({ ...savedState, energy: 0, critical: { since: new Date('2025-08-19T12:00:00Z'), tokens: 0 } });
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now), repository });
+
+      const adopted = statusLine.adoptPet({ petName: 'Mochi' });
+
+      expect(repository.readJournal('memory-uuid')).toContainEqual(
+        expect.objectContaining({ type: 'reborn', previousUuid: 'memory-uuid', uuid: adopted.uuid })
+      );
+      expect(repository.readJournal(adopted.uuid)).not.toContainEqual(expect.objectContaining({ type: 'reborn' }));
+    });
+
+    it('should journal the decay of a single render exactly once', () => {
+      const lastSeen = new Date(now.getTime() - 600 * 60 * 1000);
+      const repository = new InMemoryPetRepository({ ...savedState, lastFeedTime: lastSeen, lastDecayTime: lastSeen });
+      const countRaisedPets = vi.spyOn(repository, 'countRaisedPets');
+
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now), repository });
+      statusLine.getStatusDisplay();
+
+      expect(repository.readJournal('memory-uuid').filter(entry => entry.type === 'decayed')).toEqual([
+        expect.objectContaining({ amount: expect.closeTo(13.86, 2) })
+      ]);
+      expect(countRaisedPets).not.toHaveBeenCalled();
+    });
+
+    it('should settle decay for another pet\'s state without saving or journaling it', () => {
+      const repository = new InMemoryPetRepository(savedState);
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: mockConfigService, clock: new FixedClock(now), repository });
+      const lastSeen = new Date(now.getTime() - 600 * 60 * 1000);
+
+      const settled = statusLine.getSettledState({ ...savedState, uuid: 'project-uuid', energy: 50, lastFeedTime: lastSeen, lastDecayTime: lastSeen });
+
+      expect(settled.energy).toBeCloseTo(50 - 600 * 0.0231, 5);
+      expect(repository.readJournal('project-uuid')).toEqual([]);
+      expect(repository.loadState()).toEqual(savedState);
+    });
+
+    it('should ignore per-project mode when a repository is injected', () => {
+      const perProjectConfigService = {
+        getConfig: vi.fn(() => ({ ...mockConfigService.getConfig(), pet: { ...mockConfigService.getConfig().pet, perProject: true } }))
+      };
+      const repository = new InMemoryPetRepository(savedState);
+
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: perProjectConfigService as any, clock: new FixedClock(now), projectDir: '/mock/project', repository });
+
+      expect(statusLine.getPetState().petName).toBe('Luna');
+      expect(fs.mkdirSync).not.toHaveBeenCalledWith(expect.stringContaining('projects'), expect.anything());
+    });
+  });
+
   describe('JSONL integration', () => {
     it('should call getTokenMetrics with correct transcript path', async () => {
       const { getTokenMetrics } = await import('../utils/jsonl');
@@ -526,7 +1165,43 @@ describe('ClaudeCodeStatusLine', () => {
       
       await statusLine.processTokensAndGetStatusDisplay(mockClaudeCodeInput);
       
-      expect(getTokenMetrics).toHaveBeenCalledWith('/mock/transcript.jsonl', false);
+      expect(getTokenMetrics).toHaveBeenCalledWith('/mock/transcript.jsonl', false, expect.objectContaining({ trackerFile: '/mock/home/.claude-pet/global-tracker.json' }));
+    });
+
+    it('should use a per-project state file and tracker when per-project mode is on', async () => {
+      const { getTokenMetrics } = await import('../utils/jsonl');
+      const baseConfig = mockConfigService.getConfig();
+      const perProjectConfigService = {
+        ...mockConfigService,
+        getConfig: vi.fn(() => ({ ...baseConfig, pet: { ...baseConfig.pet, perProject: true } }))
+      };
+      vi.mocked(path.resolve).mockImplementation((p: string) => p);
+      vi.mocked(path.basename).mockImplementation((p: string) => p.split('/').pop() || '');
+      vi.mocked(fs.statSync).mockReturnValue({ isDirectory: () => true } as any);
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: perProjectConfigService as any, projectDir: '/mock/project' });
+      await statusLine.processTokensAndGetStatusDisplay(mockClaudeCodeInput);
+      
+      const projectDir = /^\/mock\/home\/\.claude-pet\/projects\/project-[0-9a-f]{8}\//;
+      expect(vi.mocked(fs.readFileSync).mock.calls[0][0]).toMatch(projectDir);
+      expect(vi.mocked(fs.readFileSync).mock.calls[0][0]).toMatch(/pet-state\.json$/);
+      expect(getTokenMetrics).toHaveBeenCalledWith('/mock/transcript.jsonl', false, expect.objectContaining({ trackerFile: expect.stringMatching(projectDir) }));
+    });
+
+    it('should fall back to the global pet for unknown project directories', async () => {
+      const { getTokenMetrics } = await import('../utils/jsonl');
+      const baseConfig = mockConfigService.getConfig();
+      const perProjectConfigService = {
+        ...mockConfigService,
+        getConfig: vi.fn(() => ({ ...baseConfig, pet: { ...baseConfig.pet, perProject: true } }))
+      };
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+      
+      const statusLine = new ClaudeCodeStatusLine({ testMode: true, configService: perProjectConfigService as any, projectDir: '/mock/missing' });
+      await statusLine.processTokensAndGetStatusDisplay(mockClaudeCodeInput);
+      
+      expect(getTokenMetrics).toHaveBeenCalledWith('/mock/transcript.jsonl', false, expect.objectContaining({ trackerFile: '/mock/home/.claude-pet/global-tracker.json' }));
     });
 
     it('should detect resumed conversations using total_cost_usd=0', async () => {
@@ -547,7 +1222,7 @@ describe('ClaudeCodeStatusLine', () => {
       await statusLine.processTokensAndGetStatusDisplay(resumedInput);
       
       // Should be called with isResumedConversation=true
-      expect(getTokenMetrics).toHaveBeenCalledWith('/mock/transcript.jsonl', true);
+      expect(getTokenMetrics).toHaveBeenCalledWith('/mock/transcript.jsonl', true, expect.anything());
     });
 
     it('should convert tokens to energy using correct ratio', async () => {
@@ -164,4 +164,48 @@ describe('CLI', () => {
 
     expect(consoleSpy.log).toHaveBeenCalledWith(expect.stringMatching(/^ccpet v\d+\.\d+\.\d+$/));
   });
-});
\ No newline at end of file
+
+  describe('--home option', () => {
+    const importCli = async (setHomeOverride: any) => {
+      vi.resetModules();
+      vi.doMock('../ccpet', () => ({ main: vi.fn() }));
+      vi.doMock('../services/paths', () => ({ setHomeOverride }));
+      return import('../cli');
+    };
+
+    it('should use the given data directory and run the rest of the command line', async () => {
+      process.argv = ['node', 'cli.js', '--home', '/tmp/pets', '--version'];
+      const setHomeOverride = vi.fn();
+      const { main } = await importCli(setHomeOverride);
+
+      await main();
+
+      expect(setHomeOverride).toHaveBeenCalledWith('/tmp/pets');
+      expect(consoleSpy.log).toHaveBeenCalledWith(expect.stringMatching(/^ccpet v\d+\.\d+\.\d+$/));
+    });
+
+    it('should accept the --home=<dir> form', async () => {
+      process.argv = ['node', 'cli.js', '--home=/tmp/pets'];
+      const setHomeOverride = vi.fn();
+      const { main } = await importCli(setHomeOverride);
+      const ccpet = await import('../ccpet');
+
+      await main();
+
+      expect(setHomeOverride).toHaveBeenCalledWith('/tmp/pets');
+      expect(ccpet.main).toHaveBeenCalled();
+    });
+
+    it('should exit when the directory is missing', async () => {
+      process.argv = ['node', 'cli.js', '--home'];
+      mockProcessExit.mockImplementation(() => {
+        throw new Error('process.exit called');
+      });
+      const { main } = await importCli(vi.fn());
+
+      await expect(main()).rejects.toThrow('process.exit called');
+      expect(consoleSpy.error).toHaveBeenCalledWith('Missing directory for --home');
+      expect(mockProcessExit).toHaveBeenCalledWith(1);
+    });
+  });
+});
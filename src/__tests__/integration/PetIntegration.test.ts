@@ -78,6 +78,12 @@ describe('Pet Integration Tests', () => {
   const mockPetDir = '/mock/home/.claude-pet';
   const mockStateFile = '/mock/home/.claude-pet/pet-state.json';
 
+  const expectAtomicWrite = (filePath: string, content: unknown) => {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    expect(fs.writeFileSync).toHaveBeenCalledWith(tempPath, content, 'utf8');
+    expect(fs.renameSync).toHaveBeenCalledWith(tempPath, filePath);
+  };
+
   const createInitialState = (): IPetState => ({
     uuid: 'test-integration-uuid',
     energy: PET_CONFIG.INITIAL_ENERGY,
@@ -112,7 +118,7 @@ describe('Pet Integration Tests', () => {
 
   // Helper function to create ClaudeCodeStatusLine with mocked dependencies
   const createStatusLine = (testMode: boolean = true) => {
-    return new ClaudeCodeStatusLine(testMode, mockConfigService);
+    return new ClaudeCodeStatusLine({ testMode, configService: mockConfigService });
   };
 
   describe('Pet and StatusBarFormatter Integration', () => {
@@ -293,11 +299,7 @@ describe('Pet Integration Tests', () => {
       }));
 
       // Step 4: Verify graveyard file operations
-      expect(fs.writeFileSync).toHaveBeenCalledWith(
-        '/mock/home/.claude-pet/graveyard/Fluffy/pet-state.json',
-        expect.stringContaining('"petName": "Fluffy"'),
-        'utf8'
-      );
+      expectAtomicWrite('/mock/home/.claude-pet/graveyard/Fluffy/pet-state.json', expect.stringContaining('"petName": "Fluffy"'));
 
       // Step 5: Verify new pet state
       const newState = pet.getState();
@@ -405,18 +407,14 @@ describe('Pet Integration Tests', () => {
       statusLine.adoptNewPet();
 
       // Verify graveyard operations
-      expect(fs.writeFileSync).toHaveBeenCalledWith(
-        '/mock/home/.claude-pet/graveyard/Rex/pet-state.json',
-        expect.stringContaining('"petName": "Rex"'),
-        'utf8'
-      );
+      expectAtomicWrite('/mock/home/.claude-pet/graveyard/Rex/pet-state.json', expect.stringContaining('"petName": "Rex"'));
 
       // Verify current state file was removed and new one created
       expect(fs.unlinkSync).toHaveBeenCalledWith(mockStateFile);
       
       // Verify new pet state was saved
-      const saveStateCalls = vi.mocked(fs.writeFileSync).mock.calls.filter(
-        call => call[0] === mockStateFile
+      const saveStateCalls = vi.mocked(fs.renameSync).mock.calls.filter(
+        call => call[1] === mockStateFile
       );
       expect(saveStateCalls.length).toBeGreaterThan(0);
     });
@@ -1,4 +1,7 @@
-import { vi } from 'vitest';
+import { vi, afterAll } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 // Globally suppress console.error during tests to avoid noise
 // while still allowing error handling code to execute
@@ -28,4 +31,16 @@ console.error = vi.fn();
 //     return;
 //   }
 //   originalConsoleError.apply(console, args);
-// };
\ No newline at end of file
+// };
+// 用户主目录指向临时目录，测试不会读写真实的 ~/.claude-pet（日志、墓地等）和 ~/.claude-pet-test；
+// 模拟了 os.homedir 的测试仍使用各自的 /mock/home
+const testHome = fs.mkdtempSync(path.join(os.tmpdir(), 'ccpet-test-home-'));
+process.env.HOME = testHome;
+delete process.env.CCPET_HOME;
+delete process.env.XDG_CONFIG_HOME;
+delete process.env.XDG_STATE_HOME;
+delete process.env.XDG_CACHE_HOME;
+
+afterAll(() => {
+  fs.rmSync(testHome, { recursive: true, force: true });
+});
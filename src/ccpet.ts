@@ -1,29 +1,53 @@
-import { Pet, IPetState } from './core/Pet';
+import { Pet, IPetState, IAdoptionOptions, IAchievementSources, IRevivalStatus } from './core/Pet';
 import { StatusBarFormatter } from './ui/StatusBar';
 import { PetStorage } from './services/PetStorage';
-import { ConfigService } from './services/ConfigService';
+import { PetJournal, createJournalEntry } from './services/PetJournal';
+import { IPetRepository } from './services/PetRepository';
+import { updateJsonFile } from './services/fileStore';
+import { resolveProjectPetDir } from './services/projects';
+import { ConfigService, IConfigSource, StaticConfigSource } from './services/ConfigService';
 import { getTokenMetrics } from './utils/jsonl';
-import { PET_CONFIG, generateRandomPetName } from './core/config';
-import { v4 as uuidv4 } from 'uuid';
+import { PET_CONFIG, generateRandomPetName, normalizePetName } from './core/config';
+import { resolveEvolutionStages } from './core/evolution';
+import { createDecayPolicy, ScaledDecayPolicy } from './core/decay';
+import { createDecaySchedule } from './core/schedule';
+import { resolveFeedWeights } from './core/feeding';
+import { SpeciesRegistry, createSpeciesRegistry } from './core/species';
+import { resolveConditionSettings } from './core/conditions';
+import { IDifficultySettings, resolveDifficultySettings, canResetLivingPet, markGraveyardRecord } from './core/difficulty';
+import { IStreakStatus, resolveStreakSettings } from './core/streaks';
+import { ACHIEVEMENTS, IAchievementProgress, IAchievementRule } from './core/achievements';
+import { IAccessory, ACCESSORIES } from './core/accessories';
+import { loadSpeciesRegistry } from './services/speciesLoader';
+import { getCacheDir } from './services/paths';
+import { createDailySnapshotIfDue } from './services/backups';
+import { renderSprite } from './ui/sprites';
+import { IClock, createClockFromEnv } from './core/Clock';
+import { IRandom, createRandomFromEnv } from './core/Random';
+import * as path from 'path';
 
 // Simple animation counter for cycling expressions
-class AnimationCounter {
+export class AnimationCounter {
   private callCount: number = 0;
   private readonly testMode: boolean;
-  private readonly COUNTER_FILE = require('path').join(require('os').homedir(), '.claude-pet', 'animation-counter.json');
+  private readonly counterFile: string | null; // null 时只在内存中计数
 
-  constructor(testMode: boolean = false) {
+  constructor(testMode: boolean = false, counterFile: string | null = path.join(getCacheDir(), 'animation-counter.json')) {
     this.testMode = testMode;
+    this.counterFile = counterFile;
     if (!testMode) {
       this.loadCounter();
     }
   }
 
   private loadCounter(): void {
+    if (!this.counterFile) {
+      return;
+    }
     try {
       const fs = require('fs');
-      if (fs.existsSync(this.COUNTER_FILE)) {
-        const data = JSON.parse(fs.readFileSync(this.COUNTER_FILE, 'utf8'));
+      if (fs.existsSync(this.counterFile)) {
+        const data = JSON.parse(fs.readFileSync(this.counterFile, 'utf8'));
         this.callCount = data.callCount || 0;
       }
     } catch (error) {
@@ -32,34 +56,26 @@ class AnimationCounter {
     }
   }
 
-  private saveCounter(): void {
-    try {
-      const fs = require('fs');
-      const path = require('path');
-      
-      // 确保目录存在
-      const dir = path.dirname(this.COUNTER_FILE);
-      if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-      }
-      
-      const data = {
-        callCount: this.callCount,
-        lastUpdate: Date.now()
-      };
-      fs.writeFileSync(this.COUNTER_FILE, JSON.stringify(data));
-    } catch (error) {
-      // 忽略保存错误
-    }
-  }
-
   public recordCall(): void {
     // 在测试模式下不记录调用
     if (this.testMode) {
       return;
     }
-    this.callCount++;
-    this.saveCounter();
+    if (!this.counterFile) {
+      this.callCount++;
+      return;
+    }
+    try {
+      // 锁内在磁盘上的计数基础上加一，并行会话的调用都会被计入
+      const data = updateJsonFile<{ callCount?: number; lastUpdate?: number }>(this.counterFile, current => ({
+        callCount: (current?.callCount || 0) + 1,
+        lastUpdate: Date.now()
+      }));
+      this.callCount = data.callCount || 0;
+    } catch (error) {
+      // 忽略保存错误
+      this.callCount++;
+    }
   }
 
   public shouldEnableAnimation(): boolean {
@@ -73,37 +89,56 @@ class AnimationCounter {
   }
 }
 
+export interface IStatusLineOptions {
+  testMode?: boolean;
+  configService?: IConfigSource;
+  clock?: IClock;
+  random?: IRandom;
+  projectDir?: string | undefined; // 开启 pet.perProject 时按此目录选择项目宠物
+  // 注入时宠物数据和 token 进度都从这里读写，不再按项目解析宠物目录；
+  // 未另外提供的配置、物种和动画计数也不再读写磁盘
+  repository?: IPetRepository | undefined;
+  species?: SpeciesRegistry;
+  animationCounter?: AnimationCounter;
+}
+
 class ClaudeCodeStatusLine {
   private pet: Pet;
   private formatter: StatusBarFormatter;
-  private storage: PetStorage;
-  private configService: ConfigService;
+  private storage: IPetRepository;
+  private configService: IConfigSource;
   private animationCounter: AnimationCounter;
+  private readonly clock: IClock;
+  private readonly random: IRandom;
+  private readonly species: SpeciesRegistry; // 内置动物和用户自定义物种
+  private petSaved: boolean; // 首次运行时随机生成的宠物尚未保存，领养时可直接替换
+  private petEventCount = 0; // 本进程内宠物发出的事件数（不含衰减），用来判断渲染期间宠物状态是否变化
 
-  constructor(testMode: boolean = false, configService?: ConfigService) {
-    this.animationCounter = new AnimationCounter(testMode);
-    this.storage = new PetStorage();
-    this.configService = configService || new ConfigService();
-    this.formatter = new StatusBarFormatter(testMode, configService);
+  constructor(options: IStatusLineOptions = {}) {
+    const { testMode = false, repository } = options;
+    this.clock = options.clock ?? createClockFromEnv();
+    this.random = options.random ?? createRandomFromEnv();
+    this.animationCounter = options.animationCounter ?? new AnimationCounter(testMode, repository ? null : undefined);
+    this.configService = options.configService ?? (repository ? new StaticConfigSource() : new ConfigService());
+    const userConfig = this.configService.getConfig();
+    this.species = options.species
+      ?? (repository ? createSpeciesRegistry({}, userConfig.species) : loadSpeciesRegistry(userConfig.species));
+    
+    // Per-project mode: each workspace gets its own pet, unknown directories fall back to the global pet
+    const projectPetDir = !repository && userConfig.pet?.perProject
+      ? resolveProjectPetDir(options.projectDir)
+      : undefined;
+    this.storage = repository ?? new PetStorage(this.clock, this.random, new PetJournal(this.clock), projectPetDir);
+    this.formatter = new StatusBarFormatter(testMode, this.configService, this.clock);
     
     // Load or create initial pet state
     const savedState = this.storage.loadState();
-    const now = new Date();
-    const initialState: IPetState = savedState || {
-      uuid: uuidv4(),
-      energy: PET_CONFIG.INITIAL_ENERGY,
-      expression: PET_CONFIG.HAPPY_EXPRESSION,
-      animalType: Pet.getRandomAnimalType(), // 随机分配动物类型给新宠物
-      birthTime: now, // 新宠物的诞生时间
-      lastFeedTime: now,
-      totalTokensConsumed: 0,
-      accumulatedTokens: 0,
-      totalLifetimeTokens: 0,
-      petName: generateRandomPetName() // 为新宠物分配随机名称
-    };
-
-
-    this.pet = new Pet(initialState, { config: PET_CONFIG });
+    this.petSaved = savedState !== null;
+    if (savedState) {
+      this.warnUnknownSpecies(savedState);
+    }
+    // 构造时只读载入：衰减只在内存中结算供显示，不写日志；要保存的修改都在 commitPetUpdate 中重新载入并结算，事件只记录一次
+    this.pet = this.createPet(savedState || this.createNewPetState(), 1, false);
     
     // Apply time decay since last session
     if (savedState) {
@@ -116,35 +151,60 @@ class ClaudeCodeStatusLine {
       // 记录函数调用以更新动画帧
       this.animationCounter.recordCall();
       
-      // Always apply time decay first
-      this.pet.applyTimeDecay();
-      
       // Process tokens from JSONL transcript file
       // Check if this is a resumed conversation (total_cost_usd = 0 indicates resume)
       const isResumedConversation = claudeCodeInput.cost.total_cost_usd === 0;
-      const tokenMetrics = await getTokenMetrics(claudeCodeInput.transcript_path, isResumedConversation);
+      const tokenMetrics = await getTokenMetrics(
+        claudeCodeInput.transcript_path,
+        isResumedConversation,
+        this.storage.getTokenTracker()
+      );
       
-      if (tokenMetrics.totalTokens > 0) {
-        // Feed pet with actual tokens (using new accumulation system)
-        this.pet.feed(tokenMetrics.totalTokens);
-      }
-      
-      // Update session metrics using proper method
-      const sessionMetrics: any = {
-        sessionTotalInputTokens: tokenMetrics.sessionTotalInputTokens,
-        sessionTotalOutputTokens: tokenMetrics.sessionTotalOutputTokens,
-        sessionTotalCachedTokens: tokenMetrics.sessionTotalCachedTokens,
-        sessionTotalCostUsd: claudeCodeInput.cost.total_cost_usd,
-        contextLength: tokenMetrics.contextLength
-      };
-      
-      // Only calculate percentages if contextLength is defined
-      if (tokenMetrics.contextLength !== undefined) {
-        sessionMetrics.contextPercentage = Math.min(100, (tokenMetrics.contextLength / 200000) * 100);
-        sessionMetrics.contextPercentageUsable = Math.min(100, (tokenMetrics.contextLength / 160000) * 100);
-      }
-      
-      this.pet.updateSessionMetrics(sessionMetrics);
+      let unlockedAchievements: IAchievementRule[] = [];
+      const eventsBefore = this.petEventCount;
+      this.commitPetUpdate(() => {
+        // Always apply time decay first
+        this.pet.applyTimeDecay();
+        this.buryExpiredPet();
+        
+        if (tokenMetrics.totalTokens > 0) {
+          // Feed pet with actual tokens (using new accumulation system)
+          this.pet.feed(tokenMetrics.totalTokens, {
+            sessionId: claudeCodeInput.session_id,
+            inputTokens: tokenMetrics.inputTokens,
+            outputTokens: tokenMetrics.outputTokens,
+            cachedTokens: tokenMetrics.cachedTokens,
+            usageByModel: tokenMetrics.usageByModel
+          });
+        }
+        
+        // 输出token和新增代码行提升幸福度
+        this.pet.recordActivity({
+          sessionId: claudeCodeInput.session_id,
+          outputTokens: tokenMetrics.outputTokens,
+          linesAdded: claudeCodeInput.cost.total_lines_added,
+          sessionDurationMs: claudeCodeInput.cost.total_duration_ms
+        });
+        
+        // Update session metrics using proper method
+        const sessionMetrics: any = {
+          sessionTotalInputTokens: tokenMetrics.sessionTotalInputTokens,
+          sessionTotalOutputTokens: tokenMetrics.sessionTotalOutputTokens,
+          sessionTotalCachedTokens: tokenMetrics.sessionTotalCachedTokens,
+          sessionTotalCostUsd: claudeCodeInput.cost.total_cost_usd,
+          contextLength: tokenMetrics.contextLength
+        };
+        
+        // Only calculate percentages if contextLength is defined
+        if (tokenMetrics.contextLength !== undefined) {
+          sessionMetrics.contextPercentage = Math.min(100, (tokenMetrics.contextLength / 200000) * 100);
+          sessionMetrics.contextPercentageUsable = Math.min(100, (tokenMetrics.contextLength / 160000) * 100);
+        }
+        
+        this.pet.updateSessionMetrics(sessionMetrics);
+        this.pet.unlockAccessories();
+        unlockedAchievements = this.unlockAchievementsOnRender(eventsBefore);
+      });
       
       // Get updated state for display
       const state = this.pet.getState();
@@ -160,8 +220,8 @@ class ClaudeCodeStatusLine {
       // 获取动画表情（带emoji支持）
       const animatedExpression = this.pet.getAnimatedExpression(animationEnabled, frameIndex, emojiEnabled);
       
-      // 显示宠物状态（带动画表情）
-      return this.formatter.formatPetDisplay(state, animatedExpression);
+      // 显示宠物状态（带动画表情），新解锁的成就追加一行提示
+      return this.formatter.formatPetDisplay(state, animatedExpression, this.getSprite(frameIndex), unlockedAchievements);
       
     } catch (error) {
       console.error('Token processing failed:', error);
@@ -178,7 +238,14 @@ class ClaudeCodeStatusLine {
     this.animationCounter.recordCall();
     
     // Apply time decay before getting display
-    this.pet.applyTimeDecay();
+    let unlockedAchievements: IAchievementRule[] = [];
+    const eventsBefore = this.petEventCount;
+    this.commitPetUpdate(() => {
+      this.pet.applyTimeDecay();
+      this.buryExpiredPet();
+      this.pet.unlockAccessories();
+      unlockedAchievements = this.unlockAchievementsOnRender(eventsBefore);
+    });
     const state = this.pet.getState();
     
     // 启用动画并获取当前帧索引
@@ -192,30 +259,134 @@ class ClaudeCodeStatusLine {
     // 获取动画表情（带emoji支持）
     const animatedExpression = this.pet.getAnimatedExpression(animationEnabled, frameIndex, emojiEnabled);
     
-    // 显示宠物状态（带动画表情）
-    return this.formatter.formatPetDisplay(state, animatedExpression);
+    // 显示宠物状态（带动画表情），新解锁的成就追加一行提示
+    return this.formatter.formatPetDisplay(state, animatedExpression, this.getSprite(frameIndex), unlockedAchievements);
+  }
+
+  // 成就列表（会先记录新达成的成就）
+  public getAchievements(): IAchievementProgress[] {
+    const sources = this.getAchievementSources();
+    this.commitPetUpdate(() => {
+      this.pet.unlockAchievements(sources);
+    });
+    return this.pet.getAchievementProgress(sources);
+  }
+
+  // 所有配饰及其解锁、佩戴状态（会先解锁新达成条件的配饰）
+  public getWardrobe(): Array<{ accessory: IAccessory; unlocked: boolean; equipped: boolean }> {
+    this.commitPetUpdate(() => {
+      this.pet.unlockAccessories();
+    });
+    const inventory = this.pet.getInventory();
+    const equipped = this.pet.getEquippedAccessory();
+    return ACCESSORIES.map(accessory => ({
+      accessory,
+      unlocked: inventory.includes(accessory.id),
+      equipped: equipped?.id === accessory.id
+    }));
+  }
+
+  public equipAccessory(id: string): IAccessory {
+    let accessory!: IAccessory;
+    this.commitPetUpdate(() => {
+      this.pet.unlockAccessories();
+      accessory = this.pet.equipAccessory(id);
+    });
+    return accessory;
+  }
+
+  public unequipAccessory(): boolean {
+    let wasWearing = false;
+    this.commitPetUpdate(() => {
+      wasWearing = this.pet.unequipAccessory();
+    });
+    return wasWearing;
+  }
+
+  // 每次渲染都会检查成就：需要读盘的规则只在本次渲染宠物发出过事件（喂食、死亡等）后才检查，其余规则只看内存中的状态
+  private unlockAchievementsOnRender(eventsBefore: number): IAchievementRule[] {
+    const rules = this.petEventCount > eventsBefore
+      ? ACHIEVEMENTS
+      : ACHIEVEMENTS.filter(rule => !rule.readsStorage);
+    return this.pet.unlockAchievements(this.getAchievementSources(), rules);
+  }
+
+  // 成就规则按需统计养过的宠物数量
+  private getAchievementSources(): IAchievementSources {
+    return {
+      countRaisedPets: () => this.storage.countRaisedPets()
+    };
+  }
+
+  // 物种不在注册表中（拼写错误或已删除的自定义物种）时提示用户，保留原值，修好配置后即可恢复显示
+  private warnUnknownSpecies(state: IPetState): void {
+    if (!this.species.has(state.animalType)) {
+      console.warn(`Unknown animal type "${state.animalType}" for pet "${state.petName}", showing the default look. Available types: ${this.species.getIds().join(', ')}`);
+    }
+  }
+
+  // 开启 display.sprites 时生成多行画像，行数是否足够由格式化器判断
+  private getSprite(frameIndex: number): string[] | undefined {
+    if (!this.configService.getConfig().display?.sprites) {
+      return undefined;
+    }
+    const mood = this.pet.isAsleep() ? 'SLEEP' : this.pet.getMood();
+    return renderSprite(this.pet.getCurrentAnimalType(), mood, frameIndex);
+  }
+
+  // 开启 backup.daily 时每天自动创建一次快照；注入的存储后端不在磁盘上，不做快照
+  public runDailyBackup(): void {
+    const backup = this.configService.getConfig().backup;
+    if (!backup?.daily || !(this.storage instanceof PetStorage)) {
+      return;
+    }
+    try {
+      createDailySnapshotIfDue(backup.retention ?? PET_CONFIG.BACKUP.RETENTION, this.clock);
+    } catch (error) {
+      console.error('Failed to create daily snapshot:', error);
+    }
   }
 
   public saveState(): void {
     this.storage.saveState(this.pet.getState());
+    this.petSaved = true;
+  }
+
+  // 读改写事务：锁住 pet-state.json，先从磁盘重新载入其他会话可能刚保存的状态（并结算衰减），再执行 mutate 并保存。
+  // 状态栏渲染和所有修改宠物的命令都经过这里，并行会话的喂食不会被覆盖
+  private commitPetUpdate(mutate: () => void): void {
+    let started = false;
+    let finished = false;
+    try {
+      this.storage.updateState(savedState => {
+        started = true;
+        // 另一个进程可能已经保存了宠物，是否可以直接替换以磁盘上的状态为准
+        this.petSaved = savedState !== null;
+        this.pet = this.createPet(savedState ?? this.pet.getState());
+        if (savedState) {
+          this.pet.applyTimeDecay();
+        }
+        mutate();
+        finished = true;
+        return this.pet.getState();
+      });
+      this.petSaved = true;
+    } catch (error) {
+      if (started && !finished) {
+        throw error;
+      }
+      // 拿不到锁或写入失败时只保留内存中的修改，状态栏照常显示
+      console.error('Failed to save pet state:', error);
+      if (!started) {
+        mutate();
+      }
+    }
   }
 
   public adoptNewPet(): void {
     if (this.pet.isDead()) {
       // Save current deceased pet to graveyard before creating new one
-      this.pet.resetToInitialState((currentState: IPetState) => {
-        try {
-          this.storage.moveToGraveyard(currentState);
-          console.log(`Moved deceased pet "${currentState.petName}" to graveyard`);
-        } catch (error) {
-          console.error('Failed to move pet to graveyard:', error);
-          // Continue with reset even if graveyard save fails
-        }
-      });
-      
-      this.saveState();
-      
-      const newPetState = this.pet.getState();
+      const newPetState = this.adoptPet();
       console.log(`New pet "${newPetState.petName}" adopted successfully`);
       
       // Show success notification if VSCode API is available
@@ -228,9 +399,271 @@ class ClaudeCodeStatusLine {
     }
   }
 
+  // 领养流程（ccpet adopt 与 adoptNewPet 共用）：旧宠物移入墓地，新宠物成为活跃宠物
+  public adoptPet(options: IAdoptionOptions = {}, force: boolean = false): IPetState {
+    // 先校验名字和物种，无效时当前宠物原样保留，不会先被送进墓地
+    const adoption = this.validateAdoptionOptions(options);
+    this.commitPetUpdate(() => {
+      const current = this.pet.getState();
+      let buried: IPetState | undefined;
+      if (this.petSaved && !this.pet.isDead()) {
+        if (!force) {
+          throw new Error(`${current.petName} is still alive. Use --force to send it to the graveyard and adopt anyway.`);
+        }
+        if (!canResetLivingPet(this.getDifficulty())) {
+          throw new Error(`${current.petName} is still alive. Hardcore pets cannot be sent to the graveyard early.`);
+        }
+        buried = current;
+      }
+      
+      this.pet.resetToInitialState((currentState: IPetState) => { buried = currentState; }, adoption);
+      // reborn 已记入旧宠物的日志，之后再移入墓地，墓地中的日志副本才完整
+      if (buried) {
+        this.sendToGraveyard(buried);
+      }
+    });
+    return this.pet.getState();
+  }
+
+  private validateAdoptionOptions(options: IAdoptionOptions): IAdoptionOptions {
+    const adoption: IAdoptionOptions = {};
+    if (options.animalType !== undefined) {
+      const animalType = this.species.resolve(options.animalType);
+      if (!animalType) {
+        throw new Error(`Unknown animal type: ${options.animalType}. Available types: ${this.species.getIds().join(', ')}`);
+      }
+      adoption.animalType = animalType;
+    }
+    if (options.petName !== undefined) {
+      adoption.petName = normalizePetName(options.petName);
+    }
+    return adoption;
+  }
+
+  public renamePet(newName: string): IPetState {
+    this.commitPetUpdate(() => {
+      this.pet.rename(newName);
+    });
+    return this.pet.getState();
+  }
+
+  // 名册中的所有宠物，活跃宠物在前；非活跃宠物先按降低的速率结算衰减
+  public listPets(): Array<{ state: IPetState; active: boolean }> {
+    this.commitPetUpdate(() => {
+      this.pet.applyTimeDecay();
+    });
+    return [
+      { state: this.pet.getState(), active: true },
+      ...this.settleRosterPets().map(state => ({ state, active: false }))
+    ];
+  }
+
+  // 领养一只额外的宠物加入名册，不影响当前活跃宠物
+  public adoptExtraPet(): IPetState {
+    const state = this.createNewPetState();
+    this.storage.saveRosterPet(state);
+    return state;
+  }
+
+  // 按名字（不区分大小写）或 uuid 前缀切换活跃宠物
+  public usePet(nameOrUuid: string): IPetState {
+    // 切换前先结算并保存当前活跃宠物
+    this.commitPetUpdate(() => {
+      this.pet.applyTimeDecay();
+    });
+    const current = this.pet.getState();
+    const query = nameOrUuid.trim().toLowerCase();
+    const matchesQuery = (state: IPetState) =>
+      state.petName.toLowerCase() === query || state.uuid.toLowerCase().startsWith(query);
+
+    if (matchesQuery(current)) {
+      return current;
+    }
+
+    const matches = this.settleRosterPets().filter(matchesQuery);
+    if (matches.length === 0) {
+      throw new Error(`No pet named "${nameOrUuid}" in your roster.`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Several pets match "${nameOrUuid}". Use the pet's uuid instead.`);
+    }
+
+    this.pet = this.createPet(this.storage.activateRosterPet(matches[0].uuid));
+    return this.pet.getState();
+  }
+
   public isPetDead(): boolean {
     return this.pet.isDead();
   }
+
+  // 状态栏使用的当前时间（CCPET_FIXED_TIME 或注入的时钟），命令显示剩余时间时与宠物状态保持一致
+  public now(): Date {
+    return this.clock.now();
+  }
+
+  public getPetState(): IPetState {
+    return this.pet.getState();
+  }
+
+  // 其他目录中保存的宠物（如项目宠物）按当前时间结算衰减后的状态，只用于显示，不保存也不写日志
+  public getSettledState(state: IPetState): IPetState {
+    const pet = this.createPet(state, 1, false);
+    pet.applyTimeDecay();
+    return pet.getState();
+  }
+
+  public getStreakStatus(): IStreakStatus {
+    return this.pet.getStreakStatus();
+  }
+
+  public getRevivalStatus(): IRevivalStatus | undefined {
+    return this.pet.getRevivalStatus();
+  }
+
+  public getSpecies(): SpeciesRegistry {
+    return this.species;
+  }
+
+  public putPetToSleep(until?: Date): void {
+    this.commitPetUpdate(() => {
+      this.pet.sleep(until);
+    });
+  }
+
+  public wakePet(): boolean {
+    let wasAsleep = false;
+    this.commitPetUpdate(() => {
+      wasAsleep = this.pet.wake();
+    });
+    return wasAsleep;
+  }
+
+  private sendToGraveyard(state: IPetState): void {
+    try {
+      this.storage.moveToGraveyard(markGraveyardRecord(state, this.getDifficulty()));
+      console.log(`Moved ${state.energy <= 0 ? 'deceased ' : ''}pet "${state.petName}" to graveyard`);
+    } catch (error) {
+      console.error('Failed to move pet to graveyard:', error);
+      // Continue with reset even if graveyard save fails
+    }
+  }
+
+  public getDifficulty(): IDifficultySettings {
+    const pet = this.configService.getConfig().pet;
+    return resolveDifficultySettings(pet?.difficulty, pet?.difficultyOverrides, pet?.revival);
+  }
+
+  // 濒死窗口过期后才把宠物移入墓地，并换上一只随机的新宠物；新宠物随本次事务一起保存
+  private buryExpiredPet(): void {
+    if (!this.pet.isRevivalWindowExpired()) {
+      return;
+    }
+
+    try {
+      this.storage.moveToGraveyard(markGraveyardRecord(this.pet.getState(), this.getDifficulty()));
+    } catch (error) {
+      // 保留死亡的宠物，下次渲染时重试
+      console.error('Failed to move pet to graveyard:', error);
+      return;
+    }
+    this.pet = this.createPet(this.createNewPetState());
+  }
+
+  private createNewPetState(): IPetState {
+    const now = this.clock.now();
+    return {
+      uuid: this.random.uuid(),
+      energy: PET_CONFIG.INITIAL_ENERGY,
+      happiness: PET_CONFIG.STATS.INITIAL_HAPPINESS,
+      health: PET_CONFIG.STATS.INITIAL_HEALTH,
+      expression: PET_CONFIG.HAPPY_EXPRESSION,
+      animalType: Pet.getRandomAnimalType(this.random, this.species), // 随机分配动物类型给新宠物（含自定义物种）
+      birthTime: now, // 新宠物的诞生时间
+      lastFeedTime: now,
+      totalTokensConsumed: 0,
+      accumulatedTokens: 0,
+      totalLifetimeTokens: 0,
+      petName: generateRandomPetName(this.random) // 为新宠物分配随机名称
+    };
+  }
+
+  // journaled 为 false 时不订阅日志，用于只读载入
+  private createPet(state: IPetState, decayMultiplier: number = 1, journaled: boolean = true): Pet {
+    const userConfig = this.configService.getConfig();
+    const decayPolicy = createDecayPolicy(
+      userConfig.pet?.decayPolicy,
+      userConfig.pet?.decayRate,
+      userConfig.pet?.decayOptions
+    );
+    // 难度的衰减倍率叠加在名册的非活跃倍率之上
+    const difficulty = this.getDifficulty();
+    const multiplier = decayMultiplier * difficulty.decayMultiplier;
+    const pet = new Pet(state, {
+      config: PET_CONFIG,
+      evolutionStages: resolveEvolutionStages(userConfig.pet?.evolutionThresholds),
+      decayPolicy: multiplier === 1 ? decayPolicy : new ScaledDecayPolicy(decayPolicy, multiplier),
+      schedule: createDecaySchedule(userConfig.pet?.schedule),
+      feedWeights: resolveFeedWeights(userConfig.pet?.feedWeights, userConfig.pet?.modelMultipliers),
+      clock: this.clock,
+      random: this.random,
+      species: this.species,
+      conditions: resolveConditionSettings(userConfig.pet?.conditions),
+      streaks: resolveStreakSettings(userConfig.pet?.streaks, userConfig.pet?.schedule?.timeZone),
+      revival: difficulty.revival,
+      difficulty
+    });
+    
+    if (!journaled) {
+      return pet;
+    }
+
+    // Record every lifecycle event in the pet's journal; reborn 事件发出时状态已换成新宠物，记在被送走的旧宠物日志中
+    pet.subscribeToEvents(event => {
+      // 时间衰减和随之而来的心情变化不会让需要读盘的成就新达成，不算作状态变化
+      if (event.type !== 'decayed' && event.type !== 'moodChanged') {
+        this.petEventCount++;
+      }
+      const uuid = event.type === 'reborn' ? event.previousUuid : pet.getState().uuid;
+      this.storage.appendJournal(uuid, createJournalEntry(event));
+    });
+    return pet;
+  }
+
+  // 结算名册中非活跃宠物的衰减并保存，濒死窗口已过的宠物移入墓地
+  private settleRosterPets(): IPetState[] {
+    const multiplier = this.configService.getConfig().pet?.inactiveDecayMultiplier
+      ?? PET_CONFIG.ROSTER.INACTIVE_DECAY_MULTIPLIER;
+    const remaining: IPetState[] = [];
+
+    for (const rosterState of this.storage.listRosterPets()) {
+      // 在名册锁内基于最新保存的状态结算，不会覆盖其他会话同时做的修改
+      let expired = false;
+      const state = this.storage.updateRosterPet(rosterState.uuid, current => {
+        const pet = this.createPet(current, multiplier);
+        pet.applyTimeDecay();
+        expired = pet.isRevivalWindowExpired();
+        return pet.getState();
+      });
+      if (!state) {
+        // 其他会话已把它切换为活跃宠物
+        continue;
+      }
+
+      if (expired) {
+        try {
+          this.storage.moveRosterPetToGraveyard(markGraveyardRecord(state, this.getDifficulty()));
+          console.log(`Moved deceased pet "${state.petName}" to graveyard`);
+        } catch (error) {
+          console.error('Failed to move pet to graveyard:', error);
+        }
+        continue;
+      }
+
+      remaining.push(state);
+    }
+
+    return remaining;
+  }
 }
 
 // Claude Code Status Hook Interface
@@ -306,9 +739,8 @@ export async function main(): Promise<void> {
           }
         };
         
-        const statusLine = new ClaudeCodeStatusLine();
+        const statusLine = new ClaudeCodeStatusLine({ projectDir: claudeCodeInput.workspace.project_dir });
         const display = await statusLine.processTokensAndGetStatusDisplay(claudeCodeInput);
-        statusLine.saveState();
         process.stdout.write(display);
         return;
       }
@@ -316,7 +748,6 @@ export async function main(): Promise<void> {
       // No input provided and no transcript path - show basic status
       const statusLine = new ClaudeCodeStatusLine();
       const display = statusLine.getStatusDisplay();
-      statusLine.saveState();
       process.stdout.write(display);
       return;
     }
@@ -329,17 +760,18 @@ export async function main(): Promise<void> {
       // Invalid JSON - show basic status
       const statusLine = new ClaudeCodeStatusLine();
       const display = statusLine.getStatusDisplay();
-      statusLine.saveState();
       process.stdout.write(display);
       return;
     }
     
-    const statusLine = new ClaudeCodeStatusLine();
+    const statusLine = new ClaudeCodeStatusLine({ projectDir: claudeCodeInput.workspace?.project_dir });
+    // 状态在渲染时已通过事务保存，这里不再整体覆盖，以免冲掉其他会话同时写入的喂食
     const display = await statusLine.processTokensAndGetStatusDisplay(claudeCodeInput);
-    statusLine.saveState();
     
     // Output the status line display
     process.stdout.write(display);
+    // 输出之后再做每日快照，不拖慢状态栏
+    statusLine.runDailyBackup();
   } catch (error) {
     // Fallback display on error
     process.stdout.write('(?) ERROR');
@@ -1,7 +1,17 @@
 import { CheckCommand } from './commands/CheckCommand';
 import { ConfigCommand } from './commands/ConfigCommand';
 import { ResetCommand } from './commands/ResetCommand';
+import { SleepCommand } from './commands/SleepCommand';
+import { WakeCommand } from './commands/WakeCommand';
+import { PetsCommand } from './commands/PetsCommand';
+import { AdoptCommand } from './commands/AdoptCommand';
+import { RenameCommand } from './commands/RenameCommand';
+import { AchievementsCommand } from './commands/AchievementsCommand';
+import { WardrobeCommand } from './commands/WardrobeCommand';
+import { BackupCommand } from './commands/BackupCommand';
+import { RestoreCommand } from './commands/RestoreCommand';
 import { main as ccpetMain } from './ccpet';
+import { setHomeOverride } from './services/paths';
 
 // Import package.json to get version
 const packageJson = require('../package.json');
@@ -15,7 +25,16 @@ interface Command {
 const commands: Command[] = [
   new CheckCommand(),
   new ConfigCommand(),
-  new ResetCommand()
+  new ResetCommand(),
+  new SleepCommand(),
+  new WakeCommand(),
+  new PetsCommand(),
+  new AdoptCommand(),
+  new RenameCommand(),
+  new AchievementsCommand(),
+  new WardrobeCommand(),
+  new BackupCommand(),
+  new RestoreCommand()
 ];
 
 function showVersion() {
@@ -35,18 +54,49 @@ function showHelp() {
   console.log('Options:');
   console.log('  -h, --help               Show help information');
   console.log('  -v, --version            Show version number');
+  console.log('  --home <dir>             Keep all ccpet data in <dir> for this run');
   console.log('');
   console.log('Examples:');
   console.log('  ccpet                    # Show status line (for Claude Code)');
   console.log('  ccpet check             # Manually check pet status');  
+  console.log('  ccpet --home ~/pets-test check  # Use a separate data directory');
   console.log('  ccpet config list       # List current configuration');
   console.log('  ccpet config set colors.petExpression "#FF0000"');
   console.log('  ccpet reset             # Reset pet to initial state');
+  console.log('  ccpet sleep --until 2025-09-01  # Pause energy decay while away');
+  console.log('  ccpet wake              # Wake pet up early');
+  console.log('  ccpet adopt --type fox --name Mochi  # Adopt a pet of your choice');
+  console.log('  ccpet rename Mochi      # Rename your pet');
+  console.log('  ccpet pets list         # Show all your pets');
+  console.log('  ccpet pets use Mochi    # Switch the active pet');
+  console.log('  ccpet achievements      # Show achievements and progress');
+  console.log('  ccpet wardrobe equip top-hat  # Dress your pet up');
+  console.log('  ccpet backup            # Save a snapshot of all pet data');
+  console.log('  ccpet restore 20250821-120000-manual  # Restore a snapshot');
+}
+
+// Global --home <dir> / --home=<dir> option, accepted anywhere on the command line
+function applyHomeOption(argv: string[]): string[] {
+  const args: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--home' || arg.startsWith('--home=')) {
+      const homeDir = arg === '--home' ? argv[++i] : arg.slice('--home='.length);
+      if (!homeDir) {
+        console.error('Missing directory for --home');
+        process.exit(1);
+      }
+      setHomeOverride(homeDir);
+      continue;
+    }
+    args.push(arg);
+  }
+  return args;
 }
 
 export async function main() {
-  const args = process.argv.slice(2);
-  
+  const args = applyHomeOption(process.argv.slice(2));
+
   if (args.length === 0) {
     // Default: directly call ccpet main function for backward compatibility
     // This maintains compatibility with existing Claude Code configurations
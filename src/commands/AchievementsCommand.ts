@@ -0,0 +1,36 @@
+import { ClaudeCodeStatusLine } from '../ccpet';
+import { IAchievementProgress } from '../core/achievements';
+import { IPetRepository } from '../services/PetRepository';
+import { findProjectDir } from '../services/projects';
+
+export class AchievementsCommand {
+  name = 'achievements';
+  description = 'List unlocked and locked achievements';
+
+  constructor(private readonly repository?: IPetRepository) {}
+
+  async execute(_args: string[]): Promise<void> {
+    try {
+      const statusLine = new ClaudeCodeStatusLine({ repository: this.repository, projectDir: findProjectDir() });
+      const achievements = statusLine.getAchievements();
+
+      const unlockedCount = achievements.filter(item => item.unlockedAt).length;
+      console.log(`🏆 ${statusLine.getPetState().petName}'s achievements (${unlockedCount}/${achievements.length}):`);
+      for (const item of achievements) {
+        console.log(`  ${this.formatAchievement(item)}`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Failed to list achievements:', errorMessage);
+      process.exit(1);
+    }
+  }
+
+  private formatAchievement({ rule, current, unlockedAt }: IAchievementProgress): string {
+    const title = `${rule.emoji} ${rule.name} - ${rule.description}`;
+    if (unlockedAt) {
+      return `✅ ${title} (unlocked ${unlockedAt.toLocaleString()})`;
+    }
+    return `🔒 ${title} (${current.toLocaleString()}/${rule.target.toLocaleString()})`;
+  }
+}
@@ -0,0 +1,129 @@
+import * as readline from 'readline';
+import { ClaudeCodeStatusLine } from '../ccpet';
+import { IAdoptionOptions } from '../core/Pet';
+import { SpeciesRegistry } from '../core/species';
+import { getSpeciesDir } from '../services/speciesLoader';
+import { IPetRepository } from '../services/PetRepository';
+import { findProjectDir } from '../services/projects';
+
+interface AdoptCommandOptions extends IAdoptionOptions {
+  interactive: boolean;
+  force: boolean;
+}
+
+export class AdoptCommand {
+  name = 'adopt';
+  description = 'Adopt a new pet, choosing its animal type and name';
+
+  constructor(private readonly repository?: IPetRepository) {}
+
+  async execute(args: string[]): Promise<void> {
+    const options = this.parseArguments(args);
+
+    try {
+      const statusLine = new ClaudeCodeStatusLine({ repository: this.repository, projectDir: findProjectDir() });
+      const species = statusLine.getSpecies();
+
+      if (options.interactive) {
+        await this.promptForOptions(options, species);
+      }
+
+      // 物种和名字由 adoptPet 统一校验（内置动物和自定义物种都可以领养，不区分大小写）
+      const adoptionOptions: IAdoptionOptions = {};
+      if (options.animalType) {
+        adoptionOptions.animalType = options.animalType;
+      }
+      if (options.petName !== undefined) {
+        adoptionOptions.petName = options.petName;
+      }
+
+      const state = statusLine.adoptPet(adoptionOptions, options.force);
+      console.log(`🎉 Welcome home, ${state.petName} the ${state.animalType}!`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Failed to adopt pet:', errorMessage);
+      process.exit(1);
+    }
+  }
+
+  private parseArguments(args: string[]): AdoptCommandOptions {
+    const options: AdoptCommandOptions = { interactive: false, force: false };
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+
+      if (arg === '--type' || arg === '-t') {
+        if (args[i + 1] === undefined) {
+          console.error('❌ Missing value for --type');
+          process.exit(1);
+        }
+        options.animalType = args[i + 1];
+        i++; // Skip the next argument as it's the type value
+      } else if (arg === '--name' || arg === '-n') {
+        if (args[i + 1] === undefined) {
+          console.error('❌ Missing value for --name');
+          process.exit(1);
+        }
+        options.petName = args[i + 1];
+        i++; // Skip the next argument as it's the name value
+      } else if (arg === '--interactive' || arg === '-i') {
+        options.interactive = true;
+      } else if (arg === '--force' || arg === '-f') {
+        options.force = true;
+      } else if (arg === '--help' || arg === '-h') {
+        this.showHelp();
+        process.exit(0);
+      } else {
+        console.error(`❌ Unknown argument: ${arg}`);
+        this.showHelp();
+        process.exit(1);
+      }
+    }
+
+    return options;
+  }
+
+  // 交互模式：只询问命令行中未指定的属性，留空则随机
+  private async promptForOptions(options: AdoptCommandOptions, species: SpeciesRegistry): Promise<void> {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+    const ask = (question: string) => new Promise<string>(resolve => rl.question(question, resolve));
+
+    try {
+      if (!options.animalType) {
+        const answer = (await ask(`Animal type (${species.getIds().join(', ')}; blank for random): `)).trim();
+        if (answer) {
+          options.animalType = answer;
+        }
+      }
+      if (options.petName === undefined) {
+        const answer = (await ask('Name (blank for random): ')).trim();
+        if (answer) {
+          options.petName = answer;
+        }
+      }
+    } finally {
+      rl.close();
+    }
+  }
+
+  private showHelp(): void {
+    console.log('ccpet adopt - Adopt a new pet');
+    console.log('');
+    console.log('Usage: ccpet adopt [options]');
+    console.log('');
+    console.log('Options:');
+    console.log('  -t, --type <type>        Animal type (cat, dog, rabbit, panda, fox or a custom species)');
+    console.log('  -n, --name <name>        Pet name');
+    console.log('  -i, --interactive        Ask for the type and name');
+    console.log('  -f, --force              Replace a living pet (it is moved to the graveyard)');
+    console.log('  -h, --help               Show help information');
+    console.log('');
+    console.log('Unspecified attributes are chosen at random.');
+    console.log(`Custom species come from the "species" section of config.json or ${getSpeciesDir()}/<id>.json.`);
+    console.log('');
+    console.log('Examples:');
+    console.log('  ccpet adopt --type fox --name Mochi');
+    console.log('  ccpet adopt --interactive');
+    console.log('  ccpet adopt --force       # Replace your current pet');
+  }
+}
@@ -0,0 +1,72 @@
+import { createSnapshot, listSnapshots, getBackupsDir } from '../services/backups';
+
+export class BackupCommand {
+  name = 'backup';
+  description = 'Save a snapshot of your pets, tracker and configuration';
+
+  async execute(args: string[]): Promise<void> {
+    const [subcommand] = args;
+
+    if (subcommand === '--help' || subcommand === '-h') {
+      this.showHelp();
+      return;
+    }
+
+    switch (subcommand) {
+      case undefined:
+        this.backup();
+        break;
+      case 'list':
+        this.listBackups();
+        break;
+      default:
+        console.error(`❌ Unknown backup command: ${subcommand}`);
+        this.showHelp();
+        process.exit(1);
+    }
+  }
+
+  private backup(): void {
+    try {
+      const snapshot = createSnapshot('manual');
+      console.log(`💾 Saved snapshot ${snapshot.name} (${snapshot.manifest.files.length} files)`);
+      console.log(`📁 ${snapshot.dir}`);
+      console.log(`💡 Run "ccpet restore ${snapshot.name}" to bring it back`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Failed to create snapshot:', errorMessage);
+      process.exit(1);
+    }
+  }
+
+  private listBackups(): void {
+    const snapshots = listSnapshots();
+    if (snapshots.length === 0) {
+      console.log('ℹ️  No snapshots yet. Run "ccpet backup" to create one.');
+      return;
+    }
+
+    console.log(`💾 Snapshots in ${getBackupsDir()}:`);
+    for (const { name, manifest } of snapshots) {
+      console.log(`  ${name.padEnd(32)} ${manifest.reason.padEnd(12)} ${manifest.files.length} files`);
+    }
+  }
+
+  private showHelp(): void {
+    console.log('ccpet backup - Save a snapshot of your pets, tracker and configuration');
+    console.log('');
+    console.log('Usage: ccpet backup [list]');
+    console.log('');
+    console.log('Commands:');
+    console.log('  (none)                   Save a snapshot of the pet state, roster, graveyard, journal, tracker and config');
+    console.log('  list                     Show saved snapshots');
+    console.log('');
+    console.log('Each snapshot has a manifest with a sha256 checksum for every file.');
+    console.log('Set backup.daily to true to take a snapshot once a day; backup.retention controls how many are kept.');
+    console.log('');
+    console.log('Examples:');
+    console.log('  ccpet backup');
+    console.log('  ccpet backup list');
+    console.log('  ccpet restore 20250821-120000-manual');
+  }
+}
@@ -1,4 +1,9 @@
 import { ClaudeCodeStatusLine } from '../ccpet';
+import { IStreakStatus } from '../core/streaks';
+import { IPetState, IRevivalStatus } from '../core/Pet';
+import { PetCondition } from '../core/conditions';
+import { IPetRepository } from '../services/PetRepository';
+import { findProjectDir } from '../services/projects';
 
 interface CheckCommandOptions {
   watch?: boolean;
@@ -9,8 +14,10 @@ export class CheckCommand {
   name = 'check';
   description = 'Manually check pet status without consuming Claude Code tokens';
 
+  constructor(private readonly repository?: IPetRepository) {}
+
   private countdownInterval: NodeJS.Timeout | null = null;
-  private previousState: any = null;
+  private previousState: IPetState | null = null;
   private errorCount: number = 0;
   private readonly MAX_ERRORS = 3;
   private countdownSeconds: number = 0;
@@ -84,9 +91,9 @@ export class CheckCommand {
 
   private async executeOnceForWatch(): Promise<void> {
     try {
-      const statusLine = new ClaudeCodeStatusLine();
+      const statusLine = new ClaudeCodeStatusLine({ repository: this.repository, projectDir: findProjectDir() });
       const display = statusLine.getStatusDisplay();
-      const currentState = (statusLine as any).pet ? (statusLine as any).pet.getState() : null;
+      const currentState = statusLine.getPetState();
       
       // For subsequent updates, move cursor up and clear lines
       if (this.previousState) {
@@ -101,8 +108,8 @@ export class CheckCommand {
       output += display + '\n';
       
       // Line 2: Time info
-      if (currentState && currentState.lastFeedTime) {
-        const timeSinceLastFeed = Date.now() - new Date(currentState.lastFeedTime).getTime();
+      if (currentState.lastFeedTime) {
+        const timeSinceLastFeed = statusLine.now().getTime() - currentState.lastFeedTime.getTime();
         const minutes = Math.floor(timeSinceLastFeed / (1000 * 60));
         const hours = Math.floor(minutes / 60);
         
@@ -121,8 +128,7 @@ export class CheckCommand {
       // Output everything at once
       process.stdout.write(output);
       
-      statusLine.saveState();
-      this.previousState = currentState ? { ...currentState } : null;
+      this.previousState = { ...currentState };
       this.errorCount = 0; // Reset error count on success
       
     } catch (error) {
@@ -145,16 +151,22 @@ export class CheckCommand {
     try {
       console.log('🐾 检查宠物状态...\n');
       
-      const statusLine = new ClaudeCodeStatusLine();
+      const statusLine = new ClaudeCodeStatusLine({ repository: this.repository, projectDir: findProjectDir() });
       const display = statusLine.getStatusDisplay();
-      statusLine.saveState();
       
       console.log(display);
       console.log('\n💡 提示: 这次查看不消耗Claude Code token');
       console.log('📝 在Claude Code中活跃使用可以喂养你的宠物');
       
-      const petState = (statusLine as any).pet ? (statusLine as any).pet.getState() : null;
-      this.showTimeInfo(petState);
+      const petState = statusLine.getPetState();
+      // 剩余时间都按状态栏的时钟计算，与 CCPET_FIXED_TIME 下的宠物状态一致
+      const now = statusLine.now();
+      this.showTimeInfo(petState, now);
+      this.showFeedingInfo(petState);
+      this.showSleepInfo(petState, now);
+      this.showConditionInfo(petState, now);
+      this.showRevivalInfo(petState, statusLine.getRevivalStatus(), now);
+      this.showStreakInfo(statusLine.getStreakStatus());
       
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -163,9 +175,9 @@ export class CheckCommand {
     }
   }
 
-  private showTimeInfo(petState: any): void {
-    if (petState && petState.lastFeedTime) {
-      const timeSinceLastFeed = Date.now() - new Date(petState.lastFeedTime).getTime();
+  private showTimeInfo(petState: IPetState, now: Date): void {
+    if (petState.lastFeedTime) {
+      const timeSinceLastFeed = now.getTime() - petState.lastFeedTime.getTime();
       const minutes = Math.floor(timeSinceLastFeed / (1000 * 60));
       const hours = Math.floor(minutes / 60);
       
@@ -177,6 +189,63 @@ export class CheckCommand {
     }
   }
 
+  // 喂食量按token类型和模型折算，单独显示原始token数和折算后的喂食量
+  private showFeedingInfo(petState: IPetState): void {
+    const rawTokens = petState.totalLifetimeTokens;
+    const weightedTokens = petState.totalLifetimeWeightedTokens ?? rawTokens;
+    console.log(`🍽️  累计喂食: ${weightedTokens.toLocaleString()} (原始token: ${rawTokens.toLocaleString()})`);
+  }
+
+  private showSleepInfo(petState: IPetState, now: Date): void {
+    if (!petState.sleep) {
+      return;
+    }
+
+    const until = petState.sleep.until ?? null;
+    if (until && until.getTime() > now.getTime()) {
+      console.log(`😴 宠物正在休眠，预计醒来时间: ${until.toLocaleString()}`);
+    } else if (!until) {
+      console.log('😴 宠物正在休眠，使用 ccpet wake 唤醒');
+    }
+  }
+
+  private showStreakInfo(streak: IStreakStatus): void {
+    const percentage = Math.floor(streak.goalProgress * 100);
+    console.log(`🔥 连续喂食: ${streak.current}天 (最长: ${streak.longest}天)`);
+    console.log(`🎯 今日进度: ${streak.todayTokens.toLocaleString()} / ${streak.dailyGoal.toLocaleString()} (${percentage}%)`);
+  }
+
+  private showConditionInfo(petState: IPetState, now: Date): void {
+    if (!petState.conditions) {
+      return;
+    }
+
+    const labels: Record<PetCondition, string> = {
+      overfed: '🤢 宠物吃撑了',
+      exhausted: '🥱 宠物累坏了'
+    };
+    for (const [condition, label] of Object.entries(labels) as Array<[PetCondition, string]>) {
+      const until = petState.conditions[condition];
+      if (until && until.getTime() > now.getTime()) {
+        console.log(`${label}，预计恢复时间: ${until.toLocaleString()}`);
+      }
+    }
+  }
+
+  // 濒死窗口内提示复活进度；复活后的能量上限惩罚期间显示上限和恢复时间
+  private showRevivalInfo(petState: IPetState, revival: IRevivalStatus | undefined, now: Date): void {
+    if (revival) {
+      const remaining = Math.max(0, revival.quotaTokens - revival.tokens);
+      console.log(`💔 宠物奄奄一息！在 ${revival.deadline.toLocaleString()} 前再喂食 ${remaining.toLocaleString()} token 即可复活`);
+    }
+    if (petState.energyCap && petState.energyCap.until.getTime() > now.getTime()) {
+      console.log(`🩹 复活虚弱期: 能量上限 ${petState.energyCap.maxEnergy}，恢复时间: ${petState.energyCap.until.toLocaleString()}`);
+    }
+    if (petState.revivalCount) {
+      console.log(`✨ 复活次数: ${petState.revivalCount}`);
+    }
+  }
+
   private handleWatchError(error: unknown): void {
     this.errorCount++;
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -1,10 +1,17 @@
 import { ConfigService } from '../services/ConfigService';
+import { PetStorage } from '../services/PetStorage';
+import { systemClock } from '../core/Clock';
+import { DIFFICULTY_LEVELS, resolveDifficultySettings, describeDifficulty } from '../core/difficulty';
+import { IPetRepository } from '../services/PetRepository';
+import { findProjectDir, resolveProjectPetDir } from '../services/projects';
 
 export class ConfigCommand {
   name = 'config';
   description = 'Manage ccpet configuration';
   private configService = new ConfigService();
 
+  constructor(private readonly repository?: IPetRepository) {}
+
   async execute(args: string[]): Promise<void> {
     if (args.length === 0) {
       this.showHelp();
@@ -58,20 +65,53 @@ export class ConfigCommand {
     console.log('  colors.contextLength     Context length color');
     console.log('  colors.contextPercentage Context percentage color');
     console.log('  colors.contextPercentageUsable Context percentage usable color');
+    console.log('  colors.stage             Evolution stage color');
+    console.log('  colors.stageProgress     Evolution progress color');
+    console.log('  colors.happiness         Happiness color');
+    console.log('  colors.health            Health color');
+    console.log('  colors.streak            Feeding streak color');
+    console.log('  colors.dailyGoal         Daily goal color');
+    console.log('  colors.achievement       Achievement toast color');
     console.log('  pet.animationEnabled     Enable/disable animations (true/false)');
     console.log('  pet.decayRate           Energy decay rate per minute');
+    console.log('  pet.decayPolicy          Decay curve (linear, exponential, stepped, grace)');
+    console.log('  pet.perProject           Keep a separate pet for each project (true/false)');
+    console.log('  pet.inactiveDecayMultiplier Decay rate of inactive roster pets (0-1)');
+    console.log('  pet.feedWeights.<type>   Feeding weight per token type (input, output, cacheCreation, cacheRead)');
+    console.log('  pet.modelMultipliers.<model> Feeding multiplier for models matching this prefix');
+    console.log('  pet.conditions.<setting> Overfed/exhausted thresholds (overfedTokensPerMinute, overfedWindowMinutes,');
+    console.log('                           overfedRecoveryMinutes, exhaustedSessionMinutes, exhaustedRecoveryMinutes)');
+    console.log('  pet.streaks.<setting>    Feeding streak settings (minDailyTokens, dailyGoal, timeZone)');
+    console.log('  pet.revival.<setting>    Revival settings (windowHours, quotaTokens, penaltyMaxEnergy, penaltyHours)');
+    console.log('  pet.difficulty           Difficulty preset (casual, normal, hard, hardcore)');
+    console.log('  pet.difficultyOverrides.<setting> Override one preset value (decayMultiplier, tokensPerEnergy,');
+    console.log('                           happyThreshold, hungryThreshold, sickThreshold, maxSleepHours)');
+    console.log('  backup.daily             Take a snapshot once a day from the status line (true/false)');
+    console.log('  backup.retention         Daily and pre-restore snapshots to keep (default 7)');
     console.log('  display.maxLines         Maximum lines to display (1-3)');
+    console.log('  display.sprites          Show a multi-line ASCII sprite beside the info lines (true/false)');
+    console.log('  display.line1.items      Items to show on line 1 (comma-separated)');
     console.log('  display.line2.enabled    Enable/disable line 2 (true/false)');
     console.log('  display.line2.items      Items to show on line 2 (comma-separated)');
     console.log('  display.line3.enabled    Enable/disable line 3 (true/false)');
     console.log('  display.line3.items      Items to show on line 3 (comma-separated)');
     console.log('');
+    console.log('Available line1 items: expression, energy-bar, energy-value, accumulated-tokens, lifetime-tokens, pet-name, stage, stage-progress, happiness, health, streak, daily-goal');
     console.log('Available display items: input, output, cached, total, context-length, context-percentage, context-percentage-usable');
     console.log('');
     console.log('Examples:');
     console.log('  ccpet config set colors.petExpression "#FF0000:bright"');
     console.log('  ccpet config set pet.animationEnabled false');
     console.log('  ccpet config set pet.decayRate 0.05');
+    console.log('  ccpet config set pet.decayPolicy grace');
+    console.log('  ccpet config set pet.feedWeights.cacheRead 0.05');
+    console.log('  ccpet config set pet.modelMultipliers.claude-opus 2');
+    console.log('  ccpet config set pet.conditions.exhaustedSessionMinutes 240');
+    console.log('  ccpet config set pet.streaks.timeZone Asia/Shanghai');
+    console.log('  ccpet config set pet.revival.windowHours 48');
+    console.log('  ccpet config set pet.difficulty hard');
+    console.log('  ccpet config set pet.difficultyOverrides.maxSleepHours 48');
+    console.log('  ccpet config set backup.daily true');
     console.log('  ccpet config set display.maxLines 3');
     console.log('  ccpet config set display.line2.items "input,output"');
     console.log('  ccpet config set display.line3.items "total"');
@@ -82,6 +122,7 @@ export class ConfigCommand {
       const config = this.configService.listConfig();
       console.log('Current configuration:');
       console.log(config);
+      this.showDifficultyPresets();
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('Failed to list configuration:', errorMessage);
@@ -89,6 +130,18 @@ export class ConfigCommand {
     }
   }
 
+  // 列出所有难度预设，当前难度显示覆盖后的实际值
+  private showDifficultyPresets(): void {
+    const pet = this.configService.getConfig().pet;
+    const active = resolveDifficultySettings(pet?.difficulty, pet?.difficultyOverrides, pet?.revival);
+    console.log('');
+    console.log('Difficulty presets:');
+    for (const level of DIFFICULTY_LEVELS) {
+      const settings = level === active.level ? active : resolveDifficultySettings(level);
+      console.log(`  ${level === active.level ? '*' : ' '} ${level.padEnd(9)}${describeDifficulty(settings)}`);
+    }
+  }
+
   private async setConfig(args: string[]): Promise<void> {
     if (args.length !== 2) {
       console.error('Usage: ccpet config set <key> <value>');
@@ -102,6 +155,43 @@ export class ConfigCommand {
         const colorKey = key.replace('colors.', '') as any;
         this.configService.setColorConfig(colorKey, value);
         console.log(`✅ Set ${key} = ${value}`);
+        this.recordConfigChange('configChanged', { key, value });
+      } else if (key.startsWith('pet.feedWeights.')) {
+        const tokenType = key.replace('pet.feedWeights.', '');
+        const weight = Number(value);
+        this.configService.setFeedWeight(tokenType, weight);
+        console.log(`✅ Set ${key} = ${weight}`);
+        this.recordConfigChange('configChanged', { key, value: weight });
+      } else if (key.startsWith('pet.modelMultipliers.')) {
+        const model = key.replace('pet.modelMultipliers.', '');
+        const multiplier = Number(value);
+        this.configService.setModelMultiplier(model, multiplier);
+        console.log(`✅ Set ${key} = ${multiplier}`);
+        this.recordConfigChange('configChanged', { key, value: multiplier });
+      } else if (key.startsWith('pet.conditions.')) {
+        const setting = key.replace('pet.conditions.', '');
+        const parsedValue = Number(value);
+        this.configService.setConditionSetting(setting, parsedValue);
+        console.log(`✅ Set ${key} = ${parsedValue}`);
+        this.recordConfigChange('configChanged', { key, value: parsedValue });
+      } else if (key.startsWith('pet.streaks.')) {
+        const setting = key.replace('pet.streaks.', '');
+        const parsedValue = setting === 'timeZone' ? value : Number(value);
+        this.configService.setStreakSetting(setting, parsedValue);
+        console.log(`✅ Set ${key} = ${parsedValue}`);
+        this.recordConfigChange('configChanged', { key, value: parsedValue });
+      } else if (key.startsWith('pet.revival.')) {
+        const setting = key.replace('pet.revival.', '');
+        const parsedValue = Number(value);
+        this.configService.setRevivalSetting(setting, parsedValue);
+        console.log(`✅ Set ${key} = ${parsedValue}`);
+        this.recordConfigChange('configChanged', { key, value: parsedValue });
+      } else if (key.startsWith('pet.difficultyOverrides.')) {
+        const setting = key.replace('pet.difficultyOverrides.', '');
+        const parsedValue = Number(value);
+        this.configService.setDifficultyOverride(setting, parsedValue);
+        console.log(`✅ Set ${key} = ${parsedValue}`);
+        this.recordConfigChange('configChanged', { key, value: parsedValue });
       } else if (key.startsWith('pet.')) {
         const petKey = key.replace('pet.', '') as any;
         let parsedValue: any = value;
@@ -113,6 +203,13 @@ export class ConfigCommand {
         
         this.configService.setPetConfig(petKey, parsedValue);
         console.log(`✅ Set ${key} = ${parsedValue}`);
+        this.recordConfigChange('configChanged', { key, value: parsedValue });
+      } else if (key.startsWith('backup.')) {
+        const setting = key.replace('backup.', '');
+        const parsedValue = value === 'true' ? true : value === 'false' ? false : Number(value);
+        this.configService.setBackupSetting(setting, parsedValue);
+        console.log(`✅ Set ${key} = ${parsedValue}`);
+        this.recordConfigChange('configChanged', { key, value: parsedValue });
       } else if (key.startsWith('display.')) {
         const displayKey = key.replace('display.', '');
         let parsedValue: any = value;
@@ -124,6 +221,7 @@ export class ConfigCommand {
         
         this.configService.setDisplayConfig(displayKey, parsedValue);
         console.log(`✅ Set ${key} = ${parsedValue}`);
+        this.recordConfigChange('configChanged', { key, value: parsedValue });
       } else {
         console.error(`Unknown configuration key: ${key}`);
         console.error('Run "ccpet config" to see available keys.');
@@ -140,6 +238,7 @@ export class ConfigCommand {
     try {
       this.configService.resetConfig();
       console.log('✅ Configuration reset to defaults');
+      this.recordConfigChange('configReset');
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('Failed to reset configuration:', errorMessage);
@@ -147,6 +246,27 @@ export class ConfigCommand {
     }
   }
 
+  // 配置变更会影响衰减等行为，记入当前宠物的日志以便事后追溯
+  private recordConfigChange(type: string, data: Record<string, unknown> = {}): void {
+    try {
+      const repository = this.repository ?? this.getActivePetStorage();
+      const currentState = repository.loadState();
+      if (currentState) {
+        repository.appendJournal(currentState.uuid, { timestamp: systemClock.now().toISOString(), type, ...data });
+      }
+    } catch (error) {
+      console.error('Failed to record configuration change:', error);
+    }
+  }
+
+  // 与状态栏一致：开启 perProject 且当前目录属于已有的项目宠物时，配置变更记在该项目宠物上
+  private getActivePetStorage(): PetStorage {
+    const projectPetDir = this.configService.getConfig().pet?.perProject
+      ? resolveProjectPetDir(findProjectDir())
+      : undefined;
+    return new PetStorage(undefined, undefined, undefined, projectPetDir);
+  }
+
   private async showConfigPath(): Promise<void> {
     try {
       const path = this.configService.getConfigPath();
@@ -0,0 +1,138 @@
+import { ClaudeCodeStatusLine } from '../ccpet';
+import { PetStorage } from '../services/PetStorage';
+import { findProjectDir, listProjectPets } from '../services/projects';
+import { IPetState } from '../core/Pet';
+import { IPetRepository } from '../services/PetRepository';
+
+export class PetsCommand {
+  name = 'pets';
+  description = 'List and manage your pets';
+
+  constructor(private readonly repository?: IPetRepository) {}
+
+  async execute(args: string[]): Promise<void> {
+    const [subcommand, ...rest] = args;
+
+    if (!subcommand || subcommand === '--help' || subcommand === '-h') {
+      this.showHelp();
+      return;
+    }
+
+    switch (subcommand) {
+      case 'list':
+        this.listPets();
+        break;
+      case 'adopt':
+        this.adoptPet();
+        break;
+      case 'use':
+        this.usePet(rest.join(' '));
+        break;
+      default:
+        console.error(`❌ Unknown pets command: ${subcommand}`);
+        this.showHelp();
+        process.exit(1);
+    }
+  }
+
+  private listPets(): void {
+    try {
+      const statusLine = new ClaudeCodeStatusLine({ repository: this.repository, projectDir: findProjectDir() });
+      const pets = statusLine.listPets();
+
+      console.log('🐾 Your pets:');
+      for (const { state, active } of pets) {
+        console.log(`  ${active ? '▶' : ' '} ${this.formatPet(state)}`);
+      }
+
+      // 项目宠物按目录保存，只有默认的文件存储才有
+      const projects = this.repository ? [] : listProjectPets();
+      if (projects.length > 0) {
+        console.log('');
+        console.log('📁 Project pets:');
+        for (const project of projects) {
+          // 单个项目的状态文件无法读取（如较新版本写入）时只跳过该项目
+          try {
+            const state = new PetStorage(undefined, undefined, undefined, project.petDir).loadState();
+            console.log(`  ${this.formatPet(state && statusLine.getSettledState(state))}  ${project.projectDir}`);
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            console.log(`  ⚠️  ${errorMessage}  ${project.projectDir}`);
+          }
+        }
+      }
+
+      const graveyard = (this.repository ?? new PetStorage()).listGraveyardPets();
+      if (graveyard.length > 0) {
+        console.log('');
+        console.log('🪦 Graveyard:');
+        for (const state of graveyard) {
+          const hardcore = state.hardcore ? ' [hardcore]' : '';
+          console.log(`  ${state.petName} (${state.animalType}) ${state.totalLifetimeTokens.toLocaleString()} lifetime tokens${hardcore}`);
+        }
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Failed to list pets:', errorMessage);
+      process.exit(1);
+    }
+  }
+
+  private adoptPet(): void {
+    try {
+      const statusLine = new ClaudeCodeStatusLine({ repository: this.repository, projectDir: findProjectDir() });
+      const state = statusLine.adoptExtraPet();
+
+      console.log(`🎉 ${state.petName} the ${state.animalType} joined your roster`);
+      console.log(`💡 Run "ccpet pets use ${state.petName}" to make it your active pet`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Failed to adopt pet:', errorMessage);
+      process.exit(1);
+    }
+  }
+
+  private usePet(nameOrUuid: string): void {
+    if (!nameOrUuid) {
+      console.error('Usage: ccpet pets use <name>');
+      process.exit(1);
+    }
+
+    try {
+      const statusLine = new ClaudeCodeStatusLine({ repository: this.repository, projectDir: findProjectDir() });
+      const state = statusLine.usePet(nameOrUuid);
+
+      console.log(`✅ ${state.petName} is now your active pet`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Failed to switch pet:', errorMessage);
+      process.exit(1);
+    }
+  }
+
+  private formatPet(state: IPetState | null): string {
+    if (!state) {
+      return '(not hatched yet)';
+    }
+    const status = state.energy <= 0 ? '💀' : `⚡ ${state.energy.toFixed(1)}`;
+    return `${state.petName} (${state.animalType}) ${status}`;
+  }
+
+  private showHelp(): void {
+    console.log('ccpet pets - List and manage your pets');
+    console.log('');
+    console.log('Usage: ccpet pets <command>');
+    console.log('');
+    console.log('Commands:');
+    console.log('  list                     Show your pets, every project pet and the graveyard');
+    console.log('  adopt                    Adopt an extra pet into your roster');
+    console.log('  use <name>               Make a roster pet the active one (fed by the status line)');
+    console.log('');
+    console.log('Inactive pets are not fed and decay at pet.inactiveDecayMultiplier of the normal rate.');
+    console.log('');
+    console.log('Examples:');
+    console.log('  ccpet pets list');
+    console.log('  ccpet pets adopt');
+    console.log('  ccpet pets use Mochi');
+  }
+}
@@ -0,0 +1,51 @@
+import { ClaudeCodeStatusLine } from '../ccpet';
+import { IPetRepository } from '../services/PetRepository';
+import { findProjectDir } from '../services/projects';
+
+export class RenameCommand {
+  name = 'rename';
+  description = 'Rename your pet (old names are kept in its history)';
+
+  constructor(private readonly repository?: IPetRepository) {}
+
+  async execute(args: string[]): Promise<void> {
+    if (args[0] === '--help' || args[0] === '-h') {
+      this.showHelp();
+      return;
+    }
+
+    const newName = args.join(' ');
+    if (!newName.trim()) {
+      console.error('Usage: ccpet rename <new name>');
+      process.exit(1);
+    }
+
+    try {
+      const statusLine = new ClaudeCodeStatusLine({ repository: this.repository, projectDir: findProjectDir() });
+      const previousName = statusLine.getPetState().petName;
+      const state = statusLine.renamePet(newName);
+
+      if (state.petName === previousName) {
+        console.log(`ℹ️  Your pet is already named ${previousName}`);
+      } else {
+        console.log(`✏️  ${previousName} is now called ${state.petName}`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Failed to rename pet:', errorMessage);
+      process.exit(1);
+    }
+  }
+
+  private showHelp(): void {
+    console.log('ccpet rename - Rename your pet');
+    console.log('');
+    console.log('Usage: ccpet rename <new name>');
+    console.log('');
+    console.log('Previous names are kept in the pet state as nameHistory.');
+    console.log('');
+    console.log('Examples:');
+    console.log('  ccpet rename Mochi');
+    console.log('  ccpet rename "Sir Whiskers"');
+  }
+}
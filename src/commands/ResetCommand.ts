@@ -1,29 +1,56 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 import { PetStorage } from '../services/PetStorage';
+import { ConfigService } from '../services/ConfigService';
+import { getStateDir, getCacheDir } from '../services/paths';
+import { resolveDifficultySettings, canResetLivingPet, markGraveyardRecord } from '../core/difficulty';
+import { IPetRepository } from '../services/PetRepository';
+import { readJsonFile } from '../services/fileStore';
+import { assertSupportedSchema } from '../services/stateMigrations';
+import { findProjectDir, resolveProjectPetDir } from '../services/projects';
+import { ClaudeCodeStatusLine } from '../ccpet';
 
 export class ResetCommand {
   name = 'reset';
   description = 'Reset pet to initial state';
 
+  constructor(private readonly repository?: IPetRepository) {}
+
   async execute(_args: string[]): Promise<void> {
     try {
-      const petDir = path.join(os.homedir(), '.claude-pet');
-      const stateFile = path.join(petDir, 'pet-state.json');
-      const counterFile = path.join(petDir, 'animation-counter.json');
-      const sessionFile = path.join(petDir, 'session-tracker.json');
+      const stateDir = getStateDir();
+      const pet = new ConfigService().getConfig().pet;
+      // 与状态栏一致：开启 perProject 且当前目录属于项目宠物时，重置的是该项目宠物
+      const projectPetDir = !this.repository && pet?.perProject
+        ? resolveProjectPetDir(findProjectDir())
+        : undefined;
+      const stateFile = path.join(projectPetDir ?? stateDir, 'pet-state.json');
+      const counterFile = path.join(getCacheDir(), 'animation-counter.json');
+      const sessionFile = path.join(stateDir, 'session-tracker.json');
 
       let filesRemoved = 0;
-      const storage = new PetStorage();
+      const storage = this.repository ?? new PetStorage(undefined, undefined, undefined, projectPetDir);
+      const difficulty = resolveDifficultySettings(pet?.difficulty, pet?.difficultyOverrides, pet?.revival);
+      // 注入的存储后端没有 pet-state.json，直接检查是否有活跃宠物
+      const hasPet = this.repository ? this.repository.loadState() !== null : fs.existsSync(stateFile);
+
+      // 硬核难度不允许重置活着的宠物（在移动任何文件之前检查）；先结算上次渲染以来的衰减，期间已饿死的宠物可以重置
+      if (!canResetLivingPet(difficulty) && hasPet) {
+        const savedState = storage.loadState();
+        const currentState = savedState
+          && new ClaudeCodeStatusLine({ repository: this.repository, projectDir: findProjectDir() }).getSettledState(savedState);
+        if (currentState && currentState.energy > 0) {
+          throw new Error(`"${currentState.petName}" is still alive. Hardcore pets cannot be reset.`);
+        }
+      }
 
       // Handle pet state file with graveyard preservation
-      if (fs.existsSync(stateFile)) {
+      if (hasPet) {
         try {
           const currentState = storage.loadState();
           if (currentState) {
             // Move to graveyard instead of deleting
-            storage.moveToGraveyard(currentState);
+            storage.moveToGraveyard(markGraveyardRecord(currentState, difficulty));
             console.log(`🪦 Moved pet "${currentState.petName}" to graveyard`);
             filesRemoved++;
           } else {
@@ -33,6 +60,11 @@ export class ResetCommand {
             filesRemoved++;
           }
         } catch (graveyardError) {
+          if (this.repository) {
+            throw graveyardError;
+          }
+          // 较新版本写入的文件不是损坏的文件，不能删除
+          assertSupportedSchema(readJsonFile(stateFile), stateFile);
           // Fallback to deletion if graveyard fails
           console.warn('⚠️  Failed to move to graveyard, removing file:', graveyardError);
           fs.unlinkSync(stateFile);
@@ -0,0 +1,45 @@
+import { restoreSnapshot, pruneSnapshots } from '../services/backups';
+import { ConfigService } from '../services/ConfigService';
+import { PET_CONFIG } from '../core/config';
+
+export class RestoreCommand {
+  name = 'restore';
+  description = 'Restore a snapshot saved by "ccpet backup"';
+
+  async execute(args: string[]): Promise<void> {
+    const [snapshot] = args;
+
+    if (!snapshot || snapshot === '--help' || snapshot === '-h') {
+      this.showHelp();
+      if (!snapshot) {
+        process.exit(1);
+      }
+      return;
+    }
+
+    try {
+      const { manifest, safetySnapshot } = restoreSnapshot(snapshot);
+      pruneSnapshots('pre-restore', new ConfigService().getConfig().backup?.retention ?? PET_CONFIG.BACKUP.RETENTION);
+
+      console.log(`✅ Restored ${manifest.files.length} files from the snapshot taken at ${manifest.createdAt}`);
+      console.log(`💾 Your previous data was saved as ${safetySnapshot.name}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Failed to restore snapshot:', errorMessage);
+      process.exit(1);
+    }
+  }
+
+  private showHelp(): void {
+    console.log('ccpet restore - Restore a snapshot saved by "ccpet backup"');
+    console.log('');
+    console.log('Usage: ccpet restore <snapshot>');
+    console.log('');
+    console.log('<snapshot> is a name from "ccpet backup list" or the path to a snapshot directory.');
+    console.log('Every file is checked against the manifest before anything is replaced, and your current');
+    console.log('data is saved as a pre-restore snapshot first.');
+    console.log('');
+    console.log('Examples:');
+    console.log('  ccpet restore 20250821-120000-manual');
+  }
+}
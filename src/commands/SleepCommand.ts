@@ -0,0 +1,92 @@
+import { ClaudeCodeStatusLine } from '../ccpet';
+import { IPetRepository } from '../services/PetRepository';
+import { findProjectDir } from '../services/projects';
+
+interface SleepCommandOptions {
+  until?: Date;
+}
+
+export class SleepCommand {
+  name = 'sleep';
+  description = 'Put pet to sleep so its energy stops decaying';
+
+  constructor(private readonly repository?: IPetRepository) {}
+
+  async execute(args: string[]): Promise<void> {
+    const options = this.parseArguments(args);
+
+    try {
+      const statusLine = new ClaudeCodeStatusLine({ repository: this.repository, projectDir: findProjectDir() });
+      statusLine.putPetToSleep(options.until);
+
+      const { petName } = statusLine.getPetState();
+      console.log(`😴 ${petName} is now asleep, energy decay is paused`);
+      if (options.until) {
+        console.log(`⏰ Will wake up at ${options.until.toLocaleString()}`);
+      } else {
+        console.log('💡 Run "ccpet wake" to wake your pet up');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Failed to put pet to sleep:', errorMessage);
+      process.exit(1);
+    }
+  }
+
+  private parseArguments(args: string[]): SleepCommandOptions {
+    const options: SleepCommandOptions = {};
+
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+
+      if (arg === '--until') {
+        const until = this.parseDate(args[i + 1]);
+        if (!until) {
+          console.error(`❌ Invalid date: ${args[i + 1] ?? '(missing)'}`);
+          console.error('Use a date like 2025-09-01 or 2025-09-01T09:00');
+          process.exit(1);
+        }
+        options.until = until;
+        i++; // Skip the next argument as it's the date value
+      } else if (arg === '--help' || arg === '-h') {
+        this.showHelp();
+        process.exit(0);
+      } else {
+        console.error(`❌ Unknown argument: ${arg}`);
+        this.showHelp();
+        process.exit(1);
+      }
+    }
+
+    return options;
+  }
+
+  private parseDate(value: string | undefined): Date | null {
+    if (!value) {
+      return null;
+    }
+
+    // 纯日期按本地时间零点处理，而不是 Date 默认的 UTC
+    const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    const date = dateOnly
+      ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]))
+      : new Date(value);
+
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  private showHelp(): void {
+    console.log('ccpet sleep - Put your pet to sleep');
+    console.log('');
+    console.log('Usage: ccpet sleep [options]');
+    console.log('');
+    console.log('Options:');
+    console.log('  --until <date>           Wake up automatically at this local date/time');
+    console.log('  -h, --help               Show help information');
+    console.log('');
+    console.log('Examples:');
+    console.log('  ccpet sleep                          # Sleep until "ccpet wake"');
+    console.log('  ccpet sleep --until 2025-09-01       # Sleep until midnight, Sep 1st');
+    console.log('  ccpet sleep --until 2025-09-01T09:00 # Sleep until 9am, Sep 1st');
+  }
+}
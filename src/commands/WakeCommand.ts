@@ -0,0 +1,27 @@
+import { ClaudeCodeStatusLine } from '../ccpet';
+import { IPetRepository } from '../services/PetRepository';
+import { findProjectDir } from '../services/projects';
+
+export class WakeCommand {
+  name = 'wake';
+  description = 'Wake pet up from sleep';
+
+  constructor(private readonly repository?: IPetRepository) {}
+
+  async execute(_args: string[]): Promise<void> {
+    try {
+      const statusLine = new ClaudeCodeStatusLine({ repository: this.repository, projectDir: findProjectDir() });
+      const wasAsleep = statusLine.wakePet();
+
+      if (wasAsleep) {
+        console.log(`☀️  ${statusLine.getPetState().petName} is awake, energy decay resumed`);
+      } else {
+        console.log('ℹ️  Your pet is not asleep');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Failed to wake pet:', errorMessage);
+      process.exit(1);
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import { ClaudeCodeStatusLine } from '../ccpet';
+import { describeUnlock } from '../core/accessories';
+import { IPetRepository } from '../services/PetRepository';
+import { findProjectDir } from '../services/projects';
+
+export class WardrobeCommand {
+  name = 'wardrobe';
+  description = 'List and equip accessories unlocked through play';
+
+  constructor(private readonly repository?: IPetRepository) {}
+
+  async execute(args: string[]): Promise<void> {
+    const [subcommand, ...rest] = args;
+
+    if (subcommand === '--help' || subcommand === '-h') {
+      this.showHelp();
+      return;
+    }
+
+    switch (subcommand ?? 'list') {
+      case 'list':
+        this.listAccessories();
+        break;
+      case 'equip':
+        this.equipAccessory(rest.join(' '));
+        break;
+      case 'unequip':
+        this.unequipAccessory();
+        break;
+      default:
+        console.error(`❌ Unknown wardrobe command: ${subcommand}`);
+        this.showHelp();
+        process.exit(1);
+    }
+  }
+
+  private listAccessories(): void {
+    try {
+      const statusLine = new ClaudeCodeStatusLine({ repository: this.repository, projectDir: findProjectDir() });
+      const wardrobe = statusLine.getWardrobe();
+
+      console.log(`👗 ${statusLine.getPetState().petName}'s wardrobe:`);
+      for (const { accessory, unlocked, equipped } of wardrobe) {
+        const marker = equipped ? '▶' : unlocked ? '✅' : '🔒';
+        const detail = unlocked ? accessory.id : `unlocks at ${describeUnlock(accessory.unlock)}`;
+        console.log(`  ${marker} ${accessory.emoji} ${accessory.name} (${detail})`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Failed to list accessories:', errorMessage);
+      process.exit(1);
+    }
+  }
+
+  private equipAccessory(id: string): void {
+    if (!id) {
+      console.error('Usage: ccpet wardrobe equip <item>');
+      process.exit(1);
+    }
+
+    try {
+      const statusLine = new ClaudeCodeStatusLine({ repository: this.repository, projectDir: findProjectDir() });
+      const accessory = statusLine.equipAccessory(id);
+
+      console.log(`✅ ${statusLine.getPetState().petName} is now wearing the ${accessory.name} ${accessory.emoji}`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Failed to equip accessory:', errorMessage);
+      process.exit(1);
+    }
+  }
+
+  private unequipAccessory(): void {
+    try {
+      const statusLine = new ClaudeCodeStatusLine({ repository: this.repository, projectDir: findProjectDir() });
+      if (statusLine.unequipAccessory()) {
+        console.log(`✅ ${statusLine.getPetState().petName} took off its accessory`);
+      } else {
+        console.log('ℹ️  Your pet is not wearing an accessory');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('❌ Failed to remove accessory:', errorMessage);
+      process.exit(1);
+    }
+  }
+
+  private showHelp(): void {
+    console.log('ccpet wardrobe - List and equip accessories unlocked through play');
+    console.log('');
+    console.log('Usage: ccpet wardrobe [command]');
+    console.log('');
+    console.log('Commands:');
+    console.log('  list                     Show every accessory and how to unlock it (default)');
+    console.log('  equip <item>             Wear an unlocked accessory');
+    console.log('  unequip                  Take the current accessory off');
+    console.log('');
+    console.log('Accessories unlock through lifetime token milestones, age or seasons and stay with the pet,');
+    console.log('including in the graveyard.');
+    console.log('');
+    console.log('Examples:');
+    console.log('  ccpet wardrobe');
+    console.log('  ccpet wardrobe equip top-hat');
+    console.log('  ccpet wardrobe unequip');
+  }
+}
@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it, vi, afterEach } from 'vitest';
+import { AchievementsCommand } from '../AchievementsCommand';
+import { ClaudeCodeStatusLine } from '../../ccpet';
+import { ACHIEVEMENTS } from '../../core/achievements';
+
+vi.mock('../../ccpet', () => ({
+  ClaudeCodeStatusLine: vi.fn()
+}));
+
+describe('AchievementsCommand', () => {
+  let achievementsCommand: AchievementsCommand;
+  let consoleSpy: any;
+  let mockStatusLine: any;
+  const unlockedAt = new Date('2024-02-10T08:00:00Z');
+  const [millionaire, survivor] = ACHIEVEMENTS;
+
+  beforeEach(() => {
+    achievementsCommand = new AchievementsCommand();
+    consoleSpy = {
+      log: vi.spyOn(console, 'log').mockImplementation(() => {}),
+      error: vi.spyOn(console, 'error').mockImplementation(() => {})
+    };
+    vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit called');
+    });
+
+    mockStatusLine = {
+      getAchievements: vi.fn().mockReturnValue([
+        { rule: millionaire, current: millionaire.target, unlockedAt },
+        { rule: survivor, current: 12 }
+      ]),
+      getPetState: vi.fn().mockReturnValue({ petName: 'Luna' })
+    };
+    vi.mocked(ClaudeCodeStatusLine).mockImplementation(() => mockStatusLine);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should have correct name and description', () => {
+    expect(achievementsCommand.name).toBe('achievements');
+    expect(achievementsCommand.description).toBe('List unlocked and locked achievements');
+  });
+
+  it('should list unlocked and locked achievements with progress', async () => {
+    await achievementsCommand.execute([]);
+
+    expect(consoleSpy.log).toHaveBeenCalledWith("🏆 Luna's achievements (1/2):");
+    expect(consoleSpy.log).toHaveBeenCalledWith(
+      `  ✅ 💎 Millionaire - Reach 1M lifetime tokens (unlocked ${unlockedAt.toLocaleString()})`
+    );
+    expect(consoleSpy.log).toHaveBeenCalledWith('  🔒 📅 Survivor - Keep a pet alive for 30 days (12/30)');
+  });
+
+  it('should exit with an error when achievements cannot be loaded', async () => {
+    mockStatusLine.getAchievements.mockImplementation(() => {
+      throw new Error('disk full');
+    });
+
+    await expect(achievementsCommand.execute([])).rejects.toThrow('process.exit called');
+    expect(consoleSpy.error).toHaveBeenCalledWith('❌ Failed to list achievements:', 'disk full');
+  });
+});
@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it, vi, afterEach } from 'vitest';
+import { AdoptCommand } from '../AdoptCommand';
+import { ClaudeCodeStatusLine } from '../../ccpet';
+import { createSpeciesRegistry } from '../../core/species';
+import * as readline from 'readline';
+
+vi.mock('../../ccpet', () => ({
+  ClaudeCodeStatusLine: vi.fn()
+}));
+
+vi.mock('readline');
+
+describe('AdoptCommand', () => {
+  let adoptCommand: AdoptCommand;
+  let consoleSpy: any;
+  let mockStatusLine: any;
+
+  beforeEach(() => {
+    adoptCommand = new AdoptCommand();
+    consoleSpy = {
+      log: vi.spyOn(console, 'log').mockImplementation(() => {}),
+      error: vi.spyOn(console, 'error').mockImplementation(() => {})
+    };
+    vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit called');
+    });
+
+    mockStatusLine = {
+      adoptPet: vi.fn().mockImplementation((options: any) => ({
+        petName: options.petName ?? 'Luna',
+        animalType: options.animalType ?? 'cat'
+      })),
+      getSpecies: vi.fn().mockReturnValue(createSpeciesRegistry({ dragon: { name: 'Dragon', emoji: '🐉' } }))
+    };
+    vi.mocked(ClaudeCodeStatusLine).mockImplementation(() => mockStatusLine);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should have correct name and description', () => {
+    expect(adoptCommand.name).toBe('adopt');
+    expect(adoptCommand.description).toBe('Adopt a new pet, choosing its animal type and name');
+  });
+
+  it('should adopt a pet with the chosen type and name', async () => {
+    await adoptCommand.execute(['--type', 'fox', '--name', 'Mochi']);
+
+    expect(mockStatusLine.adoptPet).toHaveBeenCalledWith({ animalType: 'fox', petName: 'Mochi' }, false);
+    expect(consoleSpy.log).toHaveBeenCalledWith('🎉 Welcome home, Mochi the fox!');
+  });
+
+  it('should leave unspecified attributes random', async () => {
+    await adoptCommand.execute([]);
+
+    expect(mockStatusLine.adoptPet).toHaveBeenCalledWith({}, false);
+  });
+
+  it('should pass --force through to the adoption flow', async () => {
+    await adoptCommand.execute(['--force']);
+
+    expect(mockStatusLine.adoptPet).toHaveBeenCalledWith({}, true);
+  });
+
+  it('should adopt a custom species', async () => {
+    await adoptCommand.execute(['--type', 'dragon']);
+
+    expect(mockStatusLine.adoptPet).toHaveBeenCalledWith({ animalType: 'dragon' }, false);
+    expect(consoleSpy.log).toHaveBeenCalledWith('🎉 Welcome home, Luna the dragon!');
+  });
+
+  it('should report animal types rejected by the adoption flow', async () => {
+    mockStatusLine.adoptPet.mockImplementation(() => {
+      throw new Error('Unknown animal type: unicorn. Available types: cat, dog, rabbit, panda, fox, dragon');
+    });
+
+    await expect(adoptCommand.execute(['--type', 'unicorn'])).rejects.toThrow('process.exit called');
+
+    expect(mockStatusLine.adoptPet).toHaveBeenCalledWith({ animalType: 'unicorn' }, false);
+    expect(consoleSpy.error).toHaveBeenCalledWith(
+      '❌ Failed to adopt pet:',
+      'Unknown animal type: unicorn. Available types: cat, dog, rabbit, panda, fox, dragon'
+    );
+  });
+
+  it('should report a living pet without --force', async () => {
+    mockStatusLine.adoptPet.mockImplementation(() => {
+      throw new Error('Luna is still alive. Use --force to send it to the graveyard and adopt anyway.');
+    });
+
+    await expect(adoptCommand.execute(['--name', 'Mochi'])).rejects.toThrow('process.exit called');
+
+    expect(consoleSpy.error).toHaveBeenCalledWith(
+      '❌ Failed to adopt pet:',
+      'Luna is still alive. Use --force to send it to the graveyard and adopt anyway.'
+    );
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+
+  it('should ask for the type and name in interactive mode', async () => {
+    const answers = ['panda', 'Bao'];
+    const mockInterface = {
+      question: vi.fn((_question: string, callback: (answer: string) => void) => callback(answers.shift()!)),
+      close: vi.fn()
+    };
+    vi.mocked(readline.createInterface).mockReturnValue(mockInterface as any);
+
+    await adoptCommand.execute(['--interactive']);
+
+    expect(mockInterface.question).toHaveBeenCalledTimes(2);
+    expect(mockInterface.close).toHaveBeenCalled();
+    expect(mockStatusLine.adoptPet).toHaveBeenCalledWith({ animalType: 'panda', petName: 'Bao' }, false);
+  });
+
+  it('should only ask for attributes missing from the command line', async () => {
+    const mockInterface = {
+      question: vi.fn((_question: string, callback: (answer: string) => void) => callback('')),
+      close: vi.fn()
+    };
+    vi.mocked(readline.createInterface).mockReturnValue(mockInterface as any);
+
+    await adoptCommand.execute(['-i', '--type', 'dog']);
+
+    expect(mockInterface.question).toHaveBeenCalledTimes(1);
+    expect(mockStatusLine.adoptPet).toHaveBeenCalledWith({ animalType: 'dog' }, false);
+  });
+});
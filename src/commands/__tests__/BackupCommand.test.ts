@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi, afterEach } from 'vitest';
+import { BackupCommand } from '../BackupCommand';
+import { createSnapshot, listSnapshots } from '../../services/backups';
+
+vi.mock('../../services/backups', () => ({
+  createSnapshot: vi.fn(),
+  listSnapshots: vi.fn(),
+  getBackupsDir: vi.fn(() => '/home/user/.claude-pet/backups')
+}));
+
+describe('BackupCommand', () => {
+  let backupCommand: BackupCommand;
+  let consoleSpy: any;
+  const snapshot = {
+    name: '20250821-120000-manual',
+    dir: '/home/user/.claude-pet/backups/20250821-120000-manual',
+    manifest: { formatVersion: 1, createdAt: '2025-08-21T12:00:00.000Z', reason: 'manual', files: [{}, {}, {}] }
+  };
+
+  beforeEach(() => {
+    backupCommand = new BackupCommand();
+    consoleSpy = {
+      log: vi.spyOn(console, 'log').mockImplementation(() => {}),
+      error: vi.spyOn(console, 'error').mockImplementation(() => {})
+    };
+    vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit called');
+    });
+    vi.mocked(createSnapshot).mockReturnValue(snapshot as any);
+    vi.mocked(listSnapshots).mockReturnValue([snapshot as any]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should have correct name and description', () => {
+    expect(backupCommand.name).toBe('backup');
+    expect(backupCommand.description).toBe('Save a snapshot of your pets, tracker and configuration');
+  });
+
+  it('should save a manual snapshot', async () => {
+    await backupCommand.execute([]);
+
+    expect(createSnapshot).toHaveBeenCalledWith('manual');
+    expect(consoleSpy.log).toHaveBeenCalledWith('💾 Saved snapshot 20250821-120000-manual (3 files)');
+    expect(consoleSpy.log).toHaveBeenCalledWith('💡 Run "ccpet restore 20250821-120000-manual" to bring it back');
+  });
+
+  it('should report snapshot failures', async () => {
+    vi.mocked(createSnapshot).mockImplementation(() => {
+      throw new Error('disk full');
+    });
+
+    await expect(backupCommand.execute([])).rejects.toThrow('process.exit called');
+    expect(consoleSpy.error).toHaveBeenCalledWith('❌ Failed to create snapshot:', 'disk full');
+  });
+
+  it('should list snapshots', async () => {
+    await backupCommand.execute(['list']);
+
+    expect(consoleSpy.log).toHaveBeenCalledWith('💾 Snapshots in /home/user/.claude-pet/backups:');
+    expect(consoleSpy.log).toHaveBeenCalledWith(`  ${'20250821-120000-manual'.padEnd(32)} ${'manual'.padEnd(12)} 3 files`);
+  });
+
+  it('should explain how to create the first snapshot', async () => {
+    vi.mocked(listSnapshots).mockReturnValue([]);
+
+    await backupCommand.execute(['list']);
+
+    expect(consoleSpy.log).toHaveBeenCalledWith('ℹ️  No snapshots yet. Run "ccpet backup" to create one.');
+  });
+
+  it('should reject unknown subcommands', async () => {
+    await expect(backupCommand.execute(['prune'])).rejects.toThrow('process.exit called');
+    expect(consoleSpy.error).toHaveBeenCalledWith('❌ Unknown backup command: prune');
+  });
+});
@@ -1,5 +1,8 @@
 import { beforeEach, describe, expect, it, vi, afterEach } from 'vitest';
 import { CheckCommand } from '../CheckCommand';
+import { IPetState } from '../../core/Pet';
+import { AnimalType } from '../../core/config';
+import { InMemoryPetRepository } from '../../services/InMemoryPetRepository';
 
 describe('CheckCommand', () => {
   let checkCommand: CheckCommand;
@@ -104,11 +107,10 @@ describe('CheckCommand', () => {
       ClaudeCodeStatusLine: vi.fn().mockImplementation(() => ({
         getStatusDisplay: () => '(^_^) test',
         saveState: () => {},
-        pet: {
-          getState: () => ({
-            lastFeedTime: oldTime
-          })
-        }
+        now: () => new Date(),
+        getPetState: () => ({
+          lastFeedTime: oldTime
+        })
       }))
     }));
 
@@ -131,6 +133,105 @@ describe('CheckCommand', () => {
     vi.restoreAllMocks();
   });
 
+  describe('Status details', () => {
+    // 状态栏时钟固定在过去的时间点，详情必须按这个时钟计算，而不是系统时间
+    const now = new Date('2024-06-01T12:00:00Z');
+    const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+    const baseState: IPetState = {
+      uuid: 'check-uuid',
+      petName: 'Luna',
+      animalType: AnimalType.CAT,
+      energy: 80,
+      expression: '(^_^)',
+      birthTime: hoursFromNow(-48),
+      lastFeedTime: now,
+      lastDecayTime: now,
+      totalTokensConsumed: 0,
+      accumulatedTokens: 0,
+      totalLifetimeTokens: 0
+    };
+
+    const check = async (state: Partial<IPetState>) => {
+      vi.stubEnv('CCPET_FIXED_TIME', now.toISOString());
+      await new CheckCommand(new InMemoryPetRepository({ ...baseState, ...state })).execute([]);
+    };
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should show time since last feeding by the status line clock', async () => {
+      await check({ lastFeedTime: hoursFromNow(-2), lastDecayTime: hoursFromNow(-2) });
+
+      expect(consoleSpy.log).toHaveBeenCalledWith('⏰ 距离上次喂食: 2小时0分钟前');
+    });
+
+    it('should show when a sleeping pet will wake up', async () => {
+      const until = hoursFromNow(24);
+
+      await check({ sleep: { since: now, until } });
+
+      expect(consoleSpy.log).toHaveBeenCalledWith(`😴 宠物正在休眠，预计醒来时间: ${until.toLocaleString()}`);
+    });
+
+    it('should explain how to wake a pet sleeping without a wake time', async () => {
+      await check({ sleep: { since: now } });
+
+      expect(consoleSpy.log).toHaveBeenCalledWith('😴 宠物正在休眠，使用 ccpet wake 唤醒');
+    });
+
+    it('should not show sleep info for an awake pet', async () => {
+      await check({});
+
+      expect(consoleSpy.log).not.toHaveBeenCalledWith(expect.stringContaining('😴'));
+    });
+
+    it('should show when an overfed or exhausted pet will recover', async () => {
+      const until = hoursFromNow(0.5);
+
+      await check({ conditions: { overfed: until, exhausted: new Date(now.getTime() - 1000) } });
+
+      expect(consoleSpy.log).toHaveBeenCalledWith(`🤢 宠物吃撑了，预计恢复时间: ${until.toLocaleString()}`);
+      expect(consoleSpy.log).not.toHaveBeenCalledWith(expect.stringContaining('🥱'));
+    });
+
+    it('should show how much feeding a dying pet needs to revive', async () => {
+      await check({ energy: 0, critical: { since: hoursFromNow(-1), tokens: 200000 } });
+
+      expect(consoleSpy.log).toHaveBeenCalledWith(
+        `💔 宠物奄奄一息！在 ${hoursFromNow(23).toLocaleString()} 前再喂食 ${(300000).toLocaleString()} token 即可复活`
+      );
+    });
+
+    it('should show the energy cap and revival count of a revived pet', async () => {
+      const until = hoursFromNow(1);
+
+      await check({ energy: 10, revivalCount: 2, energyCap: { maxEnergy: 60, until } });
+
+      expect(consoleSpy.log).toHaveBeenCalledWith(`🩹 复活虚弱期: 能量上限 60，恢复时间: ${until.toLocaleString()}`);
+      expect(consoleSpy.log).toHaveBeenCalledWith('✨ 复活次数: 2');
+    });
+
+    it('should report the feeding streak and today\'s progress', async () => {
+      await check({ streak: { day: '2024-06-01', dayTokens: 250000, current: 3, longest: 7, lastQualifiedDay: '2024-06-01' } });
+
+      expect(consoleSpy.log).toHaveBeenCalledWith('🔥 连续喂食: 3天 (最长: 7天)');
+      expect(consoleSpy.log).toHaveBeenCalledWith(`🎯 今日进度: ${(250000).toLocaleString()} / ${(1000000).toLocaleString()} (25%)`);
+    });
+
+    it('should show weighted and raw lifetime feeding separately', async () => {
+      await check({ totalLifetimeTokens: 50000, totalLifetimeWeightedTokens: 12000 });
+
+      expect(consoleSpy.log).toHaveBeenCalledWith(`🍽️  累计喂食: ${(12000).toLocaleString()} (原始token: ${(50000).toLocaleString()})`);
+    });
+
+    it('should fall back to raw tokens for pets without weighted totals', async () => {
+      await check({ totalLifetimeTokens: 800 });
+
+      expect(consoleSpy.log).toHaveBeenCalledWith('🍽️  累计喂食: 800 (原始token: 800)');
+    });
+  });
+
   it('should handle errors gracefully', async () => {
     const mockProcessExit = vi.spyOn(process, 'exit').mockImplementation(() => {
       throw new Error('process.exit called');
@@ -330,14 +431,13 @@ describe('CheckCommand', () => {
         ClaudeCodeStatusLine: vi.fn().mockImplementation(() => ({
           getStatusDisplay: () => '(^_^) test',
           saveState: () => {},
-          pet: {
-            getState: () => {
-              callCount++;
-              if (callCount === 1) {
-                return { energy: 50, expression: '(^_^)' };
-              } else {
-                return { energy: 40, expression: '(^_^)' };
-              }
+          now: () => new Date(),
+          getPetState: () => {
+            callCount++;
+            if (callCount === 1) {
+              return { energy: 50, expression: '(^_^)', lastFeedTime: new Date() };
+            } else {
+              return { energy: 40, expression: '(^_^)', lastFeedTime: new Date() };
             }
           }
         }))
@@ -1,5 +1,12 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { ConfigCommand } from '../ConfigCommand';
+import { ConfigService } from '../../services/ConfigService';
+import { PetStorage } from '../../services/PetStorage';
+import { setHomeOverride } from '../../services/paths';
+import { getProjectKey, getProjectsDir } from '../../services/projects';
 
 describe('ConfigCommand', () => {
   let configCommand: ConfigCommand;
@@ -50,6 +57,7 @@ describe('ConfigCommand', () => {
       typeof call[0] === 'string' && call[0].includes('{')
     );
     expect(jsonCalls.length).toBeGreaterThan(0);
+    expect(consoleSpy.log).toHaveBeenCalledWith('Difficulty presets:');
   });
 
   it('should set color configuration', async () => {
@@ -82,6 +90,121 @@ describe('ConfigCommand', () => {
     expect(consoleSpy.log).toHaveBeenCalledWith('✅ Set pet.decayRate = 0.05');
   });
 
+  it('should set pet decay policy by name', async () => {
+    try {
+      await configCommand.execute(['set', 'pet.decayPolicy', 'linear']);
+    } catch (error) {
+      // Should not exit on success
+    }
+
+    expect(consoleSpy.log).toHaveBeenCalledWith('✅ Set pet.decayPolicy = linear');
+  });
+
+  it('should reject unknown decay policies', async () => {
+    try {
+      await configCommand.execute(['set', 'pet.decayPolicy', 'sudden']);
+      expect(false).toBe(true); // Should not reach here
+    } catch (error: any) {
+      if (error.message === 'process.exit called') {
+        expect(consoleSpy.error).toHaveBeenCalledWith(
+          'Failed to set configuration:',
+          expect.stringContaining('Invalid decay policy: sudden')
+        );
+        expect(mockProcessExit).toHaveBeenCalledWith(1);
+      }
+    }
+  });
+
+  it('should set feed weights per token type', async () => {
+    try {
+      await configCommand.execute(['set', 'pet.feedWeights.cacheRead', '0.1']);
+    } catch (error) {
+      // Should not exit on success
+    }
+
+    expect(consoleSpy.log).toHaveBeenCalledWith('✅ Set pet.feedWeights.cacheRead = 0.1');
+  });
+
+  it('should reject feed weights for unknown token types', async () => {
+    try {
+      await configCommand.execute(['set', 'pet.feedWeights.cached', '1']);
+      expect(false).toBe(true); // Should not reach here
+    } catch (error: any) {
+      if (error.message === 'process.exit called') {
+        expect(consoleSpy.error).toHaveBeenCalledWith(
+          'Failed to set configuration:',
+          expect.stringContaining('Invalid token type: cached')
+        );
+        expect(mockProcessExit).toHaveBeenCalledWith(1);
+      }
+    }
+  });
+
+  it('should set overfed and exhausted thresholds', async () => {
+    try {
+      await configCommand.execute(['set', 'pet.conditions.exhaustedSessionMinutes', '240']);
+    } catch (error) {
+      // Should not exit on success
+    }
+
+    expect(consoleSpy.log).toHaveBeenCalledWith('✅ Set pet.conditions.exhaustedSessionMinutes = 240');
+  });
+
+  it('should set the streak time zone as text', async () => {
+    try {
+      await configCommand.execute(['set', 'pet.streaks.timeZone', 'Asia/Shanghai']);
+    } catch (error) {
+      // Should not exit on success
+    }
+
+    expect(consoleSpy.log).toHaveBeenCalledWith('✅ Set pet.streaks.timeZone = Asia/Shanghai');
+  });
+
+  it('should set the revival window', async () => {
+    try {
+      await configCommand.execute(['set', 'pet.revival.windowHours', '48']);
+    } catch (error) {
+      // Should not exit on success
+    }
+
+    expect(consoleSpy.log).toHaveBeenCalledWith('✅ Set pet.revival.windowHours = 48');
+  });
+
+  it('should turn on daily snapshots', async () => {
+    try {
+      await configCommand.execute(['set', 'backup.daily', 'true']);
+    } catch (error) {
+      // Should not exit on success
+    }
+
+    expect(consoleSpy.log).toHaveBeenCalledWith('✅ Set backup.daily = true');
+  });
+
+  it('should set a difficulty override', async () => {
+    try {
+      await configCommand.execute(['set', 'pet.difficultyOverrides.maxSleepHours', '48']);
+    } catch (error) {
+      // Should not exit on success
+    }
+
+    expect(consoleSpy.log).toHaveBeenCalledWith('✅ Set pet.difficultyOverrides.maxSleepHours = 48');
+  });
+
+  it('should reject an unknown difficulty', async () => {
+    try {
+      await configCommand.execute(['set', 'pet.difficulty', 'nightmare']);
+    } catch (error: any) {
+      if (error.message === 'process.exit called') {
+        expect(mockProcessExit).toHaveBeenCalledWith(1);
+      }
+    }
+
+    expect(consoleSpy.error).toHaveBeenCalledWith(
+      'Failed to set configuration:',
+      'Invalid difficulty: nightmare. Must be one of: casual, normal, hard, hardcore'
+    );
+  });
+
   it('should handle invalid configuration keys', async () => {
     try {
       await configCommand.execute(['set', 'invalid.key', 'value']);
@@ -162,4 +285,69 @@ describe('ConfigCommand', () => {
       }
     }
   });
+
+  describe('journaling configuration changes', () => {
+    let home: string;
+    let projectDir: string;
+    let cwdSpy: ReturnType<typeof vi.spyOn>;
+    let getConfigSpy: ReturnType<typeof vi.spyOn> | undefined;
+
+    const setPerProject = (perProject: boolean) => {
+      const config = new ConfigService().getConfig();
+      getConfigSpy = vi.spyOn(ConfigService.prototype, 'getConfig').mockReturnValue({ ...config, pet: { ...config.pet, perProject } });
+    };
+
+    const savePet = (uuid: string, petDir?: string) => {
+      const storage = petDir ? new PetStorage(undefined, undefined, undefined, petDir) : new PetStorage();
+      storage.saveState({
+        uuid,
+        petName: uuid,
+        animalType: 'cat',
+        energy: 80,
+        expression: '(^_^)',
+        lastFeedTime: new Date(),
+        totalTokensConsumed: 0,
+        accumulatedTokens: 0,
+        totalLifetimeTokens: 0
+      });
+    };
+
+    beforeEach(() => {
+      home = fs.mkdtempSync(path.join(os.tmpdir(), 'ccpet-config-'));
+      setHomeOverride(home);
+      projectDir = path.join(home, 'workspace');
+      fs.mkdirSync(path.join(projectDir, 'src'), { recursive: true });
+      savePet('global-uuid');
+      savePet('project-uuid', path.join(getProjectsDir(), getProjectKey(projectDir)));
+      cwdSpy = vi.spyOn(process, 'cwd').mockReturnValue(path.join(projectDir, 'src'));
+    });
+
+    afterEach(() => {
+      cwdSpy.mockRestore();
+      getConfigSpy?.mockRestore();
+      getConfigSpy = undefined;
+      setHomeOverride(undefined);
+      fs.rmSync(home, { recursive: true, force: true });
+    });
+
+    it('should record the change on the project pet of the current directory in per-project mode', async () => {
+      setPerProject(true);
+
+      await new ConfigCommand().execute(['set', 'pet.feedWeights.output', '1']);
+
+      const storage = new PetStorage();
+      expect(storage.readJournal('project-uuid')).toContainEqual(expect.objectContaining({ type: 'configChanged', key: 'pet.feedWeights.output' }));
+      expect(storage.readJournal('global-uuid')).toEqual([]);
+    });
+
+    it('should record the change on the global pet when per-project mode is off', async () => {
+      setPerProject(false);
+
+      await new ConfigCommand().execute(['set', 'pet.feedWeights.output', '1']);
+
+      const storage = new PetStorage();
+      expect(storage.readJournal('global-uuid')).toContainEqual(expect.objectContaining({ type: 'configChanged', key: 'pet.feedWeights.output' }));
+      expect(storage.readJournal('project-uuid')).toEqual([]);
+    });
+  });
 });
\ No newline at end of file
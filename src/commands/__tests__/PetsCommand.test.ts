@@ -0,0 +1,204 @@
+import { beforeEach, describe, expect, it, vi, afterEach } from 'vitest';
+import { PetsCommand } from '../PetsCommand';
+import { ClaudeCodeStatusLine } from '../../ccpet';
+import { PetStorage } from '../../services/PetStorage';
+import { findProjectDir, listProjectPets } from '../../services/projects';
+import { InMemoryPetRepository } from '../../services/InMemoryPetRepository';
+
+vi.mock('../../ccpet', () => ({
+  ClaudeCodeStatusLine: vi.fn()
+}));
+
+vi.mock('../../services/PetStorage', () => ({
+  PetStorage: vi.fn()
+}));
+
+vi.mock('../../services/projects', () => ({
+  findProjectDir: vi.fn(),
+  listProjectPets: vi.fn()
+}));
+
+describe('PetsCommand', () => {
+  let petsCommand: PetsCommand;
+  let consoleSpy: any;
+  let mockStatusLine: any;
+  const projectStates: Record<string, any> = {
+    '/pets/api': { petName: 'Mochi', animalType: 'fox', energy: 45 },
+    '/pets/web': { petName: 'Ghost', animalType: 'dog', energy: 0 }
+  };
+
+  let graveyardStates: any[];
+
+  beforeEach(() => {
+    petsCommand = new PetsCommand();
+    graveyardStates = [];
+    consoleSpy = {
+      log: vi.spyOn(console, 'log').mockImplementation(() => {}),
+      error: vi.spyOn(console, 'error').mockImplementation(() => {})
+    };
+    vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit called');
+    });
+
+    mockStatusLine = {
+      listPets: vi.fn().mockReturnValue([
+        { state: { petName: 'Luna', animalType: 'cat', energy: 80 }, active: true },
+        { state: { petName: 'Biscuit', animalType: 'rabbit', energy: 55.5 }, active: false }
+      ]),
+      adoptExtraPet: vi.fn().mockReturnValue({ petName: 'Biscuit', animalType: 'rabbit' }),
+      usePet: vi.fn().mockReturnValue({ petName: 'Biscuit' }),
+      // 模拟结算衰减：能量减少 2.75
+      getSettledState: vi.fn((state: any) => ({ ...state, energy: Math.max(0, state.energy - 2.75) })),
+      saveState: vi.fn()
+    };
+    vi.mocked(ClaudeCodeStatusLine).mockImplementation(() => mockStatusLine);
+    vi.mocked(PetStorage).mockImplementation(((...args: any[]) => ({
+      loadState: vi.fn().mockReturnValue(projectStates[args[3]] ?? null),
+      listGraveyardPets: vi.fn().mockReturnValue(graveyardStates)
+    })) as any);
+    vi.mocked(listProjectPets).mockReturnValue([]);
+    vi.mocked(findProjectDir).mockReturnValue('/work/api');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should have correct name and description', () => {
+    expect(petsCommand.name).toBe('pets');
+    expect(petsCommand.description).toBe('List and manage your pets');
+  });
+
+  describe('list', () => {
+    it('should list roster pets and mark the active one', async () => {
+      await petsCommand.execute(['list']);
+
+      expect(consoleSpy.log).toHaveBeenCalledWith('🐾 Your pets:');
+      expect(consoleSpy.log).toHaveBeenCalledWith('  ▶ Luna (cat) ⚡ 80.0');
+      expect(consoleSpy.log).toHaveBeenCalledWith('    Biscuit (rabbit) ⚡ 55.5');
+      expect(consoleSpy.log).not.toHaveBeenCalledWith('📁 Project pets:');
+    });
+
+    it('should list pets in the graveyard', async () => {
+      graveyardStates = [
+        { petName: 'Rex', animalType: 'dog', energy: 0, totalLifetimeTokens: 3000000 },
+        { petName: 'Ash', animalType: 'fox', energy: 0, totalLifetimeTokens: 1500, hardcore: true }
+      ];
+
+      await petsCommand.execute(['list']);
+
+      expect(consoleSpy.log).toHaveBeenCalledWith('🪦 Graveyard:');
+      expect(consoleSpy.log).toHaveBeenCalledWith(`  Rex (dog) ${(3000000).toLocaleString()} lifetime tokens`);
+      expect(consoleSpy.log).toHaveBeenCalledWith(`  Ash (fox) ${(1500).toLocaleString()} lifetime tokens [hardcore]`);
+    });
+
+    it('should list project pets with their energy', async () => {
+      vi.mocked(listProjectPets).mockReturnValue([
+        { key: 'api-1111', projectDir: '/work/api', petDir: '/pets/api' },
+        { key: 'web-2222', projectDir: '/work/web', petDir: '/pets/web' },
+        { key: 'new-3333', projectDir: '/work/new', petDir: '/pets/new' }
+      ]);
+
+      await petsCommand.execute(['list']);
+
+      expect(consoleSpy.log).toHaveBeenCalledWith('📁 Project pets:');
+      expect(mockStatusLine.getSettledState).toHaveBeenCalledWith(projectStates['/pets/api']);
+      expect(consoleSpy.log).toHaveBeenCalledWith('  Mochi (fox) ⚡ 42.3  /work/api');
+      expect(consoleSpy.log).toHaveBeenCalledWith('  Ghost (dog) 💀  /work/web');
+      expect(consoleSpy.log).toHaveBeenCalledWith('  (not hatched yet)  /work/new');
+    });
+
+    it('should keep listing project pets when one of them cannot be read', async () => {
+      vi.mocked(listProjectPets).mockReturnValue([
+        { key: 'old-1111', projectDir: '/work/old', petDir: '/pets/newer' },
+        { key: 'api-2222', projectDir: '/work/api', petDir: '/pets/api' }
+      ]);
+      vi.mocked(PetStorage).mockImplementation(((...args: any[]) => ({
+        loadState: vi.fn(() => {
+          if (args[3] === '/pets/newer') {
+            throw new Error('written by a newer version of ccpet');
+          }
+          return projectStates[args[3]] ?? null;
+        }),
+        listGraveyardPets: vi.fn().mockReturnValue(graveyardStates)
+      })) as any);
+
+      await petsCommand.execute(['list']);
+
+      expect(consoleSpy.log).toHaveBeenCalledWith('  ⚠️  written by a newer version of ccpet  /work/old');
+      expect(consoleSpy.log).toHaveBeenCalledWith('  Mochi (fox) ⚡ 42.3  /work/api');
+      expect(process.exit).not.toHaveBeenCalled();
+    });
+
+    it('should act on the project pet of the current directory', async () => {
+      await petsCommand.execute(['list']);
+      await petsCommand.execute(['adopt']);
+      await petsCommand.execute(['use', 'Biscuit']);
+
+      expect(vi.mocked(ClaudeCodeStatusLine).mock.calls.map(call => call[0])).toEqual([
+        { repository: undefined, projectDir: '/work/api' },
+        { repository: undefined, projectDir: '/work/api' },
+        { repository: undefined, projectDir: '/work/api' }
+      ]);
+    });
+
+    it('should read the graveyard from an injected repository and skip project pets', async () => {
+      const repository = new InMemoryPetRepository();
+      repository.moveToGraveyard({ petName: 'Rex', animalType: 'dog', totalLifetimeTokens: 300 } as any);
+
+      await new PetsCommand(repository).execute(['list']);
+
+      expect(ClaudeCodeStatusLine).toHaveBeenCalledWith({ repository, projectDir: '/work/api' });
+      expect(consoleSpy.log).toHaveBeenCalledWith('  Rex (dog) 300 lifetime tokens');
+      expect(listProjectPets).not.toHaveBeenCalled();
+      expect(PetStorage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('adopt', () => {
+    it('should add a pet to the roster without switching', async () => {
+      await petsCommand.execute(['adopt']);
+
+      expect(mockStatusLine.adoptExtraPet).toHaveBeenCalled();
+      expect(consoleSpy.log).toHaveBeenCalledWith('🎉 Biscuit the rabbit joined your roster');
+      expect(consoleSpy.log).toHaveBeenCalledWith('💡 Run "ccpet pets use Biscuit" to make it your active pet');
+    });
+  });
+
+  describe('use', () => {
+    it('should switch the active pet by name', async () => {
+      await petsCommand.execute(['use', 'Biscuit']);
+
+      expect(mockStatusLine.usePet).toHaveBeenCalledWith('Biscuit');
+      expect(consoleSpy.log).toHaveBeenCalledWith('✅ Biscuit is now your active pet');
+    });
+
+    it('should accept names with spaces', async () => {
+      await petsCommand.execute(['use', 'Mr', 'Whiskers']);
+
+      expect(mockStatusLine.usePet).toHaveBeenCalledWith('Mr Whiskers');
+    });
+
+    it('should report unknown pets', async () => {
+      mockStatusLine.usePet.mockImplementation(() => {
+        throw new Error('No pet named "Rex" in your roster.');
+      });
+
+      await expect(petsCommand.execute(['use', 'Rex'])).rejects.toThrow('process.exit called');
+
+      expect(consoleSpy.error).toHaveBeenCalledWith('❌ Failed to switch pet:', 'No pet named "Rex" in your roster.');
+    });
+
+    it('should require a pet name', async () => {
+      await expect(petsCommand.execute(['use'])).rejects.toThrow('process.exit called');
+
+      expect(consoleSpy.error).toHaveBeenCalledWith('Usage: ccpet pets use <name>');
+    });
+  });
+
+  it('should reject unknown subcommands', async () => {
+    await expect(petsCommand.execute(['feed'])).rejects.toThrow('process.exit called');
+
+    expect(consoleSpy.error).toHaveBeenCalledWith('❌ Unknown pets command: feed');
+  });
+});
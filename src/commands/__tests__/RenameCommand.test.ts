@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi, afterEach } from 'vitest';
+import { RenameCommand } from '../RenameCommand';
+import { ClaudeCodeStatusLine } from '../../ccpet';
+
+vi.mock('../../ccpet', () => ({
+  ClaudeCodeStatusLine: vi.fn()
+}));
+
+describe('RenameCommand', () => {
+  let renameCommand: RenameCommand;
+  let consoleSpy: any;
+  let mockStatusLine: any;
+
+  beforeEach(() => {
+    renameCommand = new RenameCommand();
+    consoleSpy = {
+      log: vi.spyOn(console, 'log').mockImplementation(() => {}),
+      error: vi.spyOn(console, 'error').mockImplementation(() => {})
+    };
+    vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit called');
+    });
+
+    mockStatusLine = {
+      getPetState: vi.fn().mockReturnValue({ petName: 'Fluffy' }),
+      renamePet: vi.fn().mockImplementation((name: string) => ({ petName: name.trim() }))
+    };
+    vi.mocked(ClaudeCodeStatusLine).mockImplementation(() => mockStatusLine);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should have correct name and description', () => {
+    expect(renameCommand.name).toBe('rename');
+    expect(renameCommand.description).toBe('Rename your pet (old names are kept in its history)');
+  });
+
+  it('should rename the pet, joining multi-word names', async () => {
+    await renameCommand.execute(['Sir', 'Whiskers']);
+
+    expect(mockStatusLine.renamePet).toHaveBeenCalledWith('Sir Whiskers');
+    expect(consoleSpy.log).toHaveBeenCalledWith('✏️  Fluffy is now called Sir Whiskers');
+  });
+
+  it('should say so when the name is unchanged', async () => {
+    await renameCommand.execute(['Fluffy']);
+
+    expect(consoleSpy.log).toHaveBeenCalledWith('ℹ️  Your pet is already named Fluffy');
+  });
+
+  it('should require a name', async () => {
+    await expect(renameCommand.execute([])).rejects.toThrow('process.exit called');
+
+    expect(consoleSpy.error).toHaveBeenCalledWith('Usage: ccpet rename <new name>');
+    expect(mockStatusLine.renamePet).not.toHaveBeenCalled();
+  });
+
+  it('should report invalid names', async () => {
+    mockStatusLine.renamePet.mockImplementation(() => {
+      throw new Error('Pet name is too long: 40 characters. Maximum is 30.');
+    });
+
+    await expect(renameCommand.execute(['x'.repeat(40)])).rejects.toThrow('process.exit called');
+
+    expect(consoleSpy.error).toHaveBeenCalledWith('❌ Failed to rename pet:', 'Pet name is too long: 40 characters. Maximum is 30.');
+  });
+});
@@ -4,6 +4,8 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import { PetStorage } from '../../services/PetStorage';
+import { findProjectDir, resolveProjectPetDir } from '../../services/projects';
+import { ClaudeCodeStatusLine } from '../../ccpet';
 import { IPetState } from '../../core/IPetState';
 
 // Mock fs module
@@ -11,6 +13,13 @@ vi.mock('fs');
 vi.mock('path');
 vi.mock('os');
 vi.mock('../../services/PetStorage');
+vi.mock('../../services/projects', () => ({
+  findProjectDir: vi.fn(),
+  resolveProjectPetDir: vi.fn()
+}));
+vi.mock('../../ccpet', () => ({
+  ClaudeCodeStatusLine: vi.fn()
+}));
 
 describe('ResetCommand', () => {
   let resetCommand: ResetCommand;
@@ -20,6 +29,7 @@ describe('ResetCommand', () => {
   let mockPath: any;
   let mockOs: any;
   let mockPetStorage: any;
+  let mockGetSettledState: any;
 
   const mockPetState: IPetState = {
     uuid: 'test-uuid-reset',
@@ -59,6 +69,12 @@ describe('ResetCommand', () => {
     // Setup PetStorage mock
     mockPetStorage.prototype.loadState = vi.fn().mockReturnValue(mockPetState);
     mockPetStorage.prototype.moveToGraveyard = vi.fn();
+    vi.mocked(findProjectDir).mockReset();
+    vi.mocked(resolveProjectPetDir).mockReset();
+
+    // 默认上次渲染以来没有衰减
+    mockGetSettledState = vi.fn((state: IPetState) => state);
+    vi.mocked(ClaudeCodeStatusLine).mockImplementation(() => ({ getSettledState: mockGetSettledState }) as any);
   });
 
   afterEach(() => {
@@ -175,6 +191,73 @@ describe('ResetCommand', () => {
     expect(consoleSpy.log).toHaveBeenCalledWith('✅ Pet reset complete! Processed 1 file(s)');
   });
 
+  it('should refuse to delete a pet saved by a newer version of ccpet', async () => {
+    mockFs.existsSync.mockImplementation((filepath) => {
+      return filepath.includes('pet-state.json');
+    });
+    mockFs.readFileSync.mockReturnValue(JSON.stringify({ schemaVersion: 99, petName: 'Fluffy' }));
+    mockPetStorage.prototype.loadState = vi.fn().mockImplementation(() => {
+      throw new Error('/home/user/.claude-pet/pet-state.json was saved by a newer version of ccpet');
+    });
+
+    await expect(resetCommand.execute([])).rejects.toThrow('process.exit called');
+
+    expect(mockFs.unlinkSync).not.toHaveBeenCalled();
+    expect(consoleSpy.error).toHaveBeenCalledWith(
+      '❌ Failed to reset pet:',
+      expect.stringContaining('was saved by a newer version of ccpet (schema v99')
+    );
+    expect(mockProcessExit).toHaveBeenCalledWith(1);
+  });
+
+  it('should reset the project pet of the current directory in per-project mode', async () => {
+    mockFs.existsSync.mockImplementation((filepath) => filepath.includes('pet-state.json') || filepath.includes('config.json'));
+    mockFs.readFileSync.mockReturnValue(JSON.stringify({ pet: { perProject: true } }));
+    vi.mocked(findProjectDir).mockReturnValue('/work/api');
+    vi.mocked(resolveProjectPetDir).mockImplementation((projectDir) => projectDir === '/work/api' ? '/pets/api' : undefined);
+
+    await resetCommand.execute([]);
+
+    expect(mockPetStorage).toHaveBeenCalledWith(undefined, undefined, undefined, '/pets/api');
+    expect(mockFs.existsSync).toHaveBeenCalledWith('/pets/api/pet-state.json');
+    expect(mockPetStorage.prototype.moveToGraveyard).toHaveBeenCalledWith(mockPetState);
+  });
+
+  describe('hardcore difficulty', () => {
+    beforeEach(() => {
+      mockFs.existsSync.mockImplementation((filepath) => {
+        return filepath.includes('pet-state.json') || filepath.includes('config.json');
+      });
+      mockFs.readFileSync.mockReturnValue(JSON.stringify({ pet: { difficulty: 'hardcore' } }));
+    });
+
+    it('should refuse to reset a living pet', async () => {
+      await expect(resetCommand.execute([])).rejects.toThrow('process.exit called');
+
+      expect(mockPetStorage.prototype.moveToGraveyard).not.toHaveBeenCalled();
+      expect(consoleSpy.error).toHaveBeenCalledWith('❌ Failed to reset pet:', '"Fluffy" is still alive. Hardcore pets cannot be reset.');
+      expect(mockProcessExit).toHaveBeenCalledWith(1);
+    });
+
+    it('should bury a dead pet with a hardcore mark', async () => {
+      mockPetStorage.prototype.loadState = vi.fn().mockReturnValue({ ...mockPetState, energy: 0 });
+
+      await resetCommand.execute([]);
+
+      expect(mockPetStorage.prototype.moveToGraveyard).toHaveBeenCalledWith({ ...mockPetState, energy: 0, hardcore: true });
+    });
+
+    it('should reset a pet that has starved since the last render', async () => {
+      mockGetSettledState.mockImplementation((state: IPetState) => ({ ...state, energy: 0 }));
+
+      await resetCommand.execute([]);
+
+      expect(mockGetSettledState).toHaveBeenCalledWith(mockPetState);
+      expect(mockPetStorage.prototype.moveToGraveyard).toHaveBeenCalled();
+      expect(mockProcessExit).not.toHaveBeenCalled();
+    });
+  });
+
   it('should handle when no files exist', async () => {
     // All files don't exist (default mock behavior)
     mockFs.existsSync.mockReturnValue(false);
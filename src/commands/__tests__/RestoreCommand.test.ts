@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi, afterEach } from 'vitest';
+import { RestoreCommand } from '../RestoreCommand';
+import { restoreSnapshot, pruneSnapshots } from '../../services/backups';
+
+vi.mock('../../services/backups', () => ({
+  restoreSnapshot: vi.fn(),
+  pruneSnapshots: vi.fn()
+}));
+
+vi.mock('../../services/ConfigService', () => ({
+  ConfigService: vi.fn(() => ({ getConfig: () => ({ backup: { retention: 3 } }) }))
+}));
+
+describe('RestoreCommand', () => {
+  let restoreCommand: RestoreCommand;
+  let consoleSpy: any;
+
+  beforeEach(() => {
+    restoreCommand = new RestoreCommand();
+    consoleSpy = {
+      log: vi.spyOn(console, 'log').mockImplementation(() => {}),
+      error: vi.spyOn(console, 'error').mockImplementation(() => {})
+    };
+    vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit called');
+    });
+    vi.mocked(restoreSnapshot).mockReturnValue({
+      manifest: { formatVersion: 1, createdAt: '2025-08-21T12:00:00.000Z', reason: 'manual', files: [{}, {}] },
+      safetySnapshot: { name: '20250822-090000-pre-restore' }
+    } as any);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should have correct name and description', () => {
+    expect(restoreCommand.name).toBe('restore');
+    expect(restoreCommand.description).toBe('Restore a snapshot saved by "ccpet backup"');
+  });
+
+  it('should restore the snapshot and rotate pre-restore snapshots', async () => {
+    await restoreCommand.execute(['20250821-120000-manual']);
+
+    expect(restoreSnapshot).toHaveBeenCalledWith('20250821-120000-manual');
+    expect(pruneSnapshots).toHaveBeenCalledWith('pre-restore', 3);
+    expect(consoleSpy.log).toHaveBeenCalledWith('✅ Restored 2 files from the snapshot taken at 2025-08-21T12:00:00.000Z');
+    expect(consoleSpy.log).toHaveBeenCalledWith('💾 Your previous data was saved as 20250822-090000-pre-restore');
+  });
+
+  it('should report damaged snapshots', async () => {
+    vi.mocked(restoreSnapshot).mockImplementation(() => {
+      throw new Error('Snapshot /backups/x is damaged: state/pet-state.json is missing');
+    });
+
+    await expect(restoreCommand.execute(['x'])).rejects.toThrow('process.exit called');
+    expect(consoleSpy.error).toHaveBeenCalledWith('❌ Failed to restore snapshot:', 'Snapshot /backups/x is damaged: state/pet-state.json is missing');
+    expect(pruneSnapshots).not.toHaveBeenCalled();
+  });
+
+  it('should require a snapshot', async () => {
+    await expect(restoreCommand.execute([])).rejects.toThrow('process.exit called');
+    expect(consoleSpy.log).toHaveBeenCalledWith('Usage: ccpet restore <snapshot>');
+    expect(restoreSnapshot).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi, afterEach } from 'vitest';
+import { SleepCommand } from '../SleepCommand';
+import { ClaudeCodeStatusLine } from '../../ccpet';
+
+vi.mock('../../ccpet', () => ({
+  ClaudeCodeStatusLine: vi.fn()
+}));
+
+vi.mock('../../services/projects', () => ({
+  findProjectDir: vi.fn(() => '/work/ccpet')
+}));
+
+describe('SleepCommand', () => {
+  let sleepCommand: SleepCommand;
+  let consoleSpy: any;
+  let mockStatusLine: any;
+
+  beforeEach(() => {
+    sleepCommand = new SleepCommand();
+    consoleSpy = {
+      log: vi.spyOn(console, 'log').mockImplementation(() => {}),
+      error: vi.spyOn(console, 'error').mockImplementation(() => {})
+    };
+    vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit called');
+    });
+
+    mockStatusLine = {
+      putPetToSleep: vi.fn(),
+      saveState: vi.fn(),
+      getPetState: vi.fn().mockReturnValue({ petName: 'Fluffy' })
+    };
+    vi.mocked(ClaudeCodeStatusLine).mockImplementation(() => mockStatusLine);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should have correct name and description', () => {
+    expect(sleepCommand.name).toBe('sleep');
+    expect(sleepCommand.description).toBe('Put pet to sleep so its energy stops decaying');
+  });
+
+  it('should act on the pet of the project it is run in', async () => {
+    await sleepCommand.execute([]);
+
+    expect(ClaudeCodeStatusLine).toHaveBeenCalledWith({ repository: undefined, projectDir: '/work/ccpet' });
+  });
+
+  it('should put the pet to sleep until woken', async () => {
+    await sleepCommand.execute([]);
+
+    expect(mockStatusLine.putPetToSleep).toHaveBeenCalledWith(undefined);
+    expect(consoleSpy.log).toHaveBeenCalledWith('😴 Fluffy is now asleep, energy decay is paused');
+    expect(consoleSpy.log).toHaveBeenCalledWith('💡 Run "ccpet wake" to wake your pet up');
+  });
+
+  it('should parse --until dates as local midnight', async () => {
+    await sleepCommand.execute(['--until', '2099-09-01']);
+
+    const until = mockStatusLine.putPetToSleep.mock.calls[0][0] as Date;
+    expect(until.getFullYear()).toBe(2099);
+    expect(until.getMonth()).toBe(8);
+    expect(until.getDate()).toBe(1);
+    expect(until.getHours()).toBe(0);
+    expect(consoleSpy.log).toHaveBeenCalledWith(`⏰ Will wake up at ${until.toLocaleString()}`);
+  });
+
+  it('should accept --until date-times', async () => {
+    await sleepCommand.execute(['--until', '2099-09-01T09:30']);
+
+    const until = mockStatusLine.putPetToSleep.mock.calls[0][0] as Date;
+    expect(until.getHours()).toBe(9);
+    expect(until.getMinutes()).toBe(30);
+  });
+
+  it('should reject invalid dates', async () => {
+    await expect(sleepCommand.execute(['--until', 'next-week'])).rejects.toThrow('process.exit called');
+
+    expect(consoleSpy.error).toHaveBeenCalledWith('❌ Invalid date: next-week');
+    expect(mockStatusLine.putPetToSleep).not.toHaveBeenCalled();
+  });
+
+  it('should report errors from the pet', async () => {
+    mockStatusLine.putPetToSleep.mockImplementation(() => {
+      throw new Error('Cannot put a dead pet to sleep.');
+    });
+
+    await expect(sleepCommand.execute([])).rejects.toThrow('process.exit called');
+
+    expect(consoleSpy.error).toHaveBeenCalledWith('❌ Failed to put pet to sleep:', 'Cannot put a dead pet to sleep.');
+    expect(mockStatusLine.saveState).not.toHaveBeenCalled();
+    expect(process.exit).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it, vi, afterEach } from 'vitest';
+import { WakeCommand } from '../WakeCommand';
+import { ClaudeCodeStatusLine } from '../../ccpet';
+
+vi.mock('../../ccpet', () => ({
+  ClaudeCodeStatusLine: vi.fn()
+}));
+
+describe('WakeCommand', () => {
+  let wakeCommand: WakeCommand;
+  let consoleSpy: any;
+  let mockStatusLine: any;
+
+  beforeEach(() => {
+    wakeCommand = new WakeCommand();
+    consoleSpy = {
+      log: vi.spyOn(console, 'log').mockImplementation(() => {}),
+      error: vi.spyOn(console, 'error').mockImplementation(() => {})
+    };
+    vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit called');
+    });
+
+    mockStatusLine = {
+      wakePet: vi.fn().mockReturnValue(true),
+      getPetState: vi.fn().mockReturnValue({ petName: 'Fluffy' })
+    };
+    vi.mocked(ClaudeCodeStatusLine).mockImplementation(() => mockStatusLine);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should have correct name and description', () => {
+    expect(wakeCommand.name).toBe('wake');
+    expect(wakeCommand.description).toBe('Wake pet up from sleep');
+  });
+
+  it('should wake a sleeping pet and save state', async () => {
+    await wakeCommand.execute([]);
+
+    expect(mockStatusLine.wakePet).toHaveBeenCalled();
+    expect(consoleSpy.log).toHaveBeenCalledWith('☀️  Fluffy is awake, energy decay resumed');
+  });
+
+  it('should report when the pet is not asleep', async () => {
+    mockStatusLine.wakePet.mockReturnValue(false);
+
+    await wakeCommand.execute([]);
+
+    expect(consoleSpy.log).toHaveBeenCalledWith('ℹ️  Your pet is not asleep');
+  });
+
+  it('should handle errors gracefully', async () => {
+    vi.mocked(ClaudeCodeStatusLine).mockImplementation(() => {
+      throw new Error('Mock error');
+    });
+
+    await expect(wakeCommand.execute([])).rejects.toThrow('process.exit called');
+
+    expect(consoleSpy.error).toHaveBeenCalledWith('❌ Failed to wake pet:', 'Mock error');
+  });
+});
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi, afterEach } from 'vitest';
+import { WardrobeCommand } from '../WardrobeCommand';
+import { ClaudeCodeStatusLine } from '../../ccpet';
+import { findAccessory } from '../../core/accessories';
+
+vi.mock('../../ccpet', () => ({
+  ClaudeCodeStatusLine: vi.fn()
+}));
+
+describe('WardrobeCommand', () => {
+  let wardrobeCommand: WardrobeCommand;
+  let consoleSpy: any;
+  let mockStatusLine: any;
+
+  beforeEach(() => {
+    wardrobeCommand = new WardrobeCommand();
+    consoleSpy = {
+      log: vi.spyOn(console, 'log').mockImplementation(() => {}),
+      error: vi.spyOn(console, 'error').mockImplementation(() => {})
+    };
+    vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit called');
+    });
+
+    mockStatusLine = {
+      getWardrobe: vi.fn().mockReturnValue([
+        { accessory: findAccessory('bow'), unlocked: true, equipped: true },
+        { accessory: findAccessory('scarf'), unlocked: true, equipped: false },
+        { accessory: findAccessory('santa-hat'), unlocked: false, equipped: false }
+      ]),
+      equipAccessory: vi.fn().mockReturnValue(findAccessory('scarf')),
+      unequipAccessory: vi.fn().mockReturnValue(true),
+      getPetState: vi.fn().mockReturnValue({ petName: 'Luna' })
+    };
+    vi.mocked(ClaudeCodeStatusLine).mockImplementation(() => mockStatusLine);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should have correct name and description', () => {
+    expect(wardrobeCommand.name).toBe('wardrobe');
+    expect(wardrobeCommand.description).toBe('List and equip accessories unlocked through play');
+  });
+
+  it('should list accessories by default', async () => {
+    await wardrobeCommand.execute([]);
+
+    expect(consoleSpy.log).toHaveBeenCalledWith("👗 Luna's wardrobe:");
+    expect(consoleSpy.log).toHaveBeenCalledWith('  ▶ 🎀 Bow (bow)');
+    expect(consoleSpy.log).toHaveBeenCalledWith('  ✅ 🧣 Scarf (scarf)');
+    expect(consoleSpy.log).toHaveBeenCalledWith('  🔒 🎅 Santa Hat (unlocks at play in Dec)');
+  });
+
+  it('should equip an accessory', async () => {
+    await wardrobeCommand.execute(['equip', 'scarf']);
+
+    expect(mockStatusLine.equipAccessory).toHaveBeenCalledWith('scarf');
+    expect(consoleSpy.log).toHaveBeenCalledWith('✅ Luna is now wearing the Scarf 🧣');
+  });
+
+  it('should report locked accessories', async () => {
+    mockStatusLine.equipAccessory.mockImplementation(() => {
+      throw new Error('Santa Hat is still locked.');
+    });
+
+    await expect(wardrobeCommand.execute(['equip', 'santa-hat'])).rejects.toThrow('process.exit called');
+    expect(consoleSpy.error).toHaveBeenCalledWith('❌ Failed to equip accessory:', 'Santa Hat is still locked.');
+  });
+
+  it('should require an item to equip', async () => {
+    await expect(wardrobeCommand.execute(['equip'])).rejects.toThrow('process.exit called');
+    expect(consoleSpy.error).toHaveBeenCalledWith('Usage: ccpet wardrobe equip <item>');
+  });
+
+  it('should take the accessory off', async () => {
+    await wardrobeCommand.execute(['unequip']);
+    expect(consoleSpy.log).toHaveBeenCalledWith('✅ Luna took off its accessory');
+
+    mockStatusLine.unequipAccessory.mockReturnValue(false);
+    await wardrobeCommand.execute(['unequip']);
+    expect(consoleSpy.log).toHaveBeenCalledWith('ℹ️  Your pet is not wearing an accessory');
+  });
+
+  it('should reject unknown subcommands', async () => {
+    await expect(wardrobeCommand.execute(['burn'])).rejects.toThrow('process.exit called');
+    expect(consoleSpy.error).toHaveBeenCalledWith('❌ Unknown wardrobe command: burn');
+  });
+});
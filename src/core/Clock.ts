@@ -0,0 +1,47 @@
+export interface IClock {
+  now(): Date;
+}
+
+export class SystemClock implements IClock {
+  public now(): Date {
+    return new Date();
+  }
+}
+
+// 固定时钟：用于测试、模拟以及复现用户报告的问题
+export class FixedClock implements IClock {
+  private time: number;
+
+  constructor(time: Date | number) {
+    this.time = new Date(time).getTime();
+  }
+
+  public now(): Date {
+    return new Date(this.time);
+  }
+
+  public advance(milliseconds: number): void {
+    this.time += milliseconds;
+  }
+
+  public set(time: Date | number): void {
+    this.time = new Date(time).getTime();
+  }
+}
+
+export const systemClock: IClock = new SystemClock();
+
+// CCPET_FIXED_TIME（ISO时间）可把当前时间固定下来，用于复现问题
+export function createClockFromEnv(env: NodeJS.ProcessEnv = process.env): IClock {
+  const fixedTime = env.CCPET_FIXED_TIME;
+  if (!fixedTime) {
+    return systemClock;
+  }
+
+  const time = new Date(fixedTime);
+  if (isNaN(time.getTime())) {
+    console.error(`Invalid CCPET_FIXED_TIME: ${fixedTime}. Using system clock.`);
+    return systemClock;
+  }
+  return new FixedClock(time);
+}
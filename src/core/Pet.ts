@@ -1,16 +1,115 @@
-import { PET_CONFIG, AnimalType, ANIMAL_CONFIGS, generateRandomPetName } from './config';
-import { v4 as uuidv4 } from 'uuid';
+import {
+  PET_CONFIG,
+  AnimalType,
+  ANIMAL_CONFIGS,
+  EvolutionStage,
+  IEvolutionStageConfig,
+  PetMood,
+  generateRandomPetName,
+  normalizePetName
+} from './config';
+import { getEvolutionStage } from './evolution';
+import { IDecayPolicy, LinearDecayPolicy } from './decay';
+import { IDecaySchedule } from './schedule';
+import { IClock, systemClock } from './Clock';
+import { IRandom, systemRandom, pickRandom } from './Random';
+import { IFeedWeights, ITokenUsage, resolveFeedWeights, calculateWeightedTokens } from './feeding';
+import { SpeciesId, SpeciesRegistry, defaultSpeciesRegistry } from './species';
+import { PetCondition, PET_CONDITIONS, IConditionSettings, resolveConditionSettings } from './conditions';
+import { IRevivalSettings, resolveRevivalSettings } from './revival';
+import { IDifficultySettings, IStateThresholds } from './difficulty';
+import { IAccessory, ACCESSORIES, findAccessory, isAccessoryUnlocked, wearAccessory } from './accessories';
+import {
+  IAchievementContext,
+  IAchievementRule,
+  IAchievementProgress,
+  ACHIEVEMENTS,
+  findNewAchievements,
+  getAchievementProgress
+} from './achievements';
+import { IFeedingStreak, IStreakSettings, IStreakStatus, recordDailyFeeding, getStreakStatus, resolveStreakSettings } from './streaks';
+
+export interface IStageRecord {
+  stage: EvolutionStage;
+  reachedAt: Date;
+}
+
+export interface ISleepInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface ISleepState {
+  since: Date; // 开始休眠的时间
+  until?: Date; // 预定醒来时间，未设置时需要手动 ccpet wake
+}
+
+export interface IPetNameRecord {
+  name: string; // 曾用名
+  changedAt: Date; // 改名时间（该名字停止使用的时间）
+}
+
+// 每个会话最近一次上报的新增代码行数（cost.total_lines_added 是会话累计值）
+export interface ILinesAddedRecord {
+  sessionId: string;
+  lines: number;
+}
+
+// 状态栏输入中的活动量，用于提升幸福度和判断是否疲惫
+export interface IPetActivity {
+  sessionId?: string;
+  outputTokens?: number; // 本次新增的输出token
+  linesAdded?: number; // 会话累计新增行数
+  sessionDurationMs?: number; // 会话已持续的时间（cost.total_duration_ms）
+}
+
+// 各暂时性状态的恢复时间，过期后自动解除
+export type IPetConditions = Partial<Record<PetCondition, Date>>;
+
+// 当前喂食速率统计窗口
+export interface IFeedingWindow {
+  since: Date;
+  tokens: number; // 窗口内的加权喂食量
+}
+
+// 濒死窗口：死亡时间和窗口内已喂入的复活额度
+export interface ICriticalState {
+  since: Date;
+  tokens: number; // 加权喂食量
+}
+
+// 复活惩罚：until 之前能量上限降低
+export interface IEnergyCap {
+  maxEnergy: number;
+  until: Date;
+}
+
+// 濒死窗口的进度，供 ccpet check 显示
+export interface IRevivalStatus {
+  tokens: number;
+  quotaTokens: number;
+  deadline: Date; // 超过此时间未复活则移入墓地
+}
+
+// 领养时可指定的属性，未指定的随机生成
+export interface IAdoptionOptions {
+  animalType?: SpeciesId;
+  petName?: string;
+}
 
 export interface IPetState {
   uuid: string; // 宠物唯一标识符，用于supabase等数据库
   energy: number;
+  happiness?: number; // 幸福度（0-100），随输出token和新增代码行上升，无活动时缓慢下降
+  health?: number; // 健康度（0-100），长期挨饿或喂食过量时下降
   expression: string;
-  animalType: AnimalType; // 动物类型字段
+  animalType: SpeciesId; // 动物类型字段（内置或自定义物种）
   birthTime: Date; // 宠物诞生时间
   lastFeedTime: Date;
   totalTokensConsumed: number;
   accumulatedTokens: number; // 当前累积的token数（用于下次能量增加）
   totalLifetimeTokens: number; // 宠物诞生以来消耗的总token数（用于排名和升级）
+  totalLifetimeWeightedTokens?: number; // 按类型权重和模型倍率折算后的总喂食量（用于能量）
   lastDecayTime?: Date; // 上次计算衰减的时间
   sessionTotalInputTokens?: number; // 当前会话总输入token
   sessionTotalOutputTokens?: number; // 当前会话总输出token
@@ -20,25 +119,91 @@ export interface IPetState {
   contextPercentageUsable?: number; // 可用上下文使用百分比（基于160k限制）
   sessionTotalCostUsd?: number; // 当前会话总费用（美元）
   petName: string; // 宠物名称
+  evolutionStage?: EvolutionStage; // 最近记录的进化阶段
+  stageHistory?: IStageRecord[]; // 进化时间线（每次升阶的时间戳）
+  sleep?: ISleepState; // 当前休眠状态，醒着时为空
+  sleepHistory?: ISleepInterval[]; // 已结束的休眠区间，期间不计算衰减
+  nameHistory?: IPetNameRecord[]; // 通过 ccpet rename 改名前使用过的名字
+  linesAdded?: ILinesAddedRecord; // 计算新增行数增量用
+  conditions?: IPetConditions; // 撑着/疲惫状态及其恢复时间
+  feedingWindow?: IFeedingWindow; // 判断是否喂食过快
+  streak?: IFeedingStreak; // 连续喂食天数和当天喂食量
+  achievements?: Record<string, Date>; // 成就id → 解锁时间
+  inventory?: string[]; // 已解锁的配饰id，随宠物一起进入墓地
+  equippedAccessory?: string; // 当前佩戴的配饰id
+  critical?: ICriticalState; // 死亡后的濒死窗口，复活后清除
+  revivalCount?: number; // 复活次数
+  energyCap?: IEnergyCap; // 复活后的能量上限惩罚
+  hardcore?: boolean; // 在硬核难度下进入墓地的记录
+  lowestEnergy?: number; // 存活时能量的最低值（不含归零），供“起死回生”成就判断
 }
 
+// 成就规则所需的外部数据（日志、宠物数量），由调用方提供
+export type IAchievementSources = Omit<IAchievementContext, 'state' | 'now'>;
+
 interface IPetDependencies {
   config: typeof PET_CONFIG;
+  evolutionStages?: readonly IEvolutionStageConfig[]; // 用户自定义阈值后的进化阶段
+  decayPolicy?: IDecayPolicy; // 用户选择的衰减曲线，未提供时使用 TIME_DECAY 线性速率
+  schedule?: IDecaySchedule | undefined; // 作息时间表，只在工作时间内衰减；未提供时全天候衰减
+  clock?: IClock; // 时间来源，测试和问题复现时可注入固定时钟
+  random?: IRandom; // 随机来源（uuid、名字、动物类型），可注入带种子的实现
+  feedWeights?: IFeedWeights; // token类型权重和模型倍率，未提供时使用 FEEDING.TOKEN_WEIGHTS
+  species?: SpeciesRegistry; // 内置和用户自定义物种，未提供时只有内置动物
+  conditions?: IConditionSettings; // 撑着/疲惫的阈值和恢复时间，未提供时使用 PET_CONFIG.CONDITIONS
+  streaks?: IStreakSettings; // 连续喂食的达标量、每日目标和日期分界，未提供时使用 PET_CONFIG.STREAKS 和系统时区
+  revival?: IRevivalSettings; // 濒死窗口和复活惩罚，未提供时使用 PET_CONFIG.REVIVAL
+  difficulty?: IDifficultySettings; // 难度预设的喂食换算、心情阈值和休眠上限，未提供时使用 PET_CONFIG 中的值且不限休眠
 }
 
 type PetObserver = (state: IPetState) => void;
 
+// 喂食来源的明细，随 fed 事件一起发出（用于日志）
+export interface IFeedDetails {
+  sessionId?: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  cachedTokens?: number;
+  usageByModel?: Record<string, ITokenUsage>; // 提供时按权重折算喂食量
+}
+
+// 宠物生命周期事件，订阅者可以直接响应状态转换而无需比较快照
+export type PetEvent =
+  | { type: 'fed'; tokens: number; weightedTokens: number; details?: IFeedDetails; timestamp: Date }
+  | { type: 'energyGained'; amount: number; energy: number; timestamp: Date }
+  | { type: 'decayed'; amount: number; energy: number; elapsedMinutes: number; timestamp: Date }
+  | { type: 'moodChanged'; from: PetMood; to: PetMood; timestamp: Date }
+  | { type: 'stageUp'; from: EvolutionStage; to: EvolutionStage; timestamp: Date }
+  | { type: 'died'; uuid: string; petName: string; timestamp: Date }
+  | { type: 'revived'; revivalCount: number; maxEnergy: number; until: Date; timestamp: Date }
+  | { type: 'reborn'; previousUuid: string; uuid: string; petName: string; animalType: SpeciesId; timestamp: Date }
+  | { type: 'fellAsleep'; until?: Date; timestamp: Date }
+  | { type: 'wokeUp'; sleptSince: Date; timestamp: Date }
+  | { type: 'renamed'; from: string; to: string; timestamp: Date }
+  | { type: 'conditionStarted'; condition: PetCondition; until: Date; timestamp: Date }
+  | { type: 'conditionEnded'; condition: PetCondition; timestamp: Date }
+  | { type: 'achievementUnlocked'; achievementId: string; timestamp: Date }
+  | { type: 'accessoryUnlocked'; accessoryId: string; timestamp: Date }
+  | { type: 'accessoryEquipped'; accessoryId: string | null; timestamp: Date };
+
+export type PetEventType = PetEvent['type'];
+
+type PetEventListener<T extends PetEvent = PetEvent> = (event: T) => void;
+
 export class Pet {
   private state: IPetState;
   private deps: IPetDependencies;
   private observers: PetObserver[] = [];
+  private eventListeners: PetEventListener[] = [];
+  private currentMood: PetMood | undefined; // 用于检测 moodChanged
 
   constructor(initialState: IPetState, dependencies: IPetDependencies) {
     // Initialize state with backward compatibility for missing petName and uuid
+    const random = dependencies?.random ?? systemRandom;
     this.state = {
       ...initialState,
-      uuid: initialState.uuid || uuidv4(),
-      petName: initialState.petName || generateRandomPetName()
+      uuid: initialState.uuid || random.uuid(),
+      petName: initialState.petName || generateRandomPetName(random)
     };
     this.deps = dependencies;
     this._updateExpression(); // Ensure expression matches energy level
@@ -58,28 +223,73 @@ export class Pet {
     };
   }
 
-  public feed(tokens: number): void {
+  public subscribeToEvents(listener: PetEventListener): () => void {
+    this.eventListeners.push(listener);
+    return () => {
+      const index = this.eventListeners.indexOf(listener);
+      if (index > -1) {
+        this.eventListeners.splice(index, 1);
+      }
+    };
+  }
+
+  // 只订阅某一类事件
+  public on<T extends PetEventType>(
+    type: T,
+    listener: PetEventListener<Extract<PetEvent, { type: T }>>
+  ): () => void {
+    return this.subscribeToEvents(event => {
+      if (event.type === type) {
+        listener(event as Extract<PetEvent, { type: T }>);
+      }
+    });
+  }
+
+  public feed(tokens: number, details?: IFeedDetails): void {
     try {
-      // 累积新的token
-      const newAccumulatedTokens = this.state.accumulatedTokens + tokens;
+      // 按token类型和模型折算后累积
+      const weightedTokens = this._getWeightedTokens(tokens, details);
+      const now = this._now();
+      // 死亡后的喂食只计入复活额度，不转化为能量
+      const reviving = this.isDead();
+      // 已经撑着时只有部分喂食量转化为能量；本次喂食计入速率后可能进入撑着状态
+      const energyTokens = this.hasCondition('overfed', now)
+        ? Math.round(weightedTokens * this.deps.config.CONDITIONS.OVERFED_ENERGY_MULTIPLIER)
+        : weightedTokens;
+      this._trackFeedingRate(weightedTokens, now);
+      const newAccumulatedTokens = this.state.accumulatedTokens + energyTokens;
       
       // 计算能获得多少完整的能量点
-      const { TOKENS_PER_ENERGY } = this.deps.config.FEEDING;
+      const TOKENS_PER_ENERGY = this.deps.difficulty?.tokensPerEnergy ?? this.deps.config.FEEDING.TOKENS_PER_ENERGY;
       const energyToAdd = Math.floor(newAccumulatedTokens / TOKENS_PER_ENERGY);
       
       // 计算剩余的累积token (未达到下一个能量点的部分)
       const remainingTokens = newAccumulatedTokens % TOKENS_PER_ENERGY;
+      const previousLifetimeTokens = this.state.totalLifetimeTokens;
       
-      // 更新状态
+      // 更新状态；死亡期间的喂食不计入终生token，宠物不会在死后进化或解锁里程碑配饰
       this.state = {
         ...this.state,
-        accumulatedTokens: remainingTokens, // 保留未能转换为能量的token
-        lastFeedTime: new Date(),
+        accumulatedTokens: reviving ? this.state.accumulatedTokens : remainingTokens, // 保留未能转换为能量的token
+        lastFeedTime: now,
         totalTokensConsumed: this.state.totalTokensConsumed + tokens,
-        totalLifetimeTokens: this.state.totalLifetimeTokens + tokens
+        ...(reviving ? {} : {
+          totalLifetimeTokens: this.state.totalLifetimeTokens + tokens,
+          totalLifetimeWeightedTokens: (this.state.totalLifetimeWeightedTokens ?? this.state.totalLifetimeTokens) + weightedTokens
+        }),
+        streak: recordDailyFeeding(this.state.streak, weightedTokens, now, this._getStreakSettings())
       };
+      this._emit(details
+        ? { type: 'fed', tokens, weightedTokens, details, timestamp: now }
+        : { type: 'fed', tokens, weightedTokens, timestamp: now });
+      if (reviving) {
+        this._feedRevivalQuota(weightedTokens, now);
+        return;
+      }
+      this._updateEvolutionStage(previousLifetimeTokens);
       // 如果有完整的能量点要增加
       if (energyToAdd > 0) {
+        this._applyOverfeedPenalty(energyToAdd);
         this.addEnergy(energyToAdd);
       }
     } catch (error) {
@@ -87,10 +297,210 @@ export class Pet {
     }
   }
 
+  // 能量已满时溢出的部分伤害健康
+  private _applyOverfeedPenalty(energyToAdd: number): void {
+    const STATS = this.deps.config.STATS;
+    const surplus = this.state.energy + energyToAdd - this.getMaxEnergy();
+    if (!STATS || surplus <= 0) {
+      return;
+    }
+    this.state = {
+      ...this.state,
+      health: this._clampStat(this.getHealth() - surplus * STATS.OVERFEED_HEALTH_LOSS_PER_ENERGY)
+    };
+  }
+
+  // 记录输出token和新增代码行，两者都会提升幸福度；会话过长时进入疲惫状态
+  public recordActivity(activity: IPetActivity): void {
+    try {
+      const STATS = this.deps.config.STATS;
+      if (!STATS) {
+        return;
+      }
+
+      const now = this._now();
+      const settings = this._getConditionSettings();
+      if (activity.sessionDurationMs !== undefined
+        && activity.sessionDurationMs / (1000 * 60) >= settings.exhaustedSessionMinutes) {
+        this._startCondition('exhausted', settings.exhaustedRecoveryMinutes, now);
+      }
+
+      let newLines = 0;
+      let linesAdded = this.state.linesAdded;
+      if (activity.sessionId && activity.linesAdded !== undefined) {
+        const previousLines = linesAdded?.sessionId === activity.sessionId ? linesAdded.lines : 0;
+        newLines = Math.max(0, activity.linesAdded - previousLines);
+        linesAdded = { sessionId: activity.sessionId, lines: activity.linesAdded };
+      }
+
+      const activityGain = (activity.outputTokens ?? 0) / STATS.OUTPUT_TOKENS_PER_HAPPINESS
+        + newLines / STATS.LINES_ADDED_PER_HAPPINESS;
+      const gain = this.hasCondition('exhausted', now)
+        ? activityGain * this.deps.config.CONDITIONS.EXHAUSTED_HAPPINESS_MULTIPLIER
+        : activityGain;
+      this.state = {
+        ...this.state,
+        happiness: this._clampStat(this.getHappiness() + gain),
+        ...(linesAdded ? { linesAdded } : {})
+      };
+      this._updateExpression();
+      this._notify();
+    } catch (error) {
+      console.error('Pet recordActivity failed:', error);
+    }
+  }
+
+  public hasCondition(condition: PetCondition, now: Date = this._now()): boolean {
+    const until = this.state.conditions?.[condition];
+    return !!until && until.getTime() > now.getTime();
+  }
+
+  // 当前生效的状态，疲惫优先于撑着
+  public getActiveConditions(now: Date = this._now()): PetCondition[] {
+    return [...PET_CONDITIONS].reverse().filter(condition => this.hasCondition(condition, now));
+  }
+
+  // 统计窗口内的喂食量超过速率上限时进入撑着状态
+  private _trackFeedingRate(weightedTokens: number, now: Date): void {
+    const settings = this._getConditionSettings();
+    const windowMs = settings.overfedWindowMinutes * 60 * 1000;
+    const current = this.state.feedingWindow;
+    const feedingWindow = current && now.getTime() - current.since.getTime() < windowMs
+      ? { since: current.since, tokens: current.tokens + weightedTokens }
+      : { since: now, tokens: weightedTokens };
+
+    this.state = { ...this.state, feedingWindow };
+    if (feedingWindow.tokens > settings.overfedTokensPerMinute * settings.overfedWindowMinutes) {
+      this._startCondition('overfed', settings.overfedRecoveryMinutes, now);
+    }
+  }
+
+  // 进入（或延长）某个状态，恢复计时从现在重新开始
+  private _startCondition(condition: PetCondition, recoveryMinutes: number, now: Date): void {
+    const wasActive = this.hasCondition(condition, now);
+    const until = new Date(now.getTime() + recoveryMinutes * 60 * 1000);
+    this.state = {
+      ...this.state,
+      conditions: { ...this.state.conditions, [condition]: until }
+    };
+    if (!wasActive) {
+      this._emit({ type: 'conditionStarted', condition, until, timestamp: now });
+      this._updateExpression();
+    }
+  }
+
+  // 恢复时间已过的状态自动解除
+  private _expireConditions(now: Date): void {
+    const conditions = this.state.conditions;
+    if (!conditions) {
+      return;
+    }
+
+    const remaining: IPetConditions = {};
+    const ended: Array<{ condition: PetCondition; at: Date }> = [];
+    for (const condition of PET_CONDITIONS) {
+      const until = conditions[condition];
+      if (!until) {
+        continue;
+      }
+      if (until.getTime() > now.getTime()) {
+        remaining[condition] = until;
+      } else {
+        ended.push({ condition, at: until });
+      }
+    }
+
+    if (ended.length === 0) {
+      return;
+    }
+    const { conditions: _expired, ...rest } = this.state;
+    this.state = Object.keys(remaining).length > 0 ? { ...rest, conditions: remaining } : rest;
+    for (const { condition, at } of ended) {
+      this._emit({ type: 'conditionEnded', condition, timestamp: at });
+    }
+    this._updateExpression();
+  }
+
+  // 濒死窗口内累积复活额度，达到额度时复活；窗口已过的宠物只等待移入墓地
+  private _feedRevivalQuota(weightedTokens: number, now: Date): void {
+    const critical = this.state.critical ?? { since: now, tokens: 0 };
+    if (now.getTime() >= this._getRevivalDeadline(critical).getTime()) {
+      return;
+    }
+
+    const tokens = critical.tokens + weightedTokens;
+    if (tokens < this._getRevivalSettings().quotaTokens) {
+      this.state = { ...this.state, critical: { since: critical.since, tokens } };
+      this._notify();
+      return;
+    }
+    this._revive(now);
+  }
+
+  // 复活：清除濒死状态，复活次数加一，并在一段时间内降低能量上限
+  private _revive(now: Date): void {
+    const settings = this._getRevivalSettings();
+    const revivalCount = (this.state.revivalCount ?? 0) + 1;
+    const energyCap = {
+      maxEnergy: settings.penaltyMaxEnergy,
+      until: new Date(now.getTime() + settings.penaltyHours * 60 * 60 * 1000)
+    };
+    const { critical: _critical, ...rest } = this.state;
+    this.state = { ...rest, accumulatedTokens: 0, revivalCount, energyCap };
+    this._emit({ type: 'revived', revivalCount, maxEnergy: energyCap.maxEnergy, until: energyCap.until, timestamp: now });
+    this.addEnergy(Math.min(this.deps.config.REVIVAL.REVIVED_ENERGY, energyCap.maxEnergy));
+  }
+
+  // 记录进入濒死窗口的时间（旧版本保存的已死亡宠物在首次加载时进入窗口）
+  private _enterCriticalWindow(now: Date): void {
+    if (!this.state.critical) {
+      this.state = { ...this.state, critical: { since: now, tokens: 0 } };
+    }
+  }
+
+  private _getRevivalDeadline(critical: ICriticalState): Date {
+    return new Date(critical.since.getTime() + this._getRevivalSettings().windowHours * 60 * 60 * 1000);
+  }
+
+  // 能量上限惩罚到期后解除
+  private _expireEnergyCap(now: Date): void {
+    const energyCap = this.state.energyCap;
+    if (energyCap && energyCap.until.getTime() <= now.getTime()) {
+      const { energyCap: _expired, ...rest } = this.state;
+      this.state = rest;
+    }
+  }
+
+  private _getRevivalSettings(): IRevivalSettings {
+    return this.deps.revival ?? resolveRevivalSettings();
+  }
+
+  private _getStreakSettings(): IStreakSettings {
+    return this.deps.streaks ?? resolveStreakSettings();
+  }
+
+  private _getConditionSettings(): IConditionSettings {
+    return this.deps.conditions ?? resolveConditionSettings();
+  }
+
+  private _getWeightedTokens(tokens: number, details?: IFeedDetails): number {
+    const usageByModel = details?.usageByModel;
+    if (!usageByModel || Object.keys(usageByModel).length === 0) {
+      return tokens;
+    }
+    return calculateWeightedTokens(usageByModel, this.deps.feedWeights ?? resolveFeedWeights());
+  }
+
   public applyTimeDecay(): void {
     try {
-      const now = new Date();
+      const now = this._now();
       const { TIME_DECAY } = this.deps.config;
+      this._expireSleep(now);
+      this._expireConditions(now);
+      this._expireEnergyCap(now);
+      if (this.isDead()) {
+        this._enterCriticalWindow(now);
+      }
       
       // Use lastDecayTime to calculate decay, if not exists use lastFeedTime
       const lastTime = this.state.lastDecayTime || this.state.lastFeedTime;
@@ -98,13 +508,15 @@ export class Pet {
         (now.getTime() - lastTime.getTime()) / (1000 * 60);
       
       if (minutesSinceLastDecay > 0) {
-        // Enhanced configurable decay system - use TIME_DECAY settings if available
-        // Fallback to original 3-day decay system for backward compatibility
-        const ENERGY_DECAY_PER_MINUTE = TIME_DECAY ? 
-          (TIME_DECAY.DECAY_RATE / (TIME_DECAY.DECAY_CHECK_INTERVAL / (1000 * 60))) : // New: configurable rate per minute
-          (100 / (3 * 24 * 60)); // Original: 3 days from 100 to 0, ≈ 0.0231 per minute
+        // 休眠期间和作息时间表之外的时间不计入衰减
+        const elapsedMinutes = this._getDecayMinutes(lastTime, now);
+        const minutesSinceFeed = this._getDecayMinutes(this.state.lastFeedTime, now);
         
-        const energyDecay = minutesSinceLastDecay * ENERGY_DECAY_PER_MINUTE;
+        const energyDecay = this._getDecayPolicy().calculateDecay({
+          elapsedMinutes,
+          minutesSinceFeed,
+          currentEnergy: this.state.energy
+        });
         
         // Apply minimum decay interval check if configured
         const minimumMinutes = TIME_DECAY ? 
@@ -112,13 +524,27 @@ export class Pet {
           0; // Original had no minimum interval
         
         if (energyDecay > 0 && minutesSinceLastDecay >= minimumMinutes) {
-          this.decreaseEnergy(energyDecay);
+          const energyBefore = this.state.energy;
+          // 本次结算中饿死时，濒死窗口从推算出的能量归零时刻开始，而不是从长时间离开后的这次结算开始
+          const diedAt = energyBefore > 0 && energyDecay >= energyBefore
+            ? this._findDeathTime(lastTime, now, energyBefore)
+            : now;
+          this.decreaseEnergy(energyDecay, diedAt);
           
           // Update lastDecayTime but keep lastFeedTime unchanged
           this.state = {
             ...this.state,
+            ...this._getDecayedStats(elapsedMinutes),
             lastDecayTime: now
           };
+          this._updateExpression();
+          this._emit({
+            type: 'decayed',
+            amount: energyBefore - this.state.energy,
+            energy: this.state.energy,
+            elapsedMinutes,
+            timestamp: now
+          });
         }
       }
     } catch (error) {
@@ -133,13 +559,15 @@ export class Pet {
         throw new Error(`Invalid energy amount: ${amount}. Must be a non-negative number.`);
       }
 
-      const now = new Date();
+      const now = this._now();
+      const energyBefore = this.state.energy;
       this.state = {
         ...this.state,
-        energy: Math.min(100, this.state.energy + amount),
+        energy: Math.min(this.getMaxEnergy(now), this.state.energy + amount),
         lastFeedTime: now,
         lastDecayTime: now
       };
+      this._emit({ type: 'energyGained', amount: this.state.energy - energyBefore, energy: this.state.energy, timestamp: now });
       this._updateExpression();
       this._notify();
     } catch (error) {
@@ -148,18 +576,26 @@ export class Pet {
     }
   }
 
-  public decreaseEnergy(amount: number): void {
+  // diedAt：能量因此归零时记录的死亡时间，默认为当前时间
+  public decreaseEnergy(amount: number, diedAt: Date = this._now()): void {
     try {
       if (typeof amount !== 'number' || amount < 0 || isNaN(amount)) {
         throw new Error(`Invalid energy amount: ${amount}. Must be a non-negative number.`);
       }
 
+      const wasAlive = !this.isDead();
+      const energy = Math.max(0, this.state.energy - amount);
       this.state = {
         ...this.state,
-        energy: Math.max(0, this.state.energy - amount)
+        energy,
+        ...(energy > 0 && energy < (this.state.lowestEnergy ?? Infinity) ? { lowestEnergy: energy } : {})
       };
       this._updateExpression();
       this._notify();
+      if (wasAlive && this.isDead()) {
+        this._enterCriticalWindow(diedAt);
+        this._emit({ type: 'died', uuid: this.state.uuid, petName: this.state.petName, timestamp: diedAt });
+      }
     } catch (error) {
       console.error('Pet decreaseEnergy failed:', error);
       throw error;
@@ -170,27 +606,244 @@ export class Pet {
     return this.state.energy;
   }
 
-  public getCurrentAnimalType(): AnimalType {
+  // 复活惩罚期间能量上限降低
+  public getMaxEnergy(now: Date = this._now()): number {
+    const energyCap = this.state.energyCap;
+    return energyCap && energyCap.until.getTime() > now.getTime() ? energyCap.maxEnergy : 100;
+  }
+
+  public getHappiness(): number {
+    return this.state.happiness ?? this.deps.config.STATS?.INITIAL_HAPPINESS ?? 100;
+  }
+
+  public getHealth(): number {
+    return this.state.health ?? this.deps.config.STATS?.INITIAL_HEALTH ?? 100;
+  }
+
+  public getStreakStatus(now: Date = this._now()): IStreakStatus {
+    return getStreakStatus(this.state.streak, now, this._getStreakSettings());
+  }
+
+  // 记录新达成的成就并返回它们，供状态栏显示一次提示
+  public unlockAchievements(sources: IAchievementSources, rules: readonly IAchievementRule[] = ACHIEVEMENTS): IAchievementRule[] {
+    const now = this._now();
+    const unlocked = this.state.achievements ?? {};
+    const newlyUnlocked = findNewAchievements({ ...sources, state: this.state, now }, unlocked, rules);
+    if (newlyUnlocked.length === 0) {
+      return [];
+    }
+
+    const achievements = { ...unlocked };
+    for (const rule of newlyUnlocked) {
+      achievements[rule.id] = now;
+    }
+    this.state = { ...this.state, achievements };
+    for (const rule of newlyUnlocked) {
+      this._emit({ type: 'achievementUnlocked', achievementId: rule.id, timestamp: now });
+    }
+    return newlyUnlocked;
+  }
+
+  public getAchievementProgress(sources: IAchievementSources, rules: readonly IAchievementRule[] = ACHIEVEMENTS): IAchievementProgress[] {
+    return getAchievementProgress({ ...sources, state: this.state, now: this._now() }, this.state.achievements, rules);
+  }
+
+  public getCurrentAnimalType(): SpeciesId {
     return this.state.animalType;
   }
 
-  public static getRandomAnimalType(): AnimalType {
-    const animalTypes = Object.values(AnimalType);
-    const randomIndex = Math.floor(Math.random() * animalTypes.length);
-    return animalTypes[randomIndex];
+  public static getRandomAnimalType(
+    random: IRandom = systemRandom,
+    species: SpeciesRegistry = defaultSpeciesRegistry
+  ): SpeciesId {
+    return pickRandom(species.getIds(), random);
   }
 
   public getAnimalEmoji(): string {
-    const animalConfig = ANIMAL_CONFIGS[this.state.animalType];
-    return animalConfig?.emoji || ANIMAL_CONFIGS[AnimalType.CAT].emoji; // 默认为猫emoji
+    const species = this._getSpecies().get(this.state.animalType);
+    return species?.emoji || ANIMAL_CONFIGS[AnimalType.CAT].emoji; // 未知物种（如已删除的自定义物种）默认为猫emoji
+  }
+
+  public getMood(): PetMood {
+    return this._getMood();
+  }
+
+  public getEvolutionStage(): IEvolutionStageConfig {
+    return getEvolutionStage(this.state.totalLifetimeTokens, this._getEvolutionStages());
   }
 
   public isDead(): boolean {
     return this.state.energy === 0;
   }
 
-  public resetToInitialState(onGraveyardSave?: (currentState: IPetState) => void): void {
+  // 死亡且仍在濒死窗口内，喂够复活额度即可复活
+  public isInCriticalWindow(now: Date = this._now()): boolean {
+    const critical = this.state.critical;
+    return this.isDead() && !!critical && now.getTime() < this._getRevivalDeadline(critical).getTime();
+  }
+
+  // 濒死窗口已过，应移入墓地
+  public isRevivalWindowExpired(now: Date = this._now()): boolean {
+    const critical = this.state.critical;
+    return this.isDead() && !!critical && now.getTime() >= this._getRevivalDeadline(critical).getTime();
+  }
+
+  public getRevivalStatus(now: Date = this._now()): IRevivalStatus | undefined {
+    const critical = this.state.critical;
+    if (!critical || !this.isInCriticalWindow(now)) {
+      return undefined;
+    }
+    return {
+      tokens: critical.tokens,
+      quotaTokens: this._getRevivalSettings().quotaTokens,
+      deadline: this._getRevivalDeadline(critical)
+    };
+  }
+
+  public isAsleep(now: Date = this._now()): boolean {
+    const sleep = this.state.sleep;
+    return !!sleep && (!sleep.until || sleep.until.getTime() > now.getTime());
+  }
+
+  // 进入休眠：冻结能量衰减直到 until 或手动唤醒
+  public sleep(until?: Date): void {
+    try {
+      const now = this._now();
+      if (this.isDead()) {
+        throw new Error('Cannot put a dead pet to sleep.');
+      }
+      if (until && (isNaN(until.getTime()) || until.getTime() <= now.getTime())) {
+        throw new Error(`Invalid wake time: ${until}. Must be in the future.`);
+      }
+      // 难度限制了休眠时长时，未指定醒来时间的休眠在上限处自动醒来
+      const maxSleepHours = this.deps.difficulty?.maxSleepHours;
+      const latestWake = maxSleepHours !== undefined ? new Date(now.getTime() + maxSleepHours * 60 * 60 * 1000) : undefined;
+      if (until && latestWake && until.getTime() > latestWake.getTime()) {
+        throw new Error(`Sleep is limited to ${maxSleepHours} hours on ${this.deps.difficulty?.level} difficulty.`);
+      }
+      until = until ?? latestWake;
+      this._expireSleep(now);
+      if (this.isAsleep(now)) {
+        throw new Error('Pet is already asleep.');
+      }
+
+      // 先结算入睡前的衰减，避免醒来后补扣
+      this.applyTimeDecay();
+      this.state = {
+        ...this.state,
+        sleep: until ? { since: now, until } : { since: now }
+      };
+      this._emit(until ? { type: 'fellAsleep', until, timestamp: now } : { type: 'fellAsleep', timestamp: now });
+      this._updateExpression();
+      this._notify();
+    } catch (error) {
+      console.error('Pet sleep failed:', error);
+      throw error;
+    }
+  }
+
+  // 提前唤醒，返回是否确实从休眠中醒来
+  public wake(): boolean {
+    const now = this._now();
+    this._expireSleep(now);
+    if (!this.state.sleep) {
+      return false;
+    }
+
+    const sleptSince = this.state.sleep.since;
+    this._recordSleepInterval(sleptSince, now);
+    this._emit({ type: 'wokeUp', sleptSince, timestamp: now });
+    this._updateExpression();
+    this._notify();
+    return true;
+  }
+
+  // 改名并把旧名字记入 nameHistory
+  public rename(newName: string): void {
+    const petName = normalizePetName(newName);
+    if (petName === this.state.petName) {
+      return;
+    }
+
+    const now = this._now();
+    const previousName = this.state.petName;
+    const nameHistory = [...(this.state.nameHistory || []), { name: previousName, changedAt: now }];
+    this.state = {
+      ...this.state,
+      petName,
+      nameHistory: nameHistory.slice(-this.deps.config.NAMING.MAX_NAME_HISTORY)
+    };
+    this._emit({ type: 'renamed', from: previousName, to: petName, timestamp: now });
+    this._notify();
+  }
+
+  // 达到里程碑、年龄或季节时把配饰加入物品栏，返回本次解锁的配饰（死亡的宠物不再解锁）
+  public unlockAccessories(): IAccessory[] {
+    const now = this._now();
+    if (this.isDead()) {
+      return [];
+    }
+
+    const inventory = this.state.inventory ?? [];
+    const unlocked = ACCESSORIES.filter(accessory =>
+      !inventory.includes(accessory.id) && isAccessoryUnlocked(accessory, this.state, now));
+    if (unlocked.length === 0) {
+      return [];
+    }
+
+    this.state = { ...this.state, inventory: [...inventory, ...unlocked.map(accessory => accessory.id)] };
+    for (const accessory of unlocked) {
+      this._emit({ type: 'accessoryUnlocked', accessoryId: accessory.id, timestamp: now });
+    }
+    return unlocked;
+  }
+
+  public getInventory(): string[] {
+    return [...(this.state.inventory ?? [])];
+  }
+
+  public getEquippedAccessory(): IAccessory | undefined {
+    return this.state.equippedAccessory ? findAccessory(this.state.equippedAccessory) : undefined;
+  }
+
+  // 佩戴已解锁的配饰
+  public equipAccessory(id: string): IAccessory {
+    const accessory = findAccessory(id);
+    if (!accessory) {
+      throw new Error(`Unknown accessory: ${id}. Available accessories: ${ACCESSORIES.map(item => item.id).join(', ')}`);
+    }
+    if (!this.getInventory().includes(accessory.id)) {
+      throw new Error(`${accessory.name} is still locked.`);
+    }
+
+    if (this.state.equippedAccessory !== accessory.id) {
+      this.state = { ...this.state, equippedAccessory: accessory.id };
+      this._emit({ type: 'accessoryEquipped', accessoryId: accessory.id, timestamp: this._now() });
+      this._notify();
+    }
+    return accessory;
+  }
+
+  // 摘下配饰，返回是否原本戴着配饰
+  public unequipAccessory(): boolean {
+    if (!this.state.equippedAccessory) {
+      return false;
+    }
+    const { equippedAccessory: _removed, ...rest } = this.state;
+    this.state = rest;
+    this._emit({ type: 'accessoryEquipped', accessoryId: null, timestamp: this._now() });
+    this._notify();
+    return true;
+  }
+
+  public resetToInitialState(
+    onGraveyardSave?: (currentState: IPetState) => void,
+    options: IAdoptionOptions = {}
+  ): void {
     try {
+      // 先校验名字，避免名字无效时死亡的宠物已被移入墓地（强制送走活着的宠物前由调用方校验）
+      const requestedName = options.petName !== undefined ? normalizePetName(options.petName) : undefined;
+
       // Step 1: Preserve current state history before reset
       if (onGraveyardSave && this.isDead()) {
         try {
@@ -201,12 +854,18 @@ export class Pet {
       }
 
       // Step 2: Initialize new pet state
-      const now = new Date();
-      const newAnimalType = Pet.getRandomAnimalType();
+      const now = this._now();
+      const random = this._getRandom();
+      const previousUuid = this.state.uuid;
+      const newAnimalType = options.animalType ?? Pet.getRandomAnimalType(random, this._getSpecies());
+      const uuid = random.uuid();
+      const petName = requestedName ?? generateRandomPetName(random);
       
       this.state = {
-        uuid: uuidv4(),
+        uuid,
         energy: this.deps.config.INITIAL_ENERGY,
+        happiness: this.deps.config.STATS.INITIAL_HAPPINESS,
+        health: this.deps.config.STATS.INITIAL_HEALTH,
         expression: this.deps.config.STATE_EXPRESSIONS.HAPPY,
         animalType: newAnimalType,
         birthTime: now,
@@ -214,14 +873,26 @@ export class Pet {
         totalTokensConsumed: 0,
         accumulatedTokens: 0,
         totalLifetimeTokens: 0,
+        totalLifetimeWeightedTokens: 0,
         lastDecayTime: now,
         sessionTotalInputTokens: 0,
         sessionTotalOutputTokens: 0,
         sessionTotalCachedTokens: 0,
-        petName: generateRandomPetName()
+        petName,
+        evolutionStage: EvolutionStage.BABY,
+        stageHistory: [],
+        sleepHistory: []
       };
       
       console.log(`Pet reborn as ${newAnimalType} type with name: ${this.state.petName}`);
+      this._emit({
+        type: 'reborn',
+        previousUuid,
+        uuid: this.state.uuid,
+        petName: this.state.petName,
+        animalType: newAnimalType,
+        timestamp: now
+      });
       this._updateExpression();
       this._notify();
     } catch (error) {
@@ -236,51 +907,280 @@ export class Pet {
       return;
     }
     
-    const { STATE_THRESHOLDS, STATE_EXPRESSIONS } = this.deps.config;
+    const { STATE_EXPRESSIONS, SLEEP } = this.deps.config;
+    if (this.isAsleep() && SLEEP?.EXPRESSIONS.length) {
+      this._trackMood(this._getMood());
+      this.state.expression = SLEEP.EXPRESSIONS[0];
+      return;
+    }
+    
+    const mood = this._getMood();
+    this._trackMood(mood);
+    const conditionFrames = this._getConditionFrames(mood);
+    
+    this.state.expression = conditionFrames?.[0] ?? this._getMoodFrames(mood)?.[0] ?? STATE_EXPRESSIONS[mood];
+  }
+
+  // 首次计算时只记录心情，之后每次变化都发出 moodChanged
+  private _trackMood(mood: PetMood): void {
+    if (this.currentMood !== undefined && this.currentMood !== mood) {
+      this._emit({ type: 'moodChanged', from: this.currentMood, to: mood, timestamp: this._now() });
+    }
+    this.currentMood = mood;
+  }
+
+  private _getMood(): PetMood {
+    const { STATS } = this.deps.config;
+    const thresholds = this._getStateThresholds();
     
-    if (this.state.energy >= STATE_THRESHOLDS.HAPPY) {
-      this.state.expression = STATE_EXPRESSIONS.HAPPY;
-    } else if (this.state.energy >= STATE_THRESHOLDS.HUNGRY) {
-      this.state.expression = STATE_EXPRESSIONS.HUNGRY;
-    } else if (this.state.energy >= STATE_THRESHOLDS.SICK) {
-      this.state.expression = STATE_EXPRESSIONS.SICK;
+    let mood: PetMood;
+    if (this.state.energy >= thresholds.happy) {
+      mood = 'HAPPY';
+    } else if (this.state.energy >= thresholds.hungry) {
+      mood = 'HUNGRY';
+    } else if (this.state.energy >= thresholds.sick) {
+      mood = 'SICK';
     } else {
-      this.state.expression = STATE_EXPRESSIONS.DEAD;
+      return 'DEAD';
+    }
+
+    // 健康度过低时生病，幸福度过低时不会开心
+    if (STATS && this.getHealth() < STATS.SICK_HEALTH_THRESHOLD) {
+      return 'SICK';
     }
+    if (STATS && mood === 'HAPPY' && this.getHappiness() < STATS.SAD_HAPPINESS_THRESHOLD) {
+      return 'HUNGRY';
+    }
+    return mood;
+  }
+
+  // 衰减期间的幸福度和健康度变化：无活动时无聊，挨饿时损伤健康，吃饱时慢慢恢复
+  private _getDecayedStats(elapsedMinutes: number): Pick<IPetState, 'happiness' | 'health'> {
+    const { STATS } = this.deps.config;
+    if (!STATS || elapsedMinutes <= 0) {
+      return {};
+    }
+
+    const hours = elapsedMinutes / 60;
+    let health = this.getHealth();
+    if (this.state.energy < STATS.STARVATION_ENERGY_THRESHOLD) {
+      health -= STATS.STARVATION_HEALTH_LOSS_PER_HOUR * hours;
+    } else if (this.state.energy >= this._getStateThresholds().hungry) {
+      health += STATS.HEALTH_RECOVERY_PER_HOUR * hours;
+    }
+
+    return {
+      happiness: this._clampStat(this.getHappiness() - STATS.HAPPINESS_DECAY_PER_HOUR * hours),
+      health: this._clampStat(health)
+    };
+  }
+
+  private _getStateThresholds(): IStateThresholds {
+    const { STATE_THRESHOLDS } = this.deps.config;
+    return this.deps.difficulty?.stateThresholds
+      ?? { happy: STATE_THRESHOLDS.HAPPY, hungry: STATE_THRESHOLDS.HUNGRY, sick: STATE_THRESHOLDS.SICK };
+  }
+
+  private _clampStat(value: number): number {
+    return Math.max(0, Math.min(100, value));
+  }
+
+  private _getDecayPolicy(): IDecayPolicy {
+    if (this.deps.decayPolicy) {
+      return this.deps.decayPolicy;
+    }
+    
+    // Enhanced configurable decay system - use TIME_DECAY settings if available
+    // Fallback to original 3-day decay system for backward compatibility
+    const { TIME_DECAY } = this.deps.config;
+    const ENERGY_DECAY_PER_MINUTE = TIME_DECAY ? 
+      (TIME_DECAY.DECAY_RATE / (TIME_DECAY.DECAY_CHECK_INTERVAL / (1000 * 60))) : // New: configurable rate per minute
+      (100 / (3 * 24 * 60)); // Original: 3 days from 100 to 0, ≈ 0.0231 per minute
+    return new LinearDecayPolicy(ENERGY_DECAY_PER_MINUTE);
+  }
+
+  // 预定醒来时间已过，将本次休眠归档
+  private _expireSleep(now: Date): void {
+    const sleep = this.state.sleep;
+    if (sleep?.until && sleep.until.getTime() <= now.getTime()) {
+      this._recordSleepInterval(sleep.since, sleep.until);
+      this._emit({ type: 'wokeUp', sleptSince: sleep.since, timestamp: sleep.until });
+      this._updateExpression();
+    }
+  }
+
+  private _recordSleepInterval(start: Date, end: Date): void {
+    const { SLEEP } = this.deps.config;
+    const sleepHistory = [...(this.state.sleepHistory || []), { start, end }];
+    const { sleep: _finished, ...rest } = this.state;
+
+    this.state = {
+      ...rest,
+      sleepHistory: sleepHistory.slice(-(SLEEP?.MAX_HISTORY ?? sleepHistory.length))
+    };
+  }
+
+  // 推算 lastTime 之后能量耗尽的时刻：衰减量随时间单调增加，二分查找到秒级精度
+  private _findDeathTime(lastTime: Date, now: Date, energy: number): Date {
+    const policy = this._getDecayPolicy();
+    let low = lastTime.getTime();
+    let high = now.getTime();
+    while (high - low > 1000) {
+      const mid = Math.floor((low + high) / 2);
+      const at = new Date(mid);
+      const decay = policy.calculateDecay({
+        elapsedMinutes: this._getDecayMinutes(lastTime, at),
+        minutesSinceFeed: this._getDecayMinutes(this.state.lastFeedTime, at),
+        currentEnergy: energy
+      });
+      if (decay >= energy) {
+        high = mid;
+      } else {
+        low = mid;
+      }
+    }
+    return new Date(high);
+  }
+
+  // 计算 from 到 to 之间计入衰减的分钟数：跳过休眠区间，其余部分按作息时间表统计
+  private _getDecayMinutes(from: Date, to: Date): number {
+    const toMs = to.getTime();
+    let cursor = from.getTime();
+    if (toMs <= cursor) {
+      return (toMs - cursor) / (1000 * 60);
+    }
+
+    const measure = (start: number, end: number): number => this.deps.schedule
+      ? this.deps.schedule.getScheduledMinutes(new Date(start), new Date(end))
+      : (end - start) / (1000 * 60);
+
+    let minutes = 0;
+    for (const interval of this._getSleepIntervals(to)) {
+      const start = Math.max(cursor, interval.start.getTime());
+      const end = Math.min(toMs, interval.end.getTime());
+      if (end <= start) {
+        continue;
+      }
+      if (start > cursor) {
+        minutes += measure(cursor, start);
+      }
+      cursor = end;
+    }
+    if (toMs > cursor) {
+      minutes += measure(cursor, toMs);
+    }
+    return minutes;
+  }
+
+  // 按开始时间排序的全部休眠区间（含进行中的休眠）
+  private _getSleepIntervals(now: Date): ISleepInterval[] {
+    const intervals = [...(this.state.sleepHistory || [])];
+    if (this.state.sleep) {
+      const until = this.state.sleep.until;
+      intervals.push({
+        start: this.state.sleep.since,
+        end: until && until.getTime() < now.getTime() ? until : now
+      });
+    }
+    return intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  private _now(): Date {
+    return (this.deps?.clock ?? systemClock).now();
+  }
+
+  private _getRandom(): IRandom {
+    return this.deps?.random ?? systemRandom;
+  }
+
+  private _getSpecies(): SpeciesRegistry {
+    return this.deps?.species ?? defaultSpeciesRegistry;
+  }
+
+  // 物种自带的表情优先，其次是进化阶段的表情；都未定义时返回 undefined，使用默认表情
+  private _getMoodFrames(mood: PetMood): readonly string[] | undefined {
+    return this._getSpecies().get(this.state.animalType)?.expressions?.[mood]
+      ?? this.getEvolutionStage().expressions?.[mood];
+  }
+
+  // 撑着/疲惫的表情优先于心情表情（濒死时除外）
+  private _getConditionFrames(mood: PetMood): readonly string[] | undefined {
+    const EXPRESSIONS = this.deps.config.CONDITIONS?.EXPRESSIONS;
+    if (!EXPRESSIONS || mood === 'DEAD') {
+      return undefined;
+    }
+    const condition = this.getActiveConditions()[0];
+    return condition ? EXPRESSIONS[condition] : undefined;
+  }
+
+  private _getEvolutionStages(): readonly IEvolutionStageConfig[] {
+    return this.deps.evolutionStages || this.deps.config.EVOLUTION.STAGES;
+  }
+
+  // 根据终生token检查是否升阶，并记录升阶时间
+  // 一次喂食跨过多个阈值时逐级记录每个阶段；阈值调高后当前阶段变低时不回退，也不记录
+  private _updateEvolutionStage(previousLifetimeTokens: number): void {
+    const stages = this._getEvolutionStages();
+    const previousStage = this.state.evolutionStage
+      ?? getEvolutionStage(previousLifetimeTokens, stages).id;
+    const currentStage = getEvolutionStage(this.state.totalLifetimeTokens, stages).id;
+    const previousIndex = stages.findIndex(stage => stage.id === previousStage);
+    const currentIndex = stages.findIndex(stage => stage.id === currentStage);
+
+    if (currentIndex <= previousIndex) {
+      if (this.state.evolutionStage === undefined) {
+        this.state = { ...this.state, evolutionStage: previousStage };
+      }
+      return;
+    }
+
+    const reachedAt = this._now();
+    const reached = stages.slice(previousIndex + 1, currentIndex + 1).map(stage => stage.id);
+    this.state = {
+      ...this.state,
+      evolutionStage: currentStage,
+      stageHistory: [
+        ...(this.state.stageHistory || []),
+        ...reached.map(stage => ({ stage, reachedAt }))
+      ]
+    };
+    let from = previousStage;
+    for (const stage of reached) {
+      this._emit({ type: 'stageUp', from, to: stage, timestamp: reachedAt });
+      from = stage;
+    }
+    this._updateExpression();
   }
 
   // 获取当前状态对应的动画表情（如果支持动画的话）
   public getAnimatedExpression(animationEnabled: boolean = false, frameIndex: number = 0, emojiEnabled: boolean = true): string {
-    const { STATE_THRESHOLDS, ANIMATED_EXPRESSIONS } = this.deps.config;
+    const { ANIMATED_EXPRESSIONS } = this.deps.config;
     
     let baseExpression: string;
     
+    const sleepFrames = this.deps.config.SLEEP?.EXPRESSIONS;
+    
     if (!animationEnabled || !ANIMATED_EXPRESSIONS) {
       baseExpression = this.state.expression;
+    } else if (this.isAsleep() && sleepFrames?.length) {
+      baseExpression = sleepFrames[frameIndex % sleepFrames.length];
     } else {
-      let animationArray: readonly string[];
-      
-      if (this.state.energy >= STATE_THRESHOLDS.HAPPY) {
-        animationArray = ANIMATED_EXPRESSIONS.HAPPY;
-      } else if (this.state.energy >= STATE_THRESHOLDS.HUNGRY) {
-        animationArray = ANIMATED_EXPRESSIONS.HUNGRY;
-      } else if (this.state.energy >= STATE_THRESHOLDS.SICK) {
-        animationArray = ANIMATED_EXPRESSIONS.SICK;
-      } else {
-        animationArray = ANIMATED_EXPRESSIONS.DEAD;
-      }
+      const mood = this._getMood();
+      const animationArray: readonly string[] =
+        this._getConditionFrames(mood) ?? this._getMoodFrames(mood) ?? ANIMATED_EXPRESSIONS[mood];
       
       // 使用帧索引循环显示动画序列
       const index = frameIndex % animationArray.length;
       baseExpression = animationArray[index];
     }
     
-    // 如果emoji被启用，添加动物emoji前缀
+    // 依次组合动物emoji、配饰和表情帧，例如 🐱🎩(^_^)
+    const dressedExpression = wearAccessory(baseExpression, this.getEquippedAccessory());
     if (emojiEnabled) {
       const animalEmoji = this.getAnimalEmoji();
-      return `${animalEmoji}${baseExpression}`;
+      return `${animalEmoji}${dressedExpression}`;
     } else {
-      return baseExpression;
+      return dressedExpression;
     }
   }
 
@@ -304,6 +1204,16 @@ export class Pet {
     }
   }
 
+  private _emit(event: PetEvent): void {
+    this.eventListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Event listener failed:', error);
+      }
+    });
+  }
+
   private _notify(): void {
     this.observers.forEach(observer => {
       try {
@@ -0,0 +1,64 @@
+import { v4 as uuidv4 } from 'uuid';
+
+export interface IRandom {
+  next(): number; // [0, 1) 之间的随机数
+  uuid(): string;
+}
+
+export class SystemRandom implements IRandom {
+  public next(): number {
+    return Math.random();
+  }
+
+  public uuid(): string {
+    return uuidv4();
+  }
+}
+
+// 可复现的伪随机数生成器（mulberry32），相同种子产生相同的宠物
+export class SeededRandom implements IRandom {
+  private state: number;
+
+  constructor(seed: number | string) {
+    this.state = typeof seed === 'number' ? seed >>> 0 : SeededRandom.hashSeed(seed);
+  }
+
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  public uuid(): string {
+    const random = new Uint8Array(16);
+    for (let i = 0; i < random.length; i++) {
+      random[i] = Math.floor(this.next() * 256);
+    }
+    return uuidv4({ random });
+  }
+
+  // FNV-1a，把字符串种子转换为32位整数
+  private static hashSeed(seed: string): number {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < seed.length; i++) {
+      hash ^= seed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
+
+export const systemRandom: IRandom = new SystemRandom();
+
+// 从随机源中等概率选取一个元素
+export function pickRandom<T>(items: readonly T[], random: IRandom = systemRandom): T {
+  return items[Math.floor(random.next() * items.length)];
+}
+
+// CCPET_SEED 固定随机种子，配合 CCPET_FIXED_TIME 可完整复现用户的问题
+export function createRandomFromEnv(env: NodeJS.ProcessEnv = process.env): IRandom {
+  const seed = env.CCPET_SEED;
+  return seed ? new SeededRandom(seed) : systemRandom;
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FixedClock, SystemClock, createClockFromEnv, systemClock } from '../Clock';
+
+describe('Clock', () => {
+  it('should return the current time from the system clock', () => {
+    const before = Date.now();
+    const now = new SystemClock().now().getTime();
+
+    expect(now).toBeGreaterThanOrEqual(before);
+    expect(now).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('should keep a fixed clock still until advanced', () => {
+    const clock = new FixedClock(new Date('2025-08-21T12:00:00Z'));
+
+    expect(clock.now().toISOString()).toBe('2025-08-21T12:00:00.000Z');
+    expect(clock.now()).not.toBe(clock.now());
+
+    clock.advance(90 * 1000);
+    expect(clock.now().toISOString()).toBe('2025-08-21T12:01:30.000Z');
+
+    clock.set(new Date('2025-09-01T00:00:00Z'));
+    expect(clock.now().toISOString()).toBe('2025-09-01T00:00:00.000Z');
+  });
+
+  describe('createClockFromEnv', () => {
+    it('should use the system clock by default', () => {
+      expect(createClockFromEnv({})).toBe(systemClock);
+    });
+
+    it('should pin time from CCPET_FIXED_TIME', () => {
+      const clock = createClockFromEnv({ CCPET_FIXED_TIME: '2025-08-21T12:00:00Z' });
+
+      expect(clock).toBeInstanceOf(FixedClock);
+      expect(clock.now().toISOString()).toBe('2025-08-21T12:00:00.000Z');
+    });
+
+    it('should ignore an invalid CCPET_FIXED_TIME', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(createClockFromEnv({ CCPET_FIXED_TIME: 'yesterday' })).toBe(systemClock);
+      expect(consoleSpy).toHaveBeenCalledWith('Invalid CCPET_FIXED_TIME: yesterday. Using system clock.');
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -1,6 +1,14 @@
 import { describe, it, expect, vi } from 'vitest';
-import { Pet, IPetState } from '../Pet';
-import { PET_CONFIG, AnimalType, generateRandomPetName, PET_NAMES } from '../config';
+import { Pet, IPetState, PetEvent } from '../Pet';
+import { PET_CONFIG, AnimalType, EvolutionStage, generateRandomPetName, PET_NAMES, normalizePetName } from '../config';
+import { resolveEvolutionStages } from '../evolution';
+import { GracePeriodDecayPolicy, SteppedDecayPolicy } from '../decay';
+import { FixedClock } from '../Clock';
+import { resolveDifficultySettings } from '../difficulty';
+import { SeededRandom } from '../Random';
+import { resolveFeedWeights } from '../feeding';
+import { createSpeciesRegistry } from '../species';
+import { resolveStreakSettings } from '../streaks';
 
 describe('Pet Core Logic', () => {
   const mockConfig = PET_CONFIG;
@@ -263,6 +271,36 @@ describe('Pet Core Logic', () => {
       });
     });
 
+    describe('injected decay policies', () => {
+      it('should use the injected decay policy instead of TIME_DECAY', () => {
+        const oneHourAgo = new Date(Date.now() - (60 * 60 * 1000));
+        const initialState = { ...createInitialState(), energy: 50, lastFeedTime: oneHourAgo };
+        const pet = new Pet(initialState, { config: mockConfig, decayPolicy: new SteppedDecayPolicy(30, 5) });
+        
+        pet.applyTimeDecay();
+        
+        // Two 30-minute steps since last feed
+        expect(pet.getState().energy).toBeCloseTo(40, 5);
+      });
+
+      it('should pass time since last feed to grace period policies', () => {
+        const threeHoursAgo = new Date(Date.now() - (3 * 60 * 60 * 1000));
+        const oneHourAgo = new Date(Date.now() - (60 * 60 * 1000));
+        const initialState = {
+          ...createInitialState(),
+          energy: 50,
+          lastFeedTime: oneHourAgo,
+          lastDecayTime: threeHoursAgo
+        };
+        const pet = new Pet(initialState, { config: mockConfig, decayPolicy: new GracePeriodDecayPolicy(120, 1) });
+        
+        pet.applyTimeDecay();
+        
+        // Fed one hour ago, still inside the two hour grace period
+        expect(pet.getState().energy).toBe(50);
+      });
+    });
+
     describe('energy bounds validation', () => {
       it('should not reduce energy below 0', () => {
         const tenHoursAgo = new Date(Date.now() - (10 * 60 * 60 * 1000)); // 10 hours = 600 minutes
@@ -1438,6 +1476,1069 @@ describe('Pet Core Logic', () => {
     });
   });
 
+  describe('Evolution Stages', () => {
+    it('should start as a baby using the default expressions', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 100 }, mockDependencies);
+
+      expect(pet.getEvolutionStage().id).toBe(EvolutionStage.BABY);
+      expect(pet.getAnimatedExpression(true, 0, false)).toBe('(^_^)');
+    });
+
+    it('should record a stage-up when lifetime tokens cross a threshold', () => {
+      const pet = new Pet({ ...createInitialState(), totalLifetimeTokens: 9999000 }, mockDependencies);
+
+      pet.feed(1000);
+      const state = pet.getState();
+
+      expect(state.evolutionStage).toBe(EvolutionStage.JUVENILE);
+      expect(state.stageHistory).toHaveLength(1);
+      expect(state.stageHistory![0].stage).toBe(EvolutionStage.JUVENILE);
+      expect(state.stageHistory![0].reachedAt).toBeInstanceOf(Date);
+    });
+
+    it('should record every stage crossed by a single feed', () => {
+      const pet = new Pet({ ...createInitialState(), totalLifetimeTokens: 9999000 }, mockDependencies);
+      const events: PetEvent[] = [];
+      pet.subscribeToEvents(event => events.push(event));
+
+      pet.feed(40001000);
+      const state = pet.getState();
+
+      expect(state.evolutionStage).toBe(EvolutionStage.ADULT);
+      expect(state.stageHistory!.map(entry => entry.stage)).toEqual([EvolutionStage.JUVENILE, EvolutionStage.ADULT]);
+      expect(events.filter(event => event.type === 'stageUp')).toEqual([
+        expect.objectContaining({ from: EvolutionStage.BABY, to: EvolutionStage.JUVENILE }),
+        expect.objectContaining({ from: EvolutionStage.JUVENILE, to: EvolutionStage.ADULT })
+      ]);
+    });
+
+    it('should not move back or log a stage-up when thresholds are raised', () => {
+      const pet = new Pet({ ...createInitialState(), evolutionStage: EvolutionStage.JUVENILE, totalLifetimeTokens: 15000000 }, {
+        config: mockConfig,
+        evolutionStages: resolveEvolutionStages({ [EvolutionStage.JUVENILE]: 20000000 })
+      });
+      const events: PetEvent[] = [];
+      pet.subscribeToEvents(event => events.push(event));
+
+      pet.feed(1000);
+
+      expect(pet.getState().evolutionStage).toBe(EvolutionStage.JUVENILE);
+      expect(pet.getState().stageHistory).toBeUndefined();
+      expect(events.filter(event => event.type === 'stageUp')).toEqual([]);
+    });
+
+    it('should not record history when the stage is unchanged', () => {
+      const pet = new Pet(createInitialState(), mockDependencies);
+
+      pet.feed(1000);
+      const state = pet.getState();
+
+      expect(state.evolutionStage).toBe(EvolutionStage.BABY);
+      expect(state.stageHistory).toBeUndefined();
+    });
+
+    it('should switch to the stage expression set after evolving', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 100, totalLifetimeTokens: 9999000 }, mockDependencies);
+
+      pet.feed(1000);
+
+      expect(pet.getState().expression).toBe('(^ω^)');
+      expect(pet.getAnimatedExpression(true, 1, false)).toBe('(^o^)');
+    });
+
+    it('should fall back to default frames for moods a stage does not define', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 0, totalLifetimeTokens: 60000000 }, mockDependencies);
+
+      expect(pet.getEvolutionStage().id).toBe(EvolutionStage.ADULT);
+      expect(pet.getAnimatedExpression(true, 1, false)).toBe(PET_CONFIG.ANIMATED_EXPRESSIONS.DEAD[1]);
+    });
+
+    it('should honour custom evolution thresholds', () => {
+      const pet = new Pet(createInitialState(), {
+        config: mockConfig,
+        evolutionStages: resolveEvolutionStages({ [EvolutionStage.JUVENILE]: 500 })
+      });
+
+      pet.feed(500);
+
+      expect(pet.getState().evolutionStage).toBe(EvolutionStage.JUVENILE);
+    });
+
+    it('should reset evolution progress on rebirth', () => {
+      const pet = new Pet({ ...createInitialState(), evolutionStage: EvolutionStage.ELDER, totalLifetimeTokens: 300000000 }, mockDependencies);
+
+      pet.resetToInitialState();
+      const state = pet.getState();
+
+      expect(state.evolutionStage).toBe(EvolutionStage.BABY);
+      expect(state.stageHistory).toEqual([]);
+    });
+  });
+
+  describe('Sleep Mode', () => {
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+
+    it('should freeze decay while asleep', () => {
+      const pet = new Pet({
+        ...createInitialState(),
+        energy: 50,
+        lastFeedTime: hoursAgo(48),
+        lastDecayTime: hoursAgo(48),
+        sleep: { since: hoursAgo(48) }
+      }, mockDependencies);
+
+      pet.applyTimeDecay();
+
+      expect(pet.isAsleep()).toBe(true);
+      expect(pet.getState().energy).toBe(50);
+    });
+
+    it('should only charge decay for the awake part of the interval', () => {
+      const pet = new Pet({
+        ...createInitialState(),
+        energy: 50,
+        lastFeedTime: hoursAgo(3),
+        lastDecayTime: hoursAgo(3),
+        sleepHistory: [{ start: hoursAgo(3), end: hoursAgo(1) }]
+      }, mockDependencies);
+
+      pet.applyTimeDecay();
+
+      // Only the last 60 minutes count: 60 * 0.0231
+      expect(pet.getState().energy).toBeCloseTo(50 - 60 * 0.0231, 1);
+    });
+
+    it('should wake up automatically once the wake time has passed', () => {
+      const until = hoursAgo(1);
+      const pet = new Pet({
+        ...createInitialState(),
+        energy: 50,
+        lastFeedTime: hoursAgo(3),
+        lastDecayTime: hoursAgo(3),
+        sleep: { since: hoursAgo(3), until }
+      }, mockDependencies);
+
+      expect(pet.isAsleep()).toBe(false);
+
+      pet.applyTimeDecay();
+      const state = pet.getState();
+
+      expect(state.sleep).toBeUndefined();
+      expect(state.sleepHistory).toHaveLength(1);
+      expect(state.sleepHistory![0].end).toBe(until);
+      expect(state.energy).toBeCloseTo(50 - 60 * 0.0231, 1);
+    });
+
+    it('should record the sleep interval when woken manually', () => {
+      const since = hoursAgo(5);
+      const pet = new Pet({ ...createInitialState(), sleep: { since } }, mockDependencies);
+
+      expect(pet.wake()).toBe(true);
+      const state = pet.getState();
+
+      expect(state.sleep).toBeUndefined();
+      expect(state.sleepHistory).toHaveLength(1);
+      expect(state.sleepHistory![0].start).toBe(since);
+      expect(pet.wake()).toBe(false);
+    });
+
+    it('should show the sleeping expression set', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 100, lastFeedTime: new Date() }, mockDependencies);
+
+      pet.sleep();
+
+      expect(pet.getState().expression).toBe(PET_CONFIG.SLEEP.EXPRESSIONS[0]);
+      expect(pet.getAnimatedExpression(true, 1, false)).toBe(PET_CONFIG.SLEEP.EXPRESSIONS[1]);
+
+      pet.wake();
+
+      expect(pet.getState().expression).toBe('(^_^)');
+    });
+
+    it('should store the requested wake time', () => {
+      const until = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+      const pet = new Pet({ ...createInitialState(), lastFeedTime: new Date() }, mockDependencies);
+
+      pet.sleep(until);
+
+      expect(pet.getState().sleep?.until).toBe(until);
+    });
+
+    it('should reject invalid sleep requests', () => {
+      const deadPet = new Pet({ ...createInitialState(), energy: 0 }, mockDependencies);
+      expect(() => deadPet.sleep()).toThrow('Cannot put a dead pet to sleep.');
+
+      const pet = new Pet({ ...createInitialState(), lastFeedTime: new Date() }, mockDependencies);
+      expect(() => pet.sleep(hoursAgo(1))).toThrow('Must be in the future');
+
+      pet.sleep();
+      expect(() => pet.sleep()).toThrow('Pet is already asleep.');
+    });
+
+    it('should cap the recorded sleep history', () => {
+      const sleepHistory = Array.from({ length: PET_CONFIG.SLEEP.MAX_HISTORY }, (_, i) => ({
+        start: hoursAgo(1000 - i * 2),
+        end: hoursAgo(999 - i * 2)
+      }));
+      const pet = new Pet({ ...createInitialState(), sleep: { since: hoursAgo(1) }, sleepHistory }, mockDependencies);
+
+      pet.wake();
+
+      expect(pet.getState().sleepHistory).toHaveLength(PET_CONFIG.SLEEP.MAX_HISTORY);
+      expect(pet.getState().sleepHistory![0]).toBe(sleepHistory[1]);
+    });
+  });
+
+  describe('Lifecycle Events', () => {
+    const collectEvents = (pet: Pet): PetEvent[] => {
+      const events: PetEvent[] = [];
+      pet.subscribeToEvents(event => events.push(event));
+      return events;
+    };
+
+    it('should emit fed and energyGained when feeding crosses an energy point', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 50, accumulatedTokens: 999000 }, mockDependencies);
+      const events = collectEvents(pet);
+
+      pet.feed(1000);
+
+      expect(events.map(event => event.type)).toEqual(['fed', 'energyGained']);
+      expect(events[0]).toMatchObject({ type: 'fed', tokens: 1000 });
+      expect(events[1]).toMatchObject({ type: 'energyGained', amount: 1, energy: 51 });
+    });
+
+    it('should report the actual energy gained when capped at 100', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 99.5 }, mockDependencies);
+      const events = collectEvents(pet);
+
+      pet.addEnergy(5);
+
+      expect(events[0]).toMatchObject({ type: 'energyGained', amount: 0.5, energy: 100 });
+    });
+
+    it('should emit moodChanged with the previous and new mood', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 81 }, mockDependencies);
+      const events = collectEvents(pet);
+
+      pet.decreaseEnergy(2);
+      pet.decreaseEnergy(1);
+
+      const moodEvents = events.filter(event => event.type === 'moodChanged');
+      expect(moodEvents).toHaveLength(1);
+      expect(moodEvents[0]).toMatchObject({ from: 'HAPPY', to: 'HUNGRY' });
+    });
+
+    it('should emit decayed and died when time decay starves the pet', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const pet = new Pet({ ...createInitialState(), energy: 1 }, { config: mockConfig, clock });
+      const events = collectEvents(pet);
+
+      clock.advance(2 * 60 * 60 * 1000);
+      pet.applyTimeDecay();
+
+      expect(events.map(event => event.type)).toEqual(['died', 'decayed']);
+      expect(events[0]).toMatchObject({ type: 'died', uuid: 'test-uuid-123', petName: 'TestPet' });
+      expect(events[1]).toMatchObject({ type: 'decayed', amount: 1, energy: 0, elapsedMinutes: 120 });
+    });
+
+    it('should emit died only once', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 5 }, mockDependencies);
+      const events = collectEvents(pet);
+
+      pet.decreaseEnergy(10);
+      pet.decreaseEnergy(10);
+
+      expect(events.filter(event => event.type === 'died')).toHaveLength(1);
+    });
+
+    it('should emit stageUp when evolving', () => {
+      const pet = new Pet({ ...createInitialState(), totalLifetimeTokens: 9999000 }, mockDependencies);
+      const events = collectEvents(pet);
+
+      pet.feed(1000);
+
+      expect(events).toContainEqual(expect.objectContaining({
+        type: 'stageUp',
+        from: EvolutionStage.BABY,
+        to: EvolutionStage.JUVENILE
+      }));
+    });
+
+    it('should emit reborn with the old and new identity', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 0 }, mockDependencies);
+      const events = collectEvents(pet);
+
+      pet.resetToInitialState();
+
+      const reborn = events.find(event => event.type === 'reborn');
+      expect(reborn).toMatchObject({
+        previousUuid: 'test-uuid-123',
+        uuid: pet.getState().uuid,
+        petName: pet.getState().petName,
+        animalType: pet.getState().animalType
+      });
+      expect(events).toContainEqual(expect.objectContaining({ type: 'moodChanged', from: 'DEAD', to: 'HAPPY' }));
+    });
+
+    it('should emit sleep transitions', () => {
+      const pet = new Pet({ ...createInitialState(), lastFeedTime: new Date() }, mockDependencies);
+      const events = collectEvents(pet);
+
+      pet.sleep();
+      pet.wake();
+
+      expect(events.map(event => event.type)).toEqual(['fellAsleep', 'wokeUp']);
+    });
+
+    it('should filter events by type with on()', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 50 }, mockDependencies);
+      const listener = vi.fn();
+      const unsubscribe = pet.on('energyGained', listener);
+
+      pet.decreaseEnergy(1);
+      pet.addEnergy(2);
+      unsubscribe();
+      pet.addEnergy(2);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].amount).toBe(2);
+    });
+
+    it('should keep emitting when a listener throws', () => {
+      const pet = new Pet(createInitialState(), mockDependencies);
+      const listener = vi.fn();
+      pet.subscribeToEvents(() => {
+        throw new Error('Listener error');
+      });
+      pet.subscribeToEvents(listener);
+
+      pet.feed(1000);
+
+      expect(listener).toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith('Event listener failed:', expect.any(Error));
+    });
+  });
+
+  describe('Weighted Feeding', () => {
+    const cacheHeavyUsage = {
+      'claude-sonnet-4': { inputTokens: 1000, outputTokens: 1000, cacheCreationTokens: 0, cacheReadTokens: 100000 }
+    };
+
+    it('should accumulate weighted tokens while keeping raw lifetime totals', () => {
+      const pet = new Pet(createInitialState(), mockDependencies);
+
+      pet.feed(102000, { usageByModel: cacheHeavyUsage });
+
+      const state = pet.getState();
+      expect(state.accumulatedTokens).toBe(12000);
+      expect(state.totalLifetimeWeightedTokens).toBe(12000);
+      expect(state.totalLifetimeTokens).toBe(102000);
+      expect(state.totalTokensConsumed).toBe(102000);
+    });
+
+    it('should apply injected model multipliers', () => {
+      const pet = new Pet(createInitialState(), {
+        config: mockConfig,
+        feedWeights: resolveFeedWeights({ cacheRead: 0 }, { 'claude-sonnet': 2 })
+      });
+
+      pet.feed(102000, { usageByModel: cacheHeavyUsage });
+
+      expect(pet.getState().accumulatedTokens).toBe(4000);
+    });
+
+    it('should feed raw tokens when no usage breakdown is given', () => {
+      const pet = new Pet(createInitialState(), mockDependencies);
+
+      pet.feed(5000);
+
+      expect(pet.getState().accumulatedTokens).toBe(5000);
+      expect(pet.getState().totalLifetimeWeightedTokens).toBe(5000);
+    });
+
+    it('should include the weighted amount in the fed event', () => {
+      const pet = new Pet(createInitialState(), mockDependencies);
+      const listener = vi.fn();
+      pet.on('fed', listener);
+
+      pet.feed(102000, { usageByModel: cacheHeavyUsage });
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ tokens: 102000, weightedTokens: 12000 }));
+    });
+  });
+
+  describe('Adoption and Renaming', () => {
+    it('should adopt with the chosen animal type and name', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 0 }, mockDependencies);
+
+      pet.resetToInitialState(undefined, { animalType: AnimalType.FOX, petName: '  Mochi ' });
+
+      expect(pet.getState().animalType).toBe(AnimalType.FOX);
+      expect(pet.getState().petName).toBe('Mochi');
+    });
+
+    it('should reject an invalid name before moving the old pet to the graveyard', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 0 }, mockDependencies);
+      const graveyardCallback = vi.fn();
+
+      expect(() => pet.resetToInitialState(graveyardCallback, { petName: '   ' })).toThrow('Pet name cannot be empty.');
+      expect(graveyardCallback).not.toHaveBeenCalled();
+      expect(pet.getState().petName).toBe('TestPet');
+    });
+
+    it('should keep previous names in nameHistory when renaming', () => {
+      const clock = new FixedClock(new Date('2024-03-01T10:00:00Z'));
+      const pet = new Pet(createInitialState(), { config: mockConfig, clock });
+      const listener = vi.fn();
+      pet.on('renamed', listener);
+
+      pet.rename('Mochi');
+      clock.advance(60 * 1000);
+      pet.rename('Bao');
+
+      expect(pet.getState().petName).toBe('Bao');
+      expect(pet.getState().nameHistory).toEqual([
+        { name: 'TestPet', changedAt: new Date('2024-03-01T10:00:00Z') },
+        { name: 'Mochi', changedAt: new Date('2024-03-01T10:01:00Z') }
+      ]);
+      expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ from: 'Mochi', to: 'Bao' }));
+    });
+
+    it('should ignore renaming to the current name', () => {
+      const pet = new Pet(createInitialState(), mockDependencies);
+
+      pet.rename(' TestPet ');
+
+      expect(pet.getState().nameHistory).toBeUndefined();
+    });
+
+    it('should cap the name history', () => {
+      const pet = new Pet(createInitialState(), mockDependencies);
+
+      for (let i = 0; i < PET_CONFIG.NAMING.MAX_NAME_HISTORY + 5; i++) {
+        pet.rename(`Pet ${i}`);
+      }
+
+      expect(pet.getState().nameHistory).toHaveLength(PET_CONFIG.NAMING.MAX_NAME_HISTORY);
+    });
+
+    it('should validate names', () => {
+      expect(normalizePetName('  小白 ')).toBe('小白');
+      expect(() => normalizePetName('x'.repeat(PET_CONFIG.NAMING.MAX_NAME_LENGTH + 1))).toThrow('Pet name is too long');
+    });
+  });
+
+  describe('Custom Species', () => {
+    const species = createSpeciesRegistry({
+      dragon: {
+        name: 'Dragon',
+        emoji: '🐉',
+        expressions: { HAPPY: ['(^w^)', '(^W^)'], HUNGRY: ['(>_>)'] }
+      }
+    });
+    const speciesDependencies = { config: mockConfig, species };
+
+    it('should use the species emoji and animation frames', () => {
+      const pet = new Pet({ ...createInitialState(), animalType: 'dragon', energy: 100 }, speciesDependencies);
+
+      expect(pet.getAnimalEmoji()).toBe('🐉');
+      expect(pet.getState().expression).toBe('(^w^)');
+      expect(pet.getAnimatedExpression(true, 1, true)).toBe('🐉(^W^)');
+    });
+
+    it('should fall back to the default frames for moods the species does not define', () => {
+      const pet = new Pet({ ...createInitialState(), animalType: 'dragon', energy: 20 }, speciesDependencies);
+
+      expect(pet.getAnimatedExpression(true, 1, false)).toBe(PET_CONFIG.ANIMATED_EXPRESSIONS.SICK[1]);
+    });
+
+    it('should prefer species frames over evolution stage frames', () => {
+      const pet = new Pet(
+        { ...createInitialState(), animalType: 'dragon', energy: 100, totalLifetimeTokens: 1e12 },
+        speciesDependencies
+      );
+
+      expect(pet.getAnimatedExpression(true, 0, false)).toBe('(^w^)');
+    });
+
+    it('should keep an unknown species and show the default emoji', () => {
+      const pet = new Pet({ ...createInitialState(), animalType: 'dragon' }, mockDependencies);
+
+      expect(pet.getCurrentAnimalType()).toBe('dragon');
+      expect(pet.getAnimalEmoji()).toBe('🐱');
+    });
+
+    it('should include custom species in the random roll', () => {
+      const rolled = new Set<string>();
+      const random = new SeededRandom(7);
+      for (let i = 0; i < 200; i++) {
+        rolled.add(Pet.getRandomAnimalType(random, species));
+      }
+
+      expect(rolled).toContain('dragon');
+      expect(rolled.size).toBe(6);
+    });
+
+    it('should adopt a custom species', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 0 }, speciesDependencies);
+
+      pet.resetToInitialState(undefined, { animalType: 'dragon' });
+
+      expect(pet.getState().animalType).toBe('dragon');
+      expect(pet.getAnimatedExpression(true, 0, true)).toBe('🐉(^w^)');
+    });
+  });
+
+  describe('Happiness and Health', () => {
+    const { STATS } = PET_CONFIG;
+
+    it('should default missing stats to full', () => {
+      const pet = new Pet(createInitialState(), mockDependencies);
+
+      expect(pet.getHappiness()).toBe(STATS.INITIAL_HAPPINESS);
+      expect(pet.getHealth()).toBe(STATS.INITIAL_HEALTH);
+    });
+
+    it('should raise happiness from output tokens and new lines of code', () => {
+      const pet = new Pet({ ...createInitialState(), happiness: 50 }, mockDependencies);
+
+      pet.recordActivity({ sessionId: 's1', outputTokens: 20000, linesAdded: 40 });
+      expect(pet.getHappiness()).toBe(50 + 2 + 2);
+
+      // total_lines_added is cumulative per session, only the increase counts
+      pet.recordActivity({ sessionId: 's1', linesAdded: 60 });
+      expect(pet.getHappiness()).toBe(55);
+
+      pet.recordActivity({ sessionId: 's2', linesAdded: 20 });
+      expect(pet.getHappiness()).toBe(56);
+      expect(pet.getState().linesAdded).toEqual({ sessionId: 's2', lines: 20 });
+    });
+
+    it('should cap happiness at 100', () => {
+      const pet = new Pet({ ...createInitialState(), happiness: 99 }, mockDependencies);
+
+      pet.recordActivity({ outputTokens: 1000000 });
+
+      expect(pet.getHappiness()).toBe(100);
+    });
+
+    it('should lose happiness over time and health while starving', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const pet = new Pet({ ...createInitialState(), energy: 15, happiness: 80, health: 90 }, { config: mockConfig, clock });
+
+      clock.advance(10 * 60 * 60 * 1000);
+      pet.applyTimeDecay();
+
+      expect(pet.getHappiness()).toBeCloseTo(80 - 10 * STATS.HAPPINESS_DECAY_PER_HOUR, 5);
+      expect(pet.getHealth()).toBeCloseTo(90 - 10 * STATS.STARVATION_HEALTH_LOSS_PER_HOUR, 5);
+    });
+
+    it('should recover health slowly while well fed', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const pet = new Pet({ ...createInitialState(), energy: 90, health: 50 }, { config: mockConfig, clock });
+
+      clock.advance(5 * 60 * 60 * 1000);
+      pet.applyTimeDecay();
+
+      expect(pet.getHealth()).toBeCloseTo(50 + 5 * STATS.HEALTH_RECOVERY_PER_HOUR, 5);
+    });
+
+    it('should lose health when feeding overflows a full energy bar', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 95, health: 80 }, mockDependencies);
+
+      pet.feed(15 * PET_CONFIG.FEEDING.TOKENS_PER_ENERGY);
+
+      expect(pet.getState().energy).toBe(100);
+      expect(pet.getHealth()).toBe(80 - 10 * STATS.OVERFEED_HEALTH_LOSS_PER_ENERGY);
+    });
+
+    it('should derive the mood from all stats', () => {
+      const healthy = new Pet({ ...createInitialState(), energy: 90 }, mockDependencies);
+      const bored = new Pet({ ...createInitialState(), energy: 90, happiness: STATS.SAD_HAPPINESS_THRESHOLD - 1 }, mockDependencies);
+      const ill = new Pet({ ...createInitialState(), energy: 90, health: STATS.SICK_HEALTH_THRESHOLD - 1 }, mockDependencies);
+      const starving = new Pet({ ...createInitialState(), energy: 5, health: 10 }, mockDependencies);
+
+      expect(healthy.getMood()).toBe('HAPPY');
+      expect(bored.getMood()).toBe('HUNGRY');
+      expect(ill.getMood()).toBe('SICK');
+      expect(ill.getState().expression).toBe(PET_CONFIG.STATE_EXPRESSIONS.SICK);
+      expect(starving.getMood()).toBe('DEAD');
+    });
+
+    it('should reset stats for a new pet', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 0, happiness: 10, health: 5 }, mockDependencies);
+
+      pet.resetToInitialState();
+
+      expect(pet.getState()).toMatchObject({ happiness: STATS.INITIAL_HAPPINESS, health: STATS.INITIAL_HEALTH });
+    });
+  });
+
+  describe('Overfed and Exhausted', () => {
+    const { CONDITIONS } = PET_CONFIG;
+    const settings = {
+      overfedTokensPerMinute: 1000,
+      overfedWindowMinutes: 10,
+      overfedRecoveryMinutes: 30,
+      exhaustedSessionMinutes: 120,
+      exhaustedRecoveryMinutes: 60
+    };
+
+    it('should become overfed when feeding faster than the configured rate', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const pet = new Pet(createInitialState(), { config: mockConfig, clock, conditions: settings });
+      const events: PetEvent[] = [];
+      pet.subscribeToEvents(event => events.push(event));
+
+      pet.feed(6000);
+      clock.advance(5 * 60 * 1000);
+      pet.feed(6000);
+
+      expect(pet.getActiveConditions()).toEqual(['overfed']);
+      expect(pet.getState().conditions?.overfed).toEqual(new Date('2024-01-01T00:35:00Z'));
+      expect(pet.getState().expression).toBe(CONDITIONS.EXPRESSIONS.overfed[0]);
+      expect(events).toContainEqual({
+        type: 'conditionStarted',
+        condition: 'overfed',
+        until: new Date('2024-01-01T00:35:00Z'),
+        timestamp: clock.now()
+      });
+    });
+
+    it('should start a new feeding window once the previous one has passed', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const pet = new Pet(createInitialState(), { config: mockConfig, clock, conditions: settings });
+
+      pet.feed(6000);
+      clock.advance(11 * 60 * 1000);
+      pet.feed(6000);
+
+      expect(pet.hasCondition('overfed')).toBe(false);
+      expect(pet.getState().feedingWindow).toEqual({ since: clock.now(), tokens: 6000 });
+    });
+
+    it('should turn only part of the food into energy while overfed', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const pet = new Pet({
+        ...createInitialState(),
+        energy: 10,
+        conditions: { overfed: new Date('2024-01-01T00:30:00Z') }
+      }, { config: mockConfig, clock, conditions: settings });
+
+      pet.feed(10 * PET_CONFIG.FEEDING.TOKENS_PER_ENERGY);
+
+      expect(pet.getState().energy).toBe(10 + 10 * CONDITIONS.OVERFED_ENERGY_MULTIPLIER);
+    });
+
+    it('should become exhausted after a long session and gain less happiness', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const pet = new Pet({ ...createInitialState(), happiness: 50 }, { config: mockConfig, clock, conditions: settings });
+
+      pet.recordActivity({ sessionId: 's1', outputTokens: 20000, sessionDurationMs: 119 * 60 * 1000 });
+      expect(pet.hasCondition('exhausted')).toBe(false);
+      expect(pet.getHappiness()).toBe(52);
+
+      pet.recordActivity({ sessionId: 's1', outputTokens: 20000, sessionDurationMs: 120 * 60 * 1000 });
+      expect(pet.getActiveConditions()).toEqual(['exhausted']);
+      expect(pet.getHappiness()).toBe(52 + 2 * CONDITIONS.EXHAUSTED_HAPPINESS_MULTIPLIER);
+      expect(pet.getState().expression).toBe(CONDITIONS.EXPRESSIONS.exhausted[0]);
+    });
+
+    it('should show exhaustion before being overfed', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const until = new Date('2024-01-01T01:00:00Z');
+      const pet = new Pet({
+        ...createInitialState(),
+        energy: 80,
+        conditions: { overfed: until, exhausted: until }
+      }, { config: mockConfig, clock });
+
+      expect(pet.getActiveConditions()).toEqual(['exhausted', 'overfed']);
+      expect(pet.getState().expression).toBe(CONDITIONS.EXPRESSIONS.exhausted[0]);
+      expect(CONDITIONS.EXPRESSIONS.exhausted.some(frame => pet.getAnimatedExpression().endsWith(frame))).toBe(true);
+    });
+
+    it('should recover once the recovery time has passed', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const pet = new Pet({
+        ...createInitialState(),
+        energy: 95,
+        conditions: { overfed: new Date('2024-01-01T00:30:00Z') }
+      }, { config: mockConfig, clock });
+      const events: PetEvent[] = [];
+      pet.subscribeToEvents(event => events.push(event));
+
+      clock.advance(31 * 60 * 1000);
+      pet.applyTimeDecay();
+
+      expect(pet.getActiveConditions()).toEqual([]);
+      expect(pet.getState().conditions).toBeUndefined();
+      expect(pet.getState().expression).toBe(PET_CONFIG.STATE_EXPRESSIONS.HAPPY);
+      expect(events).toContainEqual({ type: 'conditionEnded', condition: 'overfed', timestamp: new Date('2024-01-01T00:30:00Z') });
+    });
+  });
+
+  describe('Feeding Streaks', () => {
+    it('should track weighted feeding per day in the configured time zone', () => {
+      const clock = new FixedClock(new Date('2024-01-01T15:00:00Z'));
+      const streaks = resolveStreakSettings({ minDailyTokens: 1000, dailyGoal: 2000, timeZone: 'Asia/Shanghai' });
+      const pet = new Pet(createInitialState(), { config: mockConfig, clock, streaks });
+
+      pet.feed(1500);
+      // 2024-01-02 01:00 in Shanghai, a new day has started
+      clock.advance(2 * 60 * 60 * 1000);
+      pet.feed(1000);
+
+      expect(pet.getState().streak).toEqual({
+        day: '2024-01-02',
+        dayTokens: 1000,
+        current: 2,
+        longest: 2,
+        lastQualifiedDay: '2024-01-02'
+      });
+      expect(pet.getStreakStatus()).toEqual({ current: 2, longest: 2, todayTokens: 1000, dailyGoal: 2000, goalProgress: 0.5 });
+    });
+
+    it('should report a broken streak while keeping the longest one', () => {
+      const clock = new FixedClock(new Date('2024-01-05T12:00:00Z'));
+      const streak = { day: '2024-01-02', dayTokens: 5000, current: 3, longest: 6, lastQualifiedDay: '2024-01-02' };
+      const pet = new Pet({ ...createInitialState(), streak }, { config: mockConfig, clock, streaks: resolveStreakSettings({ timeZone: 'UTC' }) });
+
+      expect(pet.getStreakStatus()).toMatchObject({ current: 0, longest: 6, todayTokens: 0 });
+    });
+  });
+
+  describe('Achievements', () => {
+    const sources = { countRaisedPets: () => 1 };
+
+    it('should record unlock times once and announce new achievements', () => {
+      const clock = new FixedClock(new Date('2024-03-01T00:00:00Z'));
+      const pet = new Pet({ ...createInitialState(), totalLifetimeTokens: 1500000 }, { config: mockConfig, clock });
+      const events: PetEvent[] = [];
+      pet.subscribeToEvents(event => events.push(event));
+
+      const unlocked = pet.unlockAchievements(sources);
+
+      expect(unlocked.map(rule => rule.id)).toEqual(['first-million', 'survivor-30']);
+      expect(pet.getState().achievements).toEqual({ 'first-million': clock.now(), 'survivor-30': clock.now() });
+      expect(events).toContainEqual({ type: 'achievementUnlocked', achievementId: 'first-million', timestamp: clock.now() });
+
+      clock.advance(60 * 1000);
+      expect(pet.unlockAchievements(sources)).toEqual([]);
+      expect(pet.getState().achievements?.['first-million']).toEqual(new Date('2024-03-01T00:00:00Z'));
+    });
+
+    it('should unlock the comeback once a nearly starved pet is fed back to health', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 10 }, mockDependencies);
+
+      pet.decreaseEnergy(9.5);
+      pet.addEnergy(30);
+      expect(pet.getState().lowestEnergy).toBe(0.5);
+      expect(pet.unlockAchievements(sources).map(rule => rule.id)).not.toContain('comeback');
+
+      pet.addEnergy(30);
+      expect(pet.unlockAchievements(sources).map(rule => rule.id)).toContain('comeback');
+    });
+
+    it('should list locked achievements with their progress', () => {
+      const clock = new FixedClock(new Date('2024-01-11T00:00:00Z'));
+      const pet = new Pet(createInitialState(), { config: mockConfig, clock });
+
+      const survivor = pet.getAchievementProgress(sources).find(item => item.rule.id === 'survivor-30');
+
+      expect(survivor).toMatchObject({ current: 10 });
+      expect(survivor?.unlockedAt).toBeUndefined();
+    });
+  });
+
+  describe('Accessories', () => {
+    it('should add newly unlocked accessories to the inventory once', () => {
+      const clock = new FixedClock(new Date('2024-03-10T12:00:00Z'));
+      const pet = new Pet({ ...createInitialState(), totalLifetimeTokens: 150000 }, { config: mockConfig, clock });
+      const events: PetEvent[] = [];
+      pet.subscribeToEvents(event => events.push(event));
+
+      expect(pet.unlockAccessories().map(accessory => accessory.id)).toEqual(['bow', 'scarf']);
+      expect(pet.unlockAccessories()).toEqual([]);
+      expect(pet.getInventory()).toEqual(['bow', 'scarf']);
+      expect(events).toContainEqual({ type: 'accessoryUnlocked', accessoryId: 'bow', timestamp: clock.now() });
+    });
+
+    it('should compose the species emoji, accessory and frame', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 90, inventory: ['top-hat', 'scarf'] }, mockDependencies);
+
+      pet.equipAccessory('top-hat');
+      expect(pet.getAnimatedExpression(false, 0, true)).toBe('🐱🎩(^_^)');
+
+      pet.equipAccessory('scarf');
+      expect(pet.getAnimatedExpression(false, 0, false)).toBe('(^_^)🧣');
+
+      expect(pet.unequipAccessory()).toBe(true);
+      expect(pet.getAnimatedExpression(false, 0, true)).toBe('🐱(^_^)');
+      expect(pet.unequipAccessory()).toBe(false);
+    });
+
+    it('should refuse unknown and locked accessories', () => {
+      const pet = new Pet({ ...createInitialState(), inventory: ['bow'] }, mockDependencies);
+
+      expect(() => pet.equipAccessory('monocle')).toThrow('Unknown accessory: monocle');
+      expect(() => pet.equipAccessory('crown')).toThrow('Crown is still locked.');
+      expect(pet.getState().equippedAccessory).toBeUndefined();
+    });
+
+    it('should leave the inventory with the old pet when a new one is adopted', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 0, inventory: ['bow'], equippedAccessory: 'bow' }, mockDependencies);
+      const graveyardStates: IPetState[] = [];
+
+      pet.resetToInitialState(state => graveyardStates.push(state));
+
+      expect(graveyardStates[0]).toMatchObject({ inventory: ['bow'], equippedAccessory: 'bow' });
+      expect(pet.getInventory()).toEqual([]);
+      expect(pet.getEquippedAccessory()).toBeUndefined();
+    });
+  });
+
+  describe('Revival', () => {
+    const settings = { windowHours: 24, quotaTokens: 1000, penaltyMaxEnergy: 60, penaltyHours: 72 };
+    const createDyingPet = (clock: FixedClock) => new Pet(
+      { ...createInitialState(), energy: 1, lastFeedTime: clock.now(), lastDecayTime: clock.now() },
+      { config: mockConfig, clock, revival: settings }
+    );
+
+    it('should open a critical window when the pet dies', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const pet = createDyingPet(clock);
+
+      pet.decreaseEnergy(1);
+
+      expect(pet.getState().critical).toEqual({ since: clock.now(), tokens: 0 });
+      expect(pet.isInCriticalWindow()).toBe(true);
+      expect(pet.getRevivalStatus()).toEqual({ tokens: 0, quotaTokens: 1000, deadline: new Date('2024-01-02T00:00:00Z') });
+    });
+
+    it('should date the critical window from when energy ran out rather than when decay is computed', () => {
+      const start = new Date('2024-01-01T00:00:00Z');
+      const clock = new FixedClock(start);
+      const pet = createDyingPet(clock);
+
+      clock.advance(10 * 60 * 60 * 1000);
+      pet.applyTimeDecay();
+
+      // 1点能量按每分钟0.0231衰减，约43.3分钟后耗尽
+      const diedAt = start.getTime() + (1 / 0.0231) * 60 * 1000;
+      expect(pet.isDead()).toBe(true);
+      expect(Math.abs(pet.getState().critical!.since.getTime() - diedAt)).toBeLessThan(2000);
+    });
+
+    it('should count feeding toward the quota without restoring energy', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const pet = createDyingPet(clock);
+      pet.decreaseEnergy(1);
+
+      pet.feed(600);
+
+      expect(pet.isDead()).toBe(true);
+      expect(pet.getState().critical?.tokens).toBe(600);
+    });
+
+    it('should not grow lifetime tokens or evolve while dead', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const pet = new Pet(
+        { ...createInitialState(), energy: 1, totalLifetimeTokens: 9999000, lastFeedTime: clock.now(), lastDecayTime: clock.now() },
+        { config: mockConfig, clock, revival: settings }
+      );
+      pet.decreaseEnergy(1);
+      const before = pet.getState();
+
+      pet.feed(1000);
+
+      expect(pet.getState().totalLifetimeTokens).toBe(before.totalLifetimeTokens);
+      expect(pet.getState().evolutionStage).toBe(before.evolutionStage);
+      expect(pet.getState().evolutionHistory).toEqual(before.evolutionHistory);
+    });
+
+    it('should revive with a lower max energy once the quota is fed', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const pet = createDyingPet(clock);
+      pet.decreaseEnergy(1);
+      const events: PetEvent[] = [];
+      pet.subscribeToEvents(event => events.push(event));
+
+      clock.advance(60 * 60 * 1000);
+      pet.feed(600);
+      pet.feed(600);
+
+      const state = pet.getState();
+      expect(pet.isDead()).toBe(false);
+      expect(state.energy).toBe(PET_CONFIG.REVIVAL.REVIVED_ENERGY);
+      expect(state.revivalCount).toBe(1);
+      expect(state.critical).toBeUndefined();
+      expect(state.energyCap).toEqual({ maxEnergy: 60, until: new Date('2024-01-04T01:00:00Z') });
+      expect(events).toContainEqual(expect.objectContaining({ type: 'revived', revivalCount: 1, maxEnergy: 60 }));
+
+      pet.addEnergy(100);
+      expect(pet.getCurrentEnergy()).toBe(60);
+    });
+
+    it('should lift the energy cap when the penalty expires', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const pet = new Pet(
+        { ...createInitialState(), energy: 50, energyCap: { maxEnergy: 60, until: new Date('2024-01-01T01:00:00Z') } },
+        { config: mockConfig, clock, revival: settings }
+      );
+
+      expect(pet.getMaxEnergy()).toBe(60);
+      clock.advance(2 * 60 * 60 * 1000);
+      pet.applyTimeDecay();
+
+      expect(pet.getMaxEnergy()).toBe(100);
+      expect(pet.getState().energyCap).toBeUndefined();
+    });
+
+    it('should stop accepting the quota once the window expires', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const pet = createDyingPet(clock);
+      pet.decreaseEnergy(1);
+
+      clock.advance(25 * 60 * 60 * 1000);
+      pet.feed(5000);
+
+      expect(pet.isDead()).toBe(true);
+      expect(pet.isRevivalWindowExpired()).toBe(true);
+      expect(pet.getRevivalStatus()).toBeUndefined();
+    });
+
+    it('should start the window for dead pets saved before revival existed', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const pet = new Pet({ ...createInitialState(), energy: 0 }, { config: mockConfig, clock, revival: settings });
+
+      pet.applyTimeDecay();
+
+      expect(pet.getState().critical?.since).toEqual(clock.now());
+      expect(pet.isRevivalWindowExpired()).toBe(false);
+    });
+  });
+
+  describe('Difficulty', () => {
+    it('should convert tokens to energy at the difficulty rate', () => {
+      const pet = new Pet(createInitialState(), { config: mockConfig, difficulty: resolveDifficultySettings('casual') });
+
+      pet.feed(1000000);
+
+      expect(pet.getCurrentEnergy()).toBe(52);
+    });
+
+    it('should use the difficulty mood thresholds', () => {
+      const pet = new Pet({ ...createInitialState(), energy: 82 }, { config: mockConfig, difficulty: resolveDifficultySettings('hardcore') });
+
+      expect(pet.getMood()).toBe('HUNGRY');
+    });
+
+    it('should cap sleep at the difficulty allowance', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const pet = new Pet(
+        { ...createInitialState(), lastFeedTime: clock.now() },
+        { config: mockConfig, clock, difficulty: resolveDifficultySettings('hardcore') }
+      );
+
+      expect(() => pet.sleep(new Date('2024-01-02T00:00:00Z'))).toThrow('Sleep is limited to 8 hours on hardcore difficulty.');
+      pet.sleep();
+
+      expect(pet.getState().sleep).toEqual({ since: clock.now(), until: new Date('2024-01-01T08:00:00Z') });
+    });
+  });
+
+  describe('Injected Clock and Random', () => {
+    it('should decay using the injected clock', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const pet = new Pet({ ...createInitialState(), energy: 50 }, { config: mockConfig, clock });
+
+      clock.advance(100 * 60 * 1000);
+      pet.applyTimeDecay();
+
+      expect(pet.getState().energy).toBeCloseTo(50 - 100 * 0.0231, 5);
+      expect(pet.getState().lastDecayTime).toEqual(clock.now());
+    });
+
+    it('should timestamp feeding with the injected clock', () => {
+      const clock = new FixedClock(new Date('2024-06-01T08:00:00Z'));
+      const pet = new Pet(createInitialState(), { config: mockConfig, clock });
+
+      pet.feed(1000);
+
+      expect(pet.getState().lastFeedTime).toEqual(clock.now());
+    });
+
+    it('should reproduce the same rebirth for the same seed', () => {
+      const clock = new FixedClock(new Date('2024-01-01T00:00:00Z'));
+      const reborn = () => {
+        const pet = new Pet({ ...createInitialState(), energy: 0 }, {
+          config: mockConfig,
+          clock,
+          random: new SeededRandom('seed')
+        });
+        pet.resetToInitialState();
+        return pet.getState();
+      };
+
+      const first = reborn();
+      const second = reborn();
+
+      expect(second.uuid).toBe(first.uuid);
+      expect(second.petName).toBe(first.petName);
+      expect(second.animalType).toBe(first.animalType);
+      expect(second.birthTime).toEqual(new Date('2024-01-01T00:00:00Z'));
+    });
+
+    it('should pick random names and animal types from the given source', () => {
+      const random = { next: () => 0, uuid: () => 'fixed-uuid' };
+
+      expect(generateRandomPetName(random)).toBe(PET_NAMES[0]);
+      expect(Pet.getRandomAnimalType(random)).toBe(Object.values(AnimalType)[0]);
+      expect(new Pet({ ...createInitialState(), uuid: '' }, { config: mockConfig, random }).getState().uuid).toBe('fixed-uuid');
+    });
+  });
+
+  describe('Decay Schedule', () => {
+    const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000);
+
+    it('should only decay for scheduled minutes', () => {
+      const schedule = { getScheduledMinutes: vi.fn().mockReturnValue(0) };
+      const pet = new Pet({
+        ...createInitialState(),
+        energy: 50,
+        lastFeedTime: hoursAgo(60),
+        lastDecayTime: hoursAgo(60)
+      }, { config: mockConfig, schedule });
+
+      pet.applyTimeDecay();
+
+      expect(schedule.getScheduledMinutes).toHaveBeenCalled();
+      expect(pet.getState().energy).toBe(50);
+    });
+
+    it('should not ask the schedule about time spent asleep', () => {
+      const schedule = { getScheduledMinutes: vi.fn((from: Date, to: Date) => (to.getTime() - from.getTime()) / 60000) };
+      const sleepStart = hoursAgo(3);
+      const sleepEnd = hoursAgo(1);
+      const pet = new Pet({
+        ...createInitialState(),
+        energy: 50,
+        lastFeedTime: hoursAgo(4),
+        lastDecayTime: hoursAgo(4),
+        sleepHistory: [{ start: sleepStart, end: sleepEnd }]
+      }, { config: mockConfig, schedule });
+
+      pet.applyTimeDecay();
+
+      const calls = schedule.getScheduledMinutes.mock.calls;
+      expect(calls[0][1].getTime()).toBe(sleepStart.getTime());
+      expect(calls[1][0].getTime()).toBe(sleepEnd.getTime());
+      // One hour before sleeping plus one hour after waking
+      expect(pet.getState().energy).toBeCloseTo(50 - 120 * 0.0231, 1);
+    });
+  });
+
   describe('Session Metrics Updates', () => {
     describe('updateSessionMetrics', () => {
       it('should update session metrics correctly', () => {
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { SeededRandom, SystemRandom, createRandomFromEnv, pickRandom, systemRandom } from '../Random';
+
+describe('Random', () => {
+  it('should produce numbers in [0, 1)', () => {
+    const random = new SeededRandom(42);
+
+    for (let i = 0; i < 100; i++) {
+      const value = random.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('should repeat the same sequence for the same seed', () => {
+    const first = new SeededRandom('bug-report-123');
+    const second = new SeededRandom('bug-report-123');
+
+    expect([first.next(), first.next(), first.uuid()]).toEqual([second.next(), second.next(), second.uuid()]);
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    expect(new SeededRandom(1).next()).not.toBe(new SeededRandom(2).next());
+  });
+
+  it('should generate valid v4 uuids', () => {
+    const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+    expect(new SeededRandom(7).uuid()).toMatch(uuidPattern);
+    expect(new SystemRandom().uuid()).toMatch(uuidPattern);
+  });
+
+  it('should pick items using the given random source', () => {
+    const items = ['a', 'b', 'c', 'd'];
+
+    expect(pickRandom(items, { next: () => 0, uuid: () => '' })).toBe('a');
+    expect(pickRandom(items, { next: () => 0.99, uuid: () => '' })).toBe('d');
+  });
+
+  describe('createRandomFromEnv', () => {
+    it('should use the system random source by default', () => {
+      expect(createRandomFromEnv({})).toBe(systemRandom);
+    });
+
+    it('should seed from CCPET_SEED', () => {
+      const random = createRandomFromEnv({ CCPET_SEED: 'abc' });
+
+      expect(random).toBeInstanceOf(SeededRandom);
+      expect(random.next()).toBe(new SeededRandom('abc').next());
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { ACCESSORIES, findAccessory, isAccessoryUnlocked, describeUnlock, wearAccessory } from '../accessories';
+import { IPetState } from '../Pet';
+import { AnimalType } from '../config';
+
+describe('Accessories', () => {
+  const createState = (overrides: Partial<IPetState> = {}): IPetState => ({
+    uuid: 'pet-1',
+    energy: 80,
+    expression: '(^_^)',
+    animalType: AnimalType.CAT,
+    birthTime: new Date('2024-03-01T00:00:00Z'),
+    lastFeedTime: new Date('2024-03-01T00:00:00Z'),
+    totalTokensConsumed: 0,
+    accumulatedTokens: 0,
+    totalLifetimeTokens: 0,
+    petName: 'Luna',
+    ...overrides
+  });
+
+  const accessory = (id: string) => findAccessory(id)!;
+
+  it('should find accessories case-insensitively', () => {
+    expect(findAccessory(' Top-Hat ')?.emoji).toBe('🎩');
+    expect(findAccessory('monocle')).toBeUndefined();
+  });
+
+  it('should unlock token milestones and age requirements', () => {
+    const now = new Date('2024-03-05T00:00:00Z');
+
+    expect(isAccessoryUnlocked(accessory('bow'), createState({ totalLifetimeTokens: 99999 }), now)).toBe(false);
+    expect(isAccessoryUnlocked(accessory('bow'), createState({ totalLifetimeTokens: 100000 }), now)).toBe(true);
+    expect(isAccessoryUnlocked(accessory('scarf'), createState(), now)).toBe(false);
+    expect(isAccessoryUnlocked(accessory('scarf'), createState(), new Date('2024-03-08T00:00:00Z'))).toBe(true);
+  });
+
+  it('should require every condition of combined unlocks', () => {
+    const rich = createState({ totalLifetimeTokens: 200000000 });
+
+    expect(isAccessoryUnlocked(accessory('crown'), rich, new Date('2024-03-10T00:00:00Z'))).toBe(false);
+    expect(isAccessoryUnlocked(accessory('crown'), rich, new Date('2024-04-10T00:00:00Z'))).toBe(true);
+  });
+
+  it('should unlock seasonal accessories only during their months', () => {
+    expect(isAccessoryUnlocked(accessory('pumpkin'), createState(), new Date(2024, 9, 15))).toBe(true);
+    expect(isAccessoryUnlocked(accessory('pumpkin'), createState(), new Date(2024, 10, 15))).toBe(false);
+  });
+
+  it('should describe how to unlock an accessory', () => {
+    expect(describeUnlock(accessory('crown').unlock)).toBe(`${(100000000).toLocaleString()} lifetime tokens, 30 days old`);
+    expect(describeUnlock(accessory('santa-hat').unlock)).toBe('play in Dec');
+  });
+
+  it('should wear accessories on the configured side of the expression', () => {
+    expect(wearAccessory('(^_^)', accessory('top-hat'))).toBe('🎩(^_^)');
+    expect(wearAccessory('(^_^)', accessory('scarf'))).toBe('(^_^)🧣');
+    expect(wearAccessory('(^_^)')).toBe('(^_^)');
+  });
+
+  it('should keep accessory ids unique', () => {
+    expect(new Set(ACCESSORIES.map(item => item.id)).size).toBe(ACCESSORIES.length);
+  });
+});
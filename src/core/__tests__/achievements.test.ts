@@ -0,0 +1,77 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ACHIEVEMENTS, IAchievementContext, findNewAchievements, getAchievementProgress } from '../achievements';
+import { IPetState } from '../Pet';
+import { AnimalType } from '../config';
+
+describe('Achievements', () => {
+  const now = new Date('2024-02-15T12:00:00Z');
+
+  const createState = (overrides: Partial<IPetState> = {}): IPetState => ({
+    uuid: 'pet-1',
+    energy: 80,
+    expression: '(^_^)',
+    animalType: AnimalType.CAT,
+    birthTime: new Date('2024-02-01T12:00:00Z'),
+    lastFeedTime: now,
+    totalTokensConsumed: 0,
+    accumulatedTokens: 0,
+    totalLifetimeTokens: 250000,
+    petName: 'Luna',
+    ...overrides
+  });
+
+  const createContext = (overrides: Partial<IAchievementContext> = {}): IAchievementContext => ({
+    state: createState(),
+    now,
+    countRaisedPets: vi.fn(() => 1),
+    ...overrides
+  });
+
+  const ids = (rules: Array<{ id: string }>) => rules.map(rule => rule.id);
+
+  it('should report progress toward every achievement', () => {
+    const progress = getAchievementProgress(createContext({
+      state: createState({ streak: { day: '2024-02-15', dayTokens: 0, current: 2, longest: 4 } }),
+      countRaisedPets: () => 3
+    }));
+
+    expect(progress.map(item => [item.rule.id, item.current])).toEqual([
+      ['first-million', 250000],
+      ['survivor-30', 14],
+      ['streak-7', 4],
+      ['comeback', 0],
+      ['five-pets', 3]
+    ]);
+  });
+
+  it('should unlock achievements once their target is reached', () => {
+    const context = createContext({
+      state: createState({
+        totalLifetimeTokens: 1200000,
+        birthTime: new Date('2024-01-01T00:00:00Z'),
+        streak: { day: '2024-02-15', dayTokens: 0, current: 7, longest: 7 }
+      }),
+      countRaisedPets: () => 5
+    });
+
+    expect(ids(findNewAchievements(context))).toEqual(['first-million', 'survivor-30', 'streak-7', 'five-pets']);
+  });
+
+  it('should skip achievements that are already unlocked and keep their unlock time', () => {
+    const unlockedAt = new Date('2024-02-10T00:00:00Z');
+    const context = createContext({ state: createState({ totalLifetimeTokens: 2000000 }) });
+
+    expect(findNewAchievements(context, { 'first-million': unlockedAt })).toEqual([]);
+    expect(getAchievementProgress(context, { 'first-million': unlockedAt })[0]).toMatchObject({ current: 1000000, unlockedAt });
+  });
+
+  it('should detect a comeback once energy has recovered after nearly running out', () => {
+    expect(ids(findNewAchievements(createContext({ state: createState({ energy: 40, lowestEnergy: 0.8 }) })))).not.toContain('comeback');
+    expect(ids(findNewAchievements(createContext({ state: createState({ energy: 55, lowestEnergy: 2 }) })))).not.toContain('comeback');
+    expect(ids(findNewAchievements(createContext({ state: createState({ energy: 55, lowestEnergy: 0.8 }) })))).toContain('comeback');
+  });
+
+  it('should keep rule ids unique so unlock times do not collide', () => {
+    expect(new Set(ids([...ACHIEVEMENTS])).size).toBe(ACHIEVEMENTS.length);
+  });
+});
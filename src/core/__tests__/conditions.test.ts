@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { resolveConditionSettings, isConditionSettingKey } from '../conditions';
+import { PET_CONFIG } from '../config';
+
+describe('Pet Conditions', () => {
+  describe('resolveConditionSettings', () => {
+    it('should use the configured defaults when nothing is set', () => {
+      expect(resolveConditionSettings()).toEqual({
+        overfedTokensPerMinute: PET_CONFIG.CONDITIONS.OVERFED_TOKENS_PER_MINUTE,
+        overfedWindowMinutes: PET_CONFIG.CONDITIONS.OVERFED_WINDOW_MINUTES,
+        overfedRecoveryMinutes: PET_CONFIG.CONDITIONS.OVERFED_RECOVERY_MINUTES,
+        exhaustedSessionMinutes: PET_CONFIG.CONDITIONS.EXHAUSTED_SESSION_MINUTES,
+        exhaustedRecoveryMinutes: PET_CONFIG.CONDITIONS.EXHAUSTED_RECOVERY_MINUTES
+      });
+    });
+
+    it('should override individual settings', () => {
+      const settings = resolveConditionSettings({ exhaustedSessionMinutes: 240 });
+
+      expect(settings.exhaustedSessionMinutes).toBe(240);
+      expect(settings.overfedRecoveryMinutes).toBe(PET_CONFIG.CONDITIONS.OVERFED_RECOVERY_MINUTES);
+    });
+
+    it('should ignore invalid values', () => {
+      const settings = resolveConditionSettings({ overfedWindowMinutes: 0, overfedRecoveryMinutes: NaN, exhaustedRecoveryMinutes: -5 });
+
+      expect(settings.overfedWindowMinutes).toBe(PET_CONFIG.CONDITIONS.OVERFED_WINDOW_MINUTES);
+      expect(settings.overfedRecoveryMinutes).toBe(PET_CONFIG.CONDITIONS.OVERFED_RECOVERY_MINUTES);
+      expect(settings.exhaustedRecoveryMinutes).toBe(PET_CONFIG.CONDITIONS.EXHAUSTED_RECOVERY_MINUTES);
+    });
+  });
+
+  it('should recognise setting keys', () => {
+    expect(isConditionSettingKey('overfedTokensPerMinute')).toBe(true);
+    expect(isConditionSettingKey('hungryMinutes')).toBe(false);
+  });
+});
@@ -37,6 +37,12 @@ describe('Line1 Configuration', () => {
       expect(result).toEqual(allSupportedItems);
     });
 
+    it('should accept evolution stage items', () => {
+      const result = validateLine1Items(['stage', 'stage-progress']);
+      
+      expect(result).toEqual(['stage', 'stage-progress']);
+    });
+
     it('should include pet-name for future story support', () => {
       const itemsWithPetName = ['expression', 'pet-name'];
       const result = validateLine1Items(itemsWithPetName);
@@ -53,7 +59,13 @@ describe('Line1 Configuration', () => {
         'energy-value',
         'accumulated-tokens',
         'lifetime-tokens',
-        'pet-name'
+        'pet-name',
+        'stage',
+        'stage-progress',
+        'happiness',
+        'health',
+        'streak',
+        'daily-goal'
       ];
       
       expect(LINE1_SUPPORTED_ITEMS).toEqual(expectedItems);
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createDecayPolicy,
+  isDecayPolicyType,
+  LinearDecayPolicy,
+  ExponentialDecayPolicy,
+  SteppedDecayPolicy,
+  GracePeriodDecayPolicy,
+  ScaledDecayPolicy
+} from '../decay';
+import { PET_CONFIG } from '../config';
+
+describe('Decay Policies', () => {
+  describe('LinearDecayPolicy', () => {
+    it('should decay at a fixed rate per minute', () => {
+      const policy = new LinearDecayPolicy(0.5);
+
+      expect(policy.calculateDecay({ elapsedMinutes: 10, minutesSinceFeed: 10, currentEnergy: 80 })).toBe(5);
+    });
+
+    it('should never return negative decay', () => {
+      const policy = new LinearDecayPolicy(0.5);
+
+      expect(policy.calculateDecay({ elapsedMinutes: -10, minutesSinceFeed: 0, currentEnergy: 80 })).toBe(0);
+    });
+  });
+
+  describe('ExponentialDecayPolicy', () => {
+    it('should halve energy after one half-life', () => {
+      const policy = new ExponentialDecayPolicy(60);
+
+      expect(policy.calculateDecay({ elapsedMinutes: 60, minutesSinceFeed: 60, currentEnergy: 80 })).toBeCloseTo(40);
+    });
+
+    it('should compose across consecutive intervals', () => {
+      const policy = new ExponentialDecayPolicy(60);
+      const firstDecay = policy.calculateDecay({ elapsedMinutes: 30, minutesSinceFeed: 30, currentEnergy: 80 });
+      const secondDecay = policy.calculateDecay({ elapsedMinutes: 30, minutesSinceFeed: 60, currentEnergy: 80 - firstDecay });
+
+      expect(80 - firstDecay - secondDecay).toBeCloseTo(40);
+    });
+
+    it('should drop energy to zero once below the floor', () => {
+      const policy = new ExponentialDecayPolicy(60);
+      const energy = PET_CONFIG.DECAY_POLICY.EXPONENTIAL_ENERGY_FLOOR;
+
+      expect(policy.calculateDecay({ elapsedMinutes: 1, minutesSinceFeed: 1, currentEnergy: energy })).toBe(energy);
+    });
+  });
+
+  describe('SteppedDecayPolicy', () => {
+    it('should only decay when a full step has elapsed since feeding', () => {
+      const policy = new SteppedDecayPolicy(60, 2);
+
+      expect(policy.calculateDecay({ elapsedMinutes: 59, minutesSinceFeed: 59, currentEnergy: 80 })).toBe(0);
+      expect(policy.calculateDecay({ elapsedMinutes: 150, minutesSinceFeed: 150, currentEnergy: 80 })).toBe(4);
+    });
+
+    it('should not charge a step twice across consecutive intervals', () => {
+      const policy = new SteppedDecayPolicy(60, 2);
+
+      // Interval from minute 50 to minute 70 crosses exactly one step boundary
+      expect(policy.calculateDecay({ elapsedMinutes: 20, minutesSinceFeed: 70, currentEnergy: 80 })).toBe(2);
+      // Interval from minute 70 to minute 110 crosses none
+      expect(policy.calculateDecay({ elapsedMinutes: 40, minutesSinceFeed: 110, currentEnergy: 80 })).toBe(0);
+    });
+  });
+
+  describe('GracePeriodDecayPolicy', () => {
+    it('should not decay during the grace period', () => {
+      const policy = new GracePeriodDecayPolicy(120, 0.1);
+
+      expect(policy.calculateDecay({ elapsedMinutes: 90, minutesSinceFeed: 90, currentEnergy: 80 })).toBe(0);
+    });
+
+    it('should decay linearly only for the portion after the grace period', () => {
+      const policy = new GracePeriodDecayPolicy(120, 0.1);
+
+      // Interval covers minutes 100-180 since feeding, 60 of which are past the grace period
+      expect(policy.calculateDecay({ elapsedMinutes: 80, minutesSinceFeed: 180, currentEnergy: 80 })).toBeCloseTo(6);
+    });
+  });
+
+  describe('ScaledDecayPolicy', () => {
+    it('should scale the wrapped policy and keep its type', () => {
+      const policy = new ScaledDecayPolicy(new LinearDecayPolicy(0.5), 0.25);
+
+      expect(policy.type).toBe('linear');
+      expect(policy.calculateDecay({ elapsedMinutes: 10, minutesSinceFeed: 10, currentEnergy: 80 })).toBe(1.25);
+    });
+  });
+
+  describe('createDecayPolicy', () => {
+    it('should default to linear decay with the configured rate', () => {
+      const policy = createDecayPolicy(undefined, 0.2);
+
+      expect(policy.type).toBe('linear');
+      expect(policy.calculateDecay({ elapsedMinutes: 10, minutesSinceFeed: 10, currentEnergy: 80 })).toBeCloseTo(2);
+    });
+
+    it('should fall back to the default rate when decayRate is invalid', () => {
+      const policy = createDecayPolicy('linear', NaN);
+
+      expect(policy.calculateDecay({ elapsedMinutes: 60, minutesSinceFeed: 60, currentEnergy: 80 }))
+        .toBeCloseTo(60 * PET_CONFIG.TIME_DECAY.DECAY_RATE);
+    });
+
+    it('should build each policy type with its options', () => {
+      expect(createDecayPolicy('exponential', 0.1, { halfLifeMinutes: 30 })).toBeInstanceOf(ExponentialDecayPolicy);
+      expect(createDecayPolicy('stepped', 0.1, { stepMinutes: 30, stepAmount: 1 })).toBeInstanceOf(SteppedDecayPolicy);
+      expect(createDecayPolicy('grace', 0.1, { graceMinutes: 30 })).toBeInstanceOf(GracePeriodDecayPolicy);
+    });
+
+    it('should ignore unknown policy types and invalid options', () => {
+      expect(createDecayPolicy('quadratic').type).toBe('linear');
+
+      const stepped = createDecayPolicy('stepped', 0.1, { stepMinutes: -5, stepAmount: 0 });
+      const decay = stepped.calculateDecay({
+        elapsedMinutes: PET_CONFIG.DECAY_POLICY.STEP_MINUTES,
+        minutesSinceFeed: PET_CONFIG.DECAY_POLICY.STEP_MINUTES,
+        currentEnergy: 80
+      });
+      expect(decay).toBe(PET_CONFIG.DECAY_POLICY.STEP_AMOUNT);
+    });
+  });
+
+  describe('isDecayPolicyType', () => {
+    it('should recognise supported policy names only', () => {
+      expect(isDecayPolicyType('grace')).toBe(true);
+      expect(isDecayPolicyType('sudden')).toBe(false);
+      expect(isDecayPolicyType(42)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DIFFICULTY_PRESETS,
+  resolveDifficultySettings,
+  describeDifficulty,
+  canResetLivingPet,
+  markGraveyardRecord,
+  isDifficultyLevel,
+  isValidDifficultyOverride
+} from '../difficulty';
+import { PET_CONFIG } from '../config';
+import { IPetState } from '../Pet';
+
+describe('Difficulty', () => {
+  describe('resolveDifficultySettings', () => {
+    it('should keep the normal preset in line with PET_CONFIG', () => {
+      const settings = resolveDifficultySettings();
+
+      expect(settings.level).toBe('normal');
+      expect(settings.decayMultiplier).toBe(1);
+      expect(settings.tokensPerEnergy).toBe(PET_CONFIG.FEEDING.TOKENS_PER_ENERGY);
+      expect(settings.stateThresholds).toEqual({
+        happy: PET_CONFIG.STATE_THRESHOLDS.HAPPY,
+        hungry: PET_CONFIG.STATE_THRESHOLDS.HUNGRY,
+        sick: PET_CONFIG.STATE_THRESHOLDS.SICK
+      });
+      expect(settings.revival.windowHours).toBe(PET_CONFIG.REVIVAL.WINDOW_HOURS);
+      expect(settings.maxSleepHours).toBeUndefined();
+    });
+
+    it('should bundle the preset values', () => {
+      const settings = resolveDifficultySettings('hardcore');
+
+      expect(settings).toMatchObject({
+        level: 'hardcore',
+        decayMultiplier: DIFFICULTY_PRESETS.hardcore.decayMultiplier,
+        tokensPerEnergy: DIFFICULTY_PRESETS.hardcore.tokensPerEnergy,
+        maxSleepHours: DIFFICULTY_PRESETS.hardcore.maxSleepHours
+      });
+      expect(settings.revival.windowHours).toBe(0);
+    });
+
+    it('should let individual fields and pet.revival override the preset', () => {
+      const settings = resolveDifficultySettings('hard', { tokensPerEnergy: 800000, hungryThreshold: 45 }, { windowHours: 6 });
+
+      expect(settings.tokensPerEnergy).toBe(800000);
+      expect(settings.stateThresholds).toEqual({ happy: 85, hungry: 45, sick: 15 });
+      expect(settings.revival).toMatchObject({ windowHours: 6, quotaTokens: 1000000 });
+      expect(settings.decayMultiplier).toBe(DIFFICULTY_PRESETS.hard.decayMultiplier);
+    });
+
+    it('should fall back to normal for an unknown difficulty', () => {
+      expect(resolveDifficultySettings('nightmare').level).toBe('normal');
+      expect(console.error).toHaveBeenCalledWith('Invalid difficulty: nightmare. Using normal.');
+    });
+
+    it('should ignore thresholds that are out of order', () => {
+      const settings = resolveDifficultySettings('normal', { sickThreshold: 60 });
+
+      expect(settings.stateThresholds).toEqual(DIFFICULTY_PRESETS.normal.stateThresholds);
+    });
+  });
+
+  it('should validate override values', () => {
+    expect(isDifficultyLevel('casual')).toBe(true);
+    expect(isDifficultyLevel('easy')).toBe(false);
+    expect(isValidDifficultyOverride('happyThreshold', 120)).toBe(false);
+    expect(isValidDifficultyOverride('tokensPerEnergy', 120)).toBe(true);
+    expect(isValidDifficultyOverride('maxSleepHours', 0)).toBe(false);
+  });
+
+  it('should describe a preset on one line', () => {
+    expect(describeDifficulty(resolveDifficultySettings('hardcore'))).toBe(
+      `decay x2, ${(2000000).toLocaleString()} tokens/energy, thresholds 90/60/20, no revival, sleep up to 8h`
+    );
+  });
+
+  it('should forbid resets and mark graveyard records only on hardcore', () => {
+    const state = { petName: 'Luna', energy: 0 } as IPetState;
+
+    expect(canResetLivingPet(resolveDifficultySettings('hard'))).toBe(true);
+    expect(canResetLivingPet(resolveDifficultySettings('hardcore'))).toBe(false);
+    expect(markGraveyardRecord(state, resolveDifficultySettings('hard'))).toBe(state);
+    expect(markGraveyardRecord(state, resolveDifficultySettings('hardcore'))).toEqual({ ...state, hardcore: true });
+  });
+});
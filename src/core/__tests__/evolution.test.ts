@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { getEvolutionStage, getEvolutionProgress, resolveEvolutionStages } from '../evolution';
+import { EvolutionStage, EVOLUTION_STAGES } from '../config';
+
+describe('Evolution Stages', () => {
+  describe('getEvolutionStage', () => {
+    it('should return baby for a newborn pet', () => {
+      expect(getEvolutionStage(0).id).toBe(EvolutionStage.BABY);
+    });
+
+    it('should return the highest stage whose threshold is reached', () => {
+      expect(getEvolutionStage(10000000).id).toBe(EvolutionStage.JUVENILE);
+      expect(getEvolutionStage(49999999).id).toBe(EvolutionStage.JUVENILE);
+      expect(getEvolutionStage(50000000).id).toBe(EvolutionStage.ADULT);
+      expect(getEvolutionStage(200000000).id).toBe(EvolutionStage.ELDER);
+      expect(getEvolutionStage(5000000000).id).toBe(EvolutionStage.LEGENDARY);
+    });
+
+    it('should fall back to the first stage for invalid token counts', () => {
+      expect(getEvolutionStage(NaN).id).toBe(EvolutionStage.BABY);
+    });
+  });
+
+  describe('getEvolutionProgress', () => {
+    it('should report progress towards the next stage', () => {
+      const progress = getEvolutionProgress(5000000);
+
+      expect(progress.current.id).toBe(EvolutionStage.BABY);
+      expect(progress.next?.id).toBe(EvolutionStage.JUVENILE);
+      expect(progress.progress).toBeCloseTo(0.5);
+      expect(progress.tokensToNext).toBe(5000000);
+    });
+
+    it('should report full progress at the final stage', () => {
+      const progress = getEvolutionProgress(2000000000);
+
+      expect(progress.current.id).toBe(EvolutionStage.LEGENDARY);
+      expect(progress.next).toBeNull();
+      expect(progress.progress).toBe(1);
+      expect(progress.tokensToNext).toBe(0);
+    });
+  });
+
+  describe('resolveEvolutionStages', () => {
+    it('should return default stages without overrides', () => {
+      expect(resolveEvolutionStages()).toBe(EVOLUTION_STAGES);
+    });
+
+    it('should apply user thresholds', () => {
+      const stages = resolveEvolutionStages({ [EvolutionStage.JUVENILE]: 1000 });
+
+      expect(getEvolutionStage(1000, stages).id).toBe(EvolutionStage.JUVENILE);
+      expect(EVOLUTION_STAGES[1].minLifetimeTokens).toBe(10000000); // defaults untouched
+    });
+
+    it('should keep baby at zero and ignore invalid thresholds', () => {
+      const stages = resolveEvolutionStages({
+        [EvolutionStage.BABY]: 500,
+        [EvolutionStage.ADULT]: -1
+      });
+
+      expect(stages[0]).toEqual(expect.objectContaining({ id: EvolutionStage.BABY, minLifetimeTokens: 0 }));
+      expect(stages.find(stage => stage.id === EvolutionStage.ADULT)?.minLifetimeTokens).toBe(50000000);
+    });
+
+    it('should keep stage order by raising out-of-order thresholds', () => {
+      const stages = resolveEvolutionStages({ [EvolutionStage.ELDER]: 20000000 });
+
+      expect(stages.map(stage => stage.id)).toEqual(EVOLUTION_STAGES.map(stage => stage.id));
+      expect(stages.find(stage => stage.id === EvolutionStage.ELDER)?.minLifetimeTokens).toBe(50000000);
+    });
+  });
+});
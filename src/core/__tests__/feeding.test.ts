@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveFeedWeights,
+  getModelMultiplier,
+  calculateWeightedTokens,
+  isFeedTokenType,
+  ITokenUsage
+} from '../feeding';
+import { PET_CONFIG } from '../config';
+
+const usage = (inputTokens: number, outputTokens: number, cacheCreationTokens = 0, cacheReadTokens = 0): ITokenUsage => ({
+  inputTokens,
+  outputTokens,
+  cacheCreationTokens,
+  cacheReadTokens
+});
+
+describe('Weighted Feeding', () => {
+  describe('resolveFeedWeights', () => {
+    it('should use the configured defaults when nothing is set', () => {
+      const weights = resolveFeedWeights();
+
+      expect(weights.tokenWeights).toEqual(PET_CONFIG.FEEDING.TOKEN_WEIGHTS);
+      expect(weights.modelMultipliers).toEqual({});
+    });
+
+    it('should override individual token weights', () => {
+      const weights = resolveFeedWeights({ cacheRead: 0, output: 2 });
+
+      expect(weights.tokenWeights).toEqual({ input: 1, output: 2, cacheCreation: 1, cacheRead: 0 });
+    });
+
+    it('should ignore negative or non-numeric weights and multipliers', () => {
+      const weights = resolveFeedWeights(
+        { input: -1, output: 'lots' as any },
+        { 'claude-opus': -2, 'claude-haiku': 0.5, '': 3 }
+      );
+
+      expect(weights.tokenWeights.input).toBe(1);
+      expect(weights.tokenWeights.output).toBe(1);
+      expect(weights.modelMultipliers).toEqual({ 'claude-haiku': 0.5 });
+    });
+  });
+
+  describe('getModelMultiplier', () => {
+    it('should prefer the longest matching model prefix', () => {
+      const weights = resolveFeedWeights({}, { 'claude': 1.5, 'claude-opus': 3 });
+
+      expect(getModelMultiplier('claude-opus-4-1-20250805', weights)).toBe(3);
+      expect(getModelMultiplier('claude-sonnet-4', weights)).toBe(1.5);
+      expect(getModelMultiplier('gpt-4o', weights)).toBe(1);
+    });
+  });
+
+  describe('calculateWeightedTokens', () => {
+    it('should discount cache reads by default', () => {
+      const weighted = calculateWeightedTokens({ unknown: usage(100, 50, 200, 10000) }, resolveFeedWeights());
+
+      expect(weighted).toBe(100 + 50 + 200 + 1000);
+    });
+
+    it('should apply model multipliers per model', () => {
+      const weights = resolveFeedWeights({}, { 'claude-opus': 2, 'claude-haiku': 0.5 });
+
+      const weighted = calculateWeightedTokens({
+        'claude-opus-4-1': usage(100, 100),
+        'claude-haiku-3-5': usage(100, 100)
+      }, weights);
+
+      expect(weighted).toBe(400 + 100);
+    });
+
+    it('should round to whole tokens', () => {
+      const weighted = calculateWeightedTokens({ unknown: usage(0, 0, 0, 15) }, resolveFeedWeights());
+
+      expect(weighted).toBe(2);
+    });
+  });
+
+  describe('isFeedTokenType', () => {
+    it('should only accept known token types', () => {
+      expect(isFeedTokenType('cacheRead')).toBe(true);
+      expect(isFeedTokenType('cached')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { resolveRevivalSettings, isRevivalSettingKey, isValidRevivalSetting } from '../revival';
+import { PET_CONFIG } from '../config';
+
+describe('Pet Revival', () => {
+  describe('resolveRevivalSettings', () => {
+    it('should use the configured defaults when nothing is set', () => {
+      expect(resolveRevivalSettings()).toEqual({
+        windowHours: PET_CONFIG.REVIVAL.WINDOW_HOURS,
+        quotaTokens: PET_CONFIG.REVIVAL.QUOTA_TOKENS,
+        penaltyMaxEnergy: PET_CONFIG.REVIVAL.PENALTY_MAX_ENERGY,
+        penaltyHours: PET_CONFIG.REVIVAL.PENALTY_HOURS
+      });
+    });
+
+    it('should override individual settings', () => {
+      const settings = resolveRevivalSettings({ windowHours: 48 });
+
+      expect(settings.windowHours).toBe(48);
+      expect(settings.quotaTokens).toBe(PET_CONFIG.REVIVAL.QUOTA_TOKENS);
+    });
+
+    it('should ignore invalid values', () => {
+      const settings = resolveRevivalSettings({ windowHours: -1, quotaTokens: NaN, penaltyMaxEnergy: 150 });
+
+      expect(settings.windowHours).toBe(PET_CONFIG.REVIVAL.WINDOW_HOURS);
+      expect(settings.quotaTokens).toBe(PET_CONFIG.REVIVAL.QUOTA_TOKENS);
+      expect(settings.penaltyMaxEnergy).toBe(PET_CONFIG.REVIVAL.PENALTY_MAX_ENERGY);
+    });
+  });
+
+  it('should only allow a penalty max energy up to 100', () => {
+    expect(isValidRevivalSetting('penaltyMaxEnergy', 100)).toBe(true);
+    expect(isValidRevivalSetting('penaltyMaxEnergy', 101)).toBe(false);
+    expect(isValidRevivalSetting('quotaTokens', 5000000)).toBe(true);
+  });
+
+  it('should recognise setting keys', () => {
+    expect(isRevivalSettingKey('windowHours')).toBe(true);
+    expect(isRevivalSettingKey('graceHours')).toBe(false);
+  });
+});
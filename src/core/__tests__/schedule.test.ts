@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createDecaySchedule, DecaySchedule } from '../schedule';
+
+const WEEKDAYS = new Set([1, 2, 3, 4, 5]);
+
+describe('Decay Schedule', () => {
+  describe('DecaySchedule', () => {
+    it('should only count minutes inside working hours', () => {
+      const schedule = new DecaySchedule(WEEKDAYS, 9, 18, 'UTC');
+
+      // Monday 08:00 to 10:00 UTC, one hour in schedule
+      expect(schedule.getScheduledMinutes(
+        new Date('2024-01-01T08:00:00Z'),
+        new Date('2024-01-01T10:00:00Z')
+      )).toBe(60);
+    });
+
+    it('should count partial hours', () => {
+      const schedule = new DecaySchedule(WEEKDAYS, 9, 18, 'UTC');
+
+      expect(schedule.getScheduledMinutes(
+        new Date('2024-01-01T17:15:30Z'),
+        new Date('2024-01-01T19:00:00Z')
+      )).toBe(44.5);
+    });
+
+    it('should skip weekends across multi-day gaps', () => {
+      const schedule = new DecaySchedule(WEEKDAYS, 9, 18, 'UTC');
+
+      // Friday 17:00 to Monday 10:00 UTC
+      expect(schedule.getScheduledMinutes(
+        new Date('2024-01-05T17:00:00Z'),
+        new Date('2024-01-08T10:00:00Z')
+      )).toBe(120);
+    });
+
+    it('should follow local hours across DST changes', () => {
+      const schedule = new DecaySchedule(WEEKDAYS, 9, 17, 'America/New_York');
+
+      // New York switches to daylight time on Sunday 2024-03-10; Friday and Monday each count 8 local hours
+      expect(schedule.getScheduledMinutes(
+        new Date('2024-03-08T00:00:00Z'),
+        new Date('2024-03-12T00:00:00Z')
+      )).toBe(16 * 60);
+    });
+
+    it('should handle time zones with half-hour offsets', () => {
+      const schedule = new DecaySchedule(new Set([0, 1, 2, 3, 4, 5, 6]), 9, 10, 'Asia/Kolkata');
+
+      // 08:30 to 10:30 IST
+      expect(schedule.getScheduledMinutes(
+        new Date('2024-01-01T03:00:00Z'),
+        new Date('2024-01-01T05:00:00Z')
+      )).toBe(60);
+    });
+
+    it('should support hours that wrap past midnight', () => {
+      const schedule = new DecaySchedule(new Set([0, 1, 2, 3, 4, 5, 6]), 22, 6, 'UTC');
+
+      expect(schedule.getScheduledMinutes(
+        new Date('2024-01-01T20:00:00Z'),
+        new Date('2024-01-02T08:00:00Z')
+      )).toBe(8 * 60);
+    });
+
+    it('should return zero for empty or reversed intervals', () => {
+      const schedule = new DecaySchedule(WEEKDAYS, 9, 18, 'UTC');
+      const time = new Date('2024-01-01T12:00:00Z');
+
+      expect(schedule.getScheduledMinutes(time, time)).toBe(0);
+      expect(schedule.getScheduledMinutes(time, new Date('2024-01-01T11:00:00Z'))).toBe(0);
+    });
+  });
+
+  describe('createDecaySchedule', () => {
+    it('should return undefined when no schedule is configured', () => {
+      expect(createDecaySchedule(undefined)).toBeUndefined();
+    });
+
+    it('should fill missing fields with defaults', () => {
+      const schedule = createDecaySchedule({ timeZone: 'UTC' })!;
+
+      // Saturday is not a default working day
+      expect(schedule.getScheduledMinutes(
+        new Date('2024-01-06T00:00:00Z'),
+        new Date('2024-01-07T00:00:00Z')
+      )).toBe(0);
+      // Monday 09:00-18:00
+      expect(schedule.getScheduledMinutes(
+        new Date('2024-01-01T00:00:00Z'),
+        new Date('2024-01-02T00:00:00Z')
+      )).toBe(9 * 60);
+    });
+
+    it('should accept weekday names', () => {
+      const schedule = createDecaySchedule({ weekdays: ['Saturday', 'sun', 'holiday'], startHour: 0, endHour: 24, timeZone: 'UTC' })!;
+
+      expect(schedule.getScheduledMinutes(
+        new Date('2024-01-05T00:00:00Z'),
+        new Date('2024-01-08T00:00:00Z')
+      )).toBe(48 * 60);
+    });
+
+    it('should fall back to the system time zone when the time zone is invalid', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const schedule = createDecaySchedule({ timeZone: 'Mars/Olympus_Mons' });
+
+      expect(schedule).toBeInstanceOf(DecaySchedule);
+      expect(consoleSpy).toHaveBeenCalledWith('Invalid schedule time zone: Mars/Olympus_Mons. Using system time zone.');
+      consoleSpy.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SpeciesRegistry, createSpeciesRegistry, validateSpecies, defaultSpeciesRegistry } from '../species';
+import { AnimalType } from '../config';
+
+describe('Species', () => {
+  beforeEach(() => {
+    vi.mocked(console.error).mockClear();
+  });
+
+  describe('validateSpecies', () => {
+    it('should accept a complete species definition', () => {
+      const species = validateSpecies('dragon', {
+        name: ' Dragon ',
+        emoji: '🐉',
+        expressions: { happy: ['(^w^)'], SICK: ['(-w-)', '(;w;)'] }
+      });
+
+      expect(species).toEqual({
+        id: 'dragon',
+        name: 'Dragon',
+        emoji: '🐉',
+        expressions: { HAPPY: ['(^w^)'], SICK: ['(-w-)', '(;w;)'] }
+      });
+    });
+
+    it('should prefer an explicit id and normalize its case', () => {
+      expect(validateSpecies('file-name', { id: 'Axolotl', name: 'Axolotl', emoji: '🦎' }).id).toBe('axolotl');
+    });
+
+    it.each([
+      [null, 'Species definition must be an object.'],
+      [{ name: 'Dragon', emoji: '🐉', id: 'has space' }, 'Invalid species id: has space'],
+      [{ emoji: '🐉' }, 'Invalid species name'],
+      [{ name: 'Dragon', emoji: '' }, 'Invalid species emoji'],
+      [{ name: 'Dragon', emoji: '🐉', expressions: ['(^w^)'] }, 'Species expressions must be an object keyed by mood.'],
+      [{ name: 'Dragon', emoji: '🐉', expressions: { SLEEPY: ['(-w-)'] } }, 'Unknown mood: SLEEPY'],
+      [{ name: 'Dragon', emoji: '🐉', expressions: { HAPPY: [] } }, 'Invalid HAPPY frames'],
+      [{ name: 'Dragon', emoji: '🐉', expressions: { HAPPY: ['(^w^)', 42] } }, 'Invalid HAPPY frames']
+    ])('should reject %j', (definition, message) => {
+      expect(() => validateSpecies('dragon', definition)).toThrow(message);
+    });
+  });
+
+  describe('SpeciesRegistry', () => {
+    it('should contain the built-in animals by default', () => {
+      expect(defaultSpeciesRegistry.getIds()).toEqual(Object.values(AnimalType));
+      expect(defaultSpeciesRegistry.get(AnimalType.FOX)?.emoji).toBe('🦊');
+    });
+
+    it('should resolve user input case-insensitively', () => {
+      const registry = new SpeciesRegistry();
+
+      expect(registry.resolve(' Panda ')).toBe(AnimalType.PANDA);
+      expect(registry.resolve('dragon')).toBeUndefined();
+    });
+  });
+
+  describe('createSpeciesRegistry', () => {
+    it('should add custom species after the built-in animals', () => {
+      const registry = createSpeciesRegistry({ dragon: { name: 'Dragon', emoji: '🐉' } });
+
+      expect(registry.getIds()).toEqual([...Object.values(AnimalType), 'dragon']);
+      expect(registry.has('dragon')).toBe(true);
+    });
+
+    it('should let later sources override earlier ones', () => {
+      const registry = createSpeciesRegistry(
+        { dragon: { name: 'Dragon', emoji: '🐉' } },
+        { dragon: { name: 'Wyrm', emoji: '🐲' }, cat: { name: 'Cat', emoji: '😺' } }
+      );
+
+      expect(registry.get('dragon')?.name).toBe('Wyrm');
+      expect(registry.get('cat')?.emoji).toBe('😺');
+      expect(registry.getIds()).toHaveLength(6);
+    });
+
+    it('should skip invalid definitions and report why', () => {
+      const registry = createSpeciesRegistry({ ghost: { name: 'Ghost' }, dragon: { name: 'Dragon', emoji: '🐉' } });
+
+      expect(registry.has('ghost')).toBe(false);
+      expect(registry.has('dragon')).toBe(true);
+      expect(console.error).toHaveBeenCalledWith(
+        'Skipping species "ghost": Invalid species emoji. Must be a non-empty string.'
+      );
+    });
+  });
+});
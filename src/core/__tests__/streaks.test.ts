@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DayCalendar, resolveStreakSettings, recordDailyFeeding, getStreakStatus, IStreakSettings } from '../streaks';
+import { PET_CONFIG } from '../config';
+
+describe('Feeding Streaks', () => {
+  const settings: IStreakSettings = {
+    minDailyTokens: 1000,
+    dailyGoal: 4000,
+    calendar: new DayCalendar('UTC')
+  };
+
+  beforeEach(() => {
+    vi.mocked(console.error).mockClear();
+  });
+
+  describe('DayCalendar', () => {
+    it('should use the configured time zone for day boundaries', () => {
+      const lateEvening = new Date('2024-03-10T23:30:00Z');
+
+      expect(new DayCalendar('UTC').getDayKey(lateEvening)).toBe('2024-03-10');
+      expect(new DayCalendar('Asia/Shanghai').getDayKey(lateEvening)).toBe('2024-03-11');
+      expect(new DayCalendar('America/Los_Angeles').getDayKey(lateEvening)).toBe('2024-03-10');
+    });
+
+    it('should step back across month and year boundaries', () => {
+      const calendar = new DayCalendar('UTC');
+
+      expect(calendar.getPreviousDayKey('2024-03-01')).toBe('2024-02-29');
+      expect(calendar.getPreviousDayKey('2024-01-01')).toBe('2023-12-31');
+    });
+  });
+
+  describe('resolveStreakSettings', () => {
+    it('should use the configured defaults when nothing is set', () => {
+      const resolved = resolveStreakSettings();
+
+      expect(resolved.minDailyTokens).toBe(PET_CONFIG.STREAKS.MIN_DAILY_TOKENS);
+      expect(resolved.dailyGoal).toBe(PET_CONFIG.STREAKS.DAILY_GOAL_TOKENS);
+    });
+
+    it('should fall back to the schedule time zone and report invalid ones', () => {
+      const fromSchedule = resolveStreakSettings({}, 'Asia/Tokyo');
+      expect(fromSchedule.calendar.getDayKey(new Date('2024-03-10T16:00:00Z'))).toBe('2024-03-11');
+
+      resolveStreakSettings({ timeZone: 'Mars/Olympus', dailyGoal: -1 });
+      expect(console.error).toHaveBeenCalledWith('Invalid streak time zone: Mars/Olympus. Using system time zone.');
+    });
+  });
+
+  describe('recordDailyFeeding', () => {
+    it('should count a day once enough tokens arrive', () => {
+      let streak = recordDailyFeeding(undefined, 600, new Date('2024-03-10T08:00:00Z'), settings);
+      expect(streak).toEqual({ day: '2024-03-10', dayTokens: 600, current: 0, longest: 0 });
+
+      streak = recordDailyFeeding(streak, 600, new Date('2024-03-10T12:00:00Z'), settings);
+      expect(streak).toEqual({ day: '2024-03-10', dayTokens: 1200, current: 1, longest: 1, lastQualifiedDay: '2024-03-10' });
+
+      // Further feeding on the same day does not extend the streak again
+      streak = recordDailyFeeding(streak, 5000, new Date('2024-03-10T13:00:00Z'), settings);
+      expect(streak.current).toBe(1);
+    });
+
+    it('should extend the streak on consecutive days and restart after a gap', () => {
+      let streak = recordDailyFeeding(undefined, 1000, new Date('2024-03-10T08:00:00Z'), settings);
+      streak = recordDailyFeeding(streak, 1000, new Date('2024-03-11T08:00:00Z'), settings);
+      streak = recordDailyFeeding(streak, 1000, new Date('2024-03-12T08:00:00Z'), settings);
+      expect(streak).toMatchObject({ current: 3, longest: 3 });
+
+      streak = recordDailyFeeding(streak, 1000, new Date('2024-03-14T08:00:00Z'), settings);
+      expect(streak).toMatchObject({ current: 1, longest: 3, day: '2024-03-14', dayTokens: 1000 });
+    });
+  });
+
+  describe('getStreakStatus', () => {
+    const streak = { day: '2024-03-10', dayTokens: 3000, current: 5, longest: 8, lastQualifiedDay: '2024-03-10' };
+
+    it('should report today\'s progress toward the goal', () => {
+      expect(getStreakStatus(streak, new Date('2024-03-10T20:00:00Z'), settings)).toEqual({
+        current: 5,
+        longest: 8,
+        todayTokens: 3000,
+        dailyGoal: 4000,
+        goalProgress: 0.75
+      });
+    });
+
+    it('should keep the streak alive until the end of the next day', () => {
+      const status = getStreakStatus(streak, new Date('2024-03-11T20:00:00Z'), settings);
+
+      expect(status).toMatchObject({ current: 5, todayTokens: 0, goalProgress: 0 });
+      expect(getStreakStatus(streak, new Date('2024-03-12T00:00:00Z'), settings).current).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { IPetState } from './Pet';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 配饰戴在表情的哪一侧：before → 🎩(^_^)，after → (^_^)🧣
+export type AccessoryPosition = 'before' | 'after';
+
+// 解锁条件，同时设置多项时需全部满足
+export interface IAccessoryUnlock {
+  lifetimeTokens?: number; // 终生token数
+  ageDays?: number; // 宠物年龄（天）
+  months?: readonly number[]; // 季节性配饰：在这些月份（1-12，本地时间）陪伴宠物即可解锁
+}
+
+export interface IAccessory {
+  id: string;
+  emoji: string;
+  name: string;
+  position: AccessoryPosition;
+  unlock: IAccessoryUnlock;
+}
+
+// 声明式配饰列表，新增配饰只需追加一条
+export const ACCESSORIES: readonly IAccessory[] = [
+  { id: 'bow', emoji: '🎀', name: 'Bow', position: 'before', unlock: { lifetimeTokens: 100000 } },
+  { id: 'scarf', emoji: '🧣', name: 'Scarf', position: 'after', unlock: { ageDays: 7 } },
+  { id: 'top-hat', emoji: '🎩', name: 'Top Hat', position: 'before', unlock: { lifetimeTokens: 10000000 } },
+  { id: 'crown', emoji: '👑', name: 'Crown', position: 'before', unlock: { lifetimeTokens: 100000000, ageDays: 30 } },
+  { id: 'pumpkin', emoji: '🎃', name: 'Pumpkin', position: 'after', unlock: { months: [10] } },
+  { id: 'santa-hat', emoji: '🎅', name: 'Santa Hat', position: 'before', unlock: { months: [12] } }
+];
+
+export function findAccessory(id: string): IAccessory | undefined {
+  const normalized = id.trim().toLowerCase();
+  return ACCESSORIES.find(accessory => accessory.id === normalized);
+}
+
+export function isAccessoryUnlocked(accessory: IAccessory, state: IPetState, now: Date): boolean {
+  const { lifetimeTokens, ageDays, months } = accessory.unlock;
+  if (lifetimeTokens !== undefined && state.totalLifetimeTokens < lifetimeTokens) {
+    return false;
+  }
+  if (ageDays !== undefined) {
+    const birthTime = state.birthTime ?? state.lastFeedTime;
+    if ((now.getTime() - new Date(birthTime).getTime()) / DAY_MS < ageDays) {
+      return false;
+    }
+  }
+  if (months !== undefined && !months.includes(now.getMonth() + 1)) {
+    return false;
+  }
+  return true;
+}
+
+// 描述解锁条件，供 ccpet wardrobe list 显示
+export function describeUnlock(unlock: IAccessoryUnlock): string {
+  const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+  const parts: string[] = [];
+  if (unlock.lifetimeTokens !== undefined) {
+    parts.push(`${unlock.lifetimeTokens.toLocaleString()} lifetime tokens`);
+  }
+  if (unlock.ageDays !== undefined) {
+    parts.push(`${unlock.ageDays} days old`);
+  }
+  if (unlock.months !== undefined) {
+    parts.push(`play in ${unlock.months.map(month => monthNames[month - 1]).join('/')}`);
+  }
+  return parts.join(', ');
+}
+
+export function wearAccessory(expression: string, accessory?: IAccessory): string {
+  if (!accessory) {
+    return expression;
+  }
+  return accessory.position === 'before' ? `${accessory.emoji}${expression}` : `${expression}${accessory.emoji}`;
+}
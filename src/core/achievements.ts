@@ -0,0 +1,101 @@
+import { IPetState } from './Pet';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 规则计算进度时可用的数据；宠物数量需要读盘，按需调用
+export interface IAchievementContext {
+  state: IPetState;
+  now: Date;
+  countRaisedPets(): number;
+}
+
+// 声明式成就规则：progress 返回当前值，达到 target 即解锁；新增成就只需在 ACHIEVEMENTS 中追加一条
+export interface IAchievementRule {
+  id: string;
+  emoji: string;
+  name: string;
+  description: string;
+  target: number;
+  readsStorage?: boolean; // progress 需要统计宠物数量，状态栏只在宠物状态变化后才检查
+  progress(context: IAchievementContext): number;
+}
+
+export interface IAchievementProgress {
+  rule: IAchievementRule;
+  current: number; // 不超过 target
+  unlockedAt?: Date;
+}
+
+const COMEBACK_LOW_ENERGY = 1;
+const COMEBACK_RECOVERED_ENERGY = 50;
+
+export const ACHIEVEMENTS: readonly IAchievementRule[] = [
+  {
+    id: 'first-million',
+    emoji: '💎',
+    name: 'Millionaire',
+    description: 'Reach 1M lifetime tokens',
+    target: 1000000,
+    progress: ({ state }) => state.totalLifetimeTokens
+  },
+  {
+    id: 'survivor-30',
+    emoji: '📅',
+    name: 'Survivor',
+    description: 'Keep a pet alive for 30 days',
+    target: 30,
+    progress: ({ state, now }) => state.birthTime && state.energy > 0
+      ? Math.floor((now.getTime() - new Date(state.birthTime).getTime()) / DAY_MS)
+      : 0
+  },
+  {
+    id: 'streak-7',
+    emoji: '🔥',
+    name: 'Habit Former',
+    description: 'Reach a 7-day feeding streak',
+    target: 7,
+    progress: ({ state }) => state.streak?.longest ?? 0
+  },
+  {
+    id: 'comeback',
+    emoji: '🩹',
+    name: 'Comeback',
+    description: 'Nurse a pet back from 1 energy',
+    target: 1,
+    // 能量曾降到 1 以下（未死亡），当前又回到 50 以上
+    progress: ({ state }) =>
+      state.lowestEnergy !== undefined && state.lowestEnergy <= COMEBACK_LOW_ENERGY && state.energy >= COMEBACK_RECOVERED_ENERGY ? 1 : 0
+  },
+  {
+    id: 'five-pets',
+    emoji: '🏡',
+    name: 'Pet Parent',
+    description: 'Raise five pets',
+    target: 5,
+    readsStorage: true,
+    progress: ({ countRaisedPets }) => countRaisedPets()
+  }
+];
+
+export function getAchievementProgress(
+  context: IAchievementContext,
+  unlocked: Readonly<Record<string, Date>> = {},
+  rules: readonly IAchievementRule[] = ACHIEVEMENTS
+): IAchievementProgress[] {
+  return rules.map(rule => {
+    const unlockedAt = unlocked[rule.id];
+    if (unlockedAt) {
+      return { rule, current: rule.target, unlockedAt };
+    }
+    return { rule, current: Math.min(rule.target, Math.max(0, rule.progress(context))) };
+  });
+}
+
+// 返回本次新达成的成就（已解锁的不再计算）
+export function findNewAchievements(
+  context: IAchievementContext,
+  unlocked: Readonly<Record<string, Date>> = {},
+  rules: readonly IAchievementRule[] = ACHIEVEMENTS
+): IAchievementRule[] {
+  return rules.filter(rule => !unlocked[rule.id] && rule.progress(context) >= rule.target);
+}
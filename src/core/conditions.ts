@@ -0,0 +1,52 @@
+import { PET_CONFIG } from './config';
+
+// 暂时性状态：喂食过快会撑着，连续长时间会话会疲惫，经过恢复时间后自动解除
+export type PetCondition = 'overfed' | 'exhausted';
+
+export const PET_CONDITIONS: readonly PetCondition[] = ['overfed', 'exhausted'] as const;
+
+export interface IConditionSettings {
+  overfedTokensPerMinute: number; // 统计窗口内平均每分钟（加权）喂食量超过此值时撑着
+  overfedWindowMinutes: number;
+  overfedRecoveryMinutes: number;
+  exhaustedSessionMinutes: number; // 单次会话（cost.total_duration_ms）超过此时长时疲惫
+  exhaustedRecoveryMinutes: number;
+}
+
+export type ConditionSettingKey = keyof IConditionSettings;
+
+export const CONDITION_SETTING_KEYS: readonly ConditionSettingKey[] = [
+  'overfedTokensPerMinute',
+  'overfedWindowMinutes',
+  'overfedRecoveryMinutes',
+  'exhaustedSessionMinutes',
+  'exhaustedRecoveryMinutes'
+] as const;
+
+export function isConditionSettingKey(value: unknown): value is ConditionSettingKey {
+  return typeof value === 'string' && CONDITION_SETTING_KEYS.includes(value as ConditionSettingKey);
+}
+
+export function isValidConditionSetting(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+// 合并用户配置，无效值回退到 PET_CONFIG.CONDITIONS 默认值
+export function resolveConditionSettings(overrides?: Partial<IConditionSettings>): IConditionSettings {
+  const defaults = PET_CONFIG.CONDITIONS;
+  const settings: IConditionSettings = {
+    overfedTokensPerMinute: defaults.OVERFED_TOKENS_PER_MINUTE,
+    overfedWindowMinutes: defaults.OVERFED_WINDOW_MINUTES,
+    overfedRecoveryMinutes: defaults.OVERFED_RECOVERY_MINUTES,
+    exhaustedSessionMinutes: defaults.EXHAUSTED_SESSION_MINUTES,
+    exhaustedRecoveryMinutes: defaults.EXHAUSTED_RECOVERY_MINUTES
+  };
+
+  for (const key of CONDITION_SETTING_KEYS) {
+    const value = overrides?.[key];
+    if (isValidConditionSetting(value)) {
+      settings[key] = value;
+    }
+  }
+  return settings;
+}
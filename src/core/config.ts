@@ -1,5 +1,6 @@
 import { processColorConfig } from '../utils/colors';
-import { ConfigService } from '../services/ConfigService';
+import { ConfigService, IConfigSource } from '../services/ConfigService';
+import { IRandom, systemRandom, pickRandom } from './Random';
 
 // 动物类型枚举
 export enum AnimalType {
@@ -17,6 +18,27 @@ export interface IAnimalConfig {
   emoji: string;
 }
 
+// 宠物心情（由能量阈值决定）
+export type PetMood = 'HAPPY' | 'HUNGRY' | 'SICK' | 'DEAD';
+
+// 进化阶段枚举
+export enum EvolutionStage {
+  BABY = 'baby',
+  JUVENILE = 'juvenile',
+  ADULT = 'adult',
+  ELDER = 'elder',
+  LEGENDARY = 'legendary'
+}
+
+// 进化阶段配置接口
+export interface IEvolutionStageConfig {
+  readonly id: EvolutionStage;
+  readonly name: string;
+  readonly emoji: string;
+  readonly minLifetimeTokens: number; // 达到该阶段所需的终生token数
+  readonly expressions?: Readonly<Partial<Record<PetMood, readonly string[]>>>; // 未定义的心情使用默认动画表情
+}
+
 // Line1 支持的显示元素类型
 export type Line1ItemType = 
   | 'expression' 
@@ -24,7 +46,13 @@ export type Line1ItemType =
   | 'energy-value' 
   | 'accumulated-tokens' 
   | 'lifetime-tokens' 
-  | 'pet-name'; // 预留给Story 4.2
+  | 'pet-name' // 预留给Story 4.2
+  | 'stage'
+  | 'stage-progress'
+  | 'happiness'
+  | 'health'
+  | 'streak'
+  | 'daily-goal';
 
 // Line1 支持的元素常量
 export const LINE1_SUPPORTED_ITEMS: readonly Line1ItemType[] = [
@@ -33,10 +61,16 @@ export const LINE1_SUPPORTED_ITEMS: readonly Line1ItemType[] = [
   'energy-value',
   'accumulated-tokens',
   'lifetime-tokens',
-  'pet-name'
+  'pet-name',
+  'stage',
+  'stage-progress',
+  'happiness',
+  'health',
+  'streak',
+  'daily-goal'
 ] as const;
 
-function getColorConfiguration(configService?: ConfigService) {
+function getColorConfiguration(configService?: IConfigSource) {
   try {
     const service = configService || new ConfigService();
     const userConfig = service.getConfig();
@@ -56,6 +90,13 @@ function getColorConfiguration(configService?: ConfigService) {
       CONTEXT_PERCENTAGE: userConfig.colors.contextPercentage || '#0099DD',
       CONTEXT_PERCENTAGE_USABLE: userConfig.colors.contextPercentageUsable || '#90EE90',
       COST: userConfig.colors.cost || '#FFD700',
+      STAGE: userConfig.colors.stage || '#FFA500',
+      STAGE_PROGRESS: userConfig.colors.stageProgress || '#87CEEB',
+      HAPPINESS: userConfig.colors.happiness || '#FFB6C1',
+      HEALTH: userConfig.colors.health || '#FF6347',
+      STREAK: userConfig.colors.streak || '#FF8C00',
+      DAILY_GOAL: userConfig.colors.dailyGoal || '#7FFFD4',
+      ACHIEVEMENT: userConfig.colors.achievement || '#FFD700',
       RESET: 'RESET' // reset color
     };
   } catch (error) {
@@ -75,6 +116,13 @@ function getColorConfiguration(configService?: ConfigService) {
       CONTEXT_PERCENTAGE: '#0099DD',
       CONTEXT_PERCENTAGE_USABLE: '#90EE90',
       COST: '#FFD700',
+      STAGE: '#FFA500',
+      STAGE_PROGRESS: '#87CEEB',
+      HAPPINESS: '#FFB6C1',
+      HEALTH: '#FF6347',
+      STREAK: '#FF8C00',
+      DAILY_GOAL: '#7FFFD4',
+      ACHIEVEMENT: '#FFD700',
       RESET: 'RESET'
     };
   }
@@ -96,6 +144,13 @@ function getDefaultColorConfiguration() {
     CONTEXT_PERCENTAGE: '#0099DD',
     CONTEXT_PERCENTAGE_USABLE: '#90EE90',
     COST: '#FFD700',
+    STAGE: '#FFA500',
+    STAGE_PROGRESS: '#87CEEB',
+    HAPPINESS: '#FFB6C1',
+    HEALTH: '#FF6347',
+    STREAK: '#FF8C00',
+    DAILY_GOAL: '#7FFFD4',
+    ACHIEVEMENT: '#FFD700',
     RESET: 'RESET'
   };
 }
@@ -110,13 +165,25 @@ export const PET_NAMES: readonly string[] = [
 ] as const;
 
 // 生成随机宠物名称的实用函数
-export function generateRandomPetName(): string {
+export function generateRandomPetName(random: IRandom = systemRandom): string {
   if (PET_NAMES.length === 0) {
     return 'Pet'; // 降级策略：如果名称列表为空，返回默认名称
   }
   
-  const randomIndex = Math.floor(Math.random() * PET_NAMES.length);
-  return PET_NAMES[randomIndex];
+  return pickRandom(PET_NAMES, random);
+}
+
+// 校验用户输入的宠物名称（ccpet adopt --name / ccpet rename），返回去除首尾空白后的名字
+export function normalizePetName(name: string): string {
+  const trimmed = name.trim();
+  const { MAX_NAME_LENGTH } = PET_CONFIG.NAMING;
+  if (!trimmed) {
+    throw new Error('Pet name cannot be empty.');
+  }
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    throw new Error(`Pet name is too long: ${trimmed.length} characters. Maximum is ${MAX_NAME_LENGTH}.`);
+  }
+  return trimmed;
 }
 
 // 动物类型配置
@@ -128,6 +195,55 @@ export const ANIMAL_CONFIGS: Record<AnimalType, IAnimalConfig> = {
   [AnimalType.FOX]: { id: AnimalType.FOX, name: '狐狸', emoji: '🦊' }
 };
 
+// 进化阶段配置：按终生token数从低到高排列，宝宝阶段沿用默认表情
+export const EVOLUTION_STAGES: readonly IEvolutionStageConfig[] = [
+  { id: EvolutionStage.BABY, name: 'Baby', emoji: '🍼', minLifetimeTokens: 0 },
+  {
+    id: EvolutionStage.JUVENILE,
+    name: 'Juvenile',
+    emoji: '🌱',
+    minLifetimeTokens: 10000000, // 1000万token
+    expressions: {
+      HAPPY: ['(^ω^)', '(^o^)', '(^ω^)', '(^▽^)'],
+      HUNGRY: ['(・_・)', '(・o・)', '(・_・)', '(-_-)'],
+      SICK: ['(；_；)', '(T_T)', '(；_；)', '(>_<)']
+    }
+  },
+  {
+    id: EvolutionStage.ADULT,
+    name: 'Adult',
+    emoji: '⭐',
+    minLifetimeTokens: 50000000, // 5000万token
+    expressions: {
+      HAPPY: ['(＾▽＾)', '(＾o＾)', '(＾▽＾)', '(＾ｖ＾)'],
+      HUNGRY: ['(￣_￣)', '(￣o￣)', '(￣_￣)', '(￣へ￣)'],
+      SICK: ['(＞_＜)', '(Ｔ_Ｔ)', '(＞_＜)', '(ｕ_ｕ)']
+    }
+  },
+  {
+    id: EvolutionStage.ELDER,
+    name: 'Elder',
+    emoji: '🌙',
+    minLifetimeTokens: 200000000, // 2亿token
+    expressions: {
+      HAPPY: ['(ˆ‿ˆ)', '(ˆ◡ˆ)', '(ˆ‿ˆ)', '(ˆᴗˆ)'],
+      HUNGRY: ['(ˇ_ˇ)', '(ˇoˇ)', '(ˇ_ˇ)', '(-‸-)'],
+      SICK: ['(ᵕ_ᵕ)', '(ᵕ︵ᵕ)', '(ᵕ_ᵕ)', '(ᵕ﹏ᵕ)']
+    }
+  },
+  {
+    id: EvolutionStage.LEGENDARY,
+    name: 'Legendary',
+    emoji: '👑',
+    minLifetimeTokens: 1000000000, // 10亿token
+    expressions: {
+      HAPPY: ['✧(^_^)✧', '✦(^o^)✦', '✧(^_^)✧', '✦(^v^)✦'],
+      HUNGRY: ['✧(o_o)✧', '✦(O_O)✦', '✧(o_o)✧', '✦(-_-)✦'],
+      SICK: ['✧(u_u)✧', '✦(T_T)✦', '✧(u_u)✧', '✦(>_<)✦']
+    }
+  }
+];
+
 export const PET_CONFIG = {
   INITIAL_ENERGY: 100,
   HAPPY_EXPRESSION_THRESHOLD: 80,
@@ -155,17 +271,106 @@ export const PET_CONFIG = {
     SICK: ['(u_u)', '(T_T)', '(u_u)', '(>_<)'],
     DEAD: ['(x_x)', '(X_X)', '(x_x)', '(+_+)']
   },
+  // 休眠模式（ccpet sleep）：冻结能量衰减时使用的表情和记录上限
+  SLEEP: {
+    EXPRESSIONS: ['(-_-)zZ', '(-_-)zz', '(-.-)Zz', '(-_-)zZ'],
+    MAX_HISTORY: 50 // 状态文件中保留的休眠区间数量
+  },
   TIME_DECAY: {
     DECAY_CHECK_INTERVAL: 60000, // 1 minute in milliseconds
     DECAY_RATE: 0.0231, // energy points to decrease per minute (~3 day 100→0 rate)
     MINIMUM_DECAY_INTERVAL: 60000 // minimum 1 minute before first decay can occur
   },
+  // 可选衰减策略的默认参数（见 core/decay.ts）
+  DECAY_POLICY: {
+    DEFAULT_TYPE: 'linear',
+    EXPONENTIAL_HALF_LIFE_MINUTES: 1440, // 24小时能量减半
+    EXPONENTIAL_ENERGY_FLOOR: 0.5, // 低于此能量视为饿死
+    STEP_MINUTES: 60, // 每小时扣一次
+    STEP_AMOUNT: 1.386, // 每次扣除的能量（与默认线性速率每小时总量一致）
+    GRACE_MINUTES: 120 // 喂食后2小时内不衰减
+  },
+  // 作息时间表（pet.schedule）缺省字段的默认值，见 core/schedule.ts
+  DECAY_SCHEDULE: {
+    WEEKDAYS: [1, 2, 3, 4, 5], // 周一到周五
+    START_HOUR: 9,
+    END_HOUR: 18
+  },
   FEEDING: {
-    TOKENS_PER_ENERGY: 1000000 // 100万token = 1点能量
+    TOKENS_PER_ENERGY: 1000000, // 100万token = 1点能量
+    // 各类token的喂食权重（见 core/feeding.ts）；缓存读取很便宜，只按1/10计算
+    TOKEN_WEIGHTS: {
+      input: 1,
+      output: 1,
+      cacheCreation: 1,
+      cacheRead: 0.1
+    }
   },
   ANIMAL: {
     DEFAULT_TYPE: AnimalType.CAT // 默认动物类型用于向后兼容
   },
+  // 用户自定义名字的长度上限，以及状态文件中保留的曾用名数量
+  NAMING: {
+    MAX_NAME_LENGTH: 30,
+    MAX_NAME_HISTORY: 20
+  },
+  // 多宠物名册（ccpet pets）：非活跃宠物不被喂食，按降低后的速率衰减
+  ROSTER: {
+    INACTIVE_DECAY_MULTIPLIER: 0.25
+  },
+  // 快照（ccpet backup / restore，见 services/backups.ts），用户可通过 backup.retention 调整
+  BACKUP: {
+    RETENTION: 7 // 每日快照和恢复前快照各保留7个
+  },
+  // 连续喂食天数和每日目标（见 core/streaks.ts），用户可通过 pet.streaks 调整
+  STREAKS: {
+    MIN_DAILY_TOKENS: 100000, // 当天加权喂食达到10万token才算连续的一天
+    DAILY_GOAL_TOKENS: 1000000,
+    GOAL_BAR_LENGTH: 5
+  },
+  // 难度预设（见 core/difficulty.ts），通过 pet.difficulty 选择
+  DIFFICULTY: {
+    DEFAULT_LEVEL: 'normal'
+  },
+  // 濒死复活（见 core/revival.ts），用户可通过 pet.revival 调整窗口、额度和惩罚
+  REVIVAL: {
+    WINDOW_HOURS: 24, // 死亡后24小时内可复活，过期才移入墓地
+    QUOTA_TOKENS: 500000, // 窗口内加权喂食50万token即复活
+    REVIVED_ENERGY: 10, // 复活时的能量
+    PENALTY_MAX_ENERGY: 60, // 复活后能量上限降为60
+    PENALTY_HOURS: 72
+  },
+  // 撑着和疲惫状态（见 core/conditions.ts），用户可通过 pet.conditions 调整阈值和恢复时间
+  CONDITIONS: {
+    OVERFED_TOKENS_PER_MINUTE: 200000, // 10分钟内加权喂食超过200万token即撑着
+    OVERFED_WINDOW_MINUTES: 10,
+    OVERFED_RECOVERY_MINUTES: 30,
+    OVERFED_ENERGY_MULTIPLIER: 0.5, // 撑着时喂食只有一半转化为能量
+    EXHAUSTED_SESSION_MINUTES: 180, // 连续会话3小时后疲惫
+    EXHAUSTED_RECOVERY_MINUTES: 60,
+    EXHAUSTED_HAPPINESS_MULTIPLIER: 0.5, // 疲惫时活动带来的幸福度减半
+    EXPRESSIONS: {
+      overfed: ['(@_@)', '(@o@)', '(@_@)', '(~_~)'],
+      exhausted: ['(=_=)', '(-_-;)', '(=_=)', '(._.)']
+    }
+  },
+  // 幸福度和健康度（0-100），与能量一起决定心情
+  STATS: {
+    INITIAL_HAPPINESS: 100,
+    INITIAL_HEALTH: 100,
+    OUTPUT_TOKENS_PER_HAPPINESS: 10000, // 每1万输出token +1 幸福度
+    LINES_ADDED_PER_HAPPINESS: 20, // 每新增20行代码 +1 幸福度
+    HAPPINESS_DECAY_PER_HOUR: 0.5, // 没有活动时逐渐无聊
+    STARVATION_ENERGY_THRESHOLD: 20, // 能量低于此值视为挨饿
+    STARVATION_HEALTH_LOSS_PER_HOUR: 2,
+    OVERFEED_HEALTH_LOSS_PER_ENERGY: 0.5, // 能量已满时每溢出1点能量扣除的健康度
+    HEALTH_RECOVERY_PER_HOUR: 1, // 能量不低于 HUNGRY 阈值时缓慢恢复
+    SAD_HAPPINESS_THRESHOLD: 40, // 幸福度低于此值时不显示开心表情
+    SICK_HEALTH_THRESHOLD: 30 // 健康度低于此值时显示生病表情
+  },
+  EVOLUTION: {
+    STAGES: EVOLUTION_STAGES
+  },
   // Processed colors - using defaults initially, will be updated by getProcessedColors()
   COLORS: processColorConfig(getDefaultColorConfiguration() as Record<string, string>)
 } as const;
@@ -175,7 +380,7 @@ export const LOGGER_CONFIG = {
 } as const;
 
 // 动态获取处理过的颜色配置（用于运行时获取用户配置的颜色）
-export function getProcessedColors(configService?: ConfigService) {
+export function getProcessedColors(configService?: IConfigSource) {
   return processColorConfig(getColorConfiguration(configService) as Record<string, string>);
 }
 
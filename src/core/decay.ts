@@ -0,0 +1,150 @@
+import { PET_CONFIG } from './config';
+
+export type DecayPolicyType = 'linear' | 'exponential' | 'stepped' | 'grace';
+
+export const DECAY_POLICY_TYPES: readonly DecayPolicyType[] = [
+  'linear',
+  'exponential',
+  'stepped',
+  'grace'
+] as const;
+
+export interface IDecayContext {
+  elapsedMinutes: number; // 距上次衰减计算的分钟数
+  minutesSinceFeed: number; // 距上次喂食的分钟数
+  currentEnergy: number;
+}
+
+export interface IDecayPolicy {
+  readonly type: DecayPolicyType;
+  calculateDecay(context: IDecayContext): number;
+}
+
+// config.json 中 pet.decayOptions 的可调参数
+export interface IDecayOptions {
+  halfLifeMinutes?: number; // exponential: 能量减半所需分钟数
+  stepMinutes?: number; // stepped: 每隔多少分钟扣一次
+  stepAmount?: number; // stepped: 每次扣除的能量
+  graceMinutes?: number; // grace: 喂食后免衰减的分钟数
+}
+
+// 线性衰减：每分钟固定扣除能量
+export class LinearDecayPolicy implements IDecayPolicy {
+  public readonly type = 'linear';
+
+  constructor(private readonly ratePerMinute: number) {}
+
+  public calculateDecay({ elapsedMinutes }: IDecayContext): number {
+    return Math.max(0, elapsedMinutes * this.ratePerMinute);
+  }
+}
+
+// 指数衰减：能量按半衰期递减，能量越低掉得越慢
+export class ExponentialDecayPolicy implements IDecayPolicy {
+  public readonly type = 'exponential';
+
+  constructor(private readonly halfLifeMinutes: number) {}
+
+  public calculateDecay({ elapsedMinutes, currentEnergy }: IDecayContext): number {
+    if (elapsedMinutes <= 0 || currentEnergy <= 0) {
+      return 0;
+    }
+
+    const remaining = currentEnergy * Math.pow(0.5, elapsedMinutes / this.halfLifeMinutes);
+    // 指数曲线永远不会到达0，低于下限时直接归零，让宠物仍然可能饿死
+    if (remaining < PET_CONFIG.DECAY_POLICY.EXPONENTIAL_ENERGY_FLOOR) {
+      return currentEnergy;
+    }
+    return currentEnergy - remaining;
+  }
+}
+
+// 阶梯衰减：自上次喂食起每满一个周期扣除固定能量
+export class SteppedDecayPolicy implements IDecayPolicy {
+  public readonly type = 'stepped';
+
+  constructor(
+    private readonly stepMinutes: number,
+    private readonly stepAmount: number
+  ) {}
+
+  public calculateDecay({ elapsedMinutes, minutesSinceFeed }: IDecayContext): number {
+    const intervalStart = Math.max(0, minutesSinceFeed - elapsedMinutes);
+    const stepsTaken =
+      Math.floor(minutesSinceFeed / this.stepMinutes) - Math.floor(intervalStart / this.stepMinutes);
+    return Math.max(0, stepsTaken * this.stepAmount);
+  }
+}
+
+// 宽限期衰减：喂食后一段时间内不衰减，之后按线性速率衰减
+export class GracePeriodDecayPolicy implements IDecayPolicy {
+  public readonly type = 'grace';
+
+  constructor(
+    private readonly graceMinutes: number,
+    private readonly ratePerMinute: number
+  ) {}
+
+  public calculateDecay({ elapsedMinutes, minutesSinceFeed }: IDecayContext): number {
+    const minutesAfterGrace = Math.max(0, minutesSinceFeed - this.graceMinutes);
+    const minutesAfterGraceAtStart = Math.max(0, minutesSinceFeed - elapsedMinutes - this.graceMinutes);
+    return Math.max(0, (minutesAfterGrace - minutesAfterGraceAtStart) * this.ratePerMinute);
+  }
+}
+
+// 按比例缩放其他策略的衰减量，用于名册中的非活跃宠物
+export class ScaledDecayPolicy implements IDecayPolicy {
+  public readonly type: DecayPolicyType;
+
+  constructor(
+    private readonly inner: IDecayPolicy,
+    private readonly factor: number
+  ) {
+    this.type = inner.type;
+  }
+
+  public calculateDecay(context: IDecayContext): number {
+    return Math.max(0, this.inner.calculateDecay(context) * this.factor);
+  }
+}
+
+function positiveOr(value: number | undefined, fallback: number): number {
+  return typeof value === 'number' && isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function isDecayPolicyType(value: unknown): value is DecayPolicyType {
+  return typeof value === 'string' && DECAY_POLICY_TYPES.includes(value as DecayPolicyType);
+}
+
+// 根据用户配置创建衰减策略，无效参数回退到 PET_CONFIG 默认值
+export function createDecayPolicy(
+  type?: string,
+  ratePerMinute?: number,
+  options: IDecayOptions = {}
+): IDecayPolicy {
+  const defaults = PET_CONFIG.DECAY_POLICY;
+  const rate = typeof ratePerMinute === 'number' && isFinite(ratePerMinute) && ratePerMinute >= 0
+    ? ratePerMinute
+    : PET_CONFIG.TIME_DECAY.DECAY_RATE;
+  const policyType = isDecayPolicyType(type) ? type : defaults.DEFAULT_TYPE;
+
+  switch (policyType) {
+    case 'exponential':
+      return new ExponentialDecayPolicy(
+        positiveOr(options.halfLifeMinutes, defaults.EXPONENTIAL_HALF_LIFE_MINUTES)
+      );
+    case 'stepped':
+      return new SteppedDecayPolicy(
+        positiveOr(options.stepMinutes, defaults.STEP_MINUTES),
+        positiveOr(options.stepAmount, defaults.STEP_AMOUNT)
+      );
+    case 'grace':
+      return new GracePeriodDecayPolicy(
+        positiveOr(options.graceMinutes, defaults.GRACE_MINUTES),
+        rate
+      );
+    case 'linear':
+    default:
+      return new LinearDecayPolicy(rate);
+  }
+}
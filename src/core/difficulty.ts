@@ -0,0 +1,158 @@
+import { PET_CONFIG } from './config';
+import { IPetState } from './Pet';
+import { IRevivalSettings, resolveRevivalSettings } from './revival';
+
+// 难度预设：一次性调整衰减速度、喂食换算、心情阈值、复活规则和休眠时长
+export type DifficultyLevel = 'casual' | 'normal' | 'hard' | 'hardcore';
+
+export const DIFFICULTY_LEVELS: readonly DifficultyLevel[] = ['casual', 'normal', 'hard', 'hardcore'] as const;
+
+// 能量达到对应阈值时显示开心/饥饿/生病，低于 sick 阈值为濒死
+export interface IStateThresholds {
+  happy: number;
+  hungry: number;
+  sick: number;
+}
+
+export interface IDifficultyPreset {
+  decayMultiplier: number; // 在 pet.decayRate / 衰减策略之上再乘的倍率
+  tokensPerEnergy: number;
+  stateThresholds: IStateThresholds;
+  revival: Partial<IRevivalSettings>; // 未设置的项使用 PET_CONFIG.REVIVAL 默认值
+  maxSleepHours?: number; // 单次休眠的最长时间，未设置时不限
+}
+
+export interface IDifficultySettings extends Omit<IDifficultyPreset, 'revival'> {
+  level: DifficultyLevel;
+  revival: IRevivalSettings;
+}
+
+// config.json 中 pet.difficultyOverrides 的格式，逐项覆盖所选预设（复活规则通过 pet.revival 覆盖）
+export interface IDifficultyOverrides {
+  decayMultiplier?: number;
+  tokensPerEnergy?: number;
+  happyThreshold?: number;
+  hungryThreshold?: number;
+  sickThreshold?: number;
+  maxSleepHours?: number;
+}
+
+export type DifficultyOverrideKey = keyof IDifficultyOverrides;
+
+export const DIFFICULTY_OVERRIDE_KEYS: readonly DifficultyOverrideKey[] = [
+  'decayMultiplier',
+  'tokensPerEnergy',
+  'happyThreshold',
+  'hungryThreshold',
+  'sickThreshold',
+  'maxSleepHours'
+] as const;
+
+export const DIFFICULTY_PRESETS: Readonly<Record<DifficultyLevel, IDifficultyPreset>> = {
+  casual: {
+    decayMultiplier: 0.5,
+    tokensPerEnergy: 500000,
+    stateThresholds: { happy: 70, hungry: 30, sick: 5 },
+    revival: { windowHours: 72, quotaTokens: 250000, penaltyMaxEnergy: 80, penaltyHours: 24 }
+  },
+  // 与 PET_CONFIG 的默认值一致（config.ts 间接导入本模块，加载时不能引用 PET_CONFIG）
+  normal: {
+    decayMultiplier: 1,
+    tokensPerEnergy: 1000000,
+    stateThresholds: { happy: 80, hungry: 40, sick: 10 },
+    revival: {}
+  },
+  hard: {
+    decayMultiplier: 1.5,
+    tokensPerEnergy: 1500000,
+    stateThresholds: { happy: 85, hungry: 50, sick: 15 },
+    revival: { windowHours: 12, quotaTokens: 1000000, penaltyMaxEnergy: 50 },
+    maxSleepHours: 24
+  },
+  // 没有濒死窗口，不能重置活着的宠物，进入墓地的记录会标记为硬核存档
+  hardcore: {
+    decayMultiplier: 2,
+    tokensPerEnergy: 2000000,
+    stateThresholds: { happy: 90, hungry: 60, sick: 20 },
+    revival: { windowHours: 0 },
+    maxSleepHours: 8
+  }
+};
+
+export function isDifficultyLevel(value: unknown): value is DifficultyLevel {
+  return typeof value === 'string' && DIFFICULTY_LEVELS.includes(value as DifficultyLevel);
+}
+
+export function isDifficultyOverrideKey(value: unknown): value is DifficultyOverrideKey {
+  return typeof value === 'string' && DIFFICULTY_OVERRIDE_KEYS.includes(value as DifficultyOverrideKey);
+}
+
+export function isValidDifficultyOverride(key: DifficultyOverrideKey, value: unknown): value is number {
+  if (typeof value !== 'number' || !isFinite(value) || value <= 0) {
+    return false;
+  }
+  return !key.endsWith('Threshold') || value <= 100;
+}
+
+// 合并预设、逐项覆盖和 pet.revival；无效的难度回退到 normal，无效或顺序错乱的阈值回退到预设值
+export function resolveDifficultySettings(
+  level?: string,
+  overrides?: IDifficultyOverrides,
+  revivalOverrides?: Partial<IRevivalSettings>
+): IDifficultySettings {
+  let resolvedLevel: DifficultyLevel = PET_CONFIG.DIFFICULTY.DEFAULT_LEVEL;
+  if (level !== undefined) {
+    if (isDifficultyLevel(level)) {
+      resolvedLevel = level;
+    } else {
+      console.error(`Invalid difficulty: ${level}. Using ${resolvedLevel}.`);
+    }
+  }
+
+  const preset = DIFFICULTY_PRESETS[resolvedLevel];
+  const valid = (key: DifficultyOverrideKey): number | undefined => {
+    const value = overrides?.[key];
+    return isValidDifficultyOverride(key, value) ? value : undefined;
+  };
+
+  const thresholds = {
+    happy: valid('happyThreshold') ?? preset.stateThresholds.happy,
+    hungry: valid('hungryThreshold') ?? preset.stateThresholds.hungry,
+    sick: valid('sickThreshold') ?? preset.stateThresholds.sick
+  };
+  const ordered = thresholds.happy > thresholds.hungry && thresholds.hungry > thresholds.sick;
+  if (!ordered) {
+    console.error('Invalid difficulty thresholds: happy > hungry > sick is required. Using preset thresholds.');
+  }
+
+  const maxSleepHours = valid('maxSleepHours') ?? preset.maxSleepHours;
+  return {
+    level: resolvedLevel,
+    decayMultiplier: valid('decayMultiplier') ?? preset.decayMultiplier,
+    tokensPerEnergy: valid('tokensPerEnergy') ?? preset.tokensPerEnergy,
+    stateThresholds: ordered ? thresholds : { ...preset.stateThresholds },
+    revival: resolveRevivalSettings({ ...preset.revival, ...revivalOverrides }),
+    ...(maxSleepHours !== undefined ? { maxSleepHours } : {})
+  };
+}
+
+// 一行概要，供 ccpet config list 显示
+export function describeDifficulty(settings: IDifficultySettings): string {
+  const { happy, hungry, sick } = settings.stateThresholds;
+  const revival = settings.revival.windowHours > 0
+    ? `revive within ${settings.revival.windowHours}h with ${settings.revival.quotaTokens.toLocaleString()} tokens`
+    : 'no revival';
+  const sleep = settings.maxSleepHours !== undefined ? `sleep up to ${settings.maxSleepHours}h` : 'unlimited sleep';
+  return `decay x${settings.decayMultiplier}, ${settings.tokensPerEnergy.toLocaleString()} tokens/energy, `
+    + `thresholds ${happy}/${hungry}/${sick}, ${revival}, ${sleep}`;
+}
+
+// 硬核难度下不能重置活着的宠物
+export function canResetLivingPet(settings: IDifficultySettings): boolean {
+  return settings.level !== 'hardcore';
+}
+
+// 硬核难度下进入墓地的记录标记为硬核存档
+export function markGraveyardRecord(state: IPetState, settings: IDifficultySettings): IPetState {
+  return settings.level === 'hardcore' ? { ...state, hardcore: true } : state;
+}
@@ -0,0 +1,65 @@
+import { PET_CONFIG, EvolutionStage, IEvolutionStageConfig } from './config';
+
+export interface IEvolutionProgress {
+  current: IEvolutionStageConfig;
+  next: IEvolutionStageConfig | null; // null表示已达到最高阶段
+  progress: number; // 0-1，当前阶段到下一阶段的进度
+  tokensToNext: number;
+}
+
+// 应用用户自定义的进化阈值；阶段顺序固定，乱序的阈值会被提升到前一阶段的阈值
+export function resolveEvolutionStages(
+  thresholds?: Partial<Record<EvolutionStage, number>>,
+  baseStages: readonly IEvolutionStageConfig[] = PET_CONFIG.EVOLUTION.STAGES
+): readonly IEvolutionStageConfig[] {
+  if (!thresholds) {
+    return baseStages;
+  }
+
+  let previousThreshold = 0;
+  return baseStages.map((stage, index) => {
+    const override = thresholds[stage.id];
+    const isValid = typeof override === 'number' && isFinite(override) && override >= 0;
+    // 第一阶段始终从0开始，保证任何宠物都有对应阶段
+    const requested = index === 0 ? 0 : (isValid ? override : stage.minLifetimeTokens);
+    const minLifetimeTokens = Math.max(requested, previousThreshold);
+    previousThreshold = minLifetimeTokens;
+
+    return minLifetimeTokens === stage.minLifetimeTokens ? stage : { ...stage, minLifetimeTokens };
+  });
+}
+
+export function getEvolutionStage(
+  lifetimeTokens: number,
+  stages: readonly IEvolutionStageConfig[] = PET_CONFIG.EVOLUTION.STAGES
+): IEvolutionStageConfig {
+  let current = stages[0];
+  for (const stage of stages) {
+    if (lifetimeTokens >= stage.minLifetimeTokens) {
+      current = stage;
+    }
+  }
+  return current;
+}
+
+export function getEvolutionProgress(
+  lifetimeTokens: number,
+  stages: readonly IEvolutionStageConfig[] = PET_CONFIG.EVOLUTION.STAGES
+): IEvolutionProgress {
+  const current = getEvolutionStage(lifetimeTokens, stages);
+  const next = stages.find(stage => stage.minLifetimeTokens > current.minLifetimeTokens) || null;
+
+  if (!next) {
+    return { current, next: null, progress: 1, tokensToNext: 0 };
+  }
+
+  const span = next.minLifetimeTokens - current.minLifetimeTokens;
+  const gained = Math.max(0, lifetimeTokens - current.minLifetimeTokens);
+
+  return {
+    current,
+    next,
+    progress: Math.min(1, gained / span),
+    tokensToNext: Math.max(0, next.minLifetimeTokens - lifetimeTokens)
+  };
+}
@@ -0,0 +1,85 @@
+import { PET_CONFIG } from './config';
+
+export type FeedTokenType = 'input' | 'output' | 'cacheCreation' | 'cacheRead';
+
+export const FEED_TOKEN_TYPES: readonly FeedTokenType[] = [
+  'input',
+  'output',
+  'cacheCreation',
+  'cacheRead'
+] as const;
+
+// 单个模型的token用量
+export interface ITokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+}
+
+export interface IFeedWeights {
+  tokenWeights: Record<FeedTokenType, number>;
+  modelMultipliers: Record<string, number>; // 按模型id前缀匹配，最长前缀优先
+}
+
+export function isFeedTokenType(value: unknown): value is FeedTokenType {
+  return typeof value === 'string' && FEED_TOKEN_TYPES.includes(value as FeedTokenType);
+}
+
+function isValidWeight(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value >= 0;
+}
+
+// 合并用户配置的权重，无效值回退到 PET_CONFIG 默认值
+export function resolveFeedWeights(
+  tokenWeights?: Partial<Record<FeedTokenType, number>>,
+  modelMultipliers?: Record<string, number>
+): IFeedWeights {
+  const defaults = PET_CONFIG.FEEDING.TOKEN_WEIGHTS;
+  const resolvedWeights = { ...defaults } as Record<FeedTokenType, number>;
+  for (const type of FEED_TOKEN_TYPES) {
+    const weight = tokenWeights?.[type];
+    if (isValidWeight(weight)) {
+      resolvedWeights[type] = weight;
+    }
+  }
+
+  const resolvedMultipliers: Record<string, number> = {};
+  for (const [model, multiplier] of Object.entries(modelMultipliers || {})) {
+    if (model && isValidWeight(multiplier)) {
+      resolvedMultipliers[model] = multiplier;
+    }
+  }
+
+  return { tokenWeights: resolvedWeights, modelMultipliers: resolvedMultipliers };
+}
+
+export function getModelMultiplier(model: string, weights: IFeedWeights): number {
+  let bestMatch = '';
+  for (const key of Object.keys(weights.modelMultipliers)) {
+    if (model.startsWith(key) && key.length > bestMatch.length) {
+      bestMatch = key;
+    }
+  }
+  return bestMatch ? weights.modelMultipliers[bestMatch] : 1;
+}
+
+// 按token类型权重和模型倍率计算实际喂食量
+export function calculateWeightedTokens(
+  usageByModel: Record<string, ITokenUsage>,
+  weights: IFeedWeights
+): number {
+  const { tokenWeights } = weights;
+  let weighted = 0;
+
+  for (const [model, usage] of Object.entries(usageByModel)) {
+    const modelTokens =
+      usage.inputTokens * tokenWeights.input +
+      usage.outputTokens * tokenWeights.output +
+      usage.cacheCreationTokens * tokenWeights.cacheCreation +
+      usage.cacheReadTokens * tokenWeights.cacheRead;
+    weighted += modelTokens * getModelMultiplier(model, weights);
+  }
+
+  return Math.round(weighted);
+}
@@ -0,0 +1,51 @@
+import { PET_CONFIG } from './config';
+
+// 濒死窗口：能量归零后，在窗口期内喂够复活额度即可复活（带惩罚），窗口过期后才移入墓地
+export interface IRevivalSettings {
+  windowHours: number; // 死亡后可复活的时长，0 表示不能复活（直接移入墓地）
+  quotaTokens: number; // 复活所需的（加权）喂食量
+  penaltyMaxEnergy: number; // 复活后的能量上限（1-100）
+  penaltyHours: number; // 能量上限惩罚持续的时长
+}
+
+export type RevivalSettingKey = keyof IRevivalSettings;
+
+export const REVIVAL_SETTING_KEYS: readonly RevivalSettingKey[] = [
+  'windowHours',
+  'quotaTokens',
+  'penaltyMaxEnergy',
+  'penaltyHours'
+] as const;
+
+export function isRevivalSettingKey(value: unknown): value is RevivalSettingKey {
+  return typeof value === 'string' && REVIVAL_SETTING_KEYS.includes(value as RevivalSettingKey);
+}
+
+export function isValidRevivalSetting(key: RevivalSettingKey, value: unknown): value is number {
+  if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+    return false;
+  }
+  if (key === 'windowHours') {
+    return true;
+  }
+  return value > 0 && (key !== 'penaltyMaxEnergy' || value <= 100);
+}
+
+// 合并用户配置，无效值回退到 PET_CONFIG.REVIVAL 默认值
+export function resolveRevivalSettings(overrides?: Partial<IRevivalSettings>): IRevivalSettings {
+  const defaults = PET_CONFIG.REVIVAL;
+  const settings: IRevivalSettings = {
+    windowHours: defaults.WINDOW_HOURS,
+    quotaTokens: defaults.QUOTA_TOKENS,
+    penaltyMaxEnergy: defaults.PENALTY_MAX_ENERGY,
+    penaltyHours: defaults.PENALTY_HOURS
+  };
+
+  for (const key of REVIVAL_SETTING_KEYS) {
+    const value = overrides?.[key];
+    if (isValidRevivalSetting(key, value)) {
+      settings[key] = value;
+    }
+  }
+  return settings;
+}
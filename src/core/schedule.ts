@@ -0,0 +1,138 @@
+import { PET_CONFIG } from './config';
+
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// config.json 中 pet.schedule 的格式
+export interface IDecayScheduleConfig {
+  weekdays?: Array<number | string>; // 0=周日 … 6=周六，也可写 'mon'、'Tuesday' 等
+  startHour?: number; // 本地时间，含
+  endHour?: number; // 本地时间，不含；小于 startHour 表示跨午夜
+  timeZone?: string; // IANA 时区，如 'Asia/Shanghai'，默认使用系统时区
+}
+
+export interface IDecaySchedule {
+  getScheduledMinutes(from: Date, to: Date): number;
+}
+
+interface ILocalTime {
+  weekday: number;
+  hour: number;
+  msIntoHour: number;
+}
+
+// 作息时间表：只有落在工作日的工作时段内的时间才计入衰减
+export class DecaySchedule implements IDecaySchedule {
+  private readonly formatter: Intl.DateTimeFormat;
+
+  constructor(
+    private readonly weekdays: ReadonlySet<number>,
+    private readonly startHour: number,
+    private readonly endHour: number,
+    timeZone?: string
+  ) {
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      ...(timeZone ? { timeZone } : {}),
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23'
+    });
+  }
+
+  // 按本地整点切分区间逐段累加，夏令时切换和多日间隔都能正确处理
+  public getScheduledMinutes(from: Date, to: Date): number {
+    const endMs = to.getTime();
+    let cursor = from.getTime();
+    let scheduledMs = 0;
+
+    while (cursor < endMs) {
+      const local = this.getLocalTime(cursor);
+      const nextBoundary = Math.min(endMs, cursor - local.msIntoHour + HOUR_MS);
+
+      if (this.isScheduledHour(local.weekday, local.hour)) {
+        scheduledMs += nextBoundary - cursor;
+      }
+      cursor = nextBoundary;
+    }
+
+    return scheduledMs / MINUTE_MS;
+  }
+
+  private isScheduledHour(weekday: number, hour: number): boolean {
+    if (!this.weekdays.has(weekday)) {
+      return false;
+    }
+    if (this.startHour <= this.endHour) {
+      return hour >= this.startHour && hour < this.endHour;
+    }
+    // 跨午夜的时段，例如 22 点到 6 点
+    return hour >= this.startHour || hour < this.endHour;
+  }
+
+  private getLocalTime(timestamp: number): ILocalTime {
+    const parts: Record<string, string> = {};
+    for (const part of this.formatter.formatToParts(new Date(timestamp))) {
+      parts[part.type] = part.value;
+    }
+
+    const weekday = WEEKDAY_NAMES.indexOf(parts.weekday.toLowerCase() as typeof WEEKDAY_NAMES[number]);
+    const minute = Number(parts.minute);
+    const second = Number(parts.second);
+
+    return {
+      weekday,
+      hour: Number(parts.hour),
+      msIntoHour: (minute * 60 + second) * 1000 + (timestamp % 1000 + 1000) % 1000
+    };
+  }
+}
+
+function parseWeekday(value: number | string): number | null {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value >= 0 && value <= 6 ? value : null;
+  }
+  const index = WEEKDAY_NAMES.indexOf(value.trim().slice(0, 3).toLowerCase() as typeof WEEKDAY_NAMES[number]);
+  return index === -1 ? null : index;
+}
+
+function hourOr(value: number | undefined, fallback: number): number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 24 ? value : fallback;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// 根据用户配置创建作息时间表，未配置时返回 undefined（全天候衰减）
+export function createDecaySchedule(config?: IDecayScheduleConfig): DecaySchedule | undefined {
+  if (!config) {
+    return undefined;
+  }
+
+  const defaults = PET_CONFIG.DECAY_SCHEDULE;
+  const weekdays = Array.isArray(config.weekdays)
+    ? config.weekdays.map(parseWeekday).filter((day): day is number => day !== null)
+    : [...defaults.WEEKDAYS];
+
+  let timeZone = config.timeZone;
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    console.error(`Invalid schedule time zone: ${timeZone}. Using system time zone.`);
+    timeZone = undefined;
+  }
+
+  return new DecaySchedule(
+    new Set(weekdays),
+    hourOr(config.startHour, defaults.START_HOUR),
+    hourOr(config.endHour, defaults.END_HOUR),
+    timeZone
+  );
+}
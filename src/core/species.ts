@@ -0,0 +1,129 @@
+import { ANIMAL_CONFIGS, PetMood } from './config';
+
+// 物种id：内置的 AnimalType 或用户自定义物种（config.json 的 species 或配置目录下的 species/*.json）
+export type SpeciesId = string;
+
+export interface ISpeciesConfig {
+  readonly id: SpeciesId;
+  readonly name: string; // 显示名称
+  readonly emoji: string;
+  readonly expressions?: Readonly<Partial<Record<PetMood, readonly string[]>>>; // 未定义的心情使用默认动画表情
+}
+
+// 用户在配置文件中填写的物种定义，id 缺省时使用配置键名或文件名
+export interface IUserSpeciesConfig {
+  id?: string;
+  name: string;
+  emoji: string;
+  expressions?: Partial<Record<PetMood, string[]>>;
+}
+
+const PET_MOODS: readonly PetMood[] = ['HAPPY', 'HUNGRY', 'SICK', 'DEAD'];
+const SPECIES_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const MAX_ID_LENGTH = 30;
+const MAX_NAME_LENGTH = 30;
+const MAX_EMOJI_LENGTH = 16; // 组合emoji（ZWJ序列）也能放下
+
+export const BUILTIN_SPECIES: readonly ISpeciesConfig[] = Object.values(ANIMAL_CONFIGS);
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+// 校验单个物种定义，无效时抛出说明原因的错误
+export function validateSpecies(id: string, raw: unknown): ISpeciesConfig {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Species definition must be an object.');
+  }
+
+  const definition = raw as Record<string, unknown>;
+  const speciesId = (typeof definition.id === 'string' ? definition.id : id).trim().toLowerCase();
+  if (!SPECIES_ID_PATTERN.test(speciesId) || speciesId.length > MAX_ID_LENGTH) {
+    throw new Error(`Invalid species id: ${speciesId || '(empty)'}. Use lowercase letters, digits, "-" or "_" (max ${MAX_ID_LENGTH}).`);
+  }
+  if (!isNonEmptyString(definition.name) || definition.name.trim().length > MAX_NAME_LENGTH) {
+    throw new Error(`Invalid species name. Must be a non-empty string of at most ${MAX_NAME_LENGTH} characters.`);
+  }
+  if (!isNonEmptyString(definition.emoji) || definition.emoji.trim().length > MAX_EMOJI_LENGTH) {
+    throw new Error('Invalid species emoji. Must be a non-empty string.');
+  }
+
+  const species: ISpeciesConfig = {
+    id: speciesId,
+    name: definition.name.trim(),
+    emoji: definition.emoji.trim()
+  };
+
+  if (definition.expressions === undefined) {
+    return species;
+  }
+
+  if (!definition.expressions || typeof definition.expressions !== 'object' || Array.isArray(definition.expressions)) {
+    throw new Error('Species expressions must be an object keyed by mood.');
+  }
+
+  const expressions: Partial<Record<PetMood, readonly string[]>> = {};
+  for (const [key, frames] of Object.entries(definition.expressions)) {
+    const mood = key.toUpperCase() as PetMood;
+    if (!PET_MOODS.includes(mood)) {
+      throw new Error(`Unknown mood: ${key}. Must be one of: ${PET_MOODS.join(', ')}`);
+    }
+    if (!Array.isArray(frames) || frames.length === 0 || !frames.every(isNonEmptyString)) {
+      throw new Error(`Invalid ${mood} frames. Must be a non-empty list of strings.`);
+    }
+    expressions[mood] = frames;
+  }
+
+  return { ...species, expressions };
+}
+
+export class SpeciesRegistry {
+  private readonly species = new Map<SpeciesId, ISpeciesConfig>();
+
+  // 同id的后者覆盖前者（可以为内置动物定制表情），但保留首次出现的顺序
+  constructor(species: readonly ISpeciesConfig[] = BUILTIN_SPECIES) {
+    for (const entry of species) {
+      this.species.set(entry.id, entry);
+    }
+  }
+
+  public get(id: SpeciesId): ISpeciesConfig | undefined {
+    return this.species.get(id);
+  }
+
+  public has(id: SpeciesId): boolean {
+    return this.species.has(id);
+  }
+
+  public getIds(): SpeciesId[] {
+    return [...this.species.keys()];
+  }
+
+  // 解析用户输入的物种（不区分大小写），无效时返回 undefined
+  public resolve(value: string): SpeciesId | undefined {
+    const normalized = value.trim().toLowerCase();
+    return this.species.has(normalized) ? normalized : undefined;
+  }
+}
+
+export const defaultSpeciesRegistry = new SpeciesRegistry();
+
+// 在内置动物之后加入用户定义的物种；无效的定义会被跳过并输出原因
+export function createSpeciesRegistry(
+  ...sources: Array<Record<string, unknown> | undefined>
+): SpeciesRegistry {
+  const species: ISpeciesConfig[] = [...BUILTIN_SPECIES];
+
+  for (const source of sources) {
+    for (const [id, definition] of Object.entries(source || {})) {
+      try {
+        species.push(validateSpecies(id, definition));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Skipping species "${id}": ${errorMessage}`);
+      }
+    }
+  }
+
+  return new SpeciesRegistry(species);
+}
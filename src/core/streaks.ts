@@ -0,0 +1,126 @@
+import { PET_CONFIG } from './config';
+import { isValidTimeZone } from './schedule';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// config.json 中 pet.streaks 的格式
+export interface IStreakConfig {
+  minDailyTokens?: number; // 当天喂食量（加权）达到此值才算连续喂食的一天
+  dailyGoal?: number; // 每日喂食目标
+  timeZone?: string; // IANA 时区，决定每天从何时开始；默认沿用 pet.schedule.timeZone，再退回系统时区
+}
+
+export interface IStreakSettings {
+  minDailyTokens: number;
+  dailyGoal: number;
+  calendar: DayCalendar;
+}
+
+// 保存在宠物状态中的连续喂食记录，日期均为用户时区下的 YYYY-MM-DD
+export interface IFeedingStreak {
+  day: string; // dayTokens 所属的日期
+  dayTokens: number;
+  current: number;
+  longest: number;
+  lastQualifiedDay?: string; // 最近一个达到 minDailyTokens 的日期
+}
+
+export interface IStreakStatus {
+  current: number; // 昨天和今天都没达标时已中断，显示为 0
+  longest: number;
+  todayTokens: number;
+  dailyGoal: number;
+  goalProgress: number; // 0-1
+}
+
+export type StreakSettingKey = keyof IStreakConfig;
+
+export const STREAK_SETTING_KEYS: readonly StreakSettingKey[] = ['minDailyTokens', 'dailyGoal', 'timeZone'] as const;
+
+export function isStreakSettingKey(value: unknown): value is StreakSettingKey {
+  return typeof value === 'string' && STREAK_SETTING_KEYS.includes(value as StreakSettingKey);
+}
+
+// 按用户时区把时间换算成日期，连续天数的判断都基于这里的日期
+export class DayCalendar {
+  private readonly formatter: Intl.DateTimeFormat;
+
+  constructor(timeZone?: string) {
+    this.formatter = new Intl.DateTimeFormat('en-US', {
+      ...(timeZone ? { timeZone } : {}),
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    });
+  }
+
+  public getDayKey(date: Date): string {
+    const parts: Record<string, string> = {};
+    for (const part of this.formatter.formatToParts(date)) {
+      parts[part.type] = part.value;
+    }
+    return `${parts.year}-${parts.month}-${parts.day}`;
+  }
+
+  // 日期本身与时区无关，按 UTC 计算前一天即可
+  public getPreviousDayKey(dayKey: string): string {
+    return new Date(Date.parse(`${dayKey}T00:00:00Z`) - DAY_MS).toISOString().slice(0, 10);
+  }
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+// 合并用户配置，无效值回退到 PET_CONFIG.STREAKS 默认值
+export function resolveStreakSettings(config?: IStreakConfig, fallbackTimeZone?: string): IStreakSettings {
+  const defaults = PET_CONFIG.STREAKS;
+
+  let timeZone = config?.timeZone ?? fallbackTimeZone;
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    console.error(`Invalid streak time zone: ${timeZone}. Using system time zone.`);
+    timeZone = undefined;
+  }
+
+  return {
+    minDailyTokens: isPositiveNumber(config?.minDailyTokens) ? config.minDailyTokens : defaults.MIN_DAILY_TOKENS,
+    dailyGoal: isPositiveNumber(config?.dailyGoal) ? config.dailyGoal : defaults.DAILY_GOAL_TOKENS,
+    calendar: new DayCalendar(timeZone)
+  };
+}
+
+// 把一次喂食计入当天，当天首次达标时延续或重新开始连续记录
+export function recordDailyFeeding(
+  streak: IFeedingStreak | undefined,
+  tokens: number,
+  now: Date,
+  settings: IStreakSettings
+): IFeedingStreak {
+  const today = settings.calendar.getDayKey(now);
+  const updated: IFeedingStreak = streak && streak.day === today
+    ? { ...streak, dayTokens: streak.dayTokens + tokens }
+    : { current: 0, longest: 0, ...streak, day: today, dayTokens: tokens };
+
+  if (updated.dayTokens >= settings.minDailyTokens && updated.lastQualifiedDay !== today) {
+    const continues = updated.lastQualifiedDay === settings.calendar.getPreviousDayKey(today);
+    updated.current = continues ? updated.current + 1 : 1;
+    updated.longest = Math.max(updated.longest, updated.current);
+    updated.lastQualifiedDay = today;
+  }
+  return updated;
+}
+
+export function getStreakStatus(streak: IFeedingStreak | undefined, now: Date, settings: IStreakSettings): IStreakStatus {
+  const today = settings.calendar.getDayKey(now);
+  const todayTokens = streak?.day === today ? streak.dayTokens : 0;
+  const alive = streak?.lastQualifiedDay === today
+    || streak?.lastQualifiedDay === settings.calendar.getPreviousDayKey(today);
+
+  return {
+    current: alive ? streak?.current ?? 0 : 0,
+    longest: streak?.longest ?? 0,
+    todayTokens,
+    dailyGoal: settings.dailyGoal,
+    goalProgress: Math.min(1, todayTokens / settings.dailyGoal)
+  };
+}
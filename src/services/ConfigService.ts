@@ -1,7 +1,26 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { validateLine1Items } from '../core/config';
+import { validateLine1Items, EvolutionStage } from '../core/config';
+import { DecayPolicyType, IDecayOptions, isDecayPolicyType, DECAY_POLICY_TYPES } from '../core/decay';
+import { IDecayScheduleConfig, isValidTimeZone } from '../core/schedule';
+import { FeedTokenType, isFeedTokenType, FEED_TOKEN_TYPES } from '../core/feeding';
+import { IUserSpeciesConfig } from '../core/species';
+import { IConditionSettings, isConditionSettingKey, isValidConditionSetting, CONDITION_SETTING_KEYS } from '../core/conditions';
+import { IRevivalSettings, isRevivalSettingKey, isValidRevivalSetting, REVIVAL_SETTING_KEYS } from '../core/revival';
+import {
+  DifficultyLevel,
+  IDifficultyOverrides,
+  isDifficultyLevel,
+  DIFFICULTY_LEVELS,
+  isDifficultyOverrideKey,
+  isValidDifficultyOverride,
+  DIFFICULTY_OVERRIDE_KEYS
+} from '../core/difficulty';
+import { IStreakConfig, isStreakSettingKey, STREAK_SETTING_KEYS } from '../core/streaks';
+import { writeFileAtomic, withFileLock } from './fileStore';
+import { getConfigDir } from './paths';
+import { IBackupConfig } from './backups';
 
 export interface UserConfig {
   colors: {
@@ -19,17 +38,38 @@ export interface UserConfig {
     contextPercentage?: string;
     contextPercentageUsable?: string;
     cost?: string;
+    stage?: string;
+    stageProgress?: string;
+    happiness?: string;
+    health?: string;
+    streak?: string;
+    dailyGoal?: string;
+    achievement?: string;
   };
   pet: {
     animationEnabled?: boolean;
-    decayRate?: number;
+    decayRate?: number; // 线性/宽限期策略的每分钟衰减能量
+    decayPolicy?: DecayPolicyType; // 'linear' | 'exponential' | 'stepped' | 'grace'
+    decayOptions?: IDecayOptions; // 各衰减策略的可调参数
+    schedule?: IDecayScheduleConfig; // 作息时间表，仅在工作时间内衰减；未设置时全天候衰减
     emojiEnabled?: boolean;
+    evolutionThresholds?: Partial<Record<EvolutionStage, number>>; // 覆盖默认进化阈值（终生token数）
+    feedWeights?: Partial<Record<FeedTokenType, number>>; // 各类token的喂食权重，默认缓存读取为 0.1
+    modelMultipliers?: Record<string, number>; // 按模型id前缀设置的喂食倍率
+    perProject?: boolean; // 按 workspace.project_dir 为每个项目饲养独立的宠物
+    inactiveDecayMultiplier?: number; // 名册中非活跃宠物的衰减倍率（0-1），默认 0.25
+    conditions?: Partial<IConditionSettings>; // 撑着/疲惫的阈值和恢复时间（分钟）
+    streaks?: IStreakConfig; // 连续喂食的达标量、每日目标和日期分界时区
+    revival?: Partial<IRevivalSettings>; // 濒死窗口（小时）、复活额度和复活后的能量上限惩罚
+    difficulty?: DifficultyLevel; // 难度预设：casual、normal（默认）、hard、hardcore
+    difficultyOverrides?: IDifficultyOverrides; // 逐项覆盖所选难度预设
   };
   display: {
     maxLines?: number; // 1-3, default 2
+    sprites?: boolean; // 在信息行左侧显示多行ASCII画像，行数不足时回退到单行表情
     line1?: {
       enabled?: boolean;
-      items?: string[]; // e.g., ['expression', 'energy-bar', 'energy-value', 'accumulated-tokens', 'lifetime-tokens', 'pet-name']
+      items?: string[]; // e.g., ['expression', 'energy-bar', 'energy-value', 'accumulated-tokens', 'lifetime-tokens', 'pet-name', 'stage', 'stage-progress', 'happiness', 'health', 'streak', 'daily-goal']
     };
     line2?: {
       enabled?: boolean;
@@ -40,6 +80,8 @@ export interface UserConfig {
       items?: string[]; // e.g., ['total'] or custom items
     };
   };
+  species?: Record<string, IUserSpeciesConfig>; // 自定义物种，键为物种id（也可放在配置目录下的 species/<id>.json）
+  backup?: IBackupConfig; // 每日自动快照和保留数量
 }
 
 const DEFAULT_CONFIG: UserConfig = {
@@ -57,11 +99,19 @@ const DEFAULT_CONFIG: UserConfig = {
     contextLength: '#00DDFF',
     contextPercentage: '#0099DD',
     contextPercentageUsable: '#90EE90',
-    cost: '#FFD700'
+    cost: '#FFD700',
+    stage: '#FFA500',
+    stageProgress: '#87CEEB',
+    happiness: '#FFB6C1',
+    health: '#FF6347',
+    streak: '#FF8C00',
+    dailyGoal: '#7FFFD4',
+    achievement: '#FFD700'
   },
   pet: {
     animationEnabled: true,
     decayRate: 0.0231,
+    decayPolicy: 'linear',
     emojiEnabled: true
   },
   display: {
@@ -81,7 +131,56 @@ const DEFAULT_CONFIG: UserConfig = {
   }
 };
 
-export class ConfigService {
+// 状态栏和格式化器只需要读取配置；嵌入到其他工具时可以传入 StaticConfigSource，不读写 config.json
+export interface IConfigSource {
+  getConfig(): UserConfig;
+}
+
+function mergeConfigWithDefaults(userConfig: Partial<UserConfig>): UserConfig {
+  return {
+    colors: {
+      ...DEFAULT_CONFIG.colors,
+      ...userConfig.colors
+    },
+    pet: {
+      ...DEFAULT_CONFIG.pet,
+      ...userConfig.pet
+    },
+    display: {
+      ...DEFAULT_CONFIG.display,
+      ...userConfig.display,
+      line1: {
+        ...DEFAULT_CONFIG.display.line1,
+        ...userConfig.display?.line1
+      },
+      line2: {
+        ...DEFAULT_CONFIG.display.line2,
+        ...userConfig.display?.line2
+      },
+      line3: {
+        ...DEFAULT_CONFIG.display.line3,
+        ...userConfig.display?.line3
+      }
+    },
+    ...(userConfig.species ? { species: userConfig.species } : {}),
+    ...(userConfig.backup ? { backup: userConfig.backup } : {})
+  };
+}
+
+// 固定的配置，未给出的字段使用默认值
+export class StaticConfigSource implements IConfigSource {
+  private readonly config: UserConfig;
+
+  constructor(config: Partial<UserConfig> = {}) {
+    this.config = mergeConfigWithDefaults(config);
+  }
+
+  getConfig(): UserConfig {
+    return this.config;
+  }
+}
+
+export class ConfigService implements IConfigSource {
   private readonly configDir: string;
   private readonly configFile: string;
   private cachedConfig: UserConfig | null = null;
@@ -93,8 +192,7 @@ export class ConfigService {
     } else {
       // Use different paths for test and production environments
       const isTest = process.env.NODE_ENV === 'test' || process.env.VITEST === 'true';
-      const configDirName = isTest ? '.claude-pet-test' : '.claude-pet';
-      this.configDir = path.join(os.homedir(), configDirName);
+      this.configDir = isTest ? path.join(os.homedir(), '.claude-pet-test') : getConfigDir();
       this.configFile = path.join(this.configDir, 'config.json');
     }
   }
@@ -135,90 +233,188 @@ export class ConfigService {
   }
 
   private mergeWithDefaults(userConfig: Partial<UserConfig>): UserConfig {
-    return {
-      colors: {
-        ...DEFAULT_CONFIG.colors,
-        ...userConfig.colors
-      },
-      pet: {
-        ...DEFAULT_CONFIG.pet,
-        ...userConfig.pet
-      },
-      display: {
-        ...DEFAULT_CONFIG.display,
-        ...userConfig.display,
-        line1: {
-          ...DEFAULT_CONFIG.display.line1,
-          ...userConfig.display?.line1
-        },
-        line2: {
-          ...DEFAULT_CONFIG.display.line2,
-          ...userConfig.display?.line2
-        },
-        line3: {
-          ...DEFAULT_CONFIG.display.line3,
-          ...userConfig.display?.line3
-        }
-      }
-    };
+    return mergeConfigWithDefaults(userConfig);
   }
 
   private saveConfig(config: UserConfig): void {
     this.ensureConfigDir();
-    fs.writeFileSync(this.configFile, JSON.stringify(config, null, 2), 'utf8');
+    writeFileAtomic(this.configFile, JSON.stringify(config, null, 2));
     this.cachedConfig = config;
   }
 
+  // 读改写事务：锁内丢弃缓存重新读取 config.json，修改后原子写回，避免覆盖其他进程刚保存的设置
+  private updateConfig(mutate: (config: UserConfig) => void): void {
+    withFileLock(this.configFile, () => {
+      this.cachedConfig = null;
+      const config = this.loadConfig();
+      mutate(config);
+      this.saveConfig(config);
+    });
+  }
+
   getConfig(): UserConfig {
     return this.loadConfig();
   }
 
   setColorConfig(key: keyof UserConfig['colors'], value: string): void {
-    const config = this.loadConfig();
-    config.colors[key] = value;
-    this.saveConfig(config);
+    this.updateConfig(config => {
+      config.colors[key] = value;
+    });
   }
 
-  setPetConfig(key: keyof UserConfig['pet'], value: boolean | number): void {
-    const config = this.loadConfig();
-    (config.pet as any)[key] = value;
-    this.saveConfig(config);
+  setPetConfig(key: keyof UserConfig['pet'], value: boolean | number | string): void {
+    if (key === 'decayPolicy' && !isDecayPolicyType(value)) {
+      throw new Error(`Invalid decay policy: ${value}. Must be one of: ${DECAY_POLICY_TYPES.join(', ')}`);
+    }
+    if (key === 'inactiveDecayMultiplier' && (typeof value !== 'number' || !(value >= 0 && value <= 1))) {
+      throw new Error(`Invalid inactive decay multiplier: ${value}. Must be a number between 0 and 1.`);
+    }
+    if (key === 'difficulty' && !isDifficultyLevel(value)) {
+      throw new Error(`Invalid difficulty: ${value}. Must be one of: ${DIFFICULTY_LEVELS.join(', ')}`);
+    }
+    
+    this.updateConfig(config => {
+      (config.pet as any)[key] = value;
+    });
   }
 
-  setDisplayConfig(key: string, value: any): void {
-    const config = this.loadConfig();
-    
-    if (key === 'maxLines') {
-      config.display.maxLines = Math.min(3, Math.max(1, Number(value)));
-    } else if (key === 'line1.enabled') {
-      config.display.line1!.enabled = Boolean(value);
-    } else if (key === 'line1.items') {
-      const items = Array.isArray(value) ? value : value.split(',').map((s: string) => s.trim());
-      const validatedItems = validateLine1Items(items);
-      
-      // Warn about invalid items
-      const invalidItems = items.filter((item: string) => !validatedItems.includes(item as any));
-      if (invalidItems.length > 0) {
-        console.warn(`Invalid line1 items ignored: ${invalidItems.join(', ')}`);
+  setFeedWeight(type: string, value: number): void {
+    if (!isFeedTokenType(type)) {
+      throw new Error(`Invalid token type: ${type}. Must be one of: ${FEED_TOKEN_TYPES.join(', ')}`);
+    }
+    if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+      throw new Error(`Invalid feed weight: ${value}. Must be a non-negative number.`);
+    }
+
+    this.updateConfig(config => {
+      config.pet.feedWeights = { ...config.pet.feedWeights, [type]: value };
+    });
+  }
+
+  setModelMultiplier(model: string, value: number): void {
+    if (!model) {
+      throw new Error('Model name is required.');
+    }
+    if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+      throw new Error(`Invalid model multiplier: ${value}. Must be a non-negative number.`);
+    }
+
+    this.updateConfig(config => {
+      config.pet.modelMultipliers = { ...config.pet.modelMultipliers, [model]: value };
+    });
+  }
+
+  setConditionSetting(key: string, value: number): void {
+    if (!isConditionSettingKey(key)) {
+      throw new Error(`Invalid condition setting: ${key}. Must be one of: ${CONDITION_SETTING_KEYS.join(', ')}`);
+    }
+    if (!isValidConditionSetting(value)) {
+      throw new Error(`Invalid value for ${key}: ${value}. Must be a positive number.`);
+    }
+
+    this.updateConfig(config => {
+      config.pet.conditions = { ...config.pet.conditions, [key]: value };
+    });
+  }
+
+  setStreakSetting(key: string, value: string | number): void {
+    if (!isStreakSettingKey(key)) {
+      throw new Error(`Invalid streak setting: ${key}. Must be one of: ${STREAK_SETTING_KEYS.join(', ')}`);
+    }
+    if (key === 'timeZone') {
+      if (typeof value !== 'string' || !isValidTimeZone(value)) {
+        throw new Error(`Invalid time zone: ${value}. Must be an IANA time zone such as Asia/Shanghai.`);
       }
-      
-      // Use default if no valid items
-      config.display.line1!.items = validatedItems.length > 0 ? validatedItems : ['expression', 'energy-bar', 'energy-value', 'accumulated-tokens', 'lifetime-tokens'];
-    } else if (key === 'line2.enabled') {
-      config.display.line2!.enabled = Boolean(value);
-    } else if (key === 'line2.items') {
-      config.display.line2!.items = Array.isArray(value) ? value : value.split(',').map((s: string) => s.trim());
-    } else if (key === 'line3.enabled') {
-      config.display.line3!.enabled = Boolean(value);
-    } else if (key === 'line3.items') {
-      config.display.line3!.items = Array.isArray(value) ? value : value.split(',').map((s: string) => s.trim());
+    } else if (typeof value !== 'number' || !isFinite(value) || value <= 0) {
+      throw new Error(`Invalid value for ${key}: ${value}. Must be a positive number.`);
     }
-    
-    this.saveConfig(config);
+
+    this.updateConfig(config => {
+      config.pet.streaks = { ...config.pet.streaks, [key]: value };
+    });
+  }
+
+  setRevivalSetting(key: string, value: number): void {
+    if (!isRevivalSettingKey(key)) {
+      throw new Error(`Invalid revival setting: ${key}. Must be one of: ${REVIVAL_SETTING_KEYS.join(', ')}`);
+    }
+    if (!isValidRevivalSetting(key, value)) {
+      const range = key === 'penaltyMaxEnergy' ? 'a number between 1 and 100'
+        : key === 'windowHours' ? 'a non-negative number' : 'a positive number';
+      throw new Error(`Invalid value for ${key}: ${value}. Must be ${range}.`);
+    }
+
+    this.updateConfig(config => {
+      config.pet.revival = { ...config.pet.revival, [key]: value };
+    });
+  }
+
+  setDifficultyOverride(key: string, value: number): void {
+    if (!isDifficultyOverrideKey(key)) {
+      throw new Error(`Invalid difficulty override: ${key}. Must be one of: ${DIFFICULTY_OVERRIDE_KEYS.join(', ')}`);
+    }
+    if (!isValidDifficultyOverride(key, value)) {
+      const range = key.endsWith('Threshold') ? 'a number between 1 and 100' : 'a positive number';
+      throw new Error(`Invalid value for ${key}: ${value}. Must be ${range}.`);
+    }
+
+    this.updateConfig(config => {
+      config.pet.difficultyOverrides = { ...config.pet.difficultyOverrides, [key]: value };
+    });
+  }
+
+  setBackupSetting(key: string, value: boolean | number): void {
+    if (key === 'daily') {
+      if (typeof value !== 'boolean') {
+        throw new Error(`Invalid value for daily: ${value}. Must be true or false.`);
+      }
+    } else if (key === 'retention') {
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+        throw new Error(`Invalid value for retention: ${value}. Must be a positive whole number.`);
+      }
+    } else {
+      throw new Error(`Invalid backup setting: ${key}. Must be one of: daily, retention`);
+    }
+
+    this.updateConfig(config => {
+      config.backup = { ...config.backup, [key]: value };
+    });
+  }
+
+  setDisplayConfig(key: string, value: any): void {
+    this.updateConfig(config => {
+      if (key === 'maxLines') {
+        config.display.maxLines = Math.min(3, Math.max(1, Number(value)));
+      } else if (key === 'sprites') {
+        config.display.sprites = Boolean(value);
+      } else if (key === 'line1.enabled') {
+        config.display.line1!.enabled = Boolean(value);
+      } else if (key === 'line1.items') {
+        const items = Array.isArray(value) ? value : value.split(',').map((s: string) => s.trim());
+        const validatedItems = validateLine1Items(items);
+
+        // Warn about invalid items
+        const invalidItems = items.filter((item: string) => !validatedItems.includes(item as any));
+        if (invalidItems.length > 0) {
+          console.warn(`Invalid line1 items ignored: ${invalidItems.join(', ')}`);
+        }
+
+        // Use default if no valid items
+        config.display.line1!.items = validatedItems.length > 0 ? validatedItems : ['expression', 'energy-bar', 'energy-value', 'accumulated-tokens', 'lifetime-tokens'];
+      } else if (key === 'line2.enabled') {
+        config.display.line2!.enabled = Boolean(value);
+      } else if (key === 'line2.items') {
+        config.display.line2!.items = Array.isArray(value) ? value : value.split(',').map((s: string) => s.trim());
+      } else if (key === 'line3.enabled') {
+        config.display.line3!.enabled = Boolean(value);
+      } else if (key === 'line3.items') {
+        config.display.line3!.items = Array.isArray(value) ? value : value.split(',').map((s: string) => s.trim());
+      }
+    });
   }
 
   resetConfig(): void {
-    this.saveConfig(DEFAULT_CONFIG);
+    withFileLock(this.configFile, () => this.saveConfig(DEFAULT_CONFIG));
   }
 
   listConfig(): string {
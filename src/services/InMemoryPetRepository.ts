@@ -0,0 +1,109 @@
+import { IPetState } from '../core/Pet';
+import { IClock, systemClock } from '../core/Clock';
+import { IJournalEntry } from './PetJournal';
+import { IPetRepository } from './PetRepository';
+import { GlobalTracker, ITokenTracker, advanceTracker } from '../utils/jsonl';
+
+// 不读写磁盘的存储后端；保存和读取时都复制一份，调用方修改返回的对象不会影响已保存的数据
+export class InMemoryPetRepository implements IPetRepository {
+  private state: IPetState | null = null;
+  private readonly roster = new Map<string, IPetState>();
+  private readonly graveyard: IPetState[] = [];
+  private readonly journals = new Map<string, IJournalEntry[]>();
+  private tracker: GlobalTracker | null = null;
+
+  constructor(initialState: IPetState | null = null, private readonly clock: IClock = systemClock) {
+    this.state = initialState && structuredClone(initialState);
+  }
+
+  public loadState(): IPetState | null {
+    return this.state && structuredClone(this.state);
+  }
+
+  public saveState(state: IPetState): void {
+    this.state = structuredClone(state);
+  }
+
+  public updateState(update: (current: IPetState | null) => IPetState): IPetState {
+    const next = update(this.loadState());
+    this.saveState(next);
+    return next;
+  }
+
+  // 与文件实现一致，按 uuid 排序
+  public listRosterPets(): IPetState[] {
+    return [...this.roster.keys()].sort().map(uuid => structuredClone(this.roster.get(uuid)!));
+  }
+
+  public saveRosterPet(state: IPetState): void {
+    this.roster.set(state.uuid, structuredClone(state));
+  }
+
+  public updateRosterPet(uuid: string, update: (current: IPetState) => IPetState): IPetState | null {
+    const current = this.roster.get(uuid);
+    if (!current) {
+      return null;
+    }
+    const next = update(structuredClone(current));
+    this.saveRosterPet(next);
+    return structuredClone(next);
+  }
+
+  public activateRosterPet(uuid: string): IPetState {
+    const target = this.roster.get(uuid);
+    if (!target) {
+      throw new Error(`Pet not found in roster: ${uuid}`);
+    }
+
+    this.roster.delete(uuid);
+    if (this.state) {
+      this.roster.set(this.state.uuid, this.state);
+    }
+    this.state = target;
+    return structuredClone(target);
+  }
+
+  public listGraveyardPets(): IPetState[] {
+    return this.graveyard.map(state => structuredClone(state));
+  }
+
+  public moveToGraveyard(currentState: IPetState): void {
+    this.graveyard.push(structuredClone(currentState));
+    this.state = null;
+    this.recordBurial(currentState.uuid);
+  }
+
+  public moveRosterPetToGraveyard(state: IPetState): void {
+    this.graveyard.push(structuredClone(state));
+    this.roster.delete(state.uuid);
+    this.recordBurial(state.uuid);
+  }
+
+  public countRaisedPets(): number {
+    return 1 + this.roster.size + this.graveyard.length;
+  }
+
+  public appendJournal(uuid: string, entry: IJournalEntry): void {
+    const entries = this.journals.get(uuid) ?? [];
+    entries.push(structuredClone(entry));
+    this.journals.set(uuid, entries);
+  }
+
+  public readJournal(uuid: string): IJournalEntry[] {
+    return (this.journals.get(uuid) ?? []).map(entry => structuredClone(entry));
+  }
+
+  // 与文件实现一致，移入墓地时在宠物日志末尾记下安葬
+  private recordBurial(uuid: string): void {
+    this.appendJournal(uuid, { timestamp: this.clock.now().toISOString(), type: 'buried' });
+  }
+
+  public getTokenTracker(): ITokenTracker {
+    return {
+      load: () => this.tracker && { ...this.tracker },
+      record: (lastProcessedTimestamp, processedTokens) => {
+        this.tracker = advanceTracker(this.tracker, lastProcessedTimestamp, processedTokens);
+      }
+    };
+  }
+}
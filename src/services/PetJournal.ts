@@ -0,0 +1,128 @@
+import { PetEvent } from '../core/Pet';
+import { IClock, systemClock } from '../core/Clock';
+import * as fs from 'fs';
+import * as path from 'path';
+import { getStateDir } from './paths';
+
+export interface IJournalEntry {
+  timestamp: string; // ISO 时间
+  type: string;
+  [key: string]: unknown;
+}
+
+// 宠物事件转换为日志条目，Date 时间戳写成 ISO 字符串
+export function createJournalEntry(event: PetEvent): IJournalEntry {
+  const { type, timestamp, ...data } = event;
+  return { timestamp: timestamp.toISOString(), type, ...data };
+}
+
+// 每只宠物一份追加写入的 NDJSON 日志，按大小轮转：<uuid>.ndjson → <uuid>.1.ndjson → …
+export class PetJournal {
+  private readonly MAX_FILE_BYTES = 1024 * 1024;
+  private readonly MAX_ROTATED_FILES = 3;
+  private journalDir: string;
+
+  constructor(private readonly clock: IClock = systemClock) {
+    this.journalDir = path.join(getStateDir(), 'journal');
+  }
+
+  public recordEvent(uuid: string, event: PetEvent): void {
+    this.append(uuid, createJournalEntry(event));
+  }
+
+  public record(uuid: string, type: string, data: Record<string, unknown> = {}): void {
+    this.append(uuid, { timestamp: this.clock.now().toISOString(), type, ...data });
+  }
+
+  public getJournalPath(uuid: string): string {
+    return path.join(this.journalDir, this._getFileName(uuid, 0));
+  }
+
+  // 按从旧到新的顺序返回现有的日志文件
+  public getJournalFiles(uuid: string): string[] {
+    const files: string[] = [];
+    for (let generation = this.MAX_ROTATED_FILES; generation >= 0; generation--) {
+      const filePath = path.join(this.journalDir, this._getFileName(uuid, generation));
+      if (fs.existsSync(filePath)) {
+        files.push(filePath);
+      }
+    }
+    return files;
+  }
+
+  public readEntries(uuid: string): IJournalEntry[] {
+    const entries: IJournalEntry[] = [];
+    for (const filePath of this.getJournalFiles(uuid)) {
+      try {
+        const lines = fs.readFileSync(filePath, 'utf8').split('\n');
+        for (const line of lines) {
+          if (!line.trim()) {
+            continue;
+          }
+          try {
+            entries.push(JSON.parse(line));
+          } catch {
+            // 跳过写入中断导致的残缺行
+          }
+        }
+      } catch (error) {
+        console.error('Failed to read pet journal:', error);
+      }
+    }
+    return entries;
+  }
+
+  // 将日志（含轮转文件）复制到目标目录，例如墓地中的宠物文件夹
+  public copyTo(uuid: string, targetDir: string): void {
+    try {
+      for (let generation = this.MAX_ROTATED_FILES; generation >= 0; generation--) {
+        const fileName = this._getFileName(uuid, generation);
+        const source = path.join(this.journalDir, fileName);
+        if (fs.existsSync(source)) {
+          fs.copyFileSync(source, path.join(targetDir, fileName));
+        }
+      }
+    } catch (error) {
+      console.error('Failed to copy pet journal:', error);
+    }
+  }
+
+  public append(uuid: string, entry: IJournalEntry): void {
+    try {
+      if (!fs.existsSync(this.journalDir)) {
+        fs.mkdirSync(this.journalDir, { recursive: true });
+      }
+
+      const line = JSON.stringify(entry) + '\n';
+      this._rotateIfNeeded(uuid, Buffer.byteLength(line, 'utf8'));
+      fs.appendFileSync(this.getJournalPath(uuid), line, 'utf8');
+    } catch (error) {
+      console.error('Failed to write pet journal:', error);
+    }
+  }
+
+  private _rotateIfNeeded(uuid: string, incomingBytes: number): void {
+    const current = this.getJournalPath(uuid);
+    if (!fs.existsSync(current) || fs.statSync(current).size + incomingBytes <= this.MAX_FILE_BYTES) {
+      return;
+    }
+
+    const pathFor = (generation: number) => path.join(this.journalDir, this._getFileName(uuid, generation));
+    const oldest = pathFor(this.MAX_ROTATED_FILES);
+    if (fs.existsSync(oldest)) {
+      fs.unlinkSync(oldest);
+    }
+    for (let generation = this.MAX_ROTATED_FILES - 1; generation >= 1; generation--) {
+      if (fs.existsSync(pathFor(generation))) {
+        fs.renameSync(pathFor(generation), pathFor(generation + 1));
+      }
+    }
+    fs.renameSync(current, pathFor(1));
+  }
+
+  private _getFileName(uuid: string, generation: number): string {
+    // uuid 来自状态文件，清理后再用作文件名
+    const safeUuid = uuid.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return generation === 0 ? `${safeUuid}.ndjson` : `${safeUuid}.${generation}.ndjson`;
+  }
+}
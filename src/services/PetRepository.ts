@@ -0,0 +1,33 @@
+import { IPetState } from '../core/Pet';
+import { IJournalEntry } from './PetJournal';
+import { ITokenTracker } from '../utils/jsonl';
+
+// 宠物数据的存储后端：PetStorage 保存为 JSON 文件，InMemoryPetRepository 只保存在内存中（测试和嵌入到其他工具时使用）
+export interface IPetRepository {
+  // 活跃宠物；没有时为 null
+  loadState(): IPetState | null;
+  saveState(state: IPetState): void;
+  // 读改写事务：基于最新保存的状态（没有时为 null）计算并保存新状态，并发调用不会互相覆盖
+  updateState(update: (current: IPetState | null) => IPetState): IPetState;
+
+  // 非活跃宠物名册
+  listRosterPets(): IPetState[];
+  saveRosterPet(state: IPetState): void;
+  // 读改写名册中的一只宠物；宠物已不在名册中（例如刚被其他会话切换为活跃宠物）时不写入并返回 null
+  updateRosterPet(uuid: string, update: (current: IPetState) => IPetState): IPetState | null;
+  // 当前活跃宠物移入名册，目标宠物成为活跃宠物；名册中没有该宠物时抛出错误
+  activateRosterPet(uuid: string): IPetState;
+
+  listGraveyardPets(): IPetState[];
+  // 移入墓地并在宠物日志末尾记下 buried；活跃宠物移走后 loadState 返回 null
+  moveToGraveyard(currentState: IPetState): void;
+  moveRosterPetToGraveyard(state: IPetState): void;
+  // 养过的宠物总数：活跃宠物、名册和墓地合计
+  countRaisedPets(): number;
+
+  appendJournal(uuid: string, entry: IJournalEntry): void;
+  readJournal(uuid: string): IJournalEntry[]; // 按写入顺序返回
+
+  // 已喂给这些宠物的 transcript 进度，与宠物状态保存在一起
+  getTokenTracker(): ITokenTracker;
+}
@@ -1,32 +1,217 @@
 import { IPetState } from '../core/Pet';
-import { AnimalType, PET_CONFIG, generateRandomPetName } from '../core/config';
-import { v4 as uuidv4 } from 'uuid';
+import { PET_CONFIG } from '../core/config';
+import { IClock, systemClock } from '../core/Clock';
+import { IRandom, systemRandom } from '../core/Random';
+import { PetJournal, IJournalEntry } from './PetJournal';
+import { IPetRepository } from './PetRepository';
+import { writeFileAtomic, withFileLock } from './fileStore';
+import { CURRENT_SCHEMA_VERSION, assertSupportedSchema, getSchemaVersion, migrateState } from './stateMigrations';
+import { getStateDir } from './paths';
+import { ITokenTracker, FileTokenTracker } from '../utils/jsonl';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 
-export class PetStorage {
+// JSON 文件存储后端：活跃宠物保存在 pet-state.json，其余宠物保存在 roster/<uuid>.json，日志由 PetJournal 写入
+export class PetStorage implements IPetRepository {
   private stateFilePath: string;
+  private rosterDir: string;
+  private trackerFilePath: string;
 
-  constructor() {
-    // Store pet state in user's home directory under .claude-pet
-    const homeDir = os.homedir();
-    const petDir = path.join(homeDir, '.claude-pet');
+  constructor(
+    private readonly clock: IClock = systemClock,
+    private readonly random: IRandom = systemRandom,
+    private readonly journal: PetJournal = new PetJournal(clock),
+    petDir: string = getStateDir() // 项目宠物使用 projects/<key> 目录
+  ) {
     this.stateFilePath = path.join(petDir, 'pet-state.json');
+    this.rosterDir = path.join(petDir, 'roster');
+    this.trackerFilePath = path.join(petDir, 'global-tracker.json');
     
     // Ensure directory exists
     this.ensureDirectoryExists(petDir);
   }
 
   public loadState(): IPetState | null {
+    return this._readStateFile(this.stateFilePath);
+  }
+
+  public saveState(state: IPetState): void {
+    try {
+      const data = this._serialize(state);
+      withFileLock(this.stateFilePath, () => writeFileAtomic(this.stateFilePath, data));
+    } catch (error) {
+      console.error('Failed to save pet state:', error);
+    }
+  }
+
+  // 读改写事务：锁内读取磁盘上的最新状态（没有时为 null），保存 update 返回的状态；多个会话同时喂食时不会互相覆盖
+  public updateState(update: (current: IPetState | null) => IPetState): IPetState {
+    return withFileLock(this.stateFilePath, () => {
+      const next = update(this.loadState());
+      writeFileAtomic(this.stateFilePath, this._serialize(next));
+      return next;
+    });
+  }
+
+  // 返回所有非活跃宠物
+  public listRosterPets(): IPetState[] {
     try {
-      if (!fs.existsSync(this.stateFilePath)) {
+      if (!fs.existsSync(this.rosterDir)) {
+        return [];
+      }
+
+      const pets: IPetState[] = [];
+      for (const fileName of fs.readdirSync(this.rosterDir).sort()) {
+        if (!fileName.endsWith('.json')) {
+          continue;
+        }
+        const state = this._readStateFile(path.join(this.rosterDir, fileName));
+        if (state) {
+          pets.push(state);
+        }
+      }
+      return pets;
+    } catch (error) {
+      console.error('Failed to list pet roster:', error);
+      return [];
+    }
+  }
+
+  // 墓地中的宠物，与活跃宠物走同一套版本检查和迁移；较新版本写入的记录会被跳过
+  public listGraveyardPets(): IPetState[] {
+    const graveyardDir = this._getGraveyardDir();
+    try {
+      if (!fs.existsSync(graveyardDir)) {
+        return [];
+      }
+
+      const pets: IPetState[] = [];
+      for (const dirName of fs.readdirSync(graveyardDir).sort()) {
+        if (dirName.startsWith('.')) {
+          continue;
+        }
+        const statePath = path.join(graveyardDir, dirName, 'pet-state.json');
+        try {
+          const state = this._readStateFile(statePath);
+          if (state) {
+            pets.push(state);
+          }
+        } catch (error) {
+          console.error(`Skipping graveyard record ${dirName}:`, error instanceof Error ? error.message : error);
+        }
+      }
+      return pets;
+    } catch (error) {
+      console.error('Failed to list graveyard:', error);
+      return [];
+    }
+  }
+
+  // 养过的宠物总数：活跃宠物、名册中的宠物以及墓地中的宠物
+  public countRaisedPets(): number {
+    const countEntries = (dirPath: string, predicate: (fileName: string) => boolean): number => {
+      try {
+        return fs.existsSync(dirPath) ? fs.readdirSync(dirPath).filter(predicate).length : 0;
+      } catch (error) {
+        console.error('Failed to count pets:', error);
+        return 0;
+      }
+    };
+
+    return 1
+      + countEntries(this.rosterDir, fileName => fileName.endsWith('.json'))
+      + countEntries(this._getGraveyardDir(), fileName => !fileName.startsWith('.'));
+  }
+
+  // 名册的读写与切换活跃宠物共用 pet-state.json 的锁，切换时不会把刚移走的名册文件写回
+  public saveRosterPet(state: IPetState): void {
+    try {
+      withFileLock(this.stateFilePath, () => {
+        this.ensureDirectoryExists(this.rosterDir);
+        writeFileAtomic(this._getRosterPath(state.uuid), this._serialize(state));
+      });
+    } catch (error) {
+      console.error('Failed to save roster pet:', error);
+    }
+  }
+
+  public updateRosterPet(uuid: string, update: (current: IPetState) => IPetState): IPetState | null {
+    return withFileLock(this.stateFilePath, () => {
+      const rosterPath = this._getRosterPath(uuid);
+      const current = this._readStateFile(rosterPath);
+      if (!current) {
         return null;
       }
+      const next = update(current);
+      writeFileAtomic(rosterPath, this._serialize(next));
+      return next;
+    });
+  }
+
+  // 切换活跃宠物：当前活跃宠物先写入名册，再把目标宠物移到 pet-state.json
+  public activateRosterPet(uuid: string): IPetState {
+    const rosterPath = this._getRosterPath(uuid);
+    return withFileLock(this.stateFilePath, () => {
+      const target = this._readStateFile(rosterPath);
+      if (!target) {
+        throw new Error(`Pet not found in roster: ${uuid}`);
+      }
+
+      const current = this.loadState();
+      if (current) {
+        this.ensureDirectoryExists(this.rosterDir);
+        writeFileAtomic(this._getRosterPath(current.uuid), this._serialize(current));
+      }
+      fs.renameSync(rosterPath, this.stateFilePath);
+      return target;
+    });
+  }
+
+  public moveToGraveyard(currentState: IPetState): void {
+    this._moveToGraveyard(currentState, this.stateFilePath);
+  }
+
+  public moveRosterPetToGraveyard(state: IPetState): void {
+    withFileLock(this.stateFilePath, () => this._moveToGraveyard(state, this._getRosterPath(state.uuid)));
+  }
+
+  public appendJournal(uuid: string, entry: IJournalEntry): void {
+    this.journal.append(uuid, entry);
+  }
+
+  public readJournal(uuid: string): IJournalEntry[] {
+    return this.journal.readEntries(uuid);
+  }
+
+  // 与 pet-state.json 放在同一目录，项目宠物各自有一份
+  public getTokenTracker(): ITokenTracker {
+    return new FileTokenTracker(this.trackerFilePath);
+  }
+
+  // 读取状态文件：检查版本、备份后执行迁移，再还原 Date 字段；较新版本写入的文件直接抛出错误，以免被当作无效文件覆盖
+  private _readStateFile(filePath: string): IPetState | null {
+    let parsed: any;
+    try {
+      if (!fs.existsSync(filePath)) {
+        return null;
+      }
+
+      const data = fs.readFileSync(filePath, 'utf8');
+      parsed = JSON.parse(data);
+    } catch (error) {
+      console.error('Failed to load pet state:', error);
+      return null;
+    }
+
+    assertSupportedSchema(parsed, filePath);
+
+    try {
+      const fromVersion = getSchemaVersion(parsed);
+      if (fromVersion < CURRENT_SCHEMA_VERSION) {
+        this._backupBeforeMigration(filePath, fromVersion);
+      }
+      migrateState(parsed, { clock: this.clock, random: this.random });
 
-      const data = fs.readFileSync(this.stateFilePath, 'utf8');
-      const parsed = JSON.parse(data);
-      
       // Convert lastFeedTime back to Date object
       if (parsed.lastFeedTime) {
         parsed.lastFeedTime = new Date(parsed.lastFeedTime);
@@ -42,46 +227,67 @@ export class PetStorage {
         parsed.birthTime = new Date(parsed.birthTime);
       }
       
-      // Handle backward compatibility - add totalLifetimeTokens if missing
-      if (parsed.totalLifetimeTokens === undefined) {
-        parsed.totalLifetimeTokens = parsed.totalTokensConsumed || 0;
+      // Convert stage-up timestamps back to Date objects
+      if (Array.isArray(parsed.stageHistory)) {
+        parsed.stageHistory = parsed.stageHistory.map((record: any) => ({
+          ...record,
+          reachedAt: new Date(record.reachedAt)
+        }));
       }
       
-      // Handle backward compatibility - add animalType if missing
-      if (parsed.animalType === undefined) {
-        // 为现有用户分配默认动物类型
-        parsed.animalType = PET_CONFIG.ANIMAL.DEFAULT_TYPE;
-        console.log(`Migrating existing pet to default animal type: ${parsed.animalType}`);
+      // Convert sleep timestamps back to Date objects
+      if (parsed.sleep) {
+        parsed.sleep.since = new Date(parsed.sleep.since);
+        if (parsed.sleep.until) {
+          parsed.sleep.until = new Date(parsed.sleep.until);
+        }
       }
-      
-      // 验证动物类型是否有效
-      if (!Object.values(AnimalType).includes(parsed.animalType)) {
-        console.warn(`Invalid animal type found: ${parsed.animalType}, using default`);
-        parsed.animalType = PET_CONFIG.ANIMAL.DEFAULT_TYPE;
+      if (Array.isArray(parsed.sleepHistory)) {
+        parsed.sleepHistory = parsed.sleepHistory.map((interval: any) => ({
+          start: new Date(interval.start),
+          end: new Date(interval.end)
+        }));
       }
       
-      // Handle backward compatibility - add birthTime if missing
-      if (parsed.birthTime === undefined) {
-        // For existing pets without birthTime, use lastFeedTime as fallback
-        // This provides a reasonable estimate of when the pet was "born"
-        parsed.birthTime = parsed.lastFeedTime || new Date();
-        console.log(`Adding birthTime for existing pet: ${parsed.birthTime.toISOString()}`);
+      // Convert rename timestamps back to Date objects
+      if (Array.isArray(parsed.nameHistory)) {
+        parsed.nameHistory = parsed.nameHistory.map((record: any) => ({
+          ...record,
+          changedAt: new Date(record.changedAt)
+        }));
       }
       
-      // Handle backward compatibility - add petName if missing or empty
-      if (parsed.petName === undefined || parsed.petName === '') {
-        // Generate a random name for existing pets without names or with empty names
-        parsed.petName = generateRandomPetName();
-        console.log(`Adding petName for existing pet: ${parsed.petName}`);
+      // Convert achievement unlock times back to Date objects
+      if (parsed.achievements) {
+        for (const id of Object.keys(parsed.achievements)) {
+          parsed.achievements[id] = new Date(parsed.achievements[id]);
+        }
       }
       
-      // Handle backward compatibility - add uuid if missing
-      if (parsed.uuid === undefined) {
-        // Generate a uuid for existing pets without uuid
-        parsed.uuid = uuidv4();
-        console.log(`Adding uuid for existing pet: ${parsed.uuid}`);
+      // Convert condition recovery times and the feeding window back to Date objects
+      if (parsed.conditions) {
+        for (const condition of Object.keys(parsed.conditions)) {
+          parsed.conditions[condition] = new Date(parsed.conditions[condition]);
+        }
       }
-      
+      if (parsed.feedingWindow) {
+        parsed.feedingWindow.since = new Date(parsed.feedingWindow.since);
+      }
+
+      // Convert the revival window and energy cap back to Date objects
+      if (parsed.critical) {
+        parsed.critical.since = new Date(parsed.critical.since);
+      }
+      if (parsed.energyCap) {
+        parsed.energyCap.until = new Date(parsed.energyCap.until);
+      }
+
+      // 验证动物类型是否有效；未知的物种id保留原样（可能是尚未加载或已删除的自定义物种），显示时回退到默认emoji
+      if (typeof parsed.animalType !== 'string' || !parsed.animalType.trim()) {
+        console.warn(`Invalid animal type found: ${parsed.animalType}, using default`);
+        parsed.animalType = PET_CONFIG.ANIMAL.DEFAULT_TYPE;
+      }
+
       return parsed as IPetState;
     } catch (error) {
       console.error('Failed to load pet state:', error);
@@ -89,16 +295,19 @@ export class PetStorage {
     }
   }
 
-  public saveState(state: IPetState): void {
+  // 升级前保留原始文件，每个旧版本只备份一次
+  private _backupBeforeMigration(filePath: string, fromVersion: number): void {
+    const backupPath = `${filePath}.v${fromVersion}.pre-migration`;
     try {
-      const data = JSON.stringify(state, null, 2);
-      fs.writeFileSync(this.stateFilePath, data, 'utf8');
+      if (!fs.existsSync(backupPath)) {
+        fs.copyFileSync(filePath, backupPath);
+      }
     } catch (error) {
-      console.error('Failed to save pet state:', error);
+      console.error('Failed to back up pet state before migration:', error);
     }
   }
 
-  public moveToGraveyard(currentState: IPetState): void {
+  private _moveToGraveyard(currentState: IPetState, sourcePath: string): void {
     try {
       // Ensure graveyard directory exists
       const graveyardDir = this._getGraveyardDir();
@@ -111,7 +320,11 @@ export class PetStorage {
       const graveyardStatePath = path.join(petGraveyardDir, 'pet-state.json');
 
       // Atomic operation: save to graveyard then clear current state
-      this._atomicMoveToGraveyard(currentState, graveyardStatePath);
+      withFileLock(sourcePath, () => this._atomicMoveToGraveyard(currentState, graveyardStatePath, sourcePath));
+
+      // 先记下安葬再复制日志，墓地中的日志包含宠物的最后一条记录
+      this.journal.record(currentState.uuid, 'buried');
+      this.journal.copyTo(currentState.uuid, petGraveyardDir);
 
     } catch (error) {
       console.error('Failed to move pet to graveyard:', error);
@@ -121,6 +334,11 @@ export class PetStorage {
 
 
 
+  // 写入时标记当前的 schemaVersion，加载时据此决定需要执行哪些迁移
+  private _serialize(state: IPetState): string {
+    return JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, ...state }, null, 2);
+  }
+
   private ensureDirectoryExists(dirPath: string): void {
     try {
       if (!fs.existsSync(dirPath)) {
@@ -131,10 +349,14 @@ export class PetStorage {
     }
   }
 
+  private _getRosterPath(uuid: string): string {
+    // uuid 来自状态文件，清理后再用作文件名
+    return path.join(this.rosterDir, `${uuid.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+  }
+
   private _getGraveyardDir(): string {
-    const homeDir = os.homedir();
-    const petDir = path.join(homeDir, '.claude-pet');
-    return path.join(petDir, 'graveyard');
+    // 项目宠物也埋在全局墓地
+    return path.join(getStateDir(), 'graveyard');
   }
 
   private _createPetGraveyardDir(petName: string, graveyardDir: string): string {
@@ -168,19 +390,18 @@ export class PetStorage {
       .substring(0, 100); // Limit length to prevent filesystem issues
   }
 
-  private _atomicMoveToGraveyard(currentState: IPetState, graveyardStatePath: string): void {
+  private _atomicMoveToGraveyard(currentState: IPetState, graveyardStatePath: string, sourcePath: string): void {
     let backupPath: string | null = null;
     
     try {
       // Step 1: Create backup of current state if it exists
-      if (fs.existsSync(this.stateFilePath)) {
-        backupPath = `${this.stateFilePath}.backup.${Date.now()}`;
-        fs.copyFileSync(this.stateFilePath, backupPath);
+      if (fs.existsSync(sourcePath)) {
+        backupPath = `${sourcePath}.backup.${this.clock.now().getTime()}`;
+        fs.copyFileSync(sourcePath, backupPath);
       }
 
       // Step 2: Save current state to graveyard
-      const graveyardData = JSON.stringify(currentState, null, 2);
-      fs.writeFileSync(graveyardStatePath, graveyardData, 'utf8');
+      writeFileAtomic(graveyardStatePath, this._serialize(currentState));
 
       // Step 3: Verify graveyard file was written correctly
       if (!fs.existsSync(graveyardStatePath)) {
@@ -188,8 +409,8 @@ export class PetStorage {
       }
 
       // Step 4: Remove current state file (pet has been moved to graveyard)
-      if (fs.existsSync(this.stateFilePath)) {
-        fs.unlinkSync(this.stateFilePath);
+      if (fs.existsSync(sourcePath)) {
+        fs.unlinkSync(sourcePath);
       }
 
       // Step 5: Clean up backup file on success
@@ -199,16 +420,16 @@ export class PetStorage {
 
     } catch (error) {
       // Rollback mechanism: restore from backup if it exists
-      this._recoverFromStorageFailure(backupPath, error);
+      this._recoverFromStorageFailure(backupPath, sourcePath, error);
       throw error;
     }
   }
 
-  private _recoverFromStorageFailure(backupPath: string | null, originalError: unknown): void {
+  private _recoverFromStorageFailure(backupPath: string | null, sourcePath: string, originalError: unknown): void {
     try {
       if (backupPath && fs.existsSync(backupPath)) {
         // Restore original state file from backup
-        fs.copyFileSync(backupPath, this.stateFilePath);
+        fs.copyFileSync(backupPath, sourcePath);
         fs.unlinkSync(backupPath);
         console.log('Successfully recovered pet state from backup after storage failure');
       }
@@ -34,6 +34,12 @@ describe('ConfigService Display Configuration', () => {
     expect(config.display.maxLines).toBe(3);
   });
 
+  it('should toggle sprites', () => {
+    configService.setDisplayConfig('sprites', true);
+    
+    expect(configService.getConfig().display.sprites).toBe(true);
+  });
+
   it('should clamp maxLines between 1 and 3', () => {
     // Test upper bound
     configService.setDisplayConfig('maxLines', '5');
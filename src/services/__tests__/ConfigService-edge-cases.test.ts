@@ -340,4 +340,144 @@ describe('ConfigService Edge Cases', () => {
       expect(merged.colors.nested).toEqual({ deep: { value: 'should not break' } });
     });
   });
-});
\ No newline at end of file
+
+  describe('pet decay policy', () => {
+    it('should persist a valid decay policy', () => {
+      configService.setPetConfig('decayPolicy', 'stepped');
+
+      expect(configService.getConfig().pet.decayPolicy).toBe('stepped');
+    });
+
+    it('should reject an unknown decay policy without saving', () => {
+      const before = configService.getConfig().pet.decayPolicy;
+
+      expect(() => configService.setPetConfig('decayPolicy', 'sudden')).toThrow('Invalid decay policy');
+      expect(configService.getConfig().pet.decayPolicy).toBe(before);
+    });
+  });
+
+  describe('inactive decay multiplier', () => {
+    it('should accept multipliers between 0 and 1', () => {
+      configService.setPetConfig('inactiveDecayMultiplier', 0.5);
+
+      expect(configService.getConfig().pet.inactiveDecayMultiplier).toBe(0.5);
+    });
+
+    it('should reject multipliers outside 0-1', () => {
+      expect(() => configService.setPetConfig('inactiveDecayMultiplier', 2)).toThrow('Invalid inactive decay multiplier');
+      expect(() => configService.setPetConfig('inactiveDecayMultiplier', 'slow')).toThrow('Invalid inactive decay multiplier');
+    });
+  });
+
+  describe('feed weights', () => {
+    it('should persist a weight for a known token type', () => {
+      configService.setFeedWeight('cacheRead', 0.25);
+
+      expect(configService.getConfig().pet.feedWeights?.cacheRead).toBe(0.25);
+    });
+
+    it('should reject unknown token types and negative weights', () => {
+      expect(() => configService.setFeedWeight('cached', 1)).toThrow('Invalid token type: cached');
+      expect(() => configService.setFeedWeight('input', -1)).toThrow('Invalid feed weight');
+    });
+
+    it('should persist model multipliers keyed by model prefix', () => {
+      configService.setModelMultiplier('claude-opus', 2);
+
+      expect(configService.getConfig().pet.modelMultipliers).toEqual(expect.objectContaining({ 'claude-opus': 2 }));
+      expect(() => configService.setModelMultiplier('claude-haiku', NaN)).toThrow('Invalid model multiplier');
+    });
+  });
+
+  describe('condition settings', () => {
+    it('should persist a condition threshold', () => {
+      configService.setConditionSetting('overfedRecoveryMinutes', 45);
+
+      expect(configService.getConfig().pet.conditions).toEqual(expect.objectContaining({ overfedRecoveryMinutes: 45 }));
+    });
+
+    it('should reject unknown settings and non-positive values', () => {
+      expect(() => configService.setConditionSetting('sleepyMinutes', 10)).toThrow('Invalid condition setting: sleepyMinutes');
+      expect(() => configService.setConditionSetting('exhaustedSessionMinutes', 0)).toThrow('Must be a positive number');
+    });
+  });
+
+  describe('streak settings', () => {
+    it('should persist the daily goal and time zone', () => {
+      configService.setStreakSetting('dailyGoal', 500000);
+      configService.setStreakSetting('timeZone', 'Europe/Berlin');
+
+      expect(configService.getConfig().pet.streaks).toEqual(expect.objectContaining({ dailyGoal: 500000, timeZone: 'Europe/Berlin' }));
+    });
+
+    it('should reject unknown settings, invalid time zones and non-positive goals', () => {
+      expect(() => configService.setStreakSetting('weeklyGoal', 1)).toThrow('Invalid streak setting: weeklyGoal');
+      expect(() => configService.setStreakSetting('timeZone', 'Mars/Olympus')).toThrow('Invalid time zone: Mars/Olympus');
+      expect(() => configService.setStreakSetting('minDailyTokens', 0)).toThrow('Must be a positive number');
+    });
+  });
+
+  describe('concurrent updates', () => {
+    it('should keep settings saved by another process since the config was cached', () => {
+      const otherProcess = new ConfigService();
+      configService.getConfig();
+
+      otherProcess.setPetConfig('emojiEnabled', false);
+      configService.setPetConfig('animationEnabled', false);
+
+      expect(new ConfigService().getConfig().pet).toMatchObject({ emojiEnabled: false, animationEnabled: false });
+    });
+
+    it('should not leave lock or temp files next to config.json', () => {
+      configService.setPetConfig('animationEnabled', false);
+
+      expect(fs.readdirSync((configService as any).configDir)).toEqual(['config.json']);
+    });
+  });
+
+  describe('revival settings', () => {
+    it('should persist the revival window', () => {
+      configService.setRevivalSetting('windowHours', 48);
+
+      expect(configService.getConfig().pet.revival).toEqual(expect.objectContaining({ windowHours: 48 }));
+    });
+
+    it('should reject unknown settings and out-of-range values', () => {
+      expect(() => configService.setRevivalSetting('graceHours', 1)).toThrow('Invalid revival setting: graceHours');
+      expect(() => configService.setRevivalSetting('quotaTokens', -1)).toThrow('Must be a positive number');
+      expect(() => configService.setRevivalSetting('penaltyMaxEnergy', 120)).toThrow('Must be a number between 1 and 100');
+    });
+  });
+
+  describe('difficulty settings', () => {
+    it('should persist the difficulty and per-field overrides', () => {
+      configService.setPetConfig('difficulty', 'hardcore');
+      configService.setDifficultyOverride('tokensPerEnergy', 1200000);
+
+      expect(configService.getConfig().pet.difficulty).toBe('hardcore');
+      expect(configService.getConfig().pet.difficultyOverrides).toEqual({ tokensPerEnergy: 1200000 });
+    });
+
+    it('should reject unknown difficulties and invalid overrides', () => {
+      expect(() => configService.setPetConfig('difficulty', 'nightmare' as any)).toThrow('Invalid difficulty: nightmare');
+      expect(() => configService.setDifficultyOverride('graceHours', 1)).toThrow('Invalid difficulty override: graceHours');
+      expect(() => configService.setDifficultyOverride('happyThreshold', 120)).toThrow('Must be a number between 1 and 100');
+      expect(() => configService.setDifficultyOverride('decayMultiplier', 0)).toThrow('Must be a positive number');
+    });
+  });
+
+  describe('backup settings', () => {
+    it('should persist daily snapshots and the retention', () => {
+      configService.setBackupSetting('daily', true);
+      configService.setBackupSetting('retention', 14);
+
+      expect(configService.getConfig().backup).toEqual({ daily: true, retention: 14 });
+    });
+
+    it('should reject unknown settings and invalid values', () => {
+      expect(() => configService.setBackupSetting('hourly', true)).toThrow('Invalid backup setting: hourly');
+      expect(() => configService.setBackupSetting('daily', 1)).toThrow('Must be true or false');
+      expect(() => configService.setBackupSetting('retention', 2.5)).toThrow('Must be a positive whole number');
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PetJournal } from '../PetJournal';
+import { FixedClock } from '../../core/Clock';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Mock filesystem and os modules
+vi.mock('fs');
+vi.mock('os');
+vi.mock('path');
+
+describe('PetJournal Service', () => {
+  const mockJournalDir = '/mock/home/.claude-pet/journal';
+  const mockJournalFile = '/mock/home/.claude-pet/journal/pet-uuid.ndjson';
+  const clock = new FixedClock(new Date('2025-08-21T12:00:00.000Z'));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(os.homedir).mockReturnValue('/mock/home');
+    vi.mocked(path.join).mockImplementation((...args) => args.join('/'));
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+    vi.mocked(fs.appendFileSync).mockReturnValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('recording', () => {
+    it('should append pet events as NDJSON lines', () => {
+      const journal = new PetJournal(clock);
+
+      journal.recordEvent('pet-uuid', {
+        type: 'fed',
+        tokens: 1500,
+        details: { sessionId: 'session-1', inputTokens: 1000, outputTokens: 500 },
+        timestamp: new Date('2025-08-21T11:00:00.000Z')
+      });
+
+      expect(fs.mkdirSync).toHaveBeenCalledWith(mockJournalDir, { recursive: true });
+      expect(fs.appendFileSync).toHaveBeenCalledWith(
+        mockJournalFile,
+        '{"timestamp":"2025-08-21T11:00:00.000Z","type":"fed","tokens":1500,"details":{"sessionId":"session-1","inputTokens":1000,"outputTokens":500}}\n',
+        'utf8'
+      );
+    });
+
+    it('should timestamp ad-hoc entries with the clock', () => {
+      const journal = new PetJournal(clock);
+
+      journal.record('pet-uuid', 'configChanged', { key: 'pet.decayRate', value: 0.05 });
+
+      const line = vi.mocked(fs.appendFileSync).mock.calls[0][1] as string;
+      expect(JSON.parse(line)).toEqual({
+        timestamp: '2025-08-21T12:00:00.000Z',
+        type: 'configChanged',
+        key: 'pet.decayRate',
+        value: 0.05
+      });
+    });
+
+    it('should sanitize the uuid used as file name', () => {
+      const journal = new PetJournal(clock);
+
+      expect(journal.getJournalPath('../../etc/passwd')).toBe(`${mockJournalDir}/______etc_passwd.ndjson`);
+    });
+
+    it('should handle write errors gracefully', () => {
+      vi.mocked(fs.appendFileSync).mockImplementation(() => {
+        throw new Error('Disk full');
+      });
+      const journal = new PetJournal(clock);
+
+      expect(() => journal.record('pet-uuid', 'died')).not.toThrow();
+      expect(console.error).toHaveBeenCalledWith('Failed to write pet journal:', expect.any(Error));
+    });
+  });
+
+  describe('rotation', () => {
+    it('should rotate files once the current journal is too large', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.statSync).mockReturnValue({ size: 1024 * 1024 } as fs.Stats);
+      const journal = new PetJournal(clock);
+
+      journal.record('pet-uuid', 'decayed');
+
+      expect(fs.unlinkSync).toHaveBeenCalledWith(`${mockJournalDir}/pet-uuid.3.ndjson`);
+      expect(fs.renameSync).toHaveBeenCalledWith(`${mockJournalDir}/pet-uuid.2.ndjson`, `${mockJournalDir}/pet-uuid.3.ndjson`);
+      expect(fs.renameSync).toHaveBeenCalledWith(`${mockJournalDir}/pet-uuid.1.ndjson`, `${mockJournalDir}/pet-uuid.2.ndjson`);
+      expect(fs.renameSync).toHaveBeenCalledWith(mockJournalFile, `${mockJournalDir}/pet-uuid.1.ndjson`);
+      expect(fs.appendFileSync).toHaveBeenCalledWith(mockJournalFile, expect.any(String), 'utf8');
+    });
+
+    it('should not rotate small journals', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.statSync).mockReturnValue({ size: 100 } as fs.Stats);
+      const journal = new PetJournal(clock);
+
+      journal.record('pet-uuid', 'decayed');
+
+      expect(fs.renameSync).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reading and copying', () => {
+    it('should read entries oldest first and skip malformed lines', () => {
+      vi.mocked(fs.existsSync).mockImplementation(filePath =>
+        filePath === mockJournalFile || filePath === `${mockJournalDir}/pet-uuid.1.ndjson`
+      );
+      vi.mocked(fs.readFileSync).mockImplementation(filePath =>
+        filePath === mockJournalFile
+          ? '{"timestamp":"2","type":"died"}\n{"timest'
+          : '{"timestamp":"1","type":"fed"}\n'
+      );
+      const journal = new PetJournal(clock);
+
+      expect(journal.readEntries('pet-uuid')).toEqual([
+        { timestamp: '1', type: 'fed' },
+        { timestamp: '2', type: 'died' }
+      ]);
+    });
+
+    it('should copy every journal file into the target directory', () => {
+      vi.mocked(fs.existsSync).mockImplementation(filePath =>
+        filePath === mockJournalFile || filePath === `${mockJournalDir}/pet-uuid.1.ndjson`
+      );
+      const journal = new PetJournal(clock);
+
+      journal.copyTo('pet-uuid', '/mock/graveyard/Fluffy');
+
+      expect(fs.copyFileSync).toHaveBeenCalledTimes(2);
+      expect(fs.copyFileSync).toHaveBeenCalledWith(mockJournalFile, '/mock/graveyard/Fluffy/pet-uuid.ndjson');
+      expect(fs.copyFileSync).toHaveBeenCalledWith(`${mockJournalDir}/pet-uuid.1.ndjson`, '/mock/graveyard/Fluffy/pet-uuid.1.ndjson');
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PetStorage } from '../PetStorage';
+import { InMemoryPetRepository } from '../InMemoryPetRepository';
+import { getStateDir, setHomeOverride } from '../paths';
+import { ClaudeCodeStatusLine } from '../../ccpet';
+import { AnimalType } from '../../core/config';
+import { describePetRepositoryConformance } from './petRepositoryConformance';
+
+describe('PetStorage', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ccpet-repository-'));
+    setHomeOverride(dir);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setHomeOverride(undefined);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describePetRepositoryConformance(() => new PetStorage());
+
+  it('should copy the journal to the graveyard after the reborn and burial entries', () => {
+    const storage = new PetStorage();
+    storage.saveState({
+      uuid: 'dead-uuid',
+      petName: 'Rex',
+      energy: 0,
+      expression: '(x_x)',
+      animalType: AnimalType.DOG,
+      birthTime: new Date(),
+      lastFeedTime: new Date(),
+      lastDecayTime: new Date(),
+      totalTokensConsumed: 0,
+      accumulatedTokens: 0,
+      totalLifetimeTokens: 0
+    });
+
+    new ClaudeCodeStatusLine({ testMode: true, repository: storage }).adoptPet({ petName: 'Mochi' });
+
+    const graveyardDir = path.join(getStateDir(), 'graveyard', 'Rex');
+    const entries = fs.readFileSync(path.join(graveyardDir, 'dead-uuid.ndjson'), 'utf8')
+      .trim().split('\n').map(line => JSON.parse(line).type);
+    expect(entries.slice(-2)).toEqual(['reborn', 'buried']);
+    expect(fs.readdirSync(graveyardDir).filter(name => name.endsWith('.tmp'))).toEqual([]);
+  });
+});
+
+describe('InMemoryPetRepository', () => {
+  describePetRepositoryConformance(() => new InMemoryPetRepository());
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import {
+  createSnapshot,
+  listSnapshots,
+  verifySnapshot,
+  restoreSnapshot,
+  pruneSnapshots,
+  createDailySnapshotIfDue,
+  getBackupsDir
+} from '../backups';
+import { setHomeOverride } from '../paths';
+import { FixedClock } from '../../core/Clock';
+
+describe('backups', () => {
+  let home: string;
+  const clock = new FixedClock(new Date('2025-08-21T12:00:00.000Z'));
+
+  const write = (relativePath: string, content: string) => {
+    const filePath = path.join(home, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+  const read = (relativePath: string) => fs.readFileSync(path.join(home, relativePath), 'utf8');
+  const exists = (relativePath: string) => fs.existsSync(path.join(home, relativePath));
+
+  beforeEach(() => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'ccpet-backups-'));
+    setHomeOverride(home);
+    write('pet-state.json', '{"petName":"Luna"}');
+    write('global-tracker.json', '{"totalProcessedTokens":100}');
+    write('config.json', '{"pet":{}}');
+    write('graveyard/Rex/pet-state.json', '{"petName":"Rex"}');
+    write('journal/luna.ndjson', '{"type":"fed"}\n');
+    write('graveyard/Rex/pet-state.json.lock', '{}');
+    write('animation-counter.json', '{"count":3}');
+  });
+
+  afterEach(() => {
+    setHomeOverride(undefined);
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  describe('createSnapshot', () => {
+    it('should copy state and config files with checksums in the manifest', () => {
+      const snapshot = createSnapshot('manual', clock);
+
+      expect(snapshot.name).toBe('20250821-120000-manual');
+      expect(snapshot.manifest).toMatchObject({ formatVersion: 1, createdAt: '2025-08-21T12:00:00.000Z', reason: 'manual' });
+      expect(snapshot.manifest.files.map(file => file.path).sort()).toEqual([
+        'config/config.json',
+        'state/global-tracker.json',
+        'state/graveyard/Rex/pet-state.json',
+        'state/journal/luna.ndjson',
+        'state/pet-state.json'
+      ]);
+      expect(snapshot.manifest.files.find(file => file.path === 'state/pet-state.json')).toEqual({
+        path: 'state/pet-state.json',
+        size: 18,
+        sha256: crypto.createHash('sha256').update('{"petName":"Luna"}').digest('hex')
+      });
+      expect(fs.readFileSync(path.join(snapshot.dir, 'state', 'pet-state.json'), 'utf8')).toBe('{"petName":"Luna"}');
+    });
+
+    it('should not leave partial snapshots behind and keep names unique', () => {
+      const first = createSnapshot('manual', clock);
+      const second = createSnapshot('manual', clock);
+
+      expect(second.name).toBe('20250821-120000-manual-2');
+      expect(fs.readdirSync(getBackupsDir()).sort()).toEqual([first.name, second.name]);
+      expect(listSnapshots().map(snapshot => snapshot.name)).toEqual([first.name, second.name]);
+    });
+
+    it('should skip snapshots with a broken manifest when listing', () => {
+      createSnapshot('manual', clock);
+      fs.mkdirSync(path.join(getBackupsDir(), 'not-a-snapshot'));
+
+      expect(listSnapshots()).toHaveLength(1);
+    });
+  });
+
+  describe('verifySnapshot', () => {
+    it('should report modified and missing files', () => {
+      const snapshot = createSnapshot('manual', clock);
+      fs.writeFileSync(path.join(snapshot.dir, 'state', 'pet-state.json'), '{"petName":"Evil"}');
+      fs.rmSync(path.join(snapshot.dir, 'config', 'config.json'));
+
+      expect(() => verifySnapshot(snapshot.dir)).toThrow(
+        'state/pet-state.json does not match its checksum; config/config.json is missing'
+      );
+    });
+
+    it('should reject manifests that point outside the snapshot', () => {
+      const snapshot = createSnapshot('manual', clock);
+      const manifestPath = path.join(snapshot.dir, 'manifest.json');
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+      manifest.files.push({ path: 'state/../../outside.json', size: 0, sha256: 'x' });
+      fs.writeFileSync(manifestPath, JSON.stringify(manifest));
+
+      expect(() => verifySnapshot(snapshot.dir)).toThrow('lists an invalid file');
+    });
+  });
+
+  describe('restoreSnapshot', () => {
+    it('should swap the snapshot in and keep the current data as a pre-restore snapshot', () => {
+      const snapshot = createSnapshot('manual', clock);
+      write('pet-state.json', '{"petName":"Mochi"}');
+      write('roster/extra.json', '{}');
+      fs.rmSync(path.join(home, 'graveyard'), { recursive: true });
+
+      const result = restoreSnapshot(snapshot.name, clock);
+
+      expect(read('pet-state.json')).toBe('{"petName":"Luna"}');
+      expect(read('graveyard/Rex/pet-state.json')).toBe('{"petName":"Rex"}');
+      expect(exists('roster')).toBe(false);
+      expect(read('animation-counter.json')).toBe('{"count":3}');
+      expect(result.safetySnapshot.name).toBe('20250821-120000-pre-restore');
+      expect(fs.readFileSync(path.join(result.safetySnapshot.dir, 'state', 'pet-state.json'), 'utf8')).toBe('{"petName":"Mochi"}');
+      expect(fs.readdirSync(home).filter(name => name.startsWith('.restore-'))).toEqual([]);
+    });
+
+    it('should accept a path to a snapshot directory', () => {
+      const snapshot = createSnapshot('manual', clock);
+      write('pet-state.json', '{"petName":"Mochi"}');
+
+      restoreSnapshot(snapshot.dir, clock);
+
+      expect(read('pet-state.json')).toBe('{"petName":"Luna"}');
+    });
+
+    it('should leave the current data alone when the snapshot is damaged', () => {
+      const snapshot = createSnapshot('manual', clock);
+      fs.writeFileSync(path.join(snapshot.dir, 'state', 'pet-state.json'), '{"petName":"Evil"}');
+      write('pet-state.json', '{"petName":"Mochi"}');
+
+      expect(() => restoreSnapshot(snapshot.name, clock)).toThrow('is damaged');
+      expect(read('pet-state.json')).toBe('{"petName":"Mochi"}');
+      expect(listSnapshots()).toHaveLength(1);
+    });
+
+    it('should fail for unknown snapshots', () => {
+      expect(() => restoreSnapshot('20990101-000000-manual', clock)).toThrow('Snapshot not found: 20990101-000000-manual');
+    });
+  });
+
+  describe('rotation', () => {
+    it('should take a daily snapshot only once every 24 hours', () => {
+      expect(createDailySnapshotIfDue(7, clock)?.name).toBe('20250821-120000-daily');
+      expect(createDailySnapshotIfDue(7, new FixedClock(new Date('2025-08-22T11:59:00.000Z')))).toBeNull();
+      expect(createDailySnapshotIfDue(7, new FixedClock(new Date('2025-08-22T12:00:00.000Z')))?.name).toBe('20250822-120000-daily');
+    });
+
+    it('should keep only the newest daily snapshots and never prune manual ones', () => {
+      createSnapshot('manual', clock);
+      for (let day = 21; day <= 24; day++) {
+        createDailySnapshotIfDue(2, new FixedClock(new Date(`2025-08-${day}T12:00:00.000Z`)));
+      }
+
+      expect(listSnapshots().map(snapshot => snapshot.name)).toEqual([
+        '20250821-120000-manual',
+        '20250823-120000-daily',
+        '20250824-120000-daily'
+      ]);
+      expect(pruneSnapshots('daily', 1)).toEqual(['20250823-120000-daily']);
+    });
+  });
+});
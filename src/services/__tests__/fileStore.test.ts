@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { writeFileAtomic, withFileLock, updateJsonFile, readJsonFile, getLockPath, removeStaleLock } from '../fileStore';
+
+describe('fileStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ccpet-store-'));
+    filePath = path.join(dir, 'state.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const writeLock = (owner: object) => fs.writeFileSync(getLockPath(filePath), JSON.stringify(owner));
+
+  describe('writeFileAtomic', () => {
+    it('should replace the file without leaving temp files behind', () => {
+      fs.writeFileSync(filePath, 'old');
+
+      writeFileAtomic(filePath, 'new');
+
+      expect(fs.readFileSync(filePath, 'utf8')).toBe('new');
+      expect(fs.readdirSync(dir)).toEqual(['state.json']);
+    });
+
+    it('should keep the old file when the write fails', () => {
+      fs.writeFileSync(filePath, 'old');
+      fs.mkdirSync(`${filePath}.${process.pid}.tmp`);
+
+      expect(() => writeFileAtomic(filePath, 'new')).toThrow();
+      expect(fs.readFileSync(filePath, 'utf8')).toBe('old');
+    });
+  });
+
+  describe('withFileLock', () => {
+    it('should hold the lock file only while running', () => {
+      const seen = withFileLock(filePath, () => fs.existsSync(getLockPath(filePath)));
+
+      expect(seen).toBe(true);
+      expect(fs.existsSync(getLockPath(filePath))).toBe(false);
+    });
+
+    it('should release the lock when the callback throws', () => {
+      expect(() => withFileLock(filePath, () => {
+        throw new Error('boom');
+      })).toThrow('boom');
+      expect(fs.existsSync(getLockPath(filePath))).toBe(false);
+    });
+
+    it('should allow nested locking within the same process', () => {
+      const result = withFileLock(filePath, () => withFileLock(filePath, () => 'nested'));
+
+      expect(result).toBe('nested');
+    });
+
+    it('should create the directory on first use', () => {
+      const nestedFile = path.join(dir, 'nested', 'state.json');
+
+      withFileLock(nestedFile, () => writeFileAtomic(nestedFile, '{}'));
+
+      expect(fs.readFileSync(nestedFile, 'utf8')).toBe('{}');
+    });
+
+    it('should time out while another live process holds the lock', () => {
+      writeLock({ pid: process.pid, hostname: os.hostname() });
+
+      expect(() => withFileLock(filePath, () => 'never', { timeoutMs: 100 })).toThrow('Timed out waiting for lock');
+      expect(fs.existsSync(getLockPath(filePath))).toBe(true);
+    });
+
+    it('should take over a lock left behind by a crashed process', () => {
+      writeLock({ pid: 2147483646, hostname: os.hostname() });
+
+      expect(withFileLock(filePath, () => 'recovered', { timeoutMs: 100 })).toBe('recovered');
+    });
+
+    it('should take over a lock that is older than the stale timeout', () => {
+      writeLock({ pid: process.pid, hostname: 'another-host' });
+      const old = new Date(Date.now() - 60000);
+      fs.utimesSync(getLockPath(filePath), old, old);
+
+      expect(withFileLock(filePath, () => 'recovered', { timeoutMs: 100, staleMs: 30000 })).toBe('recovered');
+    });
+
+    it('should not remove a fresh lock taken after the old one was judged stale', () => {
+      const staleOwner = JSON.stringify({ pid: 2147483646, hostname: os.hostname() });
+      const freshOwner = JSON.stringify({ pid: process.pid, hostname: os.hostname() });
+      // 另一个等待者已经删除了过期的锁并创建了自己的锁
+      fs.writeFileSync(getLockPath(filePath), freshOwner);
+
+      removeStaleLock(getLockPath(filePath), staleOwner);
+
+      expect(fs.readFileSync(getLockPath(filePath), 'utf8')).toBe(freshOwner);
+      expect(fs.readdirSync(dir).filter(name => name.endsWith('.tmp'))).toEqual([]);
+    });
+  });
+
+  describe('updateJsonFile', () => {
+    it('should start from null and build on the saved value', () => {
+      const increment = (current: { count: number } | null) => ({ count: (current?.count ?? 0) + 1 });
+
+      updateJsonFile(filePath, increment);
+      updateJsonFile(filePath, increment);
+
+      expect(readJsonFile(filePath)).toEqual({ count: 2 });
+    });
+
+    it('should treat a corrupted file as missing', () => {
+      fs.writeFileSync(filePath, '{ truncated');
+
+      expect(readJsonFile(filePath)).toBeNull();
+      expect(updateJsonFile(filePath, current => ({ recovered: current === null }))).toEqual({ recovered: true });
+    });
+  });
+});
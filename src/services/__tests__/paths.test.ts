@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { resolveDataDirs, migrateLegacyData, setHomeOverride, getLegacyDataDir, getStateDir, IDataDirs } from '../paths';
+
+describe('paths', () => {
+  afterEach(() => {
+    setHomeOverride(undefined);
+  });
+
+  describe('resolveDataDirs', () => {
+    it('should default to the legacy ~/.claude-pet directory', () => {
+      const legacyDir = path.join(os.homedir(), '.claude-pet');
+
+      expect(getLegacyDataDir()).toBe(legacyDir);
+      expect(resolveDataDirs({})).toEqual({ configDir: legacyDir, stateDir: legacyDir, cacheDir: legacyDir });
+    });
+
+    it('should keep everything in CCPET_HOME', () => {
+      expect(resolveDataDirs({ CCPET_HOME: '/data/pets', XDG_CONFIG_HOME: '/xdg/config' })).toEqual({
+        configDir: '/data/pets',
+        stateDir: '/data/pets',
+        cacheDir: '/data/pets'
+      });
+    });
+
+    it('should let --home win over CCPET_HOME', () => {
+      setHomeOverride('/tmp/sandbox');
+
+      expect(resolveDataDirs({ CCPET_HOME: '/data/pets' }).stateDir).toBe('/tmp/sandbox');
+    });
+
+    it('should split config, state and cache under XDG base directories', () => {
+      expect(resolveDataDirs({ XDG_CONFIG_HOME: '/xdg/config' })).toEqual({
+        configDir: '/xdg/config/ccpet',
+        stateDir: path.join(os.homedir(), '.local', 'state', 'ccpet'),
+        cacheDir: path.join(os.homedir(), '.cache', 'ccpet')
+      });
+    });
+  });
+
+  describe('migrateLegacyData', () => {
+    let root: string;
+    let legacyDir: string;
+    let dirs: IDataDirs;
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'ccpet-paths-'));
+      legacyDir = path.join(root, '.claude-pet');
+      dirs = {
+        configDir: path.join(root, 'config', 'ccpet'),
+        stateDir: path.join(root, 'state', 'ccpet'),
+        cacheDir: path.join(root, 'cache', 'ccpet')
+      };
+      fs.mkdirSync(path.join(legacyDir, 'graveyard', 'Rex'), { recursive: true });
+      fs.writeFileSync(path.join(legacyDir, 'pet-state.json'), '{"petName":"Luna"}');
+      fs.writeFileSync(path.join(legacyDir, 'config.json'), '{}');
+      fs.writeFileSync(path.join(legacyDir, 'animation-counter.json'), '{"count":3}');
+      fs.writeFileSync(path.join(legacyDir, 'graveyard', 'Rex', 'pet-state.json'), '{}');
+    });
+
+    afterEach(() => {
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should move each entry to its new directory and remove the legacy directory', () => {
+      const moved = migrateLegacyData(dirs, legacyDir);
+
+      expect(moved).toHaveLength(4);
+      expect(fs.readFileSync(path.join(dirs.stateDir, 'pet-state.json'), 'utf8')).toBe('{"petName":"Luna"}');
+      expect(fs.existsSync(path.join(dirs.stateDir, 'graveyard', 'Rex', 'pet-state.json'))).toBe(true);
+      expect(fs.existsSync(path.join(dirs.configDir, 'config.json'))).toBe(true);
+      expect(fs.existsSync(path.join(dirs.cacheDir, 'animation-counter.json'))).toBe(true);
+      expect(fs.existsSync(legacyDir)).toBe(false);
+    });
+
+    it('should keep data that already exists in the new directory', () => {
+      fs.mkdirSync(dirs.stateDir, { recursive: true });
+      fs.writeFileSync(path.join(dirs.stateDir, 'pet-state.json'), '{"petName":"Mochi"}');
+
+      migrateLegacyData(dirs, legacyDir);
+
+      expect(fs.readFileSync(path.join(dirs.stateDir, 'pet-state.json'), 'utf8')).toBe('{"petName":"Mochi"}');
+      expect(fs.readdirSync(legacyDir)).toEqual(['pet-state.json']);
+    });
+
+    it('should leave lock files behind', () => {
+      fs.writeFileSync(path.join(legacyDir, 'pet-state.json.lock'), '{}');
+
+      migrateLegacyData(dirs, legacyDir);
+
+      expect(fs.readdirSync(legacyDir)).toEqual(['pet-state.json.lock']);
+      expect(fs.existsSync(path.join(dirs.stateDir, 'pet-state.json.lock'))).toBe(false);
+    });
+
+    it('should do nothing when the data directory is the legacy directory', () => {
+      const moved = migrateLegacyData({ configDir: legacyDir, stateDir: legacyDir, cacheDir: legacyDir }, legacyDir);
+
+      expect(moved).toEqual([]);
+      expect(fs.existsSync(path.join(legacyDir, 'pet-state.json'))).toBe(true);
+    });
+
+    it('should leave no temporary copies behind', () => {
+      migrateLegacyData(dirs, legacyDir);
+
+      expect(fs.readdirSync(dirs.stateDir).filter(entry => entry.endsWith('.tmp'))).toEqual([]);
+    });
+
+    it('should refuse to move the legacy directory into itself', () => {
+      const nested = path.join(legacyDir, 'nested');
+
+      expect(migrateLegacyData({ configDir: nested, stateDir: nested, cacheDir: nested }, legacyDir)).toEqual([]);
+      expect(fs.existsSync(path.join(legacyDir, 'pet-state.json'))).toBe(true);
+    });
+  });
+
+  describe('automatic migration', () => {
+    let root: string;
+
+    beforeEach(() => {
+      root = fs.mkdtempSync(path.join(os.tmpdir(), 'ccpet-migrate-'));
+      vi.stubEnv('HOME', root);
+      vi.stubEnv('CCPET_HOME', '');
+      vi.stubEnv('XDG_CONFIG_HOME', '');
+      vi.stubEnv('XDG_STATE_HOME', '');
+      vi.stubEnv('XDG_CACHE_HOME', '');
+      fs.mkdirSync(path.join(root, '.claude-pet'));
+      fs.writeFileSync(path.join(root, '.claude-pet', 'pet-state.json'), '{"petName":"Luna"}');
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('should never move the default data into an explicit CCPET_HOME', () => {
+      const sandbox = path.join(root, 'sandbox');
+      vi.stubEnv('CCPET_HOME', sandbox);
+
+      expect(getStateDir()).toBe(sandbox);
+      expect(fs.existsSync(path.join(sandbox, 'pet-state.json'))).toBe(false);
+      expect(fs.readFileSync(path.join(root, '.claude-pet', 'pet-state.json'), 'utf8')).toBe('{"petName":"Luna"}');
+    });
+
+    it('should move the default data into the XDG state directory', () => {
+      vi.stubEnv('XDG_STATE_HOME', path.join(root, 'state'));
+
+      expect(getStateDir()).toBe(path.join(root, 'state', 'ccpet'));
+      expect(fs.readFileSync(path.join(root, 'state', 'ccpet', 'pet-state.json'), 'utf8')).toBe('{"petName":"Luna"}');
+      expect(fs.existsSync(path.join(root, '.claude-pet'))).toBe(false);
+    });
+  });
+});
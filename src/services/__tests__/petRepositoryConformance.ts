@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IPetState } from '../../core/Pet';
+import { AnimalType } from '../../core/config';
+import { IPetRepository } from '../PetRepository';
+
+// 每个存储后端都必须通过的行为约定；调用方负责准备和清理后端依赖的环境
+export function describePetRepositoryConformance(createRepository: () => IPetRepository): void {
+  describe('IPetRepository conformance', () => {
+    let repository: IPetRepository;
+
+    const createState = (overrides: Partial<IPetState> = {}): IPetState => ({
+      uuid: 'pet-uuid-1',
+      energy: 75,
+      happiness: 90,
+      health: 100,
+      expression: '(^_^)',
+      animalType: AnimalType.CAT,
+      birthTime: new Date('2025-08-20T10:00:00.000Z'),
+      lastFeedTime: new Date('2025-08-21T12:00:00.000Z'),
+      totalTokensConsumed: 500,
+      accumulatedTokens: 20,
+      totalLifetimeTokens: 800,
+      petName: 'Luna',
+      ...overrides
+    });
+
+    beforeEach(() => {
+      repository = createRepository();
+    });
+
+    describe('active pet', () => {
+      it('should start without a pet', () => {
+        expect(repository.loadState()).toBeNull();
+      });
+
+      it('should load what was saved, including dates', () => {
+        const state = createState({ sleepHistory: [{ start: new Date('2025-08-21T00:00:00.000Z'), end: new Date('2025-08-21T08:00:00.000Z') }] });
+
+        repository.saveState(state);
+
+        expect(repository.loadState()).toEqual(state);
+      });
+
+      it('should not share objects with the caller', () => {
+        const state = createState();
+        repository.saveState(state);
+        state.energy = 1;
+
+        const loaded = repository.loadState()!;
+        loaded.petName = 'Changed';
+
+        expect(repository.loadState()).toMatchObject({ energy: 75, petName: 'Luna' });
+      });
+
+      it('should build updates on the saved state', () => {
+        const seen: Array<IPetState | null> = [];
+        const feed = (current: IPetState | null) => {
+          seen.push(current);
+          return createState({ energy: (current?.energy ?? 0) + 10 });
+        };
+
+        repository.updateState(feed);
+        const result = repository.updateState(feed);
+
+        expect(seen[0]).toBeNull();
+        expect(result.energy).toBe(20);
+        expect(repository.loadState()?.energy).toBe(20);
+      });
+    });
+
+    describe('roster', () => {
+      it('should list saved roster pets by uuid and replace pets saved twice', () => {
+        repository.saveRosterPet(createState({ uuid: 'pet-b', petName: 'Mochi' }));
+        repository.saveRosterPet(createState({ uuid: 'pet-a', petName: 'Rex' }));
+        repository.saveRosterPet(createState({ uuid: 'pet-b', petName: 'Mochi', energy: 40 }));
+
+        const roster = repository.listRosterPets();
+
+        expect(roster.map(pet => pet.uuid)).toEqual(['pet-a', 'pet-b']);
+        expect(roster[1].energy).toBe(40);
+      });
+
+      it('should update a roster pet from its saved state', () => {
+        repository.saveRosterPet(createState({ uuid: 'pet-b', petName: 'Mochi', energy: 40 }));
+
+        const updated = repository.updateRosterPet('pet-b', current => ({ ...current, energy: current.energy - 10 }));
+
+        expect(updated?.energy).toBe(30);
+        expect(repository.listRosterPets()[0].energy).toBe(30);
+      });
+
+      it('should not write back a pet that has left the roster', () => {
+        repository.saveState(createState());
+        repository.saveRosterPet(createState({ uuid: 'pet-b', petName: 'Mochi' }));
+        repository.activateRosterPet('pet-b');
+        const update = vi.fn((current: IPetState) => current);
+
+        expect(repository.updateRosterPet('pet-b', update)).toBeNull();
+        expect(update).not.toHaveBeenCalled();
+        expect(repository.listRosterPets().map(pet => pet.uuid)).toEqual(['pet-uuid-1']);
+      });
+
+      it('should swap the active pet with a roster pet', () => {
+        repository.saveState(createState());
+        repository.saveRosterPet(createState({ uuid: 'pet-b', petName: 'Mochi' }));
+
+        const activated = repository.activateRosterPet('pet-b');
+
+        expect(activated.petName).toBe('Mochi');
+        expect(repository.loadState()?.petName).toBe('Mochi');
+        expect(repository.listRosterPets().map(pet => pet.petName)).toEqual(['Luna']);
+      });
+
+      it('should refuse to activate a pet that is not in the roster', () => {
+        repository.saveState(createState());
+
+        expect(() => repository.activateRosterPet('missing')).toThrow('Pet not found in roster: missing');
+        expect(repository.loadState()?.petName).toBe('Luna');
+      });
+    });
+
+    describe('graveyard', () => {
+      it('should move the active pet to the graveyard', () => {
+        const state = createState({ energy: 0 });
+        repository.saveState(state);
+
+        repository.moveToGraveyard(state);
+
+        expect(repository.loadState()).toBeNull();
+        expect(repository.listGraveyardPets()).toEqual([state]);
+      });
+
+      it('should move roster pets to the graveyard', () => {
+        const state = createState({ uuid: 'pet-b', petName: 'Mochi', energy: 0 });
+        repository.saveRosterPet(state);
+
+        repository.moveRosterPetToGraveyard(state);
+
+        expect(repository.listRosterPets()).toEqual([]);
+        expect(repository.listGraveyardPets().map(pet => pet.petName)).toEqual(['Mochi']);
+      });
+
+      it('should record the burial at the end of the pet\'s journal', () => {
+        const state = createState({ energy: 0 });
+        repository.saveState(state);
+        repository.appendJournal(state.uuid, { timestamp: '2025-08-21T12:00:00.000Z', type: 'died' });
+
+        repository.moveToGraveyard(state);
+
+        expect(repository.readJournal(state.uuid).map(entry => entry.type)).toEqual(['died', 'buried']);
+      });
+
+      it('should keep pets with the same name apart', () => {
+        repository.moveToGraveyard(createState({ uuid: 'pet-a' }));
+        repository.moveToGraveyard(createState({ uuid: 'pet-b' }));
+
+        expect(repository.listGraveyardPets().map(pet => pet.uuid).sort()).toEqual(['pet-a', 'pet-b']);
+      });
+
+      it('should count the active pet, the roster and the graveyard', () => {
+        repository.saveState(createState());
+        repository.saveRosterPet(createState({ uuid: 'pet-b', petName: 'Mochi' }));
+        repository.moveRosterPetToGraveyard(createState({ uuid: 'pet-c', petName: 'Rex' }));
+
+        expect(repository.countRaisedPets()).toBe(3);
+      });
+    });
+
+    describe('journal', () => {
+      it('should return entries per pet in the order they were appended', () => {
+        repository.appendJournal('pet-a', { timestamp: '2025-08-21T12:00:00.000Z', type: 'fed', tokens: 100 });
+        repository.appendJournal('pet-b', { timestamp: '2025-08-21T12:01:00.000Z', type: 'renamed' });
+        repository.appendJournal('pet-a', { timestamp: '2025-08-21T12:02:00.000Z', type: 'slept' });
+
+        expect(repository.readJournal('pet-a')).toEqual([
+          { timestamp: '2025-08-21T12:00:00.000Z', type: 'fed', tokens: 100 },
+          { timestamp: '2025-08-21T12:02:00.000Z', type: 'slept' }
+        ]);
+        expect(repository.readJournal('pet-c')).toEqual([]);
+      });
+    });
+
+    describe('token tracker', () => {
+      it('should add up processed tokens and only move the timestamp forward', () => {
+        const tracker = repository.getTokenTracker();
+        expect(tracker.load()).toBeNull();
+
+        tracker.record('2025-08-21T12:00:00.000Z', 100);
+        repository.getTokenTracker().record('2025-08-21T11:00:00.000Z', 50);
+
+        expect(repository.getTokenTracker().load()).toEqual({
+          lastProcessedTimestamp: '2025-08-21T12:00:00.000Z',
+          totalProcessedTokens: 150
+        });
+      });
+    });
+  });
+}
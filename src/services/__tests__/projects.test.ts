@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getProjectKey, resolveProjectPetDir, findProjectDir, listProjectPets } from '../projects';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Mock filesystem and os modules
+vi.mock('fs');
+vi.mock('os');
+vi.mock('path');
+
+describe('Project Pets', () => {
+  const mockProjectsDir = '/mock/home/.claude-pet/projects';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(os.homedir).mockReturnValue('/mock/home');
+    vi.mocked(path.join).mockImplementation((...args) => args.join('/'));
+    vi.mocked(path.resolve).mockImplementation((p: string) => p.replace(/\/+$/, ''));
+    vi.mocked(path.basename).mockImplementation((p: string) => p.split('/').pop() || '');
+    vi.mocked(fs.statSync).mockReturnValue({ isDirectory: () => true } as any);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getProjectKey', () => {
+    it('should combine the project name with a path hash', () => {
+      expect(getProjectKey('/work/ccpet')).toMatch(/^ccpet-[0-9a-f]{8}$/);
+    });
+
+    it('should keep same-named repositories apart', () => {
+      expect(getProjectKey('/work/api')).not.toBe(getProjectKey('/personal/api'));
+      expect(getProjectKey('/work/api/')).toBe(getProjectKey('/work/api'));
+    });
+
+    it('should sanitize unsafe characters in the project name', () => {
+      expect(getProjectKey('/work/my repo:v2')).toMatch(/^my_repo_v2-[0-9a-f]{8}$/);
+    });
+  });
+
+  describe('resolveProjectPetDir', () => {
+    it('should create the project pet directory and record the project path', () => {
+      vi.mocked(fs.existsSync).mockImplementation(p => p === '/work/ccpet');
+
+      const petDir = resolveProjectPetDir('/work/ccpet');
+
+      expect(petDir).toBe(`${mockProjectsDir}/${getProjectKey('/work/ccpet')}`);
+      expect(fs.mkdirSync).toHaveBeenCalledWith(petDir, { recursive: true });
+      expect(fs.writeFileSync).toHaveBeenCalledWith(
+        `${petDir}/project.json`,
+        JSON.stringify({ projectDir: '/work/ccpet' }, null, 2),
+        'utf8'
+      );
+    });
+
+    it('should return undefined for missing or unknown directories', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+
+      expect(resolveProjectPetDir(undefined)).toBeUndefined();
+      expect(resolveProjectPetDir('')).toBeUndefined();
+      expect(resolveProjectPetDir('/does/not/exist')).toBeUndefined();
+      expect(fs.mkdirSync).not.toHaveBeenCalled();
+    });
+
+    it('should return undefined when the path is not a directory', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.statSync).mockReturnValue({ isDirectory: () => false } as any);
+
+      expect(resolveProjectPetDir('/work/notes.txt')).toBeUndefined();
+    });
+  });
+
+  describe('findProjectDir', () => {
+    beforeEach(() => {
+      vi.mocked(path.dirname).mockImplementation((p: string) => p.substring(0, p.lastIndexOf('/')) || '/');
+    });
+
+    it('should find the project pet from a subdirectory', () => {
+      const petDir = `${mockProjectsDir}/${getProjectKey('/work/ccpet')}`;
+      vi.mocked(fs.existsSync).mockImplementation(p => p === petDir);
+
+      expect(findProjectDir('/work/ccpet/src/commands')).toBe('/work/ccpet');
+      expect(fs.mkdirSync).not.toHaveBeenCalled();
+    });
+
+    it('should return undefined outside of known projects', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+
+      expect(findProjectDir('/tmp/scratch')).toBeUndefined();
+    });
+  });
+
+  describe('listProjectPets', () => {
+    it('should list recorded projects sorted by key', () => {
+      vi.mocked(fs.existsSync).mockImplementation(p => String(p) !== `${mockProjectsDir}/stray/project.json`);
+      vi.mocked(fs.readdirSync).mockReturnValue(['web-2222', 'api-1111', 'stray'] as any);
+      vi.mocked(fs.readFileSync).mockImplementation(p =>
+        String(p).includes('api-1111') ? '{"projectDir":"/work/api"}' : '{"projectDir":"/work/web"}'
+      );
+
+      expect(listProjectPets()).toEqual([
+        { key: 'api-1111', projectDir: '/work/api', petDir: `${mockProjectsDir}/api-1111` },
+        { key: 'web-2222', projectDir: '/work/web', petDir: `${mockProjectsDir}/web-2222` }
+      ]);
+    });
+
+    it('should return an empty list when no project pets exist', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(false);
+
+      expect(listProjectPets()).toEqual([]);
+    });
+  });
+});
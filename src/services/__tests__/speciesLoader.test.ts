@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { loadSpeciesFiles, loadSpeciesRegistry } from '../speciesLoader';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Mock filesystem and os modules
+vi.mock('fs');
+vi.mock('os');
+vi.mock('path');
+
+describe('Species Loader', () => {
+  const mockSpeciesDir = '/mock/home/.claude-pet/species';
+  const files: Record<string, string> = {
+    [`${mockSpeciesDir}/dragon.json`]: JSON.stringify({ name: 'Dragon', emoji: '🐉', expressions: { HAPPY: ['(^w^)'] } }),
+    [`${mockSpeciesDir}/broken.json`]: '{ not json',
+    [`${mockSpeciesDir}/ghost.json`]: JSON.stringify({ name: 'Ghost' })
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(os.homedir).mockReturnValue('/mock/home');
+    vi.mocked(path.join).mockImplementation((...args) => args.join('/'));
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readdirSync).mockReturnValue(['ghost.json', 'dragon.json', 'README.md', 'broken.json'] as any);
+    vi.mocked(fs.readFileSync).mockImplementation(p => files[String(p)] ?? '');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should read every json file keyed by file name', () => {
+    const definitions = loadSpeciesFiles();
+
+    expect(Object.keys(definitions)).toEqual(['dragon', 'ghost']);
+    expect(fs.readFileSync).not.toHaveBeenCalledWith(`${mockSpeciesDir}/README.md`, 'utf8');
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Skipping species file broken.json'));
+  });
+
+  it('should return no definitions when the species directory does not exist', () => {
+    vi.mocked(fs.existsSync).mockReturnValue(false);
+
+    expect(loadSpeciesFiles()).toEqual({});
+    expect(fs.readdirSync).not.toHaveBeenCalled();
+  });
+
+  it('should combine species files with the config section', () => {
+    const registry = loadSpeciesRegistry({ dragon: { name: 'Wyrm', emoji: '🐲' }, axolotl: { name: 'Axolotl', emoji: '🦎' } });
+
+    expect(registry.get('dragon')?.name).toBe('Wyrm'); // config.json wins over the species file
+    expect(registry.has('axolotl')).toBe(true);
+    expect(registry.has('ghost')).toBe(false);
+  });
+});
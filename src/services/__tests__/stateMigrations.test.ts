@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  STATE_MIGRATIONS,
+  CURRENT_SCHEMA_VERSION,
+  IStateMigration,
+  getSchemaVersion,
+  assertSupportedSchema,
+  migrateState
+} from '../stateMigrations';
+import { PET_CONFIG } from '../../core/config';
+import { FixedClock } from '../../core/Clock';
+import { SeededRandom } from '../../core/Random';
+
+describe('stateMigrations', () => {
+  const context = {
+    clock: new FixedClock(new Date('2025-08-21T12:00:00.000Z')),
+    random: new SeededRandom('migrations')
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('should keep migrations in ascending version order', () => {
+    const versions = STATE_MIGRATIONS.map(migration => migration.version);
+
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(CURRENT_SCHEMA_VERSION).toBe(versions[versions.length - 1]);
+  });
+
+  it('should treat files without schemaVersion as version 0', () => {
+    expect(getSchemaVersion({ energy: 50 })).toBe(0);
+    expect(getSchemaVersion({ schemaVersion: 3 })).toBe(3);
+    expect(getSchemaVersion(null)).toBe(0);
+  });
+
+  it('should fill in every field missing from a version 0 file', () => {
+    const migrated = migrateState({
+      energy: 50,
+      totalTokensConsumed: 1200,
+      lastFeedTime: '2025-08-20T08:00:00.000Z'
+    }, context);
+
+    expect(migrated).toMatchObject({
+      totalLifetimeTokens: 1200,
+      animalType: PET_CONFIG.ANIMAL.DEFAULT_TYPE,
+      happiness: PET_CONFIG.STATS.INITIAL_HAPPINESS,
+      health: PET_CONFIG.STATS.INITIAL_HEALTH,
+      birthTime: '2025-08-20T08:00:00.000Z'
+    });
+    expect(migrated.petName).toEqual(expect.any(String));
+    expect(migrated.uuid).toEqual(expect.any(String));
+    expect(migrated).not.toHaveProperty('schemaVersion');
+  });
+
+  it('should keep values that are already present', () => {
+    const migrated = migrateState({ petName: 'Luna', uuid: 'kept-uuid', animalType: 'fox' }, context);
+
+    expect(migrated).toMatchObject({ petName: 'Luna', uuid: 'kept-uuid', animalType: 'fox' });
+  });
+
+  it('should only run migrations newer than the file version', () => {
+    const migrations: IStateMigration[] = [
+      { version: 1, description: 'first', migrate: vi.fn() },
+      { version: 2, description: 'second', migrate: vi.fn() }
+    ];
+
+    migrateState({ schemaVersion: 1 }, context, migrations);
+
+    expect(migrations[0].migrate).not.toHaveBeenCalled();
+    expect(migrations[1].migrate).toHaveBeenCalledOnce();
+  });
+
+  it('should refuse files written by a newer version', () => {
+    const newer = { schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+
+    expect(() => assertSupportedSchema(newer, '/pets/pet-state.json')).toThrow(
+      `/pets/pet-state.json was saved by a newer version of ccpet (schema v${CURRENT_SCHEMA_VERSION + 1}, `
+      + `this version supports up to v${CURRENT_SCHEMA_VERSION}). Upgrade ccpet to keep using this pet.`
+    );
+    expect(() => assertSupportedSchema({ schemaVersion: CURRENT_SCHEMA_VERSION }, '/pets/pet-state.json')).not.toThrow();
+  });
+});
@@ -0,0 +1,373 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { IClock, systemClock } from '../core/Clock';
+import { PET_CONFIG } from '../core/config';
+import { withFileLock } from './fileStore';
+import { getConfigDir, getStateDir } from './paths';
+
+// 快照：backups/<时间戳>-<原因>/ 下保存状态和配置文件的完整副本，manifest.json 记录每个文件的大小和 sha256
+export type SnapshotReason = 'manual' | 'daily' | 'pre-restore';
+
+export interface IBackupConfig {
+  daily?: boolean; // 状态栏每天自动创建一次快照
+  retention?: number; // 每日快照和恢复前快照各保留的数量，手动快照不会被自动删除
+}
+
+export interface ISnapshotFile {
+  path: string; // 相对快照目录，以 / 分隔，例如 state/graveyard/Rex/pet-state.json
+  size: number;
+  sha256: string;
+}
+
+export interface ISnapshotManifest {
+  formatVersion: number;
+  createdAt: string; // ISO 时间
+  reason: SnapshotReason;
+  files: ISnapshotFile[];
+}
+
+export interface ISnapshot {
+  name: string;
+  dir: string;
+  manifest: ISnapshotManifest;
+}
+
+export interface IRestoreResult {
+  manifest: ISnapshotManifest;
+  safetySnapshot: ISnapshot; // 恢复前自动保存的当前数据
+}
+
+interface ISnapshotRoot {
+  name: 'state' | 'config';
+  getDir: () => string;
+  entries: readonly string[];
+}
+
+// 快照包含的条目；缓存、锁文件和 backups 目录本身不在其中
+const SNAPSHOT_ROOTS: readonly ISnapshotRoot[] = [
+  { name: 'state', getDir: () => getStateDir(), entries: ['pet-state.json', 'global-tracker.json', 'roster', 'graveyard', 'journal', 'projects'] },
+  { name: 'config', getDir: () => getConfigDir(), entries: ['config.json', 'species'] }
+];
+
+const MANIFEST_FILE = 'manifest.json';
+const MANIFEST_FORMAT_VERSION = 1;
+const SNAPSHOT_REASONS: readonly SnapshotReason[] = ['manual', 'daily', 'pre-restore'];
+const SNAPSHOT_NAME_PATTERN = /^(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})-([a-z-]+?)(?:-(\d+))?$/;
+const DAILY_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export function getBackupsDir(): string {
+  return path.join(getStateDir(), 'backups');
+}
+
+export function createSnapshot(reason: SnapshotReason = 'manual', clock: IClock = systemClock): ISnapshot {
+  const backupsDir = getBackupsDir();
+  fs.mkdirSync(backupsDir, { recursive: true });
+
+  const createdAt = clock.now();
+  const name = getUniqueSnapshotName(backupsDir, `${formatTimestamp(createdAt)}-${reason}`);
+  const dir = path.join(backupsDir, name);
+  // 先写入隐藏的临时目录，写完再 rename，列表中不会出现只写了一半的快照
+  const partialDir = path.join(backupsDir, `.${name}.partial`);
+
+  try {
+    fs.mkdirSync(partialDir, { recursive: true });
+    const files = withDataLocks(() => {
+      const copied: ISnapshotFile[] = [];
+      for (const root of SNAPSHOT_ROOTS) {
+        for (const entry of root.entries) {
+          copyIntoSnapshot(path.join(root.getDir(), entry), partialDir, `${root.name}/${entry}`, copied);
+        }
+      }
+      return copied;
+    });
+
+    const manifest: ISnapshotManifest = {
+      formatVersion: MANIFEST_FORMAT_VERSION,
+      createdAt: createdAt.toISOString(),
+      reason,
+      files
+    };
+    fs.writeFileSync(path.join(partialDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2), 'utf8');
+    fs.renameSync(partialDir, dir);
+    return { name, dir, manifest };
+  } catch (error) {
+    fs.rmSync(partialDir, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+// 按时间从旧到新返回；清单损坏的快照会被跳过
+export function listSnapshots(): ISnapshot[] {
+  const backupsDir = getBackupsDir();
+  const snapshots: ISnapshot[] = [];
+
+  try {
+    if (!fs.existsSync(backupsDir)) {
+      return snapshots;
+    }
+
+    for (const name of fs.readdirSync(backupsDir).sort()) {
+      if (name.startsWith('.')) {
+        continue;
+      }
+      const dir = path.join(backupsDir, name);
+      try {
+        snapshots.push({ name, dir, manifest: readManifest(dir) });
+      } catch (error) {
+        console.error(`Skipping snapshot ${name}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to list snapshots:', error);
+  }
+
+  return snapshots;
+}
+
+// 快照名（backups 目录下）或快照目录的路径
+export function resolveSnapshotDir(nameOrPath: string): string {
+  const named = path.join(getBackupsDir(), nameOrPath);
+  if (fs.existsSync(named)) {
+    return named;
+  }
+
+  const dir = path.resolve(nameOrPath);
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Snapshot not found: ${nameOrPath}`);
+  }
+  return dir;
+}
+
+// 检查清单中的每个文件都存在且校验和一致，返回清单；有问题时抛出错误并列出所有问题
+export function verifySnapshot(snapshotDir: string): ISnapshotManifest {
+  const manifest = readManifest(snapshotDir);
+  const problems: string[] = [];
+
+  for (const file of manifest.files) {
+    const filePath = resolveInSnapshot(snapshotDir, file.path);
+    if (!fs.existsSync(filePath)) {
+      problems.push(`${file.path} is missing`);
+    } else if (sha256(fs.readFileSync(filePath)) !== file.sha256) {
+      problems.push(`${file.path} does not match its checksum`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Snapshot ${snapshotDir} is damaged: ${problems.join('; ')}`);
+  }
+  return manifest;
+}
+
+// 校验快照后整体替换当前数据；替换前先为当前数据创建 pre-restore 快照
+export function restoreSnapshot(nameOrPath: string, clock: IClock = systemClock): IRestoreResult {
+  const snapshotDir = resolveSnapshotDir(nameOrPath);
+  const manifest = verifySnapshot(snapshotDir);
+
+  return withDataLocks(() => {
+    const safetySnapshot = createSnapshot('pre-restore', clock);
+    swapInSnapshot(snapshotDir, manifest);
+    return { manifest, safetySnapshot };
+  });
+}
+
+// 删除指定原因的旧快照，只保留最新的 retention 个；返回被删除的快照名
+export function pruneSnapshots(reason: SnapshotReason, retention: number): string[] {
+  const names = listSnapshotNames(reason);
+  const removed = names.slice(0, Math.max(0, names.length - Math.max(1, Math.floor(retention))));
+
+  for (const name of removed) {
+    try {
+      fs.rmSync(path.join(getBackupsDir(), name), { recursive: true, force: true });
+    } catch (error) {
+      console.error(`Failed to remove snapshot ${name}:`, error);
+    }
+  }
+  return removed;
+}
+
+// 距离上一个每日快照超过24小时才创建新快照，并按 retention 轮换；没有创建时返回 null
+export function createDailySnapshotIfDue(
+  retention: number = PET_CONFIG.BACKUP.RETENTION,
+  clock: IClock = systemClock
+): ISnapshot | null {
+  const latest = listSnapshotNames('daily').pop();
+  const latestTime = latest ? parseSnapshotName(latest)?.createdAt : undefined;
+  if (latestTime && clock.now().getTime() - latestTime.getTime() < DAILY_INTERVAL_MS) {
+    return null;
+  }
+
+  const snapshot = createSnapshot('daily', clock);
+  pruneSnapshots('daily', retention);
+  return snapshot;
+}
+
+function swapInSnapshot(snapshotDir: string, manifest: ISnapshotManifest): void {
+  const workDirs: string[] = [];
+  const moves: Array<{ from: string; to: string }> = [];
+  const move = (from: string, to: string) => {
+    fs.renameSync(from, to);
+    moves.push({ from, to });
+  };
+  let keepWorkDirs = false;
+
+  try {
+    // 1. 把快照复制到各目标目录下的工作目录（与目标在同一文件系统，rename 才是原子的），复制时再次校验
+    const staged = SNAPSHOT_ROOTS.map(root => {
+      const targetDir = root.getDir();
+      const workDir = path.join(targetDir, `.restore-${process.pid}-${root.name}`);
+      fs.rmSync(workDir, { recursive: true, force: true });
+      fs.mkdirSync(path.join(workDir, 'new'), { recursive: true });
+      fs.mkdirSync(path.join(workDir, 'old'), { recursive: true });
+      workDirs.push(workDir);
+      return { root, targetDir, workDir };
+    });
+
+    for (const file of manifest.files) {
+      const data = fs.readFileSync(resolveInSnapshot(snapshotDir, file.path));
+      if (sha256(data) !== file.sha256) {
+        throw new Error(`${file.path} does not match its checksum`);
+      }
+      const [rootName, ...segments] = file.path.split('/');
+      const target = staged.find(({ root }) => root.name === rootName)!;
+      const targetPath = path.join(target.workDir, 'new', ...segments);
+      fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+      fs.writeFileSync(targetPath, data);
+    }
+
+    // 2. 逐个条目交换：当前数据移到 old，快照中的数据移入；快照中没有的条目也会被移走
+    for (const { root, targetDir, workDir } of staged) {
+      for (const entry of root.entries) {
+        const current = path.join(targetDir, entry);
+        const replacement = path.join(workDir, 'new', entry);
+        if (fs.existsSync(current)) {
+          move(current, path.join(workDir, 'old', entry));
+        }
+        if (fs.existsSync(replacement)) {
+          move(replacement, current);
+        }
+      }
+    }
+  } catch (error) {
+    // 按相反顺序撤销已完成的移动；撤销失败时保留工作目录，旧数据仍在 old 中
+    for (const { from, to } of moves.reverse()) {
+      try {
+        fs.renameSync(to, from);
+      } catch (rollbackError) {
+        keepWorkDirs = true;
+        console.error(`Failed to move ${to} back to ${from}:`, rollbackError);
+      }
+    }
+    throw error;
+  } finally {
+    if (!keepWorkDirs) {
+      for (const workDir of workDirs) {
+        fs.rmSync(workDir, { recursive: true, force: true });
+      }
+    }
+  }
+}
+
+function copyIntoSnapshot(source: string, snapshotDir: string, relativePath: string, files: ISnapshotFile[]): void {
+  if (!fs.existsSync(source)) {
+    return;
+  }
+
+  if (fs.statSync(source).isDirectory()) {
+    for (const child of fs.readdirSync(source).sort()) {
+      if (!isTransientFile(child)) {
+        copyIntoSnapshot(path.join(source, child), snapshotDir, `${relativePath}/${child}`, files);
+      }
+    }
+    return;
+  }
+
+  const data = fs.readFileSync(source);
+  const targetPath = resolveInSnapshot(snapshotDir, relativePath);
+  fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+  fs.writeFileSync(targetPath, data);
+  files.push({ path: relativePath, size: data.length, sha256: sha256(data) });
+}
+
+function readManifest(snapshotDir: string): ISnapshotManifest {
+  const manifestPath = path.join(snapshotDir, MANIFEST_FILE);
+  if (!fs.existsSync(manifestPath)) {
+    throw new Error(`${manifestPath} not found`);
+  }
+
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  if (manifest.formatVersion !== MANIFEST_FORMAT_VERSION) {
+    throw new Error(`Unsupported snapshot format: ${manifest.formatVersion}`);
+  }
+  if (!Array.isArray(manifest.files)) {
+    throw new Error(`${manifestPath} has no file list`);
+  }
+  for (const file of manifest.files) {
+    // 清单可能被改动过，只接受 state/ 和 config/ 下的相对路径
+    const [rootName, ...segments] = typeof file?.path === 'string' ? file.path.split('/') : [];
+    const validPath = SNAPSHOT_ROOTS.some(root => root.name === rootName)
+      && segments.length > 0
+      && segments.every((segment: string) => segment !== '' && segment !== '.' && segment !== '..' && !segment.includes('\\'));
+    if (!validPath || typeof file.sha256 !== 'string') {
+      throw new Error(`${manifestPath} lists an invalid file: ${JSON.stringify(file)}`);
+    }
+  }
+  return manifest;
+}
+
+function resolveInSnapshot(snapshotDir: string, relativePath: string): string {
+  return path.join(snapshotDir, ...relativePath.split('/'));
+}
+
+// 锁住状态和配置文件，快照和恢复期间状态栏不会写入
+function withDataLocks<T>(fn: () => T): T {
+  const stateFile = path.join(getStateDir(), 'pet-state.json');
+  const configFile = path.join(getConfigDir(), 'config.json');
+  return withFileLock(stateFile, () => withFileLock(configFile, fn));
+}
+
+function isTransientFile(fileName: string): boolean {
+  return fileName.endsWith('.lock')
+    || fileName.endsWith('.tmp')
+    || fileName.endsWith('.pre-migration')
+    || fileName.includes('.backup.');
+}
+
+function listSnapshotNames(reason: SnapshotReason): string[] {
+  const backupsDir = getBackupsDir();
+  if (!fs.existsSync(backupsDir)) {
+    return [];
+  }
+  return fs.readdirSync(backupsDir)
+    .filter(name => parseSnapshotName(name)?.reason === reason)
+    .sort();
+}
+
+function parseSnapshotName(name: string): { createdAt: Date; reason: SnapshotReason } | undefined {
+  const match = SNAPSHOT_NAME_PATTERN.exec(name);
+  if (!match || !SNAPSHOT_REASONS.includes(match[7] as SnapshotReason)) {
+    return undefined;
+  }
+  const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(Number);
+  return {
+    createdAt: new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds)),
+    reason: match[7] as SnapshotReason
+  };
+}
+
+// 20250821-120000（UTC），按字典序排列即按时间排列
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+}
+
+function getUniqueSnapshotName(backupsDir: string, baseName: string): string {
+  let name = baseName;
+  for (let counter = 2; fs.existsSync(path.join(backupsDir, name)); counter++) {
+    name = `${baseName}-${counter}`;
+  }
+  return name;
+}
+
+function sha256(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
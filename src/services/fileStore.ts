@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+// 所有状态文件共用的持久化层：临时文件 + rename 原子写入，锁文件防止多个会话同时读改写
+
+export interface IFileLockOptions {
+  timeoutMs?: number; // 等待锁的最长时间，超时抛出错误
+  staleMs?: number; // 锁文件超过这个时间未释放，视为持有者已崩溃
+  retryMs?: number; // 重试间隔
+}
+
+const DEFAULT_LOCK_OPTIONS: Required<IFileLockOptions> = {
+  timeoutMs: 5000,
+  staleMs: 30000,
+  retryMs: 25
+};
+
+// 当前进程持有的锁，同一进程内嵌套加锁时直接执行，避免自己等自己
+const heldLocks = new Set<string>();
+
+export function getLockPath(filePath: string): string {
+  return `${filePath}.lock`;
+}
+
+// 先写同目录下的临时文件再 rename，崩溃时只会留下临时文件，目标文件始终是完整的旧版本或新版本（目录由调用方创建）
+export function writeFileAtomic(filePath: string, data: string): void {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, data, 'utf8');
+    fs.renameSync(tempPath, filePath);
+  } catch (error) {
+    try {
+      if (fs.existsSync(tempPath)) {
+        fs.unlinkSync(tempPath);
+      }
+    } catch {
+      // 清理失败不影响抛出原始错误
+    }
+    throw error;
+  }
+}
+
+// 在文件锁内执行 fn；锁文件记录持有者的 pid，持有者已退出或锁已过期时接管
+export function withFileLock<T>(filePath: string, fn: () => T, options: IFileLockOptions = {}): T {
+  const lockPath = getLockPath(filePath);
+  if (heldLocks.has(lockPath)) {
+    return fn();
+  }
+
+  acquireLock(lockPath, { ...DEFAULT_LOCK_OPTIONS, ...options });
+  heldLocks.add(lockPath);
+  try {
+    return fn();
+  } finally {
+    heldLocks.delete(lockPath);
+    releaseLock(lockPath);
+  }
+}
+
+// 读改写事务：锁内读取最新内容（文件不存在或损坏时为 null），原子写回 update 的返回值
+export function updateJsonFile<T>(filePath: string, update: (current: T | null) => T, options?: IFileLockOptions): T {
+  return withFileLock(filePath, () => {
+    const next = update(readJsonFile<T>(filePath));
+    writeFileAtomic(filePath, JSON.stringify(next, null, 2));
+    return next;
+  }, options);
+}
+
+export function readJsonFile<T>(filePath: string): T | null {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+  } catch (error) {
+    return null;
+  }
+}
+
+function acquireLock(lockPath: string, options: Required<IFileLockOptions>): void {
+  const deadline = Date.now() + options.timeoutMs;
+
+  for (;;) {
+    try {
+      // wx：文件已存在时失败，创建锁文件本身就是原子的
+      const fd = fs.openSync(lockPath, 'wx');
+      try {
+        fs.writeSync(fd, JSON.stringify({ pid: process.pid, hostname: os.hostname(), acquiredAt: new Date().toISOString() }));
+      } finally {
+        fs.closeSync(fd);
+      }
+      return;
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ENOENT') {
+        // 目录还不存在（首次运行），创建后重试
+        fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+        continue;
+      }
+      if (code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const staleOwner = readStaleLock(lockPath, options.staleMs);
+    if (staleOwner !== null) {
+      removeStaleLock(lockPath, staleOwner);
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for lock on ${lockPath}. Delete it if no other ccpet process is running.`);
+    }
+    sleepSync(options.retryMs);
+  }
+}
+
+function releaseLock(lockPath: string): void {
+  try {
+    fs.unlinkSync(lockPath);
+  } catch (error) {
+    console.error('Failed to release lock:', error);
+  }
+}
+
+// 锁已过期时返回锁文件的内容，供接管时确认仍是同一个锁；锁仍然有效时返回 null
+function readStaleLock(lockPath: string, staleMs: number): string | null {
+  try {
+    const stats = fs.statSync(lockPath);
+    const content = fs.readFileSync(lockPath, 'utf8');
+    if (Date.now() - stats.mtimeMs > staleMs) {
+      return content;
+    }
+
+    const owner = JSON.parse(content);
+    if (owner.hostname === os.hostname() && typeof owner.pid === 'number' && !isProcessAlive(owner.pid)) {
+      return content;
+    }
+    return null;
+  } catch (error) {
+    // 锁文件刚被释放（ENOENT）或正在写入，交给下一轮处理
+    return null;
+  }
+}
+
+// 多个等待者可能同时判断同一个锁已过期。先把锁文件改名为本进程独有的名字（只有一个进程能成功），
+// 再确认改名拿到的仍是判断时的那个锁；拿到的是其他进程刚创建的新锁时原样放回
+export function removeStaleLock(lockPath: string, staleOwner: string): void {
+  const claimedPath = `${lockPath}.${process.pid}.stale.tmp`;
+  try {
+    fs.renameSync(lockPath, claimedPath);
+  } catch {
+    // 其他进程已经接管了这个锁，下一轮重新竞争
+    return;
+  }
+
+  try {
+    if (fs.readFileSync(claimedPath, 'utf8') !== staleOwner) {
+      // link 在目标已存在时失败，不会覆盖第三个进程的锁
+      fs.linkSync(claimedPath, lockPath);
+    }
+  } catch (error) {
+    console.error('Failed to restore lock:', error);
+  } finally {
+    try {
+      fs.unlinkSync(claimedPath);
+    } catch {
+      // 清理失败不影响下一轮竞争
+    }
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM 表示进程存在但属于其他用户
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+// 状态栏脚本是同步流程，用 Atomics.wait 阻塞等待而不是忙等
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+// 所有持久化文件的目录都从这里解析，优先级：--home > CCPET_HOME > XDG 基础目录 > 旧版 ~/.claude-pet
+export interface IDataDirs {
+  configDir: string; // config.json 和 species/
+  stateDir: string; // 宠物状态、名册、墓地、日志、项目宠物和 token 追踪文件
+  cacheDir: string; // animation-counter.json 等删除后不影响宠物的文件
+}
+
+const APP_DIR_NAME = 'ccpet';
+const LEGACY_DIR_NAME = '.claude-pet';
+
+// 迁移旧目录时按条目名分配到配置/缓存目录，其余都属于状态目录
+const CONFIG_ENTRIES = ['config.json', 'species'];
+const CACHE_ENTRIES = ['animation-counter.json'];
+
+// --home 只对本次调用生效，不会迁移旧目录中的数据
+let homeOverride: string | undefined;
+const migratedTargets = new Set<string>();
+
+export function setHomeOverride(homeDir: string | undefined): void {
+  homeOverride = homeDir;
+}
+
+export function getLegacyDataDir(): string {
+  return path.join(os.homedir(), LEGACY_DIR_NAME);
+}
+
+export function resolveDataDirs(env: NodeJS.ProcessEnv = process.env): IDataDirs {
+  const home = homeOverride ?? env.CCPET_HOME;
+  if (home) {
+    const dir = path.resolve(home);
+    return { configDir: dir, stateDir: dir, cacheDir: dir };
+  }
+
+  // 只要设置了任意一个 XDG 变量就采用 XDG 布局，未设置的使用规范中的默认目录
+  const { XDG_CONFIG_HOME, XDG_STATE_HOME, XDG_CACHE_HOME } = env;
+  if (XDG_CONFIG_HOME || XDG_STATE_HOME || XDG_CACHE_HOME) {
+    const userHome = os.homedir();
+    return {
+      configDir: path.join(XDG_CONFIG_HOME || path.join(userHome, '.config'), APP_DIR_NAME),
+      stateDir: path.join(XDG_STATE_HOME || path.join(userHome, '.local', 'state'), APP_DIR_NAME),
+      cacheDir: path.join(XDG_CACHE_HOME || path.join(userHome, '.cache'), APP_DIR_NAME)
+    };
+  }
+
+  const legacyDir = getLegacyDataDir();
+  return { configDir: legacyDir, stateDir: legacyDir, cacheDir: legacyDir };
+}
+
+export function getConfigDir(): string {
+  return getDataDirs().configDir;
+}
+
+export function getStateDir(): string {
+  return getDataDirs().stateDir;
+}
+
+export function getCacheDir(): string {
+  return getDataDirs().cacheDir;
+}
+
+function getDataDirs(): IDataDirs {
+  const dirs = resolveDataDirs();
+  // --home 和 CCPET_HOME 是用户明确指定的独立目录（常用于临时试用），不接管默认目录中的数据；只有 XDG 布局会迁移旧目录
+  if (homeOverride !== undefined || process.env.CCPET_HOME) {
+    return dirs;
+  }
+  const key = `${dirs.configDir}\n${dirs.stateDir}\n${dirs.cacheDir}`;
+  // 每个进程对同一组目录只检查一次
+  if (!migratedTargets.has(key)) {
+    migratedTargets.add(key);
+    migrateLegacyData(dirs);
+  }
+  return dirs;
+}
+
+// 首次使用 XDG 目录时把旧目录中的数据移过去；新目录中已存在的条目保持不变，留在旧目录中
+export function migrateLegacyData(dirs: IDataDirs, legacyDir: string = getLegacyDataDir()): string[] {
+  const targets = [dirs.configDir, dirs.stateDir, dirs.cacheDir];
+  if (targets.every(dir => dir === legacyDir)) {
+    return [];
+  }
+
+  const moved: string[] = [];
+  try {
+    if (!fs.existsSync(legacyDir)) {
+      return moved;
+    }
+    // 新目录在旧目录内部时无法整体移动
+    if (targets.some(dir => dir === legacyDir || dir.startsWith(legacyDir + path.sep))) {
+      console.error(`Not moving ${legacyDir}: the ccpet data directory is inside it.`);
+      return moved;
+    }
+
+    for (const entry of fs.readdirSync(legacyDir)) {
+      // 锁文件和临时文件属于正在运行的进程，不迁移
+      if (entry.endsWith('.lock') || entry.endsWith('.tmp')) {
+        continue;
+      }
+
+      const targetDir = CONFIG_ENTRIES.includes(entry)
+        ? dirs.configDir
+        : CACHE_ENTRIES.includes(entry) ? dirs.cacheDir : dirs.stateDir;
+      const from = path.join(legacyDir, entry);
+      const to = path.join(targetDir, entry);
+      if (fs.existsSync(to)) {
+        continue;
+      }
+
+      try {
+        fs.mkdirSync(targetDir, { recursive: true });
+        copyThenRemove(from, to);
+        moved.push(to);
+      } catch (error) {
+        // 另一个进程可能已经移走了这个条目
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error(`Failed to move ${from}:`, error);
+        }
+      }
+    }
+
+    if (fs.readdirSync(legacyDir).length === 0) {
+      fs.rmdirSync(legacyDir);
+    }
+    if (moved.length > 0) {
+      // 状态栏只读取标准输出，提示写到标准错误
+      console.error(`Moved ${moved.length} item(s) from ${legacyDir} to the ccpet data directories.`);
+    }
+  } catch (error) {
+    console.error('Failed to migrate ccpet data directory:', error);
+  }
+  return moved;
+}
+
+// 先复制到目标旁的临时名再重命名到位，新位置完整写入后才删除旧条目；中途失败时旧目录中的数据保持不变
+function copyThenRemove(from: string, to: string): void {
+  const tempPath = `${to}.${process.pid}.migrating.tmp`;
+  try {
+    fs.cpSync(from, tempPath, { recursive: true });
+    fs.renameSync(tempPath, to);
+  } catch (error) {
+    fs.rmSync(tempPath, { recursive: true, force: true });
+    throw error;
+  }
+  fs.rmSync(from, { recursive: true, force: true });
+}
@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { getStateDir } from './paths';
+
+export interface IProjectPet {
+  key: string; // 目录名，形如 <项目名>-<路径哈希>
+  projectDir: string;
+  petDir: string; // 该项目的 pet-state.json 和 global-tracker.json 所在目录
+}
+
+const PROJECT_INFO_FILE = 'project.json';
+
+export function getProjectsDir(): string {
+  return path.join(getStateDir(), 'projects');
+}
+
+// 项目名便于辨认，路径哈希保证同名仓库互不冲突
+export function getProjectKey(projectDir: string): string {
+  const normalized = path.resolve(projectDir);
+  const hash = crypto.createHash('sha1').update(normalized).digest('hex').slice(0, 8);
+  const name = path.basename(normalized).replace(/[^a-zA-Z0-9_-]/g, '_').substring(0, 50) || 'root';
+  return `${name}-${hash}`;
+}
+
+// 返回项目宠物的存储目录；目录缺失或不存在时返回 undefined，由调用方回退到全局宠物
+export function resolveProjectPetDir(projectDir?: string): string | undefined {
+  if (!projectDir) {
+    return undefined;
+  }
+
+  try {
+    if (!fs.existsSync(projectDir) || !fs.statSync(projectDir).isDirectory()) {
+      return undefined;
+    }
+
+    const petDir = path.join(getProjectsDir(), getProjectKey(projectDir));
+    if (!fs.existsSync(petDir)) {
+      fs.mkdirSync(petDir, { recursive: true });
+    }
+
+    // 记录原始路径，供 ccpet pets list 显示
+    const infoFile = path.join(petDir, PROJECT_INFO_FILE);
+    if (!fs.existsSync(infoFile)) {
+      fs.writeFileSync(infoFile, JSON.stringify({ projectDir: path.resolve(projectDir) }, null, 2), 'utf8');
+    }
+
+    return petDir;
+  } catch (error) {
+    console.error('Failed to resolve project pet directory:', error);
+    return undefined;
+  }
+}
+
+// 命令行在项目的任意子目录中运行时，向上查找状态栏已为其创建宠物的项目目录；找不到时返回 undefined，由调用方回退到全局宠物
+export function findProjectDir(startDir: string = process.cwd()): string | undefined {
+  try {
+    let dir = path.resolve(startDir);
+    for (;;) {
+      if (fs.existsSync(path.join(getProjectsDir(), getProjectKey(dir)))) {
+        return dir;
+      }
+      const parent = path.dirname(dir);
+      if (parent === dir) {
+        return undefined;
+      }
+      dir = parent;
+    }
+  } catch (error) {
+    console.error('Failed to find project pet directory:', error);
+    return undefined;
+  }
+}
+
+export function listProjectPets(): IProjectPet[] {
+  const projectsDir = getProjectsDir();
+  const projects: IProjectPet[] = [];
+
+  try {
+    if (!fs.existsSync(projectsDir)) {
+      return projects;
+    }
+
+    for (const key of fs.readdirSync(projectsDir).sort()) {
+      const petDir = path.join(projectsDir, key);
+      const infoFile = path.join(petDir, PROJECT_INFO_FILE);
+      if (!fs.existsSync(infoFile)) {
+        continue;
+      }
+
+      try {
+        const info = JSON.parse(fs.readFileSync(infoFile, 'utf8'));
+        projects.push({ key, projectDir: info.projectDir || key, petDir });
+      } catch {
+        // 跳过损坏的项目记录
+      }
+    }
+  } catch (error) {
+    console.error('Failed to list project pets:', error);
+  }
+
+  return projects;
+}
@@ -0,0 +1,42 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SpeciesRegistry, createSpeciesRegistry } from '../core/species';
+import { getConfigDir } from './paths';
+
+export function getSpeciesDir(): string {
+  return path.join(getConfigDir(), 'species');
+}
+
+// 读取 species 目录下的 *.json，每个文件定义一个物种，键为文件名（不含扩展名）
+export function loadSpeciesFiles(speciesDir: string = getSpeciesDir()): Record<string, unknown> {
+  const definitions: Record<string, unknown> = {};
+
+  try {
+    if (!fs.existsSync(speciesDir)) {
+      return definitions;
+    }
+
+    for (const fileName of fs.readdirSync(speciesDir).sort()) {
+      if (!fileName.endsWith('.json')) {
+        continue;
+      }
+
+      const id = fileName.slice(0, -'.json'.length);
+      try {
+        definitions[id] = JSON.parse(fs.readFileSync(path.join(speciesDir, fileName), 'utf8'));
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Skipping species file ${fileName}: ${errorMessage}`);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load species files:', error);
+  }
+
+  return definitions;
+}
+
+// 内置动物 + species 目录 + config.json 的 species 段（同id时配置文件优先）
+export function loadSpeciesRegistry(configSpecies?: Record<string, unknown>): SpeciesRegistry {
+  return createSpeciesRegistry(loadSpeciesFiles(), configSpecies);
+}
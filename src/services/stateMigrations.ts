@@ -0,0 +1,115 @@
+import { PET_CONFIG, generateRandomPetName } from '../core/config';
+import { IClock } from '../core/Clock';
+import { IRandom } from '../core/Random';
+
+// 状态文件的版本化迁移：没有 schemaVersion 的旧文件视为版本 0，依次执行版本号更高的迁移
+export interface IMigrationContext {
+  clock: IClock;
+  random: IRandom;
+}
+
+export interface IStateMigration {
+  version: number; // 执行后状态达到的版本
+  description: string;
+  migrate: (state: Record<string, any>, context: IMigrationContext) => void; // 原地修改反序列化前的 JSON 对象
+}
+
+// 按版本号升序排列；新增字段时追加一条迁移，不要修改已发布的迁移
+export const STATE_MIGRATIONS: readonly IStateMigration[] = [
+  {
+    version: 1,
+    description: 'Add totalLifetimeTokens',
+    migrate: state => {
+      if (state.totalLifetimeTokens === undefined) {
+        state.totalLifetimeTokens = state.totalTokensConsumed || 0;
+      }
+    }
+  },
+  {
+    version: 2,
+    description: 'Add animalType',
+    migrate: state => {
+      if (state.animalType === undefined) {
+        // 为现有用户分配默认动物类型
+        state.animalType = PET_CONFIG.ANIMAL.DEFAULT_TYPE;
+        console.log(`Migrating existing pet to default animal type: ${state.animalType}`);
+      }
+    }
+  },
+  {
+    version: 3,
+    description: 'Add happiness and health',
+    migrate: state => {
+      if (state.happiness === undefined || state.health === undefined) {
+        // 旧版本只有能量，新增的属性从满值开始
+        state.happiness = state.happiness ?? PET_CONFIG.STATS.INITIAL_HAPPINESS;
+        state.health = state.health ?? PET_CONFIG.STATS.INITIAL_HEALTH;
+        console.log(`Adding happiness and health for existing pet: ${state.happiness}/${state.health}`);
+      }
+    }
+  },
+  {
+    version: 4,
+    description: 'Add birthTime',
+    migrate: (state, { clock }) => {
+      if (state.birthTime === undefined) {
+        // 没有诞生时间的旧宠物用上次喂食时间估算
+        state.birthTime = state.lastFeedTime || clock.now().toISOString();
+        console.log(`Adding birthTime for existing pet: ${new Date(state.birthTime).toISOString()}`);
+      }
+    }
+  },
+  {
+    version: 5,
+    description: 'Add petName',
+    migrate: (state, { random }) => {
+      if (state.petName === undefined || state.petName === '') {
+        state.petName = generateRandomPetName(random);
+        console.log(`Adding petName for existing pet: ${state.petName}`);
+      }
+    }
+  },
+  {
+    version: 6,
+    description: 'Add uuid',
+    migrate: (state, { random }) => {
+      if (state.uuid === undefined) {
+        state.uuid = random.uuid();
+        console.log(`Adding uuid for existing pet: ${state.uuid}`);
+      }
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = STATE_MIGRATIONS[STATE_MIGRATIONS.length - 1].version;
+
+export function getSchemaVersion(state: Record<string, any> | null): number {
+  return typeof state?.schemaVersion === 'number' ? state.schemaVersion : 0;
+}
+
+// 较新版本的 ccpet 写入的文件可能含有无法理解的字段，拒绝加载以免覆盖
+export function assertSupportedSchema(state: Record<string, any> | null, filePath: string): void {
+  const version = getSchemaVersion(state);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(
+      `${filePath} was saved by a newer version of ccpet (schema v${version}, this version supports up to v${CURRENT_SCHEMA_VERSION}). `
+      + 'Upgrade ccpet to keep using this pet.'
+    );
+  }
+}
+
+// 执行尚未应用的迁移并移除 schemaVersion，保存时再写入当前版本
+export function migrateState(
+  state: Record<string, any>,
+  context: IMigrationContext,
+  migrations: readonly IStateMigration[] = STATE_MIGRATIONS
+): Record<string, any> {
+  const fromVersion = getSchemaVersion(state);
+  for (const migration of migrations) {
+    if (migration.version > fromVersion) {
+      migration.migrate(state, context);
+    }
+  }
+  delete state.schemaVersion;
+  return state;
+}
@@ -1,31 +1,50 @@
 import { IPetState } from '../core/Pet';
 import { PET_CONFIG, validateLine1Items, Line1ItemType, getProcessedColors } from '../core/config';
-import { ConfigService } from '../services/ConfigService';
+import { getEvolutionProgress, resolveEvolutionStages } from '../core/evolution';
+import { getStreakStatus, resolveStreakSettings } from '../core/streaks';
+import { IAchievementRule } from '../core/achievements';
+import { IClock, systemClock } from '../core/Clock';
+import { ConfigService, IConfigSource } from '../services/ConfigService';
 
 export class StatusBarFormatter {
   private testMode: boolean;
-  private configService: ConfigService;
+  private configService: IConfigSource;
+  private clock: IClock;
 
-  constructor(testMode: boolean = false, configService?: ConfigService) {
+  constructor(testMode: boolean = false, configService?: IConfigSource, clock: IClock = systemClock) {
     this.testMode = testMode;
     this.configService = configService || new ConfigService();
+    this.clock = clock;
   }
 
   private getColors() {
     return this.testMode ? PET_CONFIG.COLORS : getProcessedColors(this.configService);
   }
 
-  public formatPetDisplay(state: IPetState, animatedExpression?: string): string {
+  public formatPetDisplay(
+    state: IPetState,
+    animatedExpression?: string,
+    sprite?: readonly string[],
+    unlockedAchievements?: readonly IAchievementRule[]
+  ): string {
     try {
       const config = this.configService.getConfig();
       const lines: string[] = [];
+      // 画像比 maxLines 高时回退到单行表情
+      const showSprite = sprite !== undefined && sprite.length > 0 && sprite.length <= (config.display.maxLines || 3);
       
       // Line 1: Configurable (with fallback to default behavior)
       if (config.display.line1?.enabled !== false && (config.display.maxLines || 3) >= 1) {
-        const line1 = config.display.line1?.items 
-          ? this.formatConfigurablePetLine(config.display.line1.items, state, animatedExpression)
-          : this.formatPetLine(state, animatedExpression); // Fallback for backward compatibility
-        lines.push(line1);
+        // 显示画像时由画像代替 expression 元素（包括默认的第1行）；只配置了 expression 时第1行只剩画像
+        const line1Items = showSprite
+          ? config.display.line1?.items?.filter(item => item !== 'expression')
+          : config.display.line1?.items;
+        if (!line1Items || line1Items.length > 0) {
+          const line1 = line1Items 
+            ? this.formatConfigurablePetLine(line1Items, state, animatedExpression)
+            : this.formatPetLine(state, animatedExpression, !showSprite); // Fallback for backward compatibility
+          lines.push(line1);
+        }
       }
       
       // Get available session data
@@ -47,7 +66,19 @@ export class StatusBarFormatter {
         }
       }
       
-      return lines.join(this.testMode ? '\n' : '\n');
+      const rows = showSprite ? this.placeSprite(sprite, lines) : lines;
+      
+      // 新解锁成就的提示只在本次渲染中显示：行数未满时追加一行，已达 maxLines 时替换最后一行
+      if (unlockedAchievements && unlockedAchievements.length > 0) {
+        const toast = this.formatAchievementToast(unlockedAchievements);
+        if (rows.length < (config.display.maxLines || 3)) {
+          rows.push(toast);
+        } else {
+          rows[rows.length - 1] = toast;
+        }
+      }
+      
+      return rows.join('\n');
     } catch (error) {
       console.error('Failed to format pet display:', error);
       console.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace');
@@ -55,7 +86,33 @@ export class StatusBarFormatter {
     }
   }
 
-  private formatPetLine(state: IPetState, animatedExpression?: string): string {
+  // 画像放在左侧，右侧信息行从第一行开始排列，画像列按最宽的一行补齐空格
+  private placeSprite(sprite: readonly string[], lines: string[]): string[] {
+    const width = Math.max(...sprite.map(line => line.length));
+    const rowCount = Math.max(sprite.length, lines.length);
+    const colors = this.getColors();
+    const rows: string[] = [];
+
+    for (let i = 0; i < rowCount; i++) {
+      const art = (sprite[i] ?? '').padEnd(width);
+      const text = lines[i];
+      const coloredArt = this.testMode ? art : `${colors.PET_EXPRESSION}${art}${colors.RESET}`;
+      rows.push(text ? `${coloredArt} ${text}` : (this.testMode ? art.trimEnd() : coloredArt));
+    }
+
+    return rows;
+  }
+
+  private formatAchievementToast(achievements: readonly IAchievementRule[]): string {
+    const toast = `🏆 Achievement unlocked: ${achievements.map(rule => `${rule.emoji} ${rule.name}`).join(', ')}`;
+    if (this.testMode) {
+      return toast;
+    }
+    const colors = this.getColors();
+    return `${colors.ACHIEVEMENT}${toast}${colors.RESET}`;
+  }
+
+  private formatPetLine(state: IPetState, animatedExpression?: string, showExpression: boolean = true): string {
     const energyBar = this.generateEnergyBar(state.energy);
     const energyValue = state.energy.toFixed(2);
     const tokensDisplay = this.formatTokenCount(state.accumulatedTokens);
@@ -63,10 +120,12 @@ export class StatusBarFormatter {
     const displayExpression = animatedExpression || state.expression;
     
     if (this.testMode) {
-      return `${displayExpression} ${energyBar} ${energyValue} (${tokensDisplay}) 💖${lifetimeTokensDisplay}`;
+      const stats = `${energyBar} ${energyValue} (${tokensDisplay}) 💖${lifetimeTokensDisplay}`;
+      return showExpression ? `${displayExpression} ${stats}` : stats;
     } else {
       const colors = this.getColors();
-      return `${colors.PET_EXPRESSION}${displayExpression}${colors.RESET} ${colors.ENERGY_BAR}${energyBar}${colors.RESET} ${colors.ENERGY_VALUE}${energyValue}${colors.RESET} ${colors.ACCUMULATED_TOKENS}(${tokensDisplay})${colors.RESET} ${colors.LIFETIME_TOKENS}💖${lifetimeTokensDisplay}${colors.RESET}`;
+      const expressionPart = showExpression ? `${colors.PET_EXPRESSION}${displayExpression}${colors.RESET} ` : '';
+      return `${expressionPart}${colors.ENERGY_BAR}${energyBar}${colors.RESET} ${colors.ENERGY_VALUE}${energyValue}${colors.RESET} ${colors.ACCUMULATED_TOKENS}(${tokensDisplay})${colors.RESET} ${colors.LIFETIME_TOKENS}💖${lifetimeTokensDisplay}${colors.RESET}`;
     }
   }
 
@@ -109,6 +168,8 @@ export class StatusBarFormatter {
     const energyValue = state.energy.toFixed(2);
     const tokensDisplay = this.formatTokenCount(state.accumulatedTokens);
     const lifetimeTokensDisplay = this.formatTokenCount(state.totalLifetimeTokens);
+    const evolution = getEvolutionProgress(state.totalLifetimeTokens || 0, this.getEvolutionStages());
+    const streak = this.getStreakStatus(state);
     const colors = this.getColors();
 
     return {
@@ -135,10 +196,60 @@ export class StatusBarFormatter {
       'pet-name': {
         value: state.petName || 'Pet',
         color: colors.PET_NAME
+      },
+      'stage': {
+        value: `${evolution.current.emoji}${evolution.current.name}`,
+        color: colors.STAGE
+      },
+      'stage-progress': {
+        value: evolution.next ? `⬆${(evolution.progress * 100).toFixed(1)}%` : '⬆MAX',
+        color: colors.STAGE_PROGRESS
+      },
+      'happiness': {
+        value: `😊${Math.round(state.happiness ?? PET_CONFIG.STATS.INITIAL_HAPPINESS)}`,
+        color: colors.HAPPINESS
+      },
+      'health': {
+        value: `🩺${Math.round(state.health ?? PET_CONFIG.STATS.INITIAL_HEALTH)}`,
+        color: colors.HEALTH
+      },
+      'streak': {
+        value: `🔥${streak.current}`,
+        color: colors.STREAK
+      },
+      'daily-goal': {
+        value: `🎯${this.generateGoalBar(streak.goalProgress)} ${Math.floor(streak.goalProgress * 100)}%`,
+        color: colors.DAILY_GOAL
       }
     };
   }
 
+  private getStreakStatus(state: IPetState) {
+    let settings;
+    try {
+      const config = this.configService.getConfig();
+      settings = resolveStreakSettings(config.pet?.streaks, config.pet?.schedule?.timeZone);
+    } catch (error) {
+      settings = resolveStreakSettings();
+    }
+    return getStreakStatus(state.streak, this.clock.now(), settings);
+  }
+
+  private generateGoalBar(progress: number): string {
+    const filledBars = Math.round(progress * PET_CONFIG.STREAKS.GOAL_BAR_LENGTH);
+    return PET_CONFIG.FILLED_BAR_CHAR.repeat(filledBars) +
+      PET_CONFIG.EMPTY_BAR_CHAR.repeat(PET_CONFIG.STREAKS.GOAL_BAR_LENGTH - filledBars);
+  }
+
+  private getEvolutionStages() {
+    try {
+      const config = this.configService.getConfig();
+      return resolveEvolutionStages(config.pet?.evolutionThresholds);
+    } catch (error) {
+      return resolveEvolutionStages();
+    }
+  }
+
   private getSessionData(state: IPetState): Record<string, { value: string; color: string }> {
     const sessionData: Record<string, { value: string; color: string }> = {};
     const colors = this.getColors();
@@ -2,6 +2,8 @@ import { describe, it, expect, vi } from 'vitest';
 import { StatusBarFormatter } from '../StatusBar';
 import { IPetState } from '../../core/Pet';
 import { ConfigService } from '../../services/ConfigService';
+import { FixedClock } from '../../core/Clock';
+import { ACHIEVEMENTS } from '../../core/achievements';
 
 describe('StatusBarFormatter Component', () => {
   const createMockPetState = (overrides: Partial<IPetState> = {}): IPetState => ({
@@ -252,6 +254,101 @@ describe('StatusBarFormatter Component', () => {
       expect(result).toBe('TestPet (^_^)');
     });
 
+    it('should display evolution stage and progress items in line1', () => {
+      const mockConfigService = createMockConfigService();
+      mockConfigService.getConfig = vi.fn().mockReturnValue({
+        display: {
+          maxLines: 1,
+          line1: { enabled: true, items: ['expression', 'stage', 'stage-progress'] }
+        }
+      });
+      const formatter = new StatusBarFormatter(true, mockConfigService);
+
+      const testState = createMockPetState({ totalLifetimeTokens: 30000000 });
+
+      expect(formatter.formatPetDisplay(testState)).toBe('(^_^) 🌱Juvenile ⬆50.0%');
+    });
+
+    it('should display happiness and health items in line1', () => {
+      const mockConfigService = createMockConfigService();
+      mockConfigService.getConfig = vi.fn().mockReturnValue({
+        display: {
+          maxLines: 1,
+          line1: { enabled: true, items: ['expression', 'happiness', 'health'] }
+        }
+      });
+      const formatter = new StatusBarFormatter(true, mockConfigService);
+
+      expect(formatter.formatPetDisplay(createMockPetState({ happiness: 64.6, health: 30.2 }))).toBe('(^_^) 😊65 🩺30');
+      expect(formatter.formatPetDisplay(createMockPetState())).toBe('(^_^) 😊100 🩺100');
+    });
+
+    it('should display the feeding streak and daily goal in line1', () => {
+      const mockConfigService = createMockConfigService();
+      mockConfigService.getConfig = vi.fn().mockReturnValue({
+        pet: { streaks: { dailyGoal: 500000, timeZone: 'Asia/Shanghai' } },
+        display: {
+          maxLines: 1,
+          line1: { enabled: true, items: ['expression', 'streak', 'daily-goal'] }
+        }
+      });
+      // 2024-01-02 09:00 in Shanghai
+      const formatter = new StatusBarFormatter(true, mockConfigService, new FixedClock(new Date('2024-01-02T01:00:00Z')));
+      const streak = { day: '2024-01-02', dayTokens: 300000, current: 4, longest: 9, lastQualifiedDay: '2024-01-02' };
+
+      expect(formatter.formatPetDisplay(createMockPetState({ streak }))).toBe('(^_^) 🔥4 🎯●●●○○ 60%');
+      expect(formatter.formatPetDisplay(createMockPetState())).toBe('(^_^) 🔥0 🎯○○○○○ 0%');
+    });
+
+    it('should add a toast line for newly unlocked achievements', () => {
+      const mockConfigService = createMockConfigService();
+      mockConfigService.getConfig = vi.fn().mockReturnValue({
+        display: {
+          maxLines: 2,
+          line1: { enabled: true, items: ['expression'] }
+        }
+      });
+      const formatter = new StatusBarFormatter(true, mockConfigService);
+      const unlocked = ACHIEVEMENTS.filter(rule => rule.id === 'first-million' || rule.id === 'streak-7');
+
+      expect(formatter.formatPetDisplay(createMockPetState(), undefined, undefined, unlocked))
+        .toBe('(^_^)\n🏆 Achievement unlocked: 💎 Millionaire, 🔥 Habit Former');
+      expect(formatter.formatPetDisplay(createMockPetState(), undefined, undefined, [])).toBe('(^_^)');
+    });
+
+    it('should replace the last line with the toast when already at maxLines', () => {
+      const mockConfigService = createMockConfigService();
+      mockConfigService.getConfig = vi.fn().mockReturnValue({
+        display: {
+          maxLines: 2,
+          line1: { enabled: true, items: ['expression'] },
+          line2: { enabled: true, items: ['input'] }
+        }
+      });
+      const formatter = new StatusBarFormatter(true, mockConfigService);
+      const unlocked = ACHIEVEMENTS.filter(rule => rule.id === 'first-million');
+      const state = createMockPetState({ sessionTotalInputTokens: 1000 });
+
+      expect(formatter.formatPetDisplay(state, undefined, undefined, unlocked))
+        .toBe('(^_^)\n🏆 Achievement unlocked: 💎 Millionaire');
+    });
+
+    it('should show max progress for legendary pets and respect custom thresholds', () => {
+      const mockConfigService = createMockConfigService();
+      mockConfigService.getConfig = vi.fn().mockReturnValue({
+        pet: { evolutionThresholds: { juvenile: 100, adult: 200, elder: 500, legendary: 1000 } },
+        display: {
+          maxLines: 1,
+          line1: { enabled: true, items: ['stage', 'stage-progress'] }
+        }
+      });
+      const formatter = new StatusBarFormatter(true, mockConfigService);
+
+      const testState = createMockPetState({ totalLifetimeTokens: 1000 });
+
+      expect(formatter.formatPetDisplay(testState)).toBe('👑Legendary ⬆MAX');
+    });
+
     it('should maintain backward compatibility when line1 is not configured', () => {
       const mockConfigService = createMockConfigService();
       mockConfigService.getConfig = vi.fn().mockReturnValue({
@@ -302,6 +399,88 @@ describe('StatusBarFormatter Component', () => {
     });
   });
 
+  describe('sprites', () => {
+    const sprite = [' /\\_/\\ ', '( ^.^ )', ' > ^ < '];
+    const createSpriteConfigService = (maxLines: number) => {
+      const mockConfigService = createMockConfigService();
+      mockConfigService.getConfig = vi.fn().mockReturnValue({
+        display: {
+          maxLines,
+          line1: { enabled: true, items: ['expression', 'energy-bar', 'energy-value'] },
+          line2: { enabled: true, items: ['input', 'output'] }
+        }
+      });
+      return mockConfigService;
+    };
+    const testState = createMockPetState({
+      energy: 75,
+      sessionTotalInputTokens: 2500,
+      sessionTotalOutputTokens: 1500
+    });
+
+    it('should place the sprite left of the info lines and replace the expression', () => {
+      const formatter = new StatusBarFormatter(true, createSpriteConfigService(3));
+
+      const result = formatter.formatPetDisplay(testState, '(^_^)', sprite);
+
+      expect(result.split('\n')).toEqual([
+        ' /\\_/\\  ●●●●●●●●○○ 75.00',
+        '( ^.^ ) Input: 2.5K Output: 1.5K',
+        ' > ^ <'
+      ]);
+    });
+
+    it('should pad every sprite row to the widest line', () => {
+      const formatter = new StatusBarFormatter(true, createSpriteConfigService(3));
+
+      const result = formatter.formatPetDisplay(testState, '(^_^)', ['  ^  ', '<(o.o)>', ' / \\']);
+
+      expect(result.split('\n').slice(0, 2)).toEqual([
+        '  ^     ●●●●●●●●○○ 75.00',
+        '<(o.o)> Input: 2.5K Output: 1.5K'
+      ]);
+    });
+
+    it('should leave the expression out of the default line 1 when showing a sprite', () => {
+      const mockConfigService = createMockConfigService();
+      mockConfigService.getConfig = vi.fn().mockReturnValue({ display: { maxLines: 3 } });
+      const formatter = new StatusBarFormatter(true, mockConfigService);
+
+      const result = formatter.formatPetDisplay(testState, '(^_^)', sprite);
+
+      expect(result.split('\n')[0]).toBe(' /\\_/\\  ●●●●●●●●○○ 75.00 (0) 💖5');
+      expect(result).not.toContain('(^_^)');
+    });
+
+    it('should show only the sprite on line 1 when line 1 is configured with just the expression', () => {
+      const mockConfigService = createMockConfigService();
+      mockConfigService.getConfig = vi.fn().mockReturnValue({
+        display: {
+          maxLines: 3,
+          line1: { enabled: true, items: ['expression'] },
+          line2: { enabled: true, items: ['input', 'output'] }
+        }
+      });
+      const formatter = new StatusBarFormatter(true, mockConfigService);
+
+      const result = formatter.formatPetDisplay(testState, '(^_^)', sprite);
+
+      expect(result.split('\n')).toEqual([
+        ' /\\_/\\  Input: 2.5K Output: 1.5K',
+        '( ^.^ )',
+        ' > ^ <'
+      ]);
+    });
+
+    it('should fall back to the kaomoji when maxLines is smaller than the sprite', () => {
+      const formatter = new StatusBarFormatter(true, createSpriteConfigService(2));
+
+      const result = formatter.formatPetDisplay(testState, '(^_^)', sprite);
+
+      expect(result).toBe('(^_^) ●●●●●●●●○○ 75.00\nInput: 2.5K Output: 1.5K');
+    });
+  });
+
   describe('generateEnergyBar', () => {
     it('should generate full energy bar for 100% energy', () => {
       const mockConfigService = createMockConfigService();
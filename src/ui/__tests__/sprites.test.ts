@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { renderSprite, SPRITE_TEMPLATES, SPRITE_FACES } from '../sprites';
+import { AnimalType } from '../../core/config';
+
+describe('Sprites', () => {
+  it('should define a 3-5 line sprite with a face slot for every animal type', () => {
+    for (const animalType of Object.values(AnimalType)) {
+      const template = SPRITE_TEMPLATES[animalType];
+
+      expect(template.length).toBeGreaterThanOrEqual(3);
+      expect(template.length).toBeLessThanOrEqual(5);
+      expect(template.filter(line => line.includes('{face}'))).toHaveLength(1);
+    }
+  });
+
+  it('should fill in the face for the mood and animation frame', () => {
+    expect(renderSprite(AnimalType.CAT, 'HAPPY', 1)).toEqual([' /\\_/\\ ', '( ^o^ )', ' > ^ < ']);
+    expect(renderSprite(AnimalType.CAT, 'DEAD', 0)?.[1]).toBe('( x.x )');
+    expect(renderSprite(AnimalType.CAT, 'SLEEP', 0)?.[1]).toBe('( -.- )');
+  });
+
+  it('should cycle through the frames', () => {
+    const frames = SPRITE_FACES.HUNGRY.length;
+
+    expect(renderSprite(AnimalType.FOX, 'HUNGRY', frames + 1)).toEqual(renderSprite(AnimalType.FOX, 'HUNGRY', 1));
+  });
+
+  it('should return undefined for species without a sprite', () => {
+    expect(renderSprite('dragon', 'HAPPY')).toBeUndefined();
+  });
+});
@@ -0,0 +1,54 @@
+import { AnimalType, PetMood } from '../core/config';
+
+// 睡眠时使用单独的表情，其余与宠物心情一致
+export type SpriteMood = PetMood | 'SLEEP';
+
+// 各动物的3行ASCII画（默认 display.maxLines 即可显示），{face} 处填入当前心情的表情帧（每帧3个字符宽）
+export const SPRITE_TEMPLATES: Record<AnimalType, readonly string[]> = {
+  [AnimalType.CAT]: [
+    ' /\\_/\\ ',
+    '( {face} )',
+    ' > ^ < '
+  ],
+  [AnimalType.DOG]: [
+    ' /^ ^\\ ',
+    '/ {face} \\',
+    ' V\\_/V '
+  ],
+  [AnimalType.RABBIT]: [
+    ' (\\_/) ',
+    ' ({face}) ',
+    ' (")(") '
+  ],
+  [AnimalType.PANDA]: [
+    '(o)_(o)',
+    ' ({face}) ',
+    ' (___) '
+  ],
+  [AnimalType.FOX]: [
+    ' /|_/| ',
+    '<({face})>',
+    '  \\v/  '
+  ]
+};
+
+// 每种心情的表情动画帧
+export const SPRITE_FACES: Record<SpriteMood, readonly string[]> = {
+  HAPPY: ['^.^', '^o^', '^.^', '^v^'],
+  HUNGRY: ['o.o', 'O.O', 'o.o', '-.-'],
+  SICK: ['u.u', 'T.T', 'u.u', '>.<'],
+  DEAD: ['x.x', 'X.X', 'x.x', '+.+'],
+  SLEEP: ['-.-', '-.-', '-.-', '-_-']
+};
+
+// 返回当前帧的多行画像；没有画像的物种（如自定义物种）返回 undefined，调用方回退到单行表情
+export function renderSprite(animalType: string, mood: SpriteMood, frameIndex: number = 0): string[] | undefined {
+  const template = SPRITE_TEMPLATES[animalType as AnimalType];
+  if (!template) {
+    return undefined;
+  }
+
+  const faces = SPRITE_FACES[mood];
+  const face = faces[frameIndex % faces.length];
+  return template.map(line => line.replace('{face}', face));
+}
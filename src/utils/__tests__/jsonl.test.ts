@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { getTokenMetrics } from '../jsonl';
+import { getTokenMetrics, FileTokenTracker } from '../jsonl';
 import * as fs from 'fs';
 import * as readline from 'readline';
 
@@ -31,7 +31,10 @@ describe('getTokenMetrics', () => {
       inputTokens: 0,
       outputTokens: 0,
       cachedTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
       totalTokens: 0,
+      usageByModel: {},
       sessionTotalInputTokens: 0,
       sessionTotalOutputTokens: 0,
       sessionTotalCachedTokens: 0,
@@ -67,7 +70,10 @@ describe('getTokenMetrics', () => {
       inputTokens: 300, // 100 + 200
       outputTokens: 125, // 50 + 75
       cachedTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
       totalTokens: 425,  // 300 + 125
+      usageByModel: { unknown: { inputTokens: 300, outputTokens: 125, cacheCreationTokens: 0, cacheReadTokens: 0 } },
       sessionTotalInputTokens: 300,
       sessionTotalOutputTokens: 125,
       sessionTotalCachedTokens: 0,
@@ -102,7 +108,10 @@ describe('getTokenMetrics', () => {
       inputTokens: 300, // 100 + 200
       outputTokens: 125, // 50 + 75
       cachedTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
       totalTokens: 425,
+      usageByModel: { unknown: { inputTokens: 300, outputTokens: 125, cacheCreationTokens: 0, cacheReadTokens: 0 } },
       sessionTotalInputTokens: 300,
       sessionTotalOutputTokens: 125,
       sessionTotalCachedTokens: 0,
@@ -136,7 +145,10 @@ describe('getTokenMetrics', () => {
       inputTokens: 50,
       outputTokens: 25,
       cachedTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
       totalTokens: 75,
+      usageByModel: { unknown: { inputTokens: 50, outputTokens: 25, cacheCreationTokens: 0, cacheReadTokens: 0 } },
       sessionTotalInputTokens: 50,
       sessionTotalOutputTokens: 25,
       sessionTotalCachedTokens: 0,
@@ -170,7 +182,10 @@ describe('getTokenMetrics', () => {
       inputTokens: 100, // Only first message has input_tokens
       outputTokens: 75, // 50 + 25
       cachedTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
       totalTokens: 175,
+      usageByModel: { unknown: { inputTokens: 100, outputTokens: 75, cacheCreationTokens: 0, cacheReadTokens: 0 } },
       sessionTotalInputTokens: 100,
       sessionTotalOutputTokens: 75,
       sessionTotalCachedTokens: 0,
@@ -190,7 +205,10 @@ describe('getTokenMetrics', () => {
       inputTokens: 0,
       outputTokens: 0,
       cachedTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
       totalTokens: 0,
+      usageByModel: {},
       sessionTotalInputTokens: 0,
       sessionTotalOutputTokens: 0,
       sessionTotalCachedTokens: 0,
@@ -220,7 +238,10 @@ describe('getTokenMetrics', () => {
       inputTokens: 0,
       outputTokens: 0,
       cachedTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
       totalTokens: 0,
+      usageByModel: {},
       sessionTotalInputTokens: 0,
       sessionTotalOutputTokens: 0,
       sessionTotalCachedTokens: 0,
@@ -253,11 +274,98 @@ describe('getTokenMetrics', () => {
       inputTokens: 300, // 100 + 200
       outputTokens: 125, // 50 + 75
       cachedTokens: 55, // 25 + 30
+      cacheCreationTokens: 25,
+      cacheReadTokens: 30,
       totalTokens: 480, // 300 + 125 + 55
+      usageByModel: { unknown: { inputTokens: 300, outputTokens: 125, cacheCreationTokens: 25, cacheReadTokens: 30 } },
       sessionTotalInputTokens: 300,
       sessionTotalOutputTokens: 125,
       sessionTotalCachedTokens: 55,
       contextLength: 230 // 200 input + 30 cache_read from uuid2
     });
   });
-});
\ No newline at end of file
+
+  it('should split token usage by model', async () => {
+    const mockLines = [
+      '{"type": "assistant", "uuid": "uuid1", "message": {"model": "claude-opus-4-1", "usage": {"input_tokens": 10, "output_tokens": 20, "cache_read_input_tokens": 1000}}}',
+      '{"type": "assistant", "uuid": "uuid2", "message": {"model": "claude-sonnet-4", "usage": {"input_tokens": 5, "output_tokens": 5, "cache_creation_input_tokens": 40}}}',
+      '{"type": "assistant", "uuid": "uuid3", "message": {"model": "claude-opus-4-1", "usage": {"input_tokens": 1, "output_tokens": 2}}}'
+    ];
+
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.createReadStream).mockReturnValue({} as any);
+
+    const mockInterface = {
+      [Symbol.asyncIterator]: async function* () {
+        for (const line of mockLines) {
+          yield line;
+        }
+      }
+    };
+
+    vi.mocked(readline.createInterface).mockReturnValue(mockInterface as any);
+
+    const result = await getTokenMetrics(mockTranscriptPath);
+
+    expect(result.cacheCreationTokens).toBe(40);
+    expect(result.cacheReadTokens).toBe(1000);
+    expect(result.usageByModel).toEqual({
+      'claude-opus-4-1': { inputTokens: 11, outputTokens: 22, cacheCreationTokens: 0, cacheReadTokens: 1000 },
+      'claude-sonnet-4': { inputTokens: 5, outputTokens: 5, cacheCreationTokens: 40, cacheReadTokens: 0 }
+    });
+  });
+
+  it('should read and update the given tracker file', async () => {
+    const trackerFile = '/mock/home/.claude-pet/projects/repo-1234abcd/global-tracker.json';
+    const mockLines = [
+      '{"type": "assistant", "uuid": "uuid1", "timestamp": "2025-08-21T12:00:00.000Z", "message": {"usage": {"input_tokens": 10, "output_tokens": 20}}}'
+    ];
+
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({
+      lastProcessedTimestamp: '2025-08-21T11:00:00.000Z',
+      totalProcessedTokens: 0
+    }));
+    vi.mocked(fs.createReadStream).mockReturnValue({} as any);
+    vi.mocked(readline.createInterface).mockReturnValue({
+      [Symbol.asyncIterator]: async function* () {
+        for (const line of mockLines) {
+          yield line;
+        }
+      }
+    } as any);
+
+    await getTokenMetrics(mockTranscriptPath, false, new FileTokenTracker(trackerFile));
+
+    expect(fs.readFileSync).toHaveBeenCalledWith(trackerFile, 'utf8');
+    expect(fs.writeFileSync).toHaveBeenCalledWith(`${trackerFile}.${process.pid}.tmp`, expect.stringContaining('2025-08-21T12:00:00.000Z'), 'utf8');
+    expect(fs.renameSync).toHaveBeenCalledWith(`${trackerFile}.${process.pid}.tmp`, trackerFile);
+  });
+
+  it('should add to the tracker saved by a parallel session instead of overwriting it', async () => {
+    const trackerFile = '/mock/home/.claude-pet/global-tracker.json';
+    const mockLines = [
+      '{"type": "assistant", "uuid": "uuid1", "timestamp": "2025-08-21T12:00:00.000Z", "message": {"usage": {"input_tokens": 10, "output_tokens": 20}}}'
+    ];
+
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync)
+      .mockReturnValueOnce(JSON.stringify({ lastProcessedTimestamp: '2025-08-21T11:00:00.000Z', totalProcessedTokens: 100 }))
+      // 锁内重新读取时，另一个会话已经写入了更新的时间戳
+      .mockReturnValueOnce(JSON.stringify({ lastProcessedTimestamp: '2025-08-21T13:00:00.000Z', totalProcessedTokens: 400 }));
+    vi.mocked(fs.createReadStream).mockReturnValue({} as any);
+    vi.mocked(readline.createInterface).mockReturnValue({
+      [Symbol.asyncIterator]: async function* () {
+        for (const line of mockLines) {
+          yield line;
+        }
+      }
+    } as any);
+
+    const result = await getTokenMetrics(mockTranscriptPath, false, new FileTokenTracker(trackerFile));
+
+    expect(result.totalTokens).toBe(30);
+    const saved = JSON.parse(vi.mocked(fs.writeFileSync).mock.calls[0][1] as string);
+    expect(saved).toEqual({ lastProcessedTimestamp: '2025-08-21T13:00:00.000Z', totalProcessedTokens: 430 });
+  });
+});
@@ -1,23 +1,36 @@
 import * as fs from 'fs';
 import * as readline from 'readline';
 import * as path from 'path';
+import { ITokenUsage } from '../core/feeding';
+import { readJsonFile, updateJsonFile } from '../services/fileStore';
+import { getStateDir } from '../services/paths';
 
 export interface TokenMetrics {
   inputTokens: number;
   outputTokens: number;
-  cachedTokens: number;
+  cachedTokens: number; // cacheCreationTokens + cacheReadTokens
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
   totalTokens: number;
+  usageByModel: Record<string, ITokenUsage>; // 本次新增token按模型拆分，用于加权喂食
   sessionTotalInputTokens: number;
   sessionTotalOutputTokens: number;
   sessionTotalCachedTokens: number;
   contextLength: number; // Current context length in tokens (from most recent message)
 }
 
-interface GlobalTracker {
+export interface GlobalTracker {
   lastProcessedTimestamp: string;
   totalProcessedTokens: number;
 }
 
+// 记录已经喂过的最后一条消息；默认保存在 global-tracker.json，存储后端也可以自己保存（见 IPetRepository.getTokenTracker）
+export interface ITokenTracker {
+  load(): GlobalTracker | null;
+  // 累加本次处理的 token，时间戳只前进不后退
+  record(lastProcessedTimestamp: string, processedTokens: number): void;
+}
+
 export interface ClaudeCodeMessage {
   type: string;
   model?: string;
@@ -36,6 +49,7 @@ export interface ClaudeCodeMessage {
     text?: string;
   }>;
   message?: {
+    model?: string;
     usage?: {
       input_tokens: number;
       output_tokens: number;
@@ -45,43 +59,69 @@ export interface ClaudeCodeMessage {
   };
 }
 
-const GLOBAL_TRACKER_FILE = path.join(process.env.HOME || '', '.claude-pet', 'global-tracker.json');
+const UNKNOWN_MODEL = 'unknown';
 
-function loadGlobalTracker(): GlobalTracker | null {
-  try {
-    if (!fs.existsSync(GLOBAL_TRACKER_FILE)) {
-      return null;
-    }
-    const data = fs.readFileSync(GLOBAL_TRACKER_FILE, 'utf8');
-    return JSON.parse(data);
-  } catch (error) {
-    return null;
-  }
+// 并行会话各自的 token 都会计入，时间戳只前进不后退
+export function advanceTracker(current: GlobalTracker | null, lastProcessedTimestamp: string, processedTokens: number): GlobalTracker {
+  const currentTimestamp = current ? new Date(current.lastProcessedTimestamp).getTime() : 0;
+  return {
+    lastProcessedTimestamp: new Date(lastProcessedTimestamp).getTime() > currentTimestamp
+      ? lastProcessedTimestamp
+      : current!.lastProcessedTimestamp,
+    totalProcessedTokens: (current?.totalProcessedTokens || 0) + processedTokens
+  };
 }
 
-function saveGlobalTracker(tracker: GlobalTracker): void {
-  try {
-    const dir = path.dirname(GLOBAL_TRACKER_FILE);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
+export class FileTokenTracker implements ITokenTracker {
+  constructor(private readonly trackerFile: string = path.join(getStateDir(), 'global-tracker.json')) {}
+
+  public load(): GlobalTracker | null {
+    return readJsonFile<GlobalTracker>(this.trackerFile);
+  }
+
+  // 锁内重新读取追踪文件再更新
+  public record(lastProcessedTimestamp: string, processedTokens: number): void {
+    try {
+      updateJsonFile<GlobalTracker>(this.trackerFile, current => advanceTracker(current, lastProcessedTimestamp, processedTokens));
+    } catch (error) {
+      console.error('Failed to save global tracker:', error);
     }
-    
-    fs.writeFileSync(GLOBAL_TRACKER_FILE, JSON.stringify(tracker, null, 2));
-  } catch (error) {
-    console.error('Failed to save global tracker:', error);
   }
 }
 
+function createEmptyMetrics(): TokenMetrics {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cachedTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    totalTokens: 0,
+    usageByModel: {},
+    sessionTotalInputTokens: 0,
+    sessionTotalOutputTokens: 0,
+    sessionTotalCachedTokens: 0,
+    contextLength: 0
+  };
+}
+
 /**
  * Processes a JSONL transcript file to extract INCREMENTAL token metrics
  * Only processes new messages since last run based on global timestamp
  * @param transcriptPath Path to the JSONL transcript file
  * @param isResumedConversation Whether this is a resumed conversation (total_cost_usd = 0)
+ * @param tracker Tracker holding the last processed timestamp (per-project pets keep their own)
  */
-export async function getTokenMetrics(transcriptPath: string, isResumedConversation: boolean = false): Promise<TokenMetrics> {
+export async function getTokenMetrics(
+  transcriptPath: string,
+  isResumedConversation: boolean = false,
+  tracker: ITokenTracker = new FileTokenTracker()
+): Promise<TokenMetrics> {
   let inputTokens = 0;
   let outputTokens = 0;
-  let cachedTokens = 0;
+  let cacheCreationTokens = 0;
+  let cacheReadTokens = 0;
+  const usageByModel: Record<string, ITokenUsage> = {};
   let sessionTotalInputTokens = 0;
   let sessionTotalOutputTokens = 0;
   let sessionTotalCachedTokens = 0;
@@ -90,21 +130,12 @@ export async function getTokenMetrics(transcriptPath: string, isResumedConversat
 
   try {
     if (!fs.existsSync(transcriptPath)) {
-      return { 
-        inputTokens: 0, 
-        outputTokens: 0, 
-        cachedTokens: 0,
-        totalTokens: 0,
-        sessionTotalInputTokens: 0,
-        sessionTotalOutputTokens: 0,
-        sessionTotalCachedTokens: 0,
-        contextLength: 0
-      };
+      return createEmptyMetrics();
     }
 
     // Load global tracker to find last processed timestamp
-    const tracker = loadGlobalTracker();
-    const lastGlobalTimestamp = tracker ? new Date(tracker.lastProcessedTimestamp).getTime() : 0;
+    const trackerState = tracker.load();
+    const lastGlobalTimestamp = trackerState ? new Date(trackerState.lastProcessedTimestamp).getTime() : 0;
     
     // If this is a resumed conversation, don't process any tokens for feeding
     // but still calculate session totals and context length
@@ -194,9 +225,22 @@ export async function getTokenMetrics(transcriptPath: string, isResumedConversat
 
       // Process this message for incremental tokens
       if (usage) {
+        const model = message.model || message.message?.model || UNKNOWN_MODEL;
+        const modelUsage = usageByModel[model] ||= {
+          inputTokens: 0,
+          outputTokens: 0,
+          cacheCreationTokens: 0,
+          cacheReadTokens: 0
+        };
+        modelUsage.inputTokens += usage.input_tokens || 0;
+        modelUsage.outputTokens += usage.output_tokens || 0;
+        modelUsage.cacheCreationTokens += usage.cache_creation_input_tokens || 0;
+        modelUsage.cacheReadTokens += usage.cache_read_input_tokens || 0;
+        
         inputTokens += usage.input_tokens || 0;
         outputTokens += usage.output_tokens || 0;
-        cachedTokens += (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0);
+        cacheCreationTokens += usage.cache_creation_input_tokens || 0;
+        cacheReadTokens += usage.cache_read_input_tokens || 0;
       }
 
       // Update tracking info - keep track of the latest timestamp
@@ -212,23 +256,23 @@ export async function getTokenMetrics(transcriptPath: string, isResumedConversat
     // Save updated global tracker - only if we have a newer timestamp and not a resumed conversation
     if (lastProcessedTimestamp && shouldProcessTokensForFeeding) {
       const newTimestamp = new Date(lastProcessedTimestamp).getTime();
-      const currentTimestamp = tracker ? new Date(tracker.lastProcessedTimestamp).getTime() : 0;
+      const currentTimestamp = trackerState ? new Date(trackerState.lastProcessedTimestamp).getTime() : 0;
       
       // Only update if the new timestamp is actually newer than the stored one
       if (newTimestamp > currentTimestamp) {
-        const newTracker: GlobalTracker = {
-          lastProcessedTimestamp,
-          totalProcessedTokens: (tracker?.totalProcessedTokens || 0) + inputTokens + outputTokens + cachedTokens
-        };
-        saveGlobalTracker(newTracker);
+        tracker.record(lastProcessedTimestamp, inputTokens + outputTokens + cacheCreationTokens + cacheReadTokens);
       }
     }
 
+    const cachedTokens = cacheCreationTokens + cacheReadTokens;
     return {
       inputTokens,
       outputTokens,
       cachedTokens,
+      cacheCreationTokens,
+      cacheReadTokens,
       totalTokens: inputTokens + outputTokens + cachedTokens,
+      usageByModel,
       sessionTotalInputTokens,
       sessionTotalOutputTokens,
       sessionTotalCachedTokens,
@@ -236,15 +280,6 @@ export async function getTokenMetrics(transcriptPath: string, isResumedConversat
     };
   } catch (error) {
     console.error('Failed to process JSONL transcript:', error);
-    return { 
-      inputTokens: 0, 
-      outputTokens: 0, 
-      cachedTokens: 0,
-      totalTokens: 0,
-      sessionTotalInputTokens: 0,
-      sessionTotalOutputTokens: 0,
-      sessionTotalCachedTokens: 0,
-      contextLength: 0
-    };
+    return createEmptyMetrics();
   }
 }
\ No newline at end of file